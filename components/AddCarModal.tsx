@@ -29,7 +29,8 @@ export const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSuc
         nextServiceDate: '',
         imageUrl: '',
         inWorkshop: false,
-        assignedUserId: ''
+        assignedUserId: '',
+        seats: ''
     });
 
     React.useEffect(() => {
@@ -110,7 +111,8 @@ export const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSuc
                 fuelType: formData.fuelType,
                 nextServiceDate: formData.nextServiceDate || undefined,
                 inWorkshop: formData.inWorkshop,
-                assignedUserId: formData.assignedUserId || undefined
+                assignedUserId: formData.assignedUserId || undefined,
+                seats: formData.seats !== '' ? Number(formData.seats) : undefined
             });
 
             // Success feedback with toast-style notification
@@ -129,7 +131,8 @@ export const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSuc
                 nextServiceDate: '',
                 imageUrl: '',
                 inWorkshop: false,
-                assignedUserId: ''
+                assignedUserId: '',
+                seats: ''
             });
         } catch (error) {
             console.error(error);
@@ -219,14 +222,27 @@ export const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSuc
                                 </div>
                             </div>
 
-                            <div>
-                                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Próxima Revisión (Opcional)</label>
-                                <input
-                                    type="date"
-                                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none [color-scheme:light] dark:[color-scheme:dark]"
-                                    value={formData.nextServiceDate}
-                                    onChange={e => setFormData({ ...formData, nextServiceDate: e.target.value })}
-                                />
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Próxima Revisión (Opcional)</label>
+                                    <input
+                                        type="date"
+                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none [color-scheme:light] dark:[color-scheme:dark]"
+                                        value={formData.nextServiceDate}
+                                        onChange={e => setFormData({ ...formData, nextServiceDate: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Plazas (Opcional)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        placeholder="5"
+                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none placeholder-zinc-400 dark:placeholder-zinc-600"
+                                        value={formData.seats}
+                                        onChange={e => setFormData({ ...formData, seats: e.target.value })}
+                                    />
+                                </div>
                             </div>
 
                             <div>
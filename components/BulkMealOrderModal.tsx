@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Lock, Check, Minus, Clock, CalendarRange } from 'lucide-react';
+import { MealOrder, MealTemplate, MealTemplateSet, UserAbsence, KitchenConfig, Holiday } from '../types';
+import { mealService } from '../services/meals';
+import { kitchenService } from '../services/kitchen';
+import { absencesService } from '../services/absences';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealOptionBadge } from './MealOptionBadge';
+import { planBulkOrder, BulkCell } from '../utils/bulkMealOrders';
+import { shiftDate } from '../utils/mealLocks';
+
+interface BulkMealOrderModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    userId: string;
+    initialDate: Date;
+    onApplied: () => void;
+}
+
+type MealType = MealOrder['mealType'];
+
+const MEALS: { id: MealType; name: string }[] = [
+    { id: 'breakfast', name: 'Desayuno' },
+    { id: 'lunch', name: 'Comida' },
+    { id: 'dinner', name: 'Cena' }
+];
+
+const MAX_DAYS = 62;
+
+export const BulkMealOrderModal: React.FC<BulkMealOrderModalProps> = ({ isOpen, onClose, userId, initialDate, onApplied }) => {
+    const { options } = useMealOptions();
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [mealTypes, setMealTypes] = useState<MealType[]>(['lunch', 'dinner']);
+    const [optionId, setOptionId] = useState('skip');
+    const [bagTime, setBagTime] = useState('14:00');
+
+    const [orders, setOrders] = useState<MealOrder[]>([]);
+    const [templates, setTemplates] = useState<MealTemplate[]>([]);
+    const [templateSets, setTemplateSets] = useState<MealTemplateSet[]>([]);
+    const [absences, setAbsences] = useState<UserAbsence[]>([]);
+    const [locks, setLocks] = useState<{ date: string; isLocked: boolean }[]>([]);
+    const [config, setConfig] = useState<KitchenConfig | null>(null);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            const start = format(initialDate, 'yyyy-MM-dd');
+            setStartDate(start);
+            setEndDate(shiftDate(start, 6));
+            setError('');
+        }
+    }, [isOpen]);
+
+    const rangeDays = startDate && endDate ? differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 : 0;
+    const rangeValid = rangeDays > 0 && rangeDays <= MAX_DAYS;
+
+    useEffect(() => {
+        if (!isOpen || !rangeValid) return;
+
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                // The previous day's deadline decides breakfast and day_before options
+                const [ordersData, templatesData, templateSetsData, absencesData, locksData, configData, holidaysData] = await Promise.all([
+                    mealService.getMyOrders(startDate, endDate),
+                    mealService.getMyTemplates(),
+                    mealService.getMyTemplateSets(),
+                    absencesService.getAbsencesInRange(startDate, endDate),
+                    kitchenService.getLocksInRange(shiftDate(startDate, -1), endDate),
+                    kitchenService.getConfig(),
+                    kitchenService.getHolidays()
+                ]);
+                setOrders(ordersData);
+                setTemplates(templatesData);
+                setTemplateSets(templateSetsData);
+                setAbsences(absencesData.filter(a => a.userId === userId));
+                setLocks(locksData);
+                setConfig(configData);
+                setHolidays(holidaysData);
+            } catch (err: any) {
+                setError(err.message || 'Error al cargar los pedidos');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, [isOpen, startDate, endDate, userId]);
+
+    const selectableOptions = options.filter(o => o.isActive && mealTypes.some(m => o.mealTypes.includes(m)));
+    const option = options.find(o => o.id === optionId);
+
+    const cells: BulkCell[] = useMemo(() => {
+        if (!rangeValid || !option || mealTypes.length === 0) return [];
+        return planBulkOrder({
+            userId,
+            startDate,
+            endDate,
+            mealTypes,
+            option,
+            bagTime: option.isBag ? bagTime : null,
+            orders,
+            templates,
+            templateSets,
+            absences,
+            options,
+            lockContext: { config, holidays, locks, now: new Date() }
+        });
+    }, [rangeValid, startDate, endDate, mealTypes, option, bagTime, orders, templates, templateSets, absences, options, config, holidays, locks, userId]);
+
+    const toApply = cells.filter(c => c.status === 'apply');
+    const lockedCount = cells.filter(c => c.status === 'locked').length;
+
+    const toggleMeal = (mealType: MealType) => {
+        setMealTypes(prev => prev.includes(mealType) ? prev.filter(m => m !== mealType) : [...prev, mealType]);
+    };
+
+    const handleApply = async () => {
+        if (!option || toApply.length === 0) return;
+
+        setIsSaving(true);
+        setError('');
+        try {
+            await mealService.upsertOrders(userId, toApply.map(c => ({
+                date: c.date,
+                mealType: c.mealType,
+                option: option.id,
+                isBag: option.isBag,
+                bagTime: option.isBag ? bagTime : null
+            })));
+            onApplied();
+            onClose();
+        } catch (err: any) {
+            setError(err.message || 'Error al guardar los pedidos');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const dates = [...new Set(cells.map(c => c.date))];
+
+    const renderCell = (cell?: BulkCell) => {
+        if (!cell) return <td className="p-1" />;
+
+        const styles: Record<BulkCell['status'], string> = {
+            apply: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400',
+            unchanged: 'bg-zinc-50 dark:bg-zinc-800/50 text-zinc-400',
+            locked: 'bg-rose-50 dark:bg-rose-900/20 text-rose-500',
+            unavailable: 'bg-zinc-50 dark:bg-zinc-800/50 text-zinc-300 dark:text-zinc-600'
+        };
+        const Icon = cell.status === 'apply' ? Check : cell.status === 'locked' ? Lock : Minus;
+
+        return (
+            <td className="p-1">
+                <div className={`flex items-center justify-center h-8 rounded-lg ${styles[cell.status]}`} title={cell.message}>
+                    <Icon size={14} />
+                </div>
+            </td>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                {/* Header */}
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <CalendarRange size={20} className="text-zinc-500" />
+                        <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">Pedido por fechas</h3>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    {/* Range */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs font-medium text-zinc-500 space-y-1">
+                            <span>Desde</span>
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={e => setStartDate(e.target.value)}
+                                className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                        <label className="text-xs font-medium text-zinc-500 space-y-1">
+                            <span>Hasta</span>
+                            <input
+                                type="date"
+                                value={endDate}
+                                min={startDate}
+                                onChange={e => setEndDate(e.target.value)}
+                                className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                    </div>
+                    {!rangeValid && startDate && endDate && (
+                        <p className="text-xs text-rose-500">
+                            {rangeDays <= 0 ? 'La fecha final debe ser posterior a la inicial' : `Como máximo ${MAX_DAYS} días`}
+                        </p>
+                    )}
+
+                    {/* Meals */}
+                    <div className="flex gap-2">
+                        {MEALS.map(meal => (
+                            <button
+                                key={meal.id}
+                                onClick={() => toggleMeal(meal.id)}
+                                className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${mealTypes.includes(meal.id)
+                                    ? 'border-zinc-900 dark:border-white bg-zinc-50 dark:bg-zinc-800 text-zinc-900 dark:text-white'
+                                    : 'border-zinc-200 dark:border-zinc-700 text-zinc-500'
+                                    }`}
+                            >
+                                {meal.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Option */}
+                    <div className="flex flex-wrap gap-2">
+                        {selectableOptions.map(o => (
+                            <button
+                                key={o.id}
+                                onClick={() => setOptionId(o.id)}
+                                className={`rounded-lg transition-all ${optionId === o.id ? 'ring-2 ring-zinc-900 dark:ring-white ring-offset-2 dark:ring-offset-zinc-900' : 'opacity-70 hover:opacity-100'}`}
+                                title={o.label}
+                            >
+                                <MealOptionBadge option={o} showIcon className="px-3 py-1.5 rounded-lg font-semibold text-sm" />
+                            </button>
+                        ))}
+                    </div>
+
+                    {option?.isBag && (
+                        <div className="flex items-center gap-3">
+                            <Clock size={16} className="text-zinc-400" />
+                            <input
+                                type="time"
+                                value={bagTime}
+                                onChange={e => setBagTime(e.target.value)}
+                                className="flex-1 p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </div>
+                    )}
+
+                    {/* Preview */}
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-zinc-900 dark:border-white"></div>
+                        </div>
+                    ) : dates.length > 0 && (
+                        <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+                            <div className="max-h-64 overflow-y-auto">
+                                <table className="w-full text-xs">
+                                    <thead className="sticky top-0 bg-zinc-50 dark:bg-zinc-900">
+                                        <tr>
+                                            <th className="p-2 text-left font-medium text-zinc-500">Día</th>
+                                            {MEALS.filter(m => mealTypes.includes(m.id)).map(m => (
+                                                <th key={m.id} className="p-2 font-medium text-zinc-500">{m.name}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dates.map(date => (
+                                            <tr key={date} className="border-t border-zinc-100 dark:border-zinc-800">
+                                                <td className="p-2 text-zinc-700 dark:text-zinc-300 capitalize whitespace-nowrap">
+                                                    {format(parseISO(date), 'EEE d MMM', { locale: es })}
+                                                </td>
+                                                {MEALS.filter(m => mealTypes.includes(m.id)).map(m => (
+                                                    <React.Fragment key={m.id}>
+                                                        {renderCell(cells.find(c => c.date === date && c.mealType === m.id))}
+                                                    </React.Fragment>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 text-xs text-zinc-600 dark:text-zinc-400 flex flex-wrap gap-x-4 gap-y-1">
+                                <span className="flex items-center gap-1"><Check size={12} className="text-emerald-500" /> {toApply.length} se cambian</span>
+                                <span className="flex items-center gap-1"><Lock size={12} className="text-rose-500" /> {lockedCount} cerrados, se omiten</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-zinc-200 dark:border-zinc-800 flex gap-3">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2.5 rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 font-medium text-sm transition-colors"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={isSaving || isLoading || toApply.length === 0}
+                        className="flex-1 px-4 py-2.5 rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 font-medium text-sm transition-colors shadow-sm disabled:opacity-50"
+                    >
+                        {isSaving ? 'Guardando...' : `Aplicar a ${toApply.length}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
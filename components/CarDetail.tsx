@@ -1,8 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { hasAdminAccess } from '../utils/permissions';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Car, CarStatus, Reservation, User, ActivityLog } from '../types';
-import { X, ArrowLeft, Pencil, AlertTriangle, CheckCircle, Wrench, Car as CarIcon, MessageSquare, History } from 'lucide-react';
+import { Car, CarStatus, Reservation, User, SeriesScope, ReservationReturn } from '../types';
+import { X, ArrowLeft, Pencil, AlertTriangle, CheckCircle, Wrench, Car as CarIcon, MessageSquare, History, Gauge, Fuel, BatteryCharging } from 'lucide-react';
 import { format, isBefore, isAfter, addDays, startOfDay, endOfDay, differenceInMinutes, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
@@ -10,28 +10,48 @@ import { reservationService } from '../services/reservations';
 import { carService } from '../services/cars';
 
 // Sub-components
-import { BookingForm } from './car-detail/BookingForm';
+import { BookingForm, SCOPE_OPTIONS } from './car-detail/BookingForm';
 import { ActiveReservations } from './car-detail/ActiveReservations';
 import { HistoryList } from './car-detail/HistoryList';
 import { EditCarForm } from './car-detail/EditCarForm';
+import { ReturnCheckInForm } from './car-detail/ReturnCheckInForm';
+import { ActivityTrail } from './car-detail/ActivityTrail';
+import { ServiceLog } from './car-detail/ServiceLog';
 
 interface CarDetailProps {
   car: Car;
   reservations: Reservation[];
-  activity: ActivityLog[];
   currentUser: User;
   onClose: () => void;
   onUpdate: () => void;
 }
 
-export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activity = [], currentUser, onClose, onUpdate }) => {
+export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, currentUser, onClose, onUpdate }) => {
   useBodyScrollLock(true);
 
   // View State
-  const [currentView, setCurrentView] = useState<'DETAILS' | 'EDIT' | 'ACTIVITY'>('DETAILS');
+  const [currentView, setCurrentView] = useState<'DETAILS' | 'EDIT' | 'ACTIVITY' | 'RETURN' | 'SERVICE'>('DETAILS');
   const [editingReservationId, setEditingReservationId] = useState<string | null>(null);
+  const [returningReservationId, setReturningReservationId] = useState<string | null>(null);
+
+  // Return check-ins, keyed by reservation
+  const [returns, setReturns] = useState<Record<string, ReservationReturn>>({});
+
+  const fetchReturns = async () => {
+    try {
+      const data = await reservationService.getReturns(car.id);
+      setReturns(Object.fromEntries(data.map(r => [r.reservationId, r])));
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+  }, [car.id]);
 
   // Activity Filter State
+  const [activityTab, setActivityTab] = useState<'RESERVATIONS' | 'LOG'>('RESERVATIONS');
   const [activityFilter, setActivityFilter] = useState({
     startDate: '',
     endDate: ''
@@ -50,10 +70,12 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
     isOpen: boolean;
     title: string;
     message: string;
-    onConfirm: () => Promise<void>;
+    onConfirm: (scope: SeriesScope) => Promise<void>;
     confirmText?: string;
     isDangerous?: boolean;
+    askScope?: boolean; // Recurring reservation: choose which occurrences are affected
   } | null>(null);
+  const [confirmationScope, setConfirmationScope] = useState<SeriesScope>('THIS');
 
   // Derived State
   const now = new Date();
@@ -73,6 +95,8 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
     );
   }, [reservations, now]);
 
+  const returningReservation = reservations.find(r => r.id === returningReservationId);
+
   const activeReservations = useMemo(() => {
     const nowTime = new Date().getTime();
     return reservations
@@ -106,16 +130,21 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
 
   // Handlers
   const handleCancelReservation = async (reservationId: string) => {
+    const isSeries = !!reservations.find(r => r.id === reservationId)?.seriesId;
+    setConfirmationScope('THIS');
     setConfirmation({
       isOpen: true,
       title: 'Cancelar reserva',
-      message: '¿Estás seguro de que quieres cancelar esta reserva?',
+      message: isSeries
+        ? 'Esta reserva forma parte de una serie periódica. ¿Qué reservas quieres cancelar?'
+        : '¿Estás seguro de que quieres cancelar esta reserva?',
       confirmText: 'Sí, cancelar',
       isDangerous: true,
-      onConfirm: async () => {
+      askScope: isSeries,
+      onConfirm: async (scope) => {
         try {
-          await reservationService.cancelReservation(reservationId, currentUser.id);
-          showToast('Reserva cancelada', 'success');
+          await reservationService.cancelReservation(reservationId, currentUser.id, scope);
+          showToast(scope === 'THIS' ? 'Reserva cancelada' : 'Reservas de la serie canceladas', 'success');
           onUpdate();
         } catch (e) {
           showToast('Error al cancelar: ' + (e as Error).message, 'error');
@@ -124,22 +153,9 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
     });
   };
 
-  const handleFinishReservation = async (reservationId: string) => {
-    setConfirmation({
-      isOpen: true,
-      title: 'Finalizar reserva',
-      message: '¿Finalizar reserva ahora? Esto actualizará la hora de fin al momento actual.',
-      confirmText: 'Sí, finalizar',
-      onConfirm: async () => {
-        try {
-          await reservationService.finishReservation(reservationId);
-          showToast('Reserva finalizada', 'success');
-          onUpdate();
-        } catch (e) {
-          showToast('Error al finalizar: ' + (e as Error).message, 'error');
-        }
-      }
-    });
+  const handleFinishReservation = (reservationId: string) => {
+    setReturningReservationId(reservationId);
+    setCurrentView('RETURN');
   };
 
   const handleDeleteCar = async () => {
@@ -245,7 +261,7 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
 
                 <div>
                   <motion.h2 layoutId={`title-${car.id}`} className="text-xl font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
-                    {currentView === 'EDIT' ? 'Editar Coche' : currentView === 'ACTIVITY' ? 'Historial de Actividad' : car.name}
+                    {currentView === 'EDIT' ? 'Editar Coche' : currentView === 'ACTIVITY' ? 'Historial de Actividad' : currentView === 'RETURN' ? 'Devolver Coche' : currentView === 'SERVICE' ? 'Mantenimiento' : car.name}
                   </motion.h2>
 
                   {currentView === 'DETAILS' && (
@@ -254,6 +270,18 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                         <span className="text-sm text-zinc-500 dark:text-zinc-400 font-mono">{car.plate}</span>
                         <StatusIndicator />
                       </div>
+                      {(car.odometerKm !== undefined || car.fuelLevel !== undefined) && (
+                        <div className="flex items-center gap-3 mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                          {car.odometerKm !== undefined && (
+                            <span className="flex items-center gap-1"><Gauge size={12} /> {car.odometerKm.toLocaleString('es-ES')} km</span>
+                          )}
+                          {car.fuelLevel !== undefined && (
+                            <span className="flex items-center gap-1">
+                              {car.fuelType === 'electric' ? <BatteryCharging size={12} /> : <Fuel size={12} />} {car.fuelLevel}%
+                            </span>
+                          )}
+                        </div>
+                      )}
                       {isServiceDueSoon && !car.inWorkshop && (
                         <div className="mt-2 flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400 font-medium">
                           <AlertTriangle size={12} />
@@ -342,6 +370,7 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                   </div>
                   <HistoryList
                     reservations={pastReservations.slice(0, 3)}
+                    returns={returns}
                     currentUser={currentUser}
                     onUpdate={onUpdate}
                     onShowToast={showToast}
@@ -349,6 +378,26 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                     emptyMessage="No hay historial reciente"
                   />
                 </section>
+
+                {/* Maintenance */}
+                <section>
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                      <Wrench size={16} /> Mantenimiento
+                    </h3>
+                    <button
+                      onClick={() => setCurrentView('SERVICE')}
+                      className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors"
+                    >
+                      {hasAdminAccess(currentUser, 'vehicles') ? 'Gestionar' : 'Ver historial'}
+                    </button>
+                  </div>
+                  {car.nextServiceDate && (
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-2">
+                      Próximo vencimiento: {format(parseISO(car.nextServiceDate), 'd MMM yyyy', { locale: es })}
+                    </p>
+                  )}
+                </section>
               </>
             )}
 
@@ -365,6 +414,35 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
               />
             )}
 
+            {/* RETURN CHECK-IN VIEW */}
+            {currentView === 'RETURN' && returningReservation && (
+              <ReturnCheckInForm
+                car={car}
+                reservation={returningReservation}
+                onSubmitted={() => {
+                  setReturningReservationId(null);
+                  setCurrentView('DETAILS');
+                  fetchReturns();
+                  onUpdate();
+                }}
+                onCancel={() => {
+                  setReturningReservationId(null);
+                  setCurrentView('DETAILS');
+                }}
+                onShowToast={showToast}
+              />
+            )}
+
+            {/* SERVICE LOG VIEW */}
+            {currentView === 'SERVICE' && (
+              <ServiceLog
+                car={car}
+                isAdmin={hasAdminAccess(currentUser, 'vehicles')}
+                onUpdate={onUpdate}
+                onShowToast={showToast}
+              />
+            )}
+
             {/* ACTIVITY VIEW */}
             {currentView === 'ACTIVITY' && (
               <div className="space-y-4">
@@ -390,17 +468,47 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                   </div>
                 </div>
 
-                <div className="space-y-4">
-                  <h3 className="text-sm font-semibold text-zinc-900 dark:text-white">Historial de Reservas</h3>
-                  <HistoryList
-                    reservations={historyReservations}
-                    currentUser={currentUser}
-                    onUpdate={onUpdate}
-                    onShowToast={showToast}
-                    compact={false}
-                    emptyMessage="No hay reservas pasadas"
-                  />
+                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                  <button
+                    onClick={() => setActivityTab('RESERVATIONS')}
+                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${activityTab === 'RESERVATIONS'
+                      ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                      : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                      }`}
+                  >
+                    Reservas
+                  </button>
+                  <button
+                    onClick={() => setActivityTab('LOG')}
+                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${activityTab === 'LOG'
+                      ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                      : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                      }`}
+                  >
+                    Registro de actividad
+                  </button>
                 </div>
+
+                {activityTab === 'RESERVATIONS' ? (
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-zinc-900 dark:text-white">Historial de Reservas</h3>
+                    <HistoryList
+                      reservations={historyReservations}
+                      returns={returns}
+                      currentUser={currentUser}
+                      onUpdate={onUpdate}
+                      onShowToast={showToast}
+                      compact={false}
+                      emptyMessage="No hay reservas pasadas"
+                    />
+                  </div>
+                ) : (
+                  <ActivityTrail
+                    carId={car.id}
+                    startDate={activityFilter.startDate || undefined}
+                    endDate={activityFilter.endDate || undefined}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -451,6 +559,23 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                   {confirmation.message}
                 </p>
 
+                {confirmation.askScope && (
+                  <div className="space-y-2 mb-6">
+                    {SCOPE_OPTIONS.map(opt => (
+                      <label key={opt.value} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="confirmation-scope"
+                          checked={confirmationScope === opt.value}
+                          onChange={() => setConfirmationScope(opt.value)}
+                          className="text-zinc-900 dark:text-white focus:ring-zinc-900 dark:focus:ring-white"
+                        />
+                        {opt.label}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex gap-3">
                   <button
                     onClick={() => setConfirmation(null)}
@@ -460,7 +585,7 @@ export const CarDetail: React.FC<CarDetailProps> = ({ car, reservations, activit
                   </button>
                   <button
                     onClick={() => {
-                      confirmation.onConfirm();
+                      confirmation.onConfirm(confirmation.askScope ? confirmationScope : 'THIS');
                       setConfirmation(null);
                     }}
                     className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors shadow-sm ${confirmation.isDangerous
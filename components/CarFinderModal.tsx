@@ -0,0 +1,207 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { addMinutes, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Search, Star, Users, Fuel, Zap, CheckCircle } from 'lucide-react';
+import { Car, Reservation, User } from '../types';
+import { reservationService, ReservationConflictError } from '../services/reservations';
+import { findAvailableCars } from '../utils/carAvailability';
+import { DateTimeSelector } from './DateTimeSelector';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+
+interface CarFinderModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: User;
+    cars: Car[];
+    reservations: Reservation[];
+    favorites: string[];
+    onBooked: () => void;
+}
+
+const FUEL_LABELS: Record<Car['fuelType'], string> = {
+    gasoline: 'Gasolina',
+    diesel: 'Diésel',
+    electric: 'Eléctrico',
+};
+
+export const CarFinderModal: React.FC<CarFinderModalProps> = ({
+    isOpen,
+    onClose,
+    user,
+    cars,
+    reservations,
+    favorites,
+    onBooked
+}) => {
+    useBodyScrollLock(isOpen);
+    const [startDate, setStartDate] = useState(new Date());
+    const [endDate, setEndDate] = useState(addMinutes(new Date(), 120));
+    const [fuelType, setFuelType] = useState<Car['fuelType'] | ''>('');
+    const [passengers, setPassengers] = useState('');
+    const [bookingCarId, setBookingCarId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isValidWindow = endDate > startDate;
+
+    const results = useMemo(() => {
+        if (!isValidWindow) return [];
+        return findAvailableCars(cars, reservations, {
+            window: { start: startDate, end: endDate },
+            fuelType: fuelType || undefined,
+            minSeats: passengers !== '' ? Number(passengers) : undefined
+        }, favorites);
+    }, [cars, reservations, favorites, startDate, endDate, fuelType, passengers, isValidWindow]);
+
+    const handleBook = async (car: Car) => {
+        setBookingCarId(car.id);
+        setError(null);
+        try {
+            await reservationService.createReservation({
+                carId: car.id,
+                userId: user.id,
+                startTime: startDate.toISOString(),
+                endTime: endDate.toISOString(),
+                notes: ''
+            });
+            onBooked();
+            onClose();
+        } catch (e) {
+            if (e instanceof ReservationConflictError) {
+                // Someone took it since the list was loaded; refresh so it drops out of the results
+                setError(`${car.name}: ${e.message}`);
+                onBooked();
+            } else {
+                setError('Error al reservar: ' + (e as Error).message);
+            }
+        } finally {
+            setBookingCarId(null);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="absolute inset-0 bg-black/20 backdrop-blur-sm"
+                    />
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="relative w-full h-full sm:h-auto sm:max-h-[90vh] max-w-md bg-white dark:bg-zinc-900 sm:rounded-xl shadow-xl overflow-hidden flex flex-col border border-zinc-200 dark:border-zinc-800"
+                    >
+                        <div className="flex items-center justify-between p-4 border-b border-zinc-100 dark:border-zinc-800">
+                            <h3 className="font-semibold text-zinc-900 dark:text-white flex items-center gap-2 text-sm">
+                                <Search size={16} /> Buscar coche libre
+                            </h3>
+                            <button onClick={onClose} className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full text-zinc-400 dark:text-zinc-500 transition-colors">
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="p-4 space-y-3 overflow-y-auto">
+                            <DateTimeSelector
+                                label="Inicio"
+                                value={startDate}
+                                onChange={setStartDate}
+                                minDate={new Date()}
+                            />
+                            <DateTimeSelector
+                                label="Fin"
+                                value={endDate}
+                                onChange={setEndDate}
+                                minDate={startDate}
+                                error={!isValidWindow ? 'La hora de fin debe ser posterior a la de inicio' : undefined}
+                            />
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Combustible</label>
+                                    <select
+                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                                        value={fuelType}
+                                        onChange={e => setFuelType(e.target.value as Car['fuelType'] | '')}
+                                    >
+                                        <option value="">Cualquiera</option>
+                                        <option value="gasoline">Gasolina</option>
+                                        <option value="diesel">Diésel</option>
+                                        <option value="electric">Eléctrico</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Personas (con conductor)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        placeholder="Cualquiera"
+                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none placeholder-zinc-400 dark:placeholder-zinc-600"
+                                        value={passengers}
+                                        onChange={e => setPassengers(e.target.value)}
+                                    />
+                                </div>
+                            </div>
+
+                            {error && (
+                                <p className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 rounded-lg px-3 py-2">
+                                    {error}
+                                </p>
+                            )}
+
+                            <div className="pt-2">
+                                <p className="text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-2">
+                                    {isValidWindow
+                                        ? `${results.length} ${results.length === 1 ? 'coche libre' : 'coches libres'} · ${format(startDate, 'd MMM, HH:mm', { locale: es })} → ${format(endDate, 'd MMM, HH:mm', { locale: es })}`
+                                        : 'Elige un horario válido'}
+                                </p>
+
+                                {isValidWindow && results.length === 0 && (
+                                    <p className="text-xs text-zinc-400 dark:text-zinc-500 py-6 text-center">
+                                        No hay ningún coche libre con esos requisitos
+                                    </p>
+                                )}
+
+                                <div className="space-y-2">
+                                    {results.map(car => (
+                                        <div key={car.id} className="flex items-center gap-3 p-2 rounded-lg border border-zinc-100 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50">
+                                            <img src={car.imageUrl} alt={car.name} className="w-14 h-10 object-cover rounded-md bg-zinc-200 dark:bg-zinc-700" />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-xs font-medium text-zinc-900 dark:text-white truncate flex items-center gap-1">
+                                                    {favorites.includes(car.id) && <Star size={11} className="text-amber-400 fill-amber-400 shrink-0" />}
+                                                    {car.name}
+                                                </p>
+                                                <p className="text-[10px] text-zinc-500 dark:text-zinc-400 flex items-center gap-2">
+                                                    <span className="font-mono">{car.plate}</span>
+                                                    <span className="flex items-center gap-0.5">
+                                                        {car.fuelType === 'electric' ? <Zap size={10} /> : <Fuel size={10} />}
+                                                        {FUEL_LABELS[car.fuelType]}
+                                                    </span>
+                                                    {car.seats !== undefined && (
+                                                        <span className="flex items-center gap-0.5"><Users size={10} /> {car.seats}</span>
+                                                    )}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleBook(car)}
+                                                disabled={bookingCarId !== null}
+                                                className="px-3 py-1.5 text-xs font-medium bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 flex items-center gap-1"
+                                            >
+                                                <CheckCircle size={12} />
+                                                {bookingCarId === car.id ? 'Reservando...' : 'Reservar'}
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
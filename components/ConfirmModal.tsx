@@ -5,6 +5,7 @@ interface ConfirmModalProps {
     isOpen: boolean;
     onClose: () => void;
     onConfirm: () => void;
+    onCancel?: () => void; // Cancel button only; defaults to onClose (which also runs after confirming)
     title: string;
     message: string;
     confirmText?: string;
@@ -16,6 +17,7 @@ export const ConfirmModal: React.FC<ConfirmModalProps> = ({
     isOpen,
     onClose,
     onConfirm,
+    onCancel,
     title,
     message,
     confirmText = 'Confirmar',
@@ -43,7 +45,7 @@ export const ConfirmModal: React.FC<ConfirmModalProps> = ({
 
                     <div className="flex gap-3">
                         <button
-                            onClick={onClose}
+                            onClick={onCancel || onClose}
                             className="flex-1 px-4 py-2.5 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-xl transition-colors"
                         >
                             {cancelText}
@@ -1,67 +1,49 @@
 import React, { useState, useEffect } from 'react';
-import { kitchenService, KitchenConfig } from '../services/kitchen';
+import { kitchenService } from '../services/kitchen';
+import { KitchenConfig, Holiday } from '../types';
 import { Clock, Lock } from 'lucide-react';
+import { getTimeToDayCutoff } from '../utils/mealLocks';
 
 export const CountdownTimer = () => {
     const [config, setConfig] = useState<KitchenConfig | null>(null);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
     const [timeLeft, setTimeLeft] = useState<string | null>(null);
     const [isClosingSoon, setIsClosingSoon] = useState(false);
     const [isVisible, setIsVisible] = useState(false);
 
     useEffect(() => {
         loadConfig();
+    }, []);
+
+    useEffect(() => {
         const interval = setInterval(updateTimer, 1000);
         return () => clearInterval(interval);
-    }, [config]);
+    }, [config, holidays]);
 
     const loadConfig = async () => {
         try {
-            const cfg = await kitchenService.getConfig();
+            const [cfg, holidaysData] = await Promise.all([
+                kitchenService.getConfig(),
+                kitchenService.getHolidays()
+            ]);
             setConfig(cfg);
+            setHolidays(holidaysData);
         } catch (e) {
             console.error("Failed to load kitchen config", e);
         }
     };
 
     const updateTimer = () => {
-        if (!config || !config.weekly_schedule) return;
-
-        const now = new Date();
-        const startDay = now.getDay().toString(); // 0-6
-
-        // Find the next cutoff
-        // We only care about TODAY'S cutoff for now.
-        // If today's cutoff is passed, we don't show a countdown for tomorrow yet (simplification),
-        // or we could finding the next valid slot.
-        // User requirement: "Countdown timer". Usually for the imminent deadline.
-
-        const todayTimeStr = config.weekly_schedule[startDay];
+        if (!config) return;
 
-        let targetDate: Date | null = null;
+        // Only today's cutoff: once it has passed there is nothing to count down to
+        const diff = getTimeToDayCutoff({ config, holidays, locks: [], now: new Date() });
 
-        if (todayTimeStr) {
-            const [h, m] = todayTimeStr.split(':').map(Number);
-            const candidate = new Date(now);
-            candidate.setHours(h, m, 0, 0);
-
-            if (candidate.getTime() > now.getTime()) {
-                targetDate = candidate;
-            }
-        }
-
-        if (!targetDate) {
-            // Check tomorrow? 
-            // If today is done, maybe show tomorrow's cutoff?
-            // For now, let's hide if no active countdown for TODAY to avoid confusion, 
-            // unless user specifically wants "Next Cutoff". 
-            // Given "Kitchen Admin" context, usually it's "Hurry up for today".
-            // Let's stick to Today's cutoff. If null or passed, hide.
+        if (diff === null || diff <= 0) {
             setIsVisible(false);
             return;
         }
 
-        const diff = targetDate.getTime() - now.getTime();
-
         // Show if within 6 hours (?) or always if valid? 
         // Let's show always if valid for today.
         setIsVisible(true);
@@ -11,6 +11,10 @@ import { CalendarEvent } from '../services/icalParser';
 import { KitchenAdminPanel } from './KitchenAdminPanel';
 import { UserAvatar } from './UserAvatar';
 import { EpactaEvent } from './EpactaEvent';
+import { MealOptionBadge } from './MealOptionBadge';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealType } from '../utils/mealForecast';
+import { countByAllergen, getActiveAllergens, getAllergen, isDietActive } from '../utils/allergens';
 
 interface DailyMealsListProps {
     user: User;
@@ -19,17 +23,6 @@ interface DailyMealsListProps {
     mode?: 'standard' | 'kitchen';
 }
 
-// Color configuration matching DailyOrderManager
-const OPTION_CONFIG: Record<string, { label: string; color: string; textColor: string }> = {
-    skip: { label: 'NO', color: 'bg-rose-500', textColor: 'text-white' },
-    no: { label: 'NO', color: 'bg-rose-500', textColor: 'text-white' },
-    standard: { label: 'SÍ', color: 'bg-emerald-500', textColor: 'text-white' },
-    early: { label: '1T', color: 'bg-yellow-400', textColor: 'text-zinc-900' },
-    late: { label: '2T', color: 'bg-emerald-700', textColor: 'text-white' },
-    tupper: { label: 'TP', color: 'bg-amber-800', textColor: 'text-white' },
-    bag: { label: 'B', color: 'bg-blue-600', textColor: 'text-white' },
-};
-
 const MEAL_NAMES: Record<string, string> = {
     breakfast: 'Desayuno',
     lunch: 'Comida',
@@ -42,6 +35,7 @@ interface ResidentEntry {
     avatarUrl?: string;
     hasDiet?: boolean;
     dietNumber?: number;
+    allergens?: string[]; // Only while the diet is in force that day
     option: string;
     isBag: boolean;
     isFromTemplate: boolean;
@@ -58,6 +52,7 @@ interface ResidentEntry {
 
 
 export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDate, onDateChange, mode = 'standard' }) => {
+    const { options, getOption, getOptionsForMeal } = useMealOptions();
     const [orders, setOrders] = useState<(MealOrder & { userName: string })[]>([]);
     const [nextDayOrders, setNextDayOrders] = useState<(MealOrder & { userName: string })[]>([]);
     const [guests, setGuests] = useState<MealGuest[]>([]);
@@ -76,6 +71,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         date: string; // yyyy-MM-dd
         currentOption: string;
     } | null>(null);
+    const [overrideReason, setOverrideReason] = useState('');
 
     // Guest Editing State
     const [editingGuest, setEditingGuest] = useState<{
@@ -176,6 +172,19 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         }
     };
 
+    // Orders flagged as bag count under the bag option whatever option they carry
+    const resolveOption = (option: string, isBag: boolean) => {
+        const config = getOption(option || 'standard');
+        if (isBag && !config.isBag) return options.find(o => o.isBag && o.isActive) || config;
+        return config;
+    };
+
+    // Guests booked by a resident are listed under their host
+    const guestLabel = (guest: MealGuest) => {
+        const host = guest.hostId ? userProfiles.get(guest.hostId) : undefined;
+        return host ? `Invitados de ${mode === 'kitchen' && host.initials ? host.initials : host.name}` : 'Invitados';
+    };
+
     // Group residents by meal type and option
     const groupByMealAndOption = (
         ordersList: typeof orders,
@@ -187,12 +196,13 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
             no: [] // Ensure 'no' group exists
         };
 
+        // Anything prepared in advance is not served at the table
         const getTargetKey = (option: string, isBag: boolean, mType: string): string => {
             if (option === 'skip' || option === 'no') return 'no';
-            if (isBag || option === 'bag') return 'no';
-            if (option === 'tupper') return 'no';
+            const config = resolveOption(option, isBag);
+            if (config.isBag || config.needsPrep) return 'no';
             if (mType === 'breakfast' && option === 'early') return 'no';
-            return option;
+            return config.id;
         };
 
         // Add regular orders
@@ -206,8 +216,9 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                     name: o.userName,
                     userId: o.userId,
                     avatarUrl: userProfile?.avatarUrl,
-                    hasDiet: userProfile?.hasDiet,
+                    hasDiet: !!userProfile && isDietActive(userProfile, dateStr),
                     dietNumber: userProfile?.dietNumber,
+                    allergens: userProfile ? getActiveAllergens(userProfile, dateStr) : [],
                     option: o.option,
                     isBag: o.isBag || false,
                     isFromTemplate: o.status === 'template',
@@ -226,7 +237,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                 const key = getTargetKey(g.option || 'standard', g.isBag || false, mealType);
                 if (!grouped[key]) grouped[key] = [];
                 grouped[key].push({
-                    name: 'Invitados',
+                    name: guestLabel(g),
                     option: g.option,
                     isBag: g.isBag,
                     isFromTemplate: false,
@@ -242,133 +253,67 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         return grouped;
     };
 
-    // Get subdivisions for tomorrow's prep
+    // Get subdivisions for tomorrow's prep: early breakfast plus every option prepared the day before
     const getTomorrowPrep = () => {
         const nextDateStr = format(addDays(selectedDate, 1), 'yyyy-MM-dd');
-        const prep: Record<string, ResidentEntry[]> = {
-            earlyBreakfast: [],
-            breakfastBag: [], // Add breakfastBag
-            tupper: [],
-            bag: []
-        };
-
-        // Early breakfast
-        nextDayOrders
-            .filter(o => o.mealType === 'breakfast' && o.option === 'early')
-            .forEach(o => {
-                const userProfile = userProfiles.get(o.userId);
-                prep.earlyBreakfast.push({
-                    name: o.userName,
-                    userId: o.userId,
-                    avatarUrl: userProfile?.avatarUrl,
-                    hasDiet: userProfile?.hasDiet,
-                    dietNumber: userProfile?.dietNumber,
-                    option: o.option,
-                    isBag: false,
-                    isFromTemplate: o.status === 'template',
-                    isGuest: false,
-                    initials: userProfile?.initials,
-                    originalDate: nextDateStr,
-                    mealType: 'breakfast'
-                });
-            });
-
-        nextGuests
-            .filter(g => g.mealType === 'breakfast' && g.option === 'early')
-            .forEach(g => {
-                prep.earlyBreakfast.push({
-                    name: 'Invitados',
-                    option: g.option,
-                    isBag: false,
-                    isFromTemplate: false,
-                    isGuest: true,
-                    guestId: g.id,
-                    guestCount: g.count,
-                    guestNotes: g.notes,
-                    originalDate: nextDateStr,
-                    mealType: 'breakfast'
-                });
-            });
-
-        // Tuppers
-        nextDayOrders
-            .filter(o => o.option === 'tupper' && !o.isBag)
-            .forEach(o => {
-                const userProfile = userProfiles.get(o.userId);
-                prep.tupper.push({
-                    name: o.userName,
-                    userId: o.userId,
-                    avatarUrl: userProfile?.avatarUrl,
-                    hasDiet: userProfile?.hasDiet,
-                    dietNumber: userProfile?.dietNumber,
-                    option: o.option,
-                    isBag: false,
-                    isFromTemplate: o.status === 'template',
-                    isGuest: false,
-                    initials: userProfile?.initials,
-                    originalDate: nextDateStr,
-                    mealType: o.mealType
-                });
-            });
+        const prep: Record<string, ResidentEntry[]> = { early: [] };
 
-        nextGuests
-            .filter(g => g.option === 'tupper' && !g.isBag)
-            .forEach(g => {
-                prep.tupper.push({
-                    name: 'Invitados',
-                    option: g.option,
-                    isBag: false,
-                    isFromTemplate: false,
-                    isGuest: true,
-                    guestId: g.id,
-                    guestCount: g.count,
-                    guestNotes: g.notes,
-                    originalDate: nextDateStr,
-                    mealType: g.mealType
-                });
-            });
+        const getPrepKey = (option: string, isBag: boolean, mealType: string): string | null => {
+            if (mealType === 'breakfast' && option === 'early') return 'early';
+            const config = resolveOption(option, isBag);
+            return config.isBag || config.needsPrep ? config.id : null;
+        };
 
-        // Bags
-        nextDayOrders
-            .filter(o => o.isBag || o.option === 'bag')
-            .forEach(o => {
-                const userProfile = userProfiles.get(o.userId);
-                prep.bag.push({
-                    name: o.userName,
-                    userId: o.userId,
-                    avatarUrl: userProfile?.avatarUrl,
-                    hasDiet: userProfile?.hasDiet,
-                    dietNumber: userProfile?.dietNumber,
-                    option: o.option,
-                    isBag: true,
-                    isFromTemplate: o.status === 'template',
-                    isGuest: false,
-                    initials: userProfile?.initials,
-                    originalDate: nextDateStr,
-                    mealType: o.mealType
-                });
+        nextDayOrders.forEach(o => {
+            const key = getPrepKey(o.option, o.isBag || false, o.mealType);
+            if (!key) return;
+            const userProfile = userProfiles.get(o.userId);
+            (prep[key] = prep[key] || []).push({
+                name: o.userName,
+                userId: o.userId,
+                avatarUrl: userProfile?.avatarUrl,
+                hasDiet: !!userProfile && isDietActive(userProfile, nextDateStr),
+                dietNumber: userProfile?.dietNumber,
+                allergens: userProfile ? getActiveAllergens(userProfile, nextDateStr) : [],
+                option: o.option,
+                isBag: o.isBag || false,
+                isFromTemplate: o.status === 'template',
+                isGuest: false,
+                initials: userProfile?.initials,
+                originalDate: nextDateStr,
+                mealType: o.mealType
             });
-
-        nextGuests
-            .filter(g => g.isBag || g.option === 'bag')
-            .forEach(g => {
-                prep.bag.push({
-                    name: 'Invitados',
-                    option: g.option,
-                    isBag: true,
-                    isFromTemplate: false,
-                    isGuest: true,
-                    guestId: g.id,
-                    guestCount: g.count,
-                    guestNotes: g.notes,
-                    originalDate: nextDateStr,
-                    mealType: g.mealType
-                });
+        });
+
+        nextGuests.forEach(g => {
+            const key = getPrepKey(g.option, g.isBag, g.mealType);
+            if (!key) return;
+            (prep[key] = prep[key] || []).push({
+                name: guestLabel(g),
+                option: g.option,
+                isBag: g.isBag,
+                isFromTemplate: false,
+                isGuest: true,
+                guestId: g.id,
+                guestCount: g.count,
+                guestNotes: g.notes,
+                originalDate: nextDateStr,
+                mealType: g.mealType
             });
+        });
 
         return prep;
     };
 
+    // Table subdivisions for a meal: options served in the dining room, then everyone else under 'No'
+    const getSubdivisions = (mealType: MealType, groups: Record<string, ResidentEntry[]>) => {
+        const served = getOptionsForMeal(mealType)
+            .filter(o => o.id !== 'skip' && !o.isBag && !o.needsPrep && !(mealType === 'breakfast' && o.id === 'early'))
+            .map(o => o.id);
+        const others = Object.keys(groups).filter(key => key !== 'no' && !served.includes(key));
+        return [...served, ...others, 'no'].map(key => ({ key, label: getOption(key).label }));
+    };
+
     const dateStr = format(selectedDate, 'yyyy-MM-dd');
     const breakfastGroups = groupByMealAndOption(orders, guests, 'breakfast', dateStr);
     const lunchGroups = groupByMealAndOption(orders, guests, 'lunch', dateStr);
@@ -389,10 +334,12 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
 
 
     const handleResidentClick = (resident: ResidentEntry) => {
-        // Allow admin edit if conditions met
-        if (user.role !== 'ADMIN' || isLocked) return;
+        // Allow admin edit if conditions met. Resident orders can be changed on locked days
+        // through the logged override; guests only while the day is open.
+        if (user.role !== 'ADMIN') return;
 
         if (resident.isGuest && resident.guestId) {
+            if (isLocked) return;
             setEditingGuest({
                 id: resident.guestId,
                 mealType: resident.mealType,
@@ -410,6 +357,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                 date: resident.originalDate,
                 currentOption: resident.option
             });
+            setOverrideReason('');
         }
     };
 
@@ -417,12 +365,10 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         if (!editingResident) return;
 
         const { userId, date, mealType } = editingResident;
-        const isBag = option === 'bag';
-
-        const finalIsBag = option === 'bag' ? true : (option === 'tupper' ? false : isBag);
+        const isBag = getOption(option).isBag;
 
         try {
-            await mealService.upsertOrder(userId, date, mealType, option, finalIsBag);
+            await mealService.upsertOrder(userId, date, mealType, option, isBag, null, { reason: overrideReason });
             loadOrders(); // Reload to reflect changes
             setEditingResident(null);
         } catch (error) {
@@ -464,16 +410,6 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         }
     };
 
-    const getAvailableOptions = (mealType: string) => {
-        if (mealType === 'breakfast') {
-            return ['standard', 'early', 'skip'];
-        } else if (mealType === 'lunch') {
-            return ['standard', 'early', 'late', 'tupper', 'bag', 'skip'];
-        } else {
-            return ['standard', 'late', 'skip'];
-        }
-    };
-
     // Render a subdivision section
     const SubdivisionSection = ({
         title,
@@ -487,14 +423,12 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         if (residents.length === 0) return null;
 
         const totalCount = residents.reduce((sum, r) => sum + (r.isGuest ? (r.guestCount || 0) : 1), 0);
-        const config = OPTION_CONFIG[optionKey] || OPTION_CONFIG.standard;
+        const config = getOption(optionKey);
 
         return (
             <div className="mb-4">
                 <div className="flex items-center gap-2 mb-2 px-2">
-                    <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-xs`}>
-                        {config.label}
-                    </div>
+                    <MealOptionBadge option={config} className="px-3 py-1 rounded-lg font-semibold text-xs" />
                     <h4 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
                         {title}
                     </h4>
@@ -504,7 +438,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                 </div>
                 <div className="space-y-1 pl-4">
                     {residents.map((resident, idx) => {
-                        const canEdit = user.role === 'ADMIN' && !isLocked && (resident.userId || resident.isGuest);
+                        const canEdit = user.role === 'ADMIN' && (resident.userId || (resident.isGuest && !isLocked));
 
                         return (
                             <div
@@ -561,6 +495,15 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                                                         <span className="text-xs font-bold">D{resident.dietNumber}</span>
                                                     </div>
                                                 )}
+                                                {resident.allergens?.map(id => (
+                                                    <span
+                                                        key={id}
+                                                        title={`Sin ${getAllergen(id).label.toLowerCase()}`}
+                                                        className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400"
+                                                    >
+                                                        {getAllergen(id).shortLabel}
+                                                    </span>
+                                                ))}
                                             </div>
                                         </>
                                     )}
@@ -578,12 +521,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                                     {/* Special Status Label for 'NO' group */}
                                     {optionKey === 'no' && (resident.option !== 'skip' && resident.option !== 'no') && (
                                         <span className="text-[10px] uppercase font-bold tracking-wider text-zinc-500 bg-zinc-100 dark:bg-zinc-700 dark:text-zinc-400 px-1.5 py-0.5 rounded">
-                                            {resident.isBag || resident.option === 'bag' ? 'Bolsa' :
-                                                resident.option === 'tupper' ? 'Tupper' :
-                                                    resident.option === 'early' ? 'Pronto' :
-                                                        resident.option === 'standard' ? 'Normal' :
-                                                            resident.option === 'late' ? 'Tarde' :
-                                                                resident.option}
+                                            {resolveOption(resident.option, resident.isBag).label}
                                         </span>
                                     )}
 
@@ -596,6 +534,29 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
         );
     };
 
+    // Portions to make without each allergen, counting everyone who eats (also bags and tuppers)
+    const AllergenSummary = ({ residents }: { residents: ResidentEntry[] }) => {
+        const counts = countByAllergen(residents
+            .filter(r => !r.isGuest && r.option !== 'skip' && r.option !== 'no')
+            .map(r => ({ allergens: r.allergens || [], count: 1 })));
+        if (counts.length === 0) return null;
+
+        return (
+            <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                <span className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Sin:</span>
+                {counts.map(({ allergen, count }) => (
+                    <span
+                        key={allergen.id}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-400"
+                    >
+                        {allergen.label}
+                        <span className="font-bold">{count}</span>
+                    </span>
+                ))}
+            </div>
+        );
+    };
+
     // Render a meal section
     const MealSection = ({
         title,
@@ -614,6 +575,7 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                 <h3 className="text-base font-bold text-zinc-900 dark:text-white mb-4 pb-2 border-b border-zinc-200 dark:border-zinc-800">
                     {title}
                 </h3>
+                <AllergenSummary residents={Object.values(groups).flat()} />
                 {subdivisions.map(sub => (
                     <SubdivisionSection
                         key={sub.key}
@@ -690,42 +652,24 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                         <MealSection
                             title="Desayuno"
                             groups={breakfastGroups}
-                            subdivisions={[
-                                { key: 'early', label: 'Pronto' },
-                                { key: 'standard', label: 'Normal' },
-                                { key: 'no', label: 'No' }
-                            ]}
+                            subdivisions={getSubdivisions('breakfast', breakfastGroups)}
                         />
 
                         <MealSection
                             title="Comida"
                             groups={lunchGroups}
-                            subdivisions={[
-                                { key: 'early', label: 'Pronto' },
-                                { key: 'standard', label: 'Normal' },
-                                { key: 'late', label: 'Tarde' },
-                                { key: 'tupper', label: 'Tupper' },
-                                { key: 'bag', label: 'Bolsa' },
-                                { key: 'no', label: 'No' }
-                            ]}
+                            subdivisions={getSubdivisions('lunch', lunchGroups)}
                         />
 
                         <MealSection
                             title="Cena"
                             groups={dinnerGroups}
-                            subdivisions={[
-                                { key: 'standard', label: 'Normal' },
-                                { key: 'late', label: 'Tarde' },
-                                { key: 'no', label: 'No' }
-                            ]}
+                            subdivisions={getSubdivisions('dinner', dinnerGroups)}
                         />
                     </div>
 
                     {/* Tomorrow's Prep Section */}
-                    {(tomorrowPrep.earlyBreakfast.length > 0 ||
-                        tomorrowPrep.breakfastBag.length > 0 ||
-                        tomorrowPrep.tupper.length > 0 ||
-                        tomorrowPrep.bag.length > 0) && (
+                    {Object.values(tomorrowPrep).some(residents => residents.length > 0) && (
                             <div className="bg-gradient-to-br from-indigo-50 to-purple-50 dark:from-indigo-950/30 dark:to-purple-950/30 rounded-xl border border-indigo-200 dark:border-indigo-800 p-4 shadow-sm">
                                 <div className="flex items-center gap-2 mb-4 pb-2 border-b border-indigo-200 dark:border-indigo-800">
                                     <Users size={18} className="text-indigo-600 dark:text-indigo-400" />
@@ -737,29 +681,22 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                                     </span>
                                 </div>
 
+                                <AllergenSummary residents={Object.values(tomorrowPrep).flat()} />
+
                                 <SubdivisionSection
                                     title="Desayuno Pronto"
-                                    residents={tomorrowPrep.earlyBreakfast}
+                                    residents={tomorrowPrep.early}
                                     optionKey="early"
                                 />
 
-                                <SubdivisionSection
-                                    title="Desayuno (Bolsa)"
-                                    residents={tomorrowPrep.breakfastBag}
-                                    optionKey="bag"
-                                />
-
-                                <SubdivisionSection
-                                    title="Tuppers"
-                                    residents={tomorrowPrep.tupper}
-                                    optionKey="tupper"
-                                />
-
-                                <SubdivisionSection
-                                    title="Bolsas"
-                                    residents={tomorrowPrep.bag}
-                                    optionKey="bag"
-                                />
+                                {Object.keys(tomorrowPrep).filter(key => key !== 'early').map(key => (
+                                    <SubdivisionSection
+                                        key={key}
+                                        title={getOption(key).label}
+                                        residents={tomorrowPrep[key]}
+                                        optionKey={key}
+                                    />
+                                ))}
                             </div>
                         )}
 
@@ -798,10 +735,24 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                             </p>
                         </div>
 
+                        {/* Reason, stored with the override log */}
+                        <div className="px-6 pt-6">
+                            <input
+                                type="text"
+                                value={overrideReason}
+                                onChange={e => setOverrideReason(e.target.value)}
+                                placeholder="Motivo del cambio (opcional)"
+                                className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-white"
+                            />
+                            <p className="mt-1 text-xs text-zinc-500">
+                                El cambio queda registrado aunque el pedido ya esté cerrado.
+                            </p>
+                        </div>
+
                         {/* Options */}
                         <div className="p-6 space-y-2">
-                            {getAvailableOptions(editingResident.mealType).map(opt => {
-                                const config = OPTION_CONFIG[opt];
+                            {getOptionsForMeal(editingResident.mealType as MealType).map(config => {
+                                const opt = config.id;
                                 const isSelected = editingResident.currentOption === opt;
 
                                 return (
@@ -821,11 +772,9 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                                             ? 'border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white'
                                             : 'border-zinc-300 dark:border-zinc-600'
                                             }`} />
-                                        <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                            {config.label}
-                                        </div>
+                                        <MealOptionBadge option={config} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                         <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                            {opt === 'skip' ? 'No' : opt === 'standard' ? 'Normal' : opt === 'early' ? 'Temprano' : opt === 'late' ? 'Tarde' : opt === 'tupper' ? 'Tupper' : 'Bolsa'}
+                                            {config.label}
                                         </span>
                                     </button>
                                 );
@@ -862,17 +811,17 @@ export const DailyMealsList: React.FC<DailyMealsListProps> = ({ user, selectedDa
                             <div>
                                 <label className="text-sm font-medium mb-1 block text-zinc-700 dark:text-zinc-300">Opción</label>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {getAvailableOptions(editingGuest.mealType).filter(o => o !== 'skip').map(opt => (
+                                    {getOptionsForMeal(editingGuest.mealType as MealType).filter(o => o.id !== 'skip').map(({ id: opt, label, color, isBag }) => (
                                         <button
                                             key={opt}
-                                            onClick={() => setEditingGuest({ ...editingGuest, option: opt, isBag: opt === 'bag' })}
+                                            onClick={() => setEditingGuest({ ...editingGuest, option: opt, isBag })}
                                             className={`px-3 py-2 rounded-lg text-xs font-bold border transition-colors flex items-center justify-center gap-2 ${editingGuest.option === opt
                                                 ? 'bg-zinc-900 text-white dark:bg-white dark:text-black border-zinc-900 dark:border-white'
                                                 : 'border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600 text-zinc-600 dark:text-zinc-400'
                                                 }`}
                                         >
-                                            <span className={`w-2 h-2 rounded-full ${OPTION_CONFIG[opt]?.color || 'bg-gray-400'}`}></span>
-                                            {opt === 'standard' ? 'Normal' : opt === 'early' ? 'Temprano' : opt === 'late' ? 'Tarde' : opt === 'tupper' ? 'Tupper' : 'Bolsa'}
+                                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }}></span>
+                                            {label}
                                         </button>
                                     ))}
                                 </div>
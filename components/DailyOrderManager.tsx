@@ -1,15 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { format, addDays, isSameDay } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { MealOrder, MealTemplate, UserAbsence, KitchenConfig, Holiday, User } from '../types';
+import { MealOrder, MealTemplate, MealTemplateSet, UserAbsence, KitchenConfig, Holiday, User, MealChangeRequest, MenuDish } from '../types';
 import { mealService } from '../services/meals';
-import { kitchenService, DailyLock } from '../services/kitchen';
+import { mealChangeRequestService } from '../services/mealChangeRequests';
+import { menuService } from '../services/menus';
+import { kitchenService, DailyLock, MealGuest } from '../services/kitchen';
 import { absencesService } from '../services/absences';
-import { X, Clock, AlertCircle, Cake, CalendarDays, Rocket } from 'lucide-react';
+import { X, Clock, AlertCircle, Cake, CalendarDays, Rocket, Send, Check, CalendarRange } from 'lucide-react';
 import { calendarService } from '../services/calendar';
 import { CalendarEvent } from '../services/icalParser';
 import { profileService } from '../services/profiles';
 import { UserAvatar } from './UserAvatar';
+import { MealOptionBadge } from './MealOptionBadge';
+import { BulkMealOrderModal } from './BulkMealOrderModal';
+import { MenuDishes } from './MenuDishes';
+import { HostGuestsEditor } from './HostGuestsEditor';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { optionTextColor } from '../utils/mealOptions';
+import { evaluateMealLock } from '../utils/mealLocks';
+import { findTemplateForDate } from '../utils/mealTemplates';
+import { MealType } from '../utils/mealForecast';
+import { dishesFor } from '../utils/menus';
+import { getActiveAllergens } from '../utils/allergens';
 
 interface DailyOrderManagerProps {
     userId: string;
@@ -23,19 +36,11 @@ const MEALS = [
     { id: 'dinner', name: 'Cena', short: 'Ce' }
 ];
 
-// Option configurations with colors
-const OPTION_CONFIG: Record<string, { label: string; color: string; textColor: string }> = {
-    skip: { label: 'NO', color: 'bg-rose-500', textColor: 'text-white' },
-    standard: { label: 'SÍ', color: 'bg-emerald-500', textColor: 'text-white' },
-    early: { label: '1T', color: 'bg-yellow-400', textColor: 'text-zinc-900' },
-    late: { label: '2T', color: 'bg-emerald-700', textColor: 'text-white' },
-    tupper: { label: 'TP', color: 'bg-amber-800', textColor: 'text-white' },
-    bag: { label: 'B', color: 'bg-blue-600', textColor: 'text-white' },
-};
-
 export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, currentDate, onDateChange }) => {
+    const { getOption, getOptionsForMeal } = useMealOptions();
     const [orders, setOrders] = useState<MealOrder[]>([]);
     const [templates, setTemplates] = useState<MealTemplate[]>([]);
+    const [templateSets, setTemplateSets] = useState<MealTemplateSet[]>([]);
     const [absences, setAbsences] = useState<UserAbsence[]>([]);
     const [locks, setLocks] = useState<DailyLock[]>([]);
     const [config, setConfig] = useState<KitchenConfig | null>(null);
@@ -49,6 +54,7 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
         currentOption: string;
         isFromTemplate: boolean;
         bagTime?: string; // Add bagTime state
+        isLateRequest?: boolean; // Meal already closed: choosing an option asks the kitchen
     } | null>(null);
 
     // Initial Bag time state for the modal
@@ -62,8 +68,18 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
         option: string;
         isBag: boolean;
         currentOption: string;
+        bagTime?: string | null;
     } | null>(null);
 
+    // Late-change requests for closed meals
+    const [changeRequests, setChangeRequests] = useState<MealChangeRequest[]>([]);
+    const [menu, setMenu] = useState<MenuDish[]>([]); // Published dishes for the week
+    const [myGuests, setMyGuests] = useState<MealGuest[]>([]);
+    const [showLateRequest, setShowLateRequest] = useState(false);
+    const [lateRequestNote, setLateRequestNote] = useState('');
+
+    const [isBulkOpen, setIsBulkOpen] = useState(false);
+
     useEffect(() => {
         loadData();
     }, [currentDate]);
@@ -82,9 +98,10 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
             const cached = localStorage.getItem(cacheKey);
             if (cached) {
                 try {
-                    const { orders: cachedOrders, templates: cachedTemplates, absences: cachedAbsences, locks: cachedLocks, config: cachedConfig, holidays: cachedHolidays, profiles: cachedProfiles, familyFeasts: cachedFeasts } = JSON.parse(cached);
+                    const { orders: cachedOrders, templates: cachedTemplates, templateSets: cachedTemplateSets, absences: cachedAbsences, locks: cachedLocks, config: cachedConfig, holidays: cachedHolidays, profiles: cachedProfiles, familyFeasts: cachedFeasts } = JSON.parse(cached);
                     setOrders(cachedOrders);
                     setTemplates(cachedTemplates);
+                    setTemplateSets(cachedTemplateSets || []);
                     setAbsences(cachedAbsences || []);
                     setLocks(cachedLocks);
                     setConfig(cachedConfig);
@@ -105,14 +122,27 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                 d = addDays(d, 1);
             }
 
+            mealChangeRequestService.getMyRequests(format(startOfView, 'yyyy-MM-dd'), format(endOfView, 'yyyy-MM-dd'))
+                .then(setChangeRequests)
+                .catch(e => console.error('Error loading change requests:', e));
+
+            menuService.getDishes(format(startOfView, 'yyyy-MM-dd'), format(endOfView, 'yyyy-MM-dd'))
+                .then(setMenu)
+                .catch(e => console.error('Error loading menu:', e));
+
+            kitchenService.getMyGuests(format(startOfView, 'yyyy-MM-dd'), format(endOfView, 'yyyy-MM-dd'))
+                .then(setMyGuests)
+                .catch(e => console.error('Error loading guests:', e));
+
             const locksPromises = daysToFetch.map(day =>
                 kitchenService.getDailyLockStatus(format(day, 'yyyy-MM-dd'))
                     .then(isLocked => ({ date: format(day, 'yyyy-MM-dd'), isLocked }))
             );
 
-            const [ordersData, templatesData, absencesData, locksData, configData, holidaysData, profilesData, familyFeastsData] = await Promise.all([
+            const [ordersData, templatesData, templateSetsData, absencesData, locksData, configData, holidaysData, profilesData, familyFeastsData] = await Promise.all([
                 mealService.getMyOrders(format(startOfView, 'yyyy-MM-dd'), format(endOfView, 'yyyy-MM-dd')),
                 mealService.getMyTemplates(),
+                mealService.getMyTemplateSets(),
                 absencesService.getAbsencesInRange(format(startOfView, 'yyyy-MM-dd'), format(endOfView, 'yyyy-MM-dd')),
                 Promise.all(locksPromises),
                 kitchenService.getConfig(),
@@ -129,6 +159,7 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
 
             setOrders(ordersData);
             setTemplates(templatesData);
+            setTemplateSets(templateSetsData);
             setAbsences(absencesData);
             setLocks(locksData as any);
             setConfig(configData);
@@ -139,6 +170,7 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
             localStorage.setItem(cacheKey, JSON.stringify({
                 orders: ordersData,
                 templates: templatesData,
+                templateSets: templateSetsData,
                 absences: absencesData,
                 locks: locksData,
                 config: configData,
@@ -153,6 +185,11 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
         }
     };
 
+    const getMyAllergens = (dateStr: string): string[] => {
+        const me = userProfiles.find(u => u.id === userId);
+        return me ? getActiveAllergens(me, dateStr) : [];
+    };
+
     const isUserAbsent = (date: Date): boolean => {
         const dateStr = format(date, 'yyyy-MM-dd');
         return absences.some(a => a.startDate <= dateStr && a.endDate >= dateStr);
@@ -170,115 +207,38 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
             return { option: 'skip', source: 'absence', date: dateStr, status: 'pending', mealType, isBag: false, bagTime: undefined };
         }
 
-        // 3. Template
-        let dayOfWeek = date.getDay(); // 0=Sun
-        if (dayOfWeek === 0) dayOfWeek = 7; // Convert to 1-7 (Mon-Sun)
-
-        const template = templates.find(t => t.dayOfWeek === dayOfWeek && t.mealType === mealType);
+        // 3. Template in force on that date
+        const template = findTemplateForDate(templateSets, templates, userId, dateStr, mealType);
         return template ? { ...template, source: 'template', date: dateStr, status: 'pending', bagTime: undefined } : null;
     };
 
-    const isDayTimeLocked = (targetDate: Date) => {
-        if (!config) return false;
-
-        const now = new Date();
-        const dateStr = format(targetDate, 'yyyy-MM-dd');
-        const todayStr = format(now, 'yyyy-MM-dd');
-
-        if (dateStr < todayStr) return true; // Past is always locked
-        if (dateStr > todayStr) return false; // Future is initially open (unless specific override?) 
-
-        // Current Logic for Today: Check Cutoff Time based on Hierarchy
-        // Hierarchy: Override > Holiday/Sunday > Saturday > Weekday
-        
-        let cutoffTime = '';
-        const dayOfWeek = targetDate.getDay(); // 0 (Sun) - 6 (Sat)
-        const isHoliday = holidays.some(h => h.date === dateStr);
-
-        // 1. Override
-        if (config.overrides && config.overrides[dateStr]) {
-            cutoffTime = config.overrides[dateStr];
-        }
-        // 2. Sunday or Holiday
-        else if (dayOfWeek === 0 || isHoliday) {
-            cutoffTime = config.schedule_sunday_holiday || '';
-        }
-        // 3. Saturday
-        else if (dayOfWeek === 6) {
-            cutoffTime = config.schedule_saturday || '';
-        }
-        // 4. Weekday
-        else {
-            cutoffTime = config.schedule_weekdays || '';
-        }
-
-        // If no time set, it's open (or should it be closed? Assuming open if unset, but usually set)
-        if (!cutoffTime) return false;
-
-        const [h, m] = cutoffTime.split(':').map(Number);
-        const deadline = new Date(now);
-        deadline.setHours(h, m, 0, 0);
-
-        return now >= deadline;
-    };
-
-    const isLocked = (date: Date, mealType: string, intendedOption?: string, currentOption?: string): boolean => {
-        const dateStr = format(date, 'yyyy-MM-dd');
-        const prevDay = new Date(date);
-        prevDay.setDate(prevDay.getDate() - 1);
-        const prevDateStr = format(prevDay, 'yyyy-MM-dd');
-
-        const isDateLocked = isDayTimeLocked(date);
-
-        const isChangingFromPrep = (currentOption === 'tupper' || currentOption === 'bag') &&
-            (intendedOption !== 'tupper' && intendedOption !== 'bag');
-        if (isChangingFromPrep) {
-            const now = new Date();
-            const todayStr = format(now, 'yyyy-MM-dd');
-            if (dateStr < todayStr) return true;
-            return false;
-        }
-
-        const isPrevDbLocked = locks.find(l => l.date === prevDateStr)?.isLocked || false;
-        const isPrevTimeLocked = isDayTimeLocked(prevDay);
-        const isPrevLocked = isPrevDbLocked || isPrevTimeLocked;
-
-        const isTodayDbLocked = locks.find(l => l.date === dateStr)?.isLocked || false;
-        const isTodayLocked = isTodayDbLocked || isDateLocked;
-
-        // Special Locking Rules for Bags
-        if (intendedOption === 'bag' || intendedOption === 'tupper') {
-             // Breakfast Bag/Tupper: Treated like Early Breakfast (Must be done day before)
-             if (mealType === 'breakfast') {
-                 if (isPrevLocked) return true;
-             } 
-             // Lunch/Dinner Bag: Treated like Standard (Can be done same day if not too late)
-             else {
-                 if (isTodayLocked) return true;
-             }
-             return false;
-        }
-
-        if (mealType === 'breakfast') {
-            if (isPrevLocked) return true;
-        }
+    const getLockStatus = (date: Date, mealType: string, intendedOption?: string, currentOption?: string) =>
+        evaluateMealLock(
+            { config, holidays, locks, now: new Date() },
+            {
+                date: format(date, 'yyyy-MM-dd'),
+                mealType: mealType as MealType,
+                currentOption: currentOption ? getOption(currentOption) : undefined,
+                intendedOption: intendedOption ? getOption(intendedOption) : undefined
+            }
+        );
 
-        if (intendedOption === 'tupper' || intendedOption === 'bag') {
-            if (isPrevLocked) return true;
-        }
+    const isLocked = (date: Date, mealType: string, intendedOption?: string, currentOption?: string): boolean =>
+        getLockStatus(date, mealType, intendedOption, currentOption).locked;
 
-        if (mealType !== 'breakfast') {
-            if (isTodayLocked) return true;
-        }
+    const getMyGuestsFor = (date: Date, mealType: string) =>
+        myGuests.filter(g => g.date === format(date, 'yyyy-MM-dd') && g.mealType === mealType);
 
-        return false;
-    };
+    const getPendingRequest = (date: Date, mealType: string) =>
+        changeRequests.find(r => r.status === 'pending' && r.date === format(date, 'yyyy-MM-dd') && r.mealType === mealType);
 
     const handleCellClick = (date: Date, mealType: string) => {
         const meal = getMealForDate(date, mealType);
         const currentOption = meal?.option || 'skip';
+        const lockStatus = getLockStatus(date, mealType, undefined, currentOption);
 
-        if (isLocked(date, mealType, undefined, currentOption)) {
+        // Closed meals can still be changed through a request to the kitchen, except past days
+        if (lockStatus.reason === 'past') {
             return;
         }
 
@@ -287,7 +247,8 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
             mealType,
             currentOption,
             isFromTemplate: meal?.source === 'template',
-            bagTime: meal?.bagTime
+            bagTime: meal?.bagTime,
+            isLateRequest: lockStatus.locked
         });
         
         // precise init time
@@ -299,15 +260,40 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
         if (!editingMeal) return;
 
         const { date, mealType, currentOption } = editingMeal;
-        const isBag = option === 'bag';
+        const isBag = getOption(option).isBag;
+        const isToday = format(date, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+
+        // Use selectedBagTime ONLY if it's a bag AND it is today
+        const timeToSave = (isBag && isToday) ? selectedBagTime : null;
 
-        if (isLocked(date, mealType, option, currentOption)) {
-            alert("El pedido está cerrado para esta opción (requiere antelación).");
+        const askKitchen = () => {
+            setPendingMealChange({ date, mealType, option, isBag, currentOption, bagTime: timeToSave });
+            setLateRequestNote('');
+            setShowLateRequest(true);
+            setEditingMeal(null);
+        };
+
+        if (editingMeal.isLateRequest) {
+            if (option !== currentOption) askKitchen();
+            return;
+        }
+
+        const lockStatus = getLockStatus(date, mealType, option, currentOption);
+        if (lockStatus.locked) {
+            alert(`El pedido está cerrado: ${lockStatus.message}.`);
             return;
         }
 
-        const isChangingFromPrep = (currentOption === 'tupper' || currentOption === 'bag') &&
-            (option !== 'tupper' && option !== 'bag');
+        // The server clock has the last word, the device's may be off
+        const serverStatus = await mealService.checkOrderLock(format(date, 'yyyy-MM-dd'), mealType, option);
+        if (serverStatus?.locked) {
+            alert(`El pedido está cerrado: ${serverStatus.message}. Puedes pedir el cambio a cocina.`);
+            loadData();
+            askKitchen();
+            return;
+        }
+
+        const isChangingFromPrep = getOption(currentOption).needsPrep && !getOption(option).needsPrep;
 
         // Only show warning if we are actually past some deadline or already "locked" for this day
         // We use isLocked(..., option, option) to check if a "standard" change would be blocked
@@ -321,20 +307,14 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
         }
 
         const dateStr = format(date, 'yyyy-MM-dd');
-        const finalIsBag = option === 'bag' ? true : (option === 'tupper' ? false : isBag);
-        
-        // Determine if it is today
-        const isToday = format(date, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
-
-        // Use selectedBagTime ONLY if it's a bag AND it is today
-        const timeToSave = (finalIsBag && option === 'bag' && isToday) ? selectedBagTime : null;
 
         try {
-            await mealService.upsertOrder(userId, dateStr, mealType, option, finalIsBag, timeToSave);
+            await mealService.upsertOrder(userId, dateStr, mealType, option, isBag, timeToSave);
             loadData();
             setEditingMeal(null);
         } catch (error) {
             console.error("Failed to update meal", error);
+            alert(error instanceof Error ? error.message : 'Error al actualizar el pedido');
         }
     };
 
@@ -343,37 +323,62 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
 
         const { date, mealType, option, isBag } = pendingMealChange;
         const dateStr = format(date, 'yyyy-MM-dd');
-        const finalIsBag = option === 'bag' ? true : (option === 'tupper' ? false : isBag);
 
         try {
-            await mealService.upsertOrder(userId, dateStr, mealType, option, finalIsBag);
+            await mealService.upsertOrder(userId, dateStr, mealType, option, isBag);
             loadData();
         } catch (error) {
             console.error("Failed to update meal", error);
+            alert(error instanceof Error ? error.message : 'Error al actualizar el pedido');
         } finally {
             setShowPrepWarning(false);
             setPendingMealChange(null);
         }
     };
 
+    const submitLateRequest = async () => {
+        if (!pendingMealChange) return;
+
+        const { date, mealType, option, isBag, currentOption, bagTime } = pendingMealChange;
+
+        try {
+            const request = await mealChangeRequestService.submit(format(date, 'yyyy-MM-dd'), mealType, currentOption, option, isBag, lateRequestNote, bagTime);
+            setChangeRequests(prev => [request, ...prev]);
+            setShowLateRequest(false);
+            setPendingMealChange(null);
+        } catch (error) {
+            console.error("Failed to submit change request", error);
+            alert(error instanceof Error ? error.message : 'Error al enviar la solicitud');
+        }
+    };
+
+    const withdrawLateRequest = async (request: MealChangeRequest) => {
+        try {
+            await mealChangeRequestService.withdraw(request.id);
+            setChangeRequests(prev => prev.filter(r => r.id !== request.id));
+        } catch (error) {
+            console.error("Failed to withdraw change request", error);
+        }
+    };
+
     const weekDays = [];
     const start = new Date(currentDate);
     for (let i = 0; i < 7; i++) {
         weekDays.push(addDays(start, i));
     }
 
-    const getAvailableOptions = (mealType: string) => {
-        if (mealType === 'breakfast') {
-            return ['standard', 'early', 'bag', 'skip']; 
-        } else if (mealType === 'lunch') {
-            return ['standard', 'early', 'late', 'tupper', 'bag', 'skip'];
-        } else {
-            return ['standard', 'late', 'skip'];
-        }
-    };
-
     return (
         <div className="space-y-6">
+            <div className="flex justify-end">
+                <button
+                    onClick={() => setIsBulkOpen(true)}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors shadow-sm"
+                >
+                    <CalendarRange size={16} />
+                    Pedido por fechas
+                </button>
+            </div>
+
             {/* Matrix Table */}
             <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden shadow-sm">
                 <div className="overflow-x-auto">
@@ -436,31 +441,53 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                         {MEALS.map(meal => {
                                             const data = getMealForDate(day, meal.id);
                                             const option = data?.option || 'skip';
-                                            const config = OPTION_CONFIG[option];
-                                            const locked = isLocked(day, meal.id, undefined, option);
+                                            const optionConfig = getOption(option);
+                                            const lockStatus = getLockStatus(day, meal.id, undefined, option);
+                                            const locked = lockStatus.locked;
+                                            const pendingRequest = getPendingRequest(day, meal.id);
+                                            const guestCount = getMyGuestsFor(day, meal.id).reduce((sum, g) => sum + g.count, 0);
                                             const isFromTemplate = data?.source === 'template';
                                             const isDefaultAbsence = data?.source === 'absence';
 
                                             // Visual override for absence default
-                                            const buttonClass = isDefaultAbsence && option === 'skip'
+                                            const isAbsenceDefault = isDefaultAbsence && option === 'skip';
+                                            const buttonClass = isAbsenceDefault
                                                 ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-400 dark:text-zinc-600 border border-zinc-200 dark:border-zinc-700'
-                                                : `${config.color} ${config.textColor}`;
+                                                : '';
 
                                             return (
                                                 <td key={meal.id} className="p-1 sm:p-4">
                                                     <button
                                                         onClick={() => handleCellClick(day, meal.id)}
-                                                        disabled={locked}
+                                                        disabled={lockStatus.reason === 'past'}
+                                                        style={isAbsenceDefault ? undefined : { backgroundColor: optionConfig.color, color: optionTextColor(optionConfig.color) }}
                                                         className={`
-                                                            w-full px-1.5 sm:px-4 py-2.5 rounded-xl font-bold sm:font-semibold text-[13px] sm:text-sm
+                                                            relative w-full px-1.5 sm:px-4 py-2.5 rounded-xl font-bold sm:font-semibold text-[13px] sm:text-sm
                                                             ${buttonClass}
-                                                            ${locked ? 'opacity-40 cursor-not-allowed' : 'hover:scale-105 cursor-pointer shadow-sm hover:shadow-md'}
+                                                            ${locked ? `opacity-40 ${lockStatus.reason === 'past' ? 'cursor-not-allowed' : 'cursor-pointer'}` : 'hover:scale-105 cursor-pointer shadow-sm hover:shadow-md'}
                                                             ${isFromTemplate ? 'ring-2 ring-zinc-300 dark:ring-zinc-600 ring-offset-2 dark:ring-offset-zinc-900' : ''}
                                                             transition-all duration-200
                                                         `}
                                                     >
-                                                        {option === 'skip' && isDefaultAbsence ? 'AUS' : config.label}
+                                                        {isAbsenceDefault ? 'AUS' : optionConfig.shortLabel}
+                                                        {pendingRequest && (
+                                                            <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-amber-500 ring-2 ring-white dark:ring-zinc-900" title="Solicitud de cambio pendiente" />
+                                                        )}
+                                                        {guestCount > 0 && (
+                                                            <span className="absolute -bottom-1.5 -right-1 px-1 rounded-full bg-indigo-600 text-white text-[9px] font-bold ring-2 ring-white dark:ring-zinc-900" title="Invitados">
+                                                                +{guestCount}
+                                                            </span>
+                                                        )}
                                                     </button>
+                                                    {option !== 'skip' && !isAbsenceDefault && (
+                                                        <div className="hidden sm:block mt-1 max-w-[160px] mx-auto">
+                                                            <MenuDishes
+                                                                dishes={dishesFor(menu, format(day, 'yyyy-MM-dd'), meal.id)}
+                                                                allergens={getMyAllergens(format(day, 'yyyy-MM-dd'))}
+                                                                compact
+                                                            />
+                                                        </div>
+                                                    )}
                                                 </td>
                                             );
                                         })}
@@ -472,6 +499,30 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                 </div>
             </div>
 
+            {/* Late-change requests and the kitchen's answers */}
+            {changeRequests.length > 0 && (
+                <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-4 space-y-2">
+                    <h4 className="text-sm font-semibold text-zinc-900 dark:text-white">Solicitudes a cocina</h4>
+                    {changeRequests.map(request => (
+                        <div key={request.id} className="flex items-center gap-2 text-xs">
+                            <span className="text-zinc-600 dark:text-zinc-400 capitalize min-w-[110px]">
+                                {format(new Date(`${request.date}T12:00:00`), 'EEE d MMM', { locale: es })} • {MEALS.find(m => m.id === request.mealType)?.name}
+                            </span>
+                            <MealOptionBadge option={getOption(request.requestedOption)} className="px-2 py-0.5 rounded-md font-semibold" />
+                            <span className={`ml-auto font-medium ${request.status === 'accepted'
+                                ? 'text-emerald-600 dark:text-emerald-400'
+                                : request.status === 'declined'
+                                    ? 'text-rose-600 dark:text-rose-400'
+                                    : 'text-amber-600 dark:text-amber-500'
+                                }`}>
+                                {request.status === 'accepted' ? 'Aceptada' : request.status === 'declined' ? 'Rechazada' : 'Pendiente'}
+                                {request.responseNote && <span className="font-normal text-zinc-500 dark:text-zinc-400"> · {request.responseNote}</span>}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Legend */}
             <div className="flex flex-wrap gap-3 text-xs text-zinc-600 dark:text-zinc-400">
                 <div className="flex items-center gap-2">
@@ -486,12 +537,20 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                     <div className="w-4 h-4 rounded bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700"></div>
                     <span>Ausente</span>
                 </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full bg-amber-500"></div>
+                    <span>Cambio pedido a cocina</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="px-1 rounded-full bg-indigo-600 text-white text-[9px] font-bold">+N</div>
+                    <span>Tus invitados</span>
+                </div>
             </div>
 
             {/* Edit Modal */}
             {editingMeal && (
                 <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
-                    <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-md w-full border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
                         {/* Header */}
                         <div className="p-6 border-b border-zinc-200 dark:border-zinc-800">
                             <div className="flex items-center justify-between mb-2">
@@ -550,17 +609,53 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                     );
                                 })()}
                             </div>
+
+                            {dishesFor(menu, format(editingMeal.date, 'yyyy-MM-dd'), editingMeal.mealType).length > 0 && (
+                                <div className="mt-3 p-3 rounded-xl bg-zinc-50 dark:bg-zinc-800/50">
+                                    <p className="text-[10px] uppercase font-bold text-zinc-400 mb-1">Menú</p>
+                                    <MenuDishes
+                                        dishes={dishesFor(menu, format(editingMeal.date, 'yyyy-MM-dd'), editingMeal.mealType)}
+                                        allergens={getMyAllergens(format(editingMeal.date, 'yyyy-MM-dd'))}
+                                    />
+                                </div>
+                            )}
+
+                            {editingMeal.isLateRequest && (() => {
+                                const pending = getPendingRequest(editingMeal.date, editingMeal.mealType);
+                                return (
+                                    <div className="mt-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 text-xs text-amber-800 dark:text-amber-300 space-y-2">
+                                        <p>
+                                            {getLockStatus(editingMeal.date, editingMeal.mealType, undefined, editingMeal.currentOption).message}.
+                                            Elige lo que necesitas y la cocina aceptará o rechazará el cambio.
+                                        </p>
+                                        {pending && (
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span>Ya has pedido <span className="font-semibold">{getOption(pending.requestedOption).label.toLowerCase()}</span></span>
+                                                <button
+                                                    onClick={() => {
+                                                        withdrawLateRequest(pending);
+                                                        setEditingMeal(null);
+                                                    }}
+                                                    className="font-semibold underline"
+                                                >
+                                                    Retirar
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })()}
                         </div>
 
                         {/* Options */}
                         <div className="p-6 space-y-2">
-                            {getAvailableOptions(editingMeal.mealType).map(opt => {
-                                const config = OPTION_CONFIG[opt];
+                            {getOptionsForMeal(editingMeal.mealType as MealType).map(optionConfig => {
+                                const opt = optionConfig.id;
                                 const isSelected = editingMeal.currentOption === opt;
-                                const optionLocked = isLocked(editingMeal.date, editingMeal.mealType, opt, editingMeal.currentOption);
+                                const optionLocked = !editingMeal.isLateRequest && isLocked(editingMeal.date, editingMeal.mealType, opt, editingMeal.currentOption);
 
                                 // Special UI for Bag Time Selection - ONLY FOR TODAY
-                                if (opt === 'bag' && !optionLocked) {
+                                if (optionConfig.isBag && !optionLocked) {
                                      const isToday = format(editingMeal.date, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
                                      
                                      // If not today, render standard button (no time selection)
@@ -582,11 +677,9 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                                     ? 'border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white'
                                                     : 'border-zinc-300 dark:border-zinc-600'
                                                     }`} />
-                                                <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                                    {config.label}
-                                                </div>
+                                                <MealOptionBadge option={optionConfig} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                                 <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                                    Bolsa
+                                                    {optionConfig.label}
                                                 </span>
                                             </button>
                                          );
@@ -610,11 +703,9 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                                     ? 'border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white'
                                                     : 'border-zinc-300 dark:border-zinc-600'
                                                     }`} />
-                                                <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                                    {config.label}
-                                                </div>
+                                                <MealOptionBadge option={optionConfig} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                                 <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                                    Bolsa
+                                                    {optionConfig.label}
                                                 </span>
                                              </button>
                                              
@@ -628,7 +719,7 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                                     className="flex-1 p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
                                                  />
                                                  <button
-                                                    onClick={() => handleOptionSelect('bag')} // Confirm with time
+                                                    onClick={() => handleOptionSelect(opt)} // Confirm with time
                                                     className="px-4 py-2 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-xs font-bold rounded-lg"
                                                  >
                                                      CONFIRMAR
@@ -656,11 +747,9 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                             ? 'border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white'
                                             : 'border-zinc-300 dark:border-zinc-600'
                                             }`} />
-                                        <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                            {config.label}
-                                        </div>
+                                        <MealOptionBadge option={optionConfig} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                         <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                            {opt === 'skip' ? 'No' : opt === 'standard' ? 'Normal' : opt === 'early' ? 'Temprano' : opt === 'late' ? 'Tarde' : opt === 'tupper' ? 'Tupper' : 'Bolsa'}
+                                            {optionConfig.label}
                                         </span>
                                         {optionLocked && (
                                             <span className="ml-auto text-xs text-amber-600 dark:text-amber-500 font-medium">Cerrado</span>
@@ -669,6 +758,73 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                 );
                             })}
                         </div>
+
+                        <HostGuestsEditor
+                            date={format(editingMeal.date, 'yyyy-MM-dd')}
+                            mealType={editingMeal.mealType as MealType}
+                            guests={getMyGuestsFor(editingMeal.date, editingMeal.mealType)}
+                            getLock={(intended, current) => getLockStatus(editingMeal.date, editingMeal.mealType, intended, current)}
+                            onChanged={loadData}
+                        />
+                    </div>
+                </div>
+            )}
+
+            <BulkMealOrderModal
+                isOpen={isBulkOpen}
+                onClose={() => setIsBulkOpen(false)}
+                userId={userId}
+                initialDate={currentDate}
+                onApplied={loadData}
+            />
+
+            {/* Late Change Request Modal */}
+            {showLateRequest && pendingMealChange && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-md w-full p-6 border border-zinc-200 dark:border-zinc-800">
+                        <div className="flex items-start gap-4 mb-4">
+                            <div className="flex-shrink-0 w-12 h-12 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center">
+                                <Send className="w-6 h-6 text-amber-600 dark:text-amber-500" />
+                            </div>
+                            <div className="flex-1">
+                                <h3 className="text-lg font-semibold text-zinc-900 dark:text-white mb-1">
+                                    Pedir cambio a cocina
+                                </h3>
+                                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                                    {MEALS.find(m => m.id === pendingMealChange.mealType)?.name} del {format(pendingMealChange.date, "EEEE d 'de' MMMM", { locale: es })}:
+                                    {' '}<span className="font-medium text-zinc-900 dark:text-white">{getOption(pendingMealChange.currentOption).label.toLowerCase()}</span>
+                                    {' → '}<span className="font-medium text-zinc-900 dark:text-white">{getOption(pendingMealChange.option).label.toLowerCase()}</span>.
+                                    Te avisaremos cuando la cocina responda.
+                                </p>
+                            </div>
+                        </div>
+
+                        <textarea
+                            value={lateRequestNote}
+                            onChange={e => setLateRequestNote(e.target.value)}
+                            placeholder="Ej.: Al final ceno fuera"
+                            rows={2}
+                            className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-white resize-none"
+                        />
+
+                        <div className="flex gap-3 mt-6">
+                            <button
+                                onClick={() => {
+                                    setShowLateRequest(false);
+                                    setPendingMealChange(null);
+                                }}
+                                className="flex-1 px-4 py-2.5 rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 font-medium text-sm transition-colors"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={submitLateRequest}
+                                className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 font-medium text-sm transition-colors shadow-sm"
+                            >
+                                <Check size={16} />
+                                Enviar solicitud
+                            </button>
+                        </div>
                     </div>
                 </div>
             )}
@@ -686,7 +842,7 @@ export const DailyOrderManager: React.FC<DailyOrderManagerProps> = ({ userId, cu
                                     Cambiar pedido preparado
                                 </h3>
                                 <p className="text-sm text-zinc-600 dark:text-zinc-400">
-                                    Ya tienes {pendingMealChange.currentOption === 'tupper' ? 'preparado un' : 'preparada una'} <span className="font-medium text-zinc-900 dark:text-white">{pendingMealChange.currentOption === 'tupper' ? 'tupper' : 'bolsa'}</span>. ¿Quieres cambiarlo de todas formas?
+                                    Ya tienes pedido <span className="font-medium text-zinc-900 dark:text-white">{getOption(pendingMealChange.currentOption).label.toLowerCase()}</span> y la cocina lo prepara con antelación. ¿Quieres cambiarlo de todas formas?
                                 </p>
                             </div>
                         </div>
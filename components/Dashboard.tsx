@@ -119,11 +119,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpda
 
       // Show browser notification if permission is granted
       if (Notification.permission === 'granted') {
-        new Notification(payload.notification?.title || 'Nueva notificación', {
+        const notification = new Notification(payload.notification?.title || 'Nueva notificación', {
           body: payload.notification?.body || '',
           icon: '/icon-192x192.png',
           badge: '/icon-192x192.png'
         });
+        const url = payload.data?.url;
+        if (url) {
+          notification.onclick = () => {
+            window.focus();
+            window.location.href = url;
+          };
+        }
       }
     });
 
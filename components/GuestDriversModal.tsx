@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { addDays, format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Users, ChevronDown, ChevronUp, Phone, IdCard, Pencil } from 'lucide-react';
+import { GuestDriver, Reservation, User } from '../types';
+import { guestDriverService, isLicenseExpired } from '../services/guestDrivers';
+import { hasAdminAccess } from '../utils/permissions';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+
+interface GuestDriversModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: User;
+}
+
+type GuestTrip = Reservation & { carName?: string };
+
+const LicenseBadge: React.FC<{ guest: GuestDriver }> = ({ guest }) => {
+    if (!guest.licenseExpiry) {
+        return <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-500 dark:text-zinc-400">Sin datos</span>;
+    }
+    if (isLicenseExpired(guest)) {
+        return <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">Caducado</span>;
+    }
+    if (isLicenseExpired(guest, addDays(new Date(), 30))) {
+        return <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">Caduca pronto</span>;
+    }
+    return <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400">Vigente</span>;
+};
+
+export const GuestDriversModal: React.FC<GuestDriversModalProps> = ({ isOpen, onClose, user }) => {
+    useBodyScrollLock(isOpen);
+    const [guests, setGuests] = useState<GuestDriver[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [search, setSearch] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [trips, setTrips] = useState<Record<string, GuestTrip[]>>({});
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editForm, setEditForm] = useState({ phone: '', licenseNumber: '', licenseExpiry: '' });
+    const [error, setError] = useState<string | null>(null);
+
+    const isAdmin = hasAdminAccess(user, 'vehicles');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const loadGuests = async () => {
+            setLoading(true);
+            try {
+                setGuests(await guestDriverService.getGuests());
+            } catch (e) {
+                setError('Error al cargar los invitados: ' + (e as Error).message);
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadGuests();
+    }, [isOpen]);
+
+    const filteredGuests = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return query ? guests.filter(guest => guest.name.toLowerCase().includes(query)) : guests;
+    }, [guests, search]);
+
+    const handleToggle = async (guestId: string) => {
+        if (expandedId === guestId) {
+            setExpandedId(null);
+            return;
+        }
+        setExpandedId(guestId);
+        if (trips[guestId]) return;
+        try {
+            const guestTrips = await guestDriverService.getTrips(guestId);
+            setTrips(prev => ({ ...prev, [guestId]: guestTrips }));
+        } catch (e) {
+            setError('Error al cargar los viajes: ' + (e as Error).message);
+        }
+    };
+
+    const handleStartEdit = (guest: GuestDriver) => {
+        setEditingId(guest.id);
+        setEditForm({
+            phone: guest.phone || '',
+            licenseNumber: guest.licenseNumber || '',
+            licenseExpiry: guest.licenseExpiry || ''
+        });
+    };
+
+    const handleSaveEdit = async (guestId: string) => {
+        setError(null);
+        try {
+            await guestDriverService.updateGuest(guestId, editForm);
+            setGuests(prev => prev.map(guest => guest.id === guestId
+                ? {
+                    ...guest,
+                    phone: editForm.phone || undefined,
+                    licenseNumber: editForm.licenseNumber || undefined,
+                    licenseExpiry: editForm.licenseExpiry || undefined
+                }
+                : guest
+            ));
+            setEditingId(null);
+        } catch (e) {
+            setError('Error al guardar: ' + (e as Error).message);
+        }
+    };
+
+    const inputClass = "w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none";
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="absolute inset-0 bg-black/20 backdrop-blur-sm"
+                    />
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="relative w-full h-full sm:h-auto sm:max-h-[90vh] max-w-md bg-white dark:bg-zinc-900 sm:rounded-xl shadow-xl overflow-hidden flex flex-col border border-zinc-200 dark:border-zinc-800"
+                    >
+                        <div className="flex items-center justify-between p-4 border-b border-zinc-100 dark:border-zinc-800">
+                            <h3 className="font-semibold text-zinc-900 dark:text-white flex items-center gap-2 text-sm">
+                                <Users size={16} /> Conductores invitados
+                            </h3>
+                            <button onClick={onClose} className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full text-zinc-400 dark:text-zinc-500 transition-colors">
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="p-4 space-y-3 overflow-y-auto">
+                            <input
+                                type="text"
+                                placeholder="Buscar invitado"
+                                className={`${inputClass} placeholder-zinc-400 dark:placeholder-zinc-600`}
+                                value={search}
+                                onChange={e => setSearch(e.target.value)}
+                            />
+
+                            {error && (
+                                <p className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 rounded-lg px-3 py-2">
+                                    {error}
+                                </p>
+                            )}
+
+                            {loading && <p className="text-xs text-zinc-400 dark:text-zinc-500 py-6 text-center">Cargando...</p>}
+
+                            {!loading && filteredGuests.length === 0 && (
+                                <p className="text-xs text-zinc-400 dark:text-zinc-500 py-6 text-center">
+                                    No hay invitados registrados. Se añaden al reservar para otra persona.
+                                </p>
+                            )}
+
+                            <div className="space-y-2">
+                                {filteredGuests.map(guest => {
+                                    const isExpanded = expandedId === guest.id;
+                                    const canEdit = isAdmin || guest.vouchedBy === user.id;
+                                    const guestTrips = trips[guest.id];
+
+                                    return (
+                                        <div key={guest.id} className="rounded-lg border border-zinc-100 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50">
+                                            <button
+                                                onClick={() => handleToggle(guest.id)}
+                                                className="w-full flex items-center gap-3 p-2 text-left"
+                                            >
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-xs font-medium text-zinc-900 dark:text-white truncate flex items-center gap-2">
+                                                        {guest.name} <LicenseBadge guest={guest} />
+                                                    </p>
+                                                    <p className="text-[10px] text-zinc-500 dark:text-zinc-400 truncate">
+                                                        {guest.vouchedByName ? `Responde ${guest.vouchedByName}` : 'Sin responsable'}
+                                                    </p>
+                                                </div>
+                                                {isExpanded ? <ChevronUp size={14} className="text-zinc-400" /> : <ChevronDown size={14} className="text-zinc-400" />}
+                                            </button>
+
+                                            {isExpanded && (
+                                                <div className="px-2 pb-2 space-y-3">
+                                                    {editingId === guest.id ? (
+                                                        <div className="space-y-2">
+                                                            <div>
+                                                                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Teléfono</label>
+                                                                <input
+                                                                    type="tel"
+                                                                    className={inputClass}
+                                                                    value={editForm.phone}
+                                                                    onChange={e => setEditForm({ ...editForm, phone: e.target.value })}
+                                                                />
+                                                            </div>
+                                                            <div className="grid grid-cols-2 gap-2">
+                                                                <div>
+                                                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Nº de carnet</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        className={inputClass}
+                                                                        value={editForm.licenseNumber}
+                                                                        onChange={e => setEditForm({ ...editForm, licenseNumber: e.target.value })}
+                                                                    />
+                                                                </div>
+                                                                <div>
+                                                                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Caducidad</label>
+                                                                    <input
+                                                                        type="date"
+                                                                        className={`${inputClass} [color-scheme:light] dark:[color-scheme:dark]`}
+                                                                        value={editForm.licenseExpiry}
+                                                                        onChange={e => setEditForm({ ...editForm, licenseExpiry: e.target.value })}
+                                                                    />
+                                                                </div>
+                                                            </div>
+                                                            <div className="flex gap-2">
+                                                                <button
+                                                                    onClick={() => setEditingId(null)}
+                                                                    className="flex-1 py-1.5 text-[11px] font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                                                                >
+                                                                    Cancelar
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => handleSaveEdit(guest.id)}
+                                                                    className="flex-1 py-1.5 text-[11px] font-medium bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+                                                                >
+                                                                    Guardar
+                                                                </button>
+                                                            </div>
+                                                        </div>
+                                                    ) : (
+                                                        <div className="flex items-start justify-between gap-2">
+                                                            <div className="space-y-1 text-[11px] text-zinc-600 dark:text-zinc-300">
+                                                                <p className="flex items-center gap-1.5"><Phone size={11} /> {guest.phone || '—'}</p>
+                                                                <p className="flex items-center gap-1.5">
+                                                                    <IdCard size={11} /> {guest.licenseNumber || '—'}
+                                                                    {guest.licenseExpiry && ` · caduca el ${format(parseISO(guest.licenseExpiry), 'd MMM yyyy', { locale: es })}`}
+                                                                </p>
+                                                            </div>
+                                                            {canEdit && (
+                                                                <button
+                                                                    onClick={() => handleStartEdit(guest)}
+                                                                    className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-md text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 transition-colors"
+                                                                    title="Editar datos del carnet"
+                                                                >
+                                                                    <Pencil size={12} />
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                    )}
+
+                                                    <div>
+                                                        <p className="text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Viajes</p>
+                                                        {!guestTrips && <p className="text-[11px] text-zinc-400">Cargando...</p>}
+                                                        {guestTrips?.length === 0 && <p className="text-[11px] text-zinc-400">Todavía no ha conducido ningún coche</p>}
+                                                        <div className="space-y-1">
+                                                            {guestTrips?.map(trip => (
+                                                                <div key={trip.id} className="flex items-center justify-between gap-2 text-[11px]">
+                                                                    <span className={`truncate ${trip.status === 'CANCELLED' ? 'line-through text-zinc-400' : 'text-zinc-700 dark:text-zinc-300'}`}>
+                                                                        {format(parseISO(trip.startTime), "d MMM yyyy, HH:mm", { locale: es })} · {trip.carName || 'Coche'}
+                                                                    </span>
+                                                                    <span className="text-[10px] text-zinc-400 whitespace-nowrap">por {trip.userName}</span>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { format, addMonths, startOfMonth, endOfMonth, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Users, ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { kitchenService } from '../services/kitchen';
+import { profileService } from '../services/profiles';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { buildGuestReport, guestReportToCsv, HostGuestRow } from '../utils/guestReport';
+
+interface GuestMealsReportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+// Monthly guest meals per host, so the cost can be shared out
+export const GuestMealsReportModal: React.FC<GuestMealsReportModalProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const [month, setMonth] = useState(format(startOfMonth(initialDate), 'yyyy-MM-dd'));
+    const [rows, setRows] = useState<HostGuestRow[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setMonth(format(startOfMonth(initialDate), 'yyyy-MM-dd'));
+    }, [isOpen, initialDate]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadReport();
+    }, [isOpen, month]);
+
+    const loadReport = async () => {
+        setLoading(true);
+        try {
+            const [guests, profiles] = await Promise.all([
+                kitchenService.getGuestsInRange(month, format(endOfMonth(parseISO(month)), 'yyyy-MM-dd')),
+                profileService.getAllProfiles()
+            ]);
+            setRows(buildGuestReport(guests, new Map(profiles.map(p => [p.id, p.name]))));
+        } catch (error) {
+            console.error('Error loading guest report:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleExport = () => {
+        const csv = guestReportToCsv(rows);
+        const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `invitados_${month.slice(0, 7)}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    if (!isOpen) return null;
+
+    const totals = rows.reduce(
+        (acc, row) => ({
+            breakfast: acc.breakfast + row.meals.breakfast,
+            lunch: acc.lunch + row.meals.lunch,
+            dinner: acc.dinner + row.meals.dinner,
+            total: acc.total + row.total
+        }),
+        { breakfast: 0, lunch: 0, dinner: 0, total: 0 }
+    );
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                        <Users size={18} /> Invitados por residente
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-3 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setMonth(format(addMonths(parseISO(month), -1), 'yyyy-MM-dd'))}
+                            className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                        >
+                            <ChevronLeft size={18} className="text-zinc-600 dark:text-zinc-400" />
+                        </button>
+                        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300 min-w-[120px] text-center capitalize">
+                            {format(parseISO(month), 'MMMM yyyy', { locale: es })}
+                        </span>
+                        <button
+                            onClick={() => setMonth(format(addMonths(parseISO(month), 1), 'yyyy-MM-dd'))}
+                            className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                        >
+                            <ChevronRight size={18} className="text-zinc-600 dark:text-zinc-400" />
+                        </button>
+                    </div>
+                    <button
+                        onClick={handleExport}
+                        disabled={rows.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                    >
+                        <Download size={14} /> CSV
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto">
+                    {loading ? (
+                        <p className="text-sm text-center text-zinc-400 py-8">Cargando...</p>
+                    ) : rows.length === 0 ? (
+                        <p className="text-sm text-center text-zinc-500 dark:text-zinc-400 py-8">Ningún residente ha traído invitados este mes</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+                                    <th className="text-left font-medium py-2">Anfitrión</th>
+                                    <th className="font-medium py-2">Des.</th>
+                                    <th className="font-medium py-2">Com.</th>
+                                    <th className="font-medium py-2">Cena</th>
+                                    <th className="font-medium py-2">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.hostId} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                                        <td className="py-2 font-medium text-zinc-900 dark:text-white">{row.hostName}</td>
+                                        <td className="py-2 text-center text-zinc-600 dark:text-zinc-400">{row.meals.breakfast || '—'}</td>
+                                        <td className="py-2 text-center text-zinc-600 dark:text-zinc-400">{row.meals.lunch || '—'}</td>
+                                        <td className="py-2 text-center text-zinc-600 dark:text-zinc-400">{row.meals.dinner || '—'}</td>
+                                        <td className="py-2 text-center font-bold text-zinc-900 dark:text-white">{row.total}</td>
+                                    </tr>
+                                ))}
+                                <tr className="text-xs font-bold text-zinc-500">
+                                    <td className="py-2">Total</td>
+                                    <td className="py-2 text-center">{totals.breakfast}</td>
+                                    <td className="py-2 text-center">{totals.lunch}</td>
+                                    <td className="py-2 text-center">{totals.dinner}</td>
+                                    <td className="py-2 text-center">{totals.total}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
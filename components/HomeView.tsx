@@ -1,16 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { User, Car, Reservation, MealTemplate, MealOrder, MaintenanceTicket } from '../types';
-import { kitchenService, KitchenConfig } from '../services/kitchen';
+import { User, Car, Reservation, MealTemplate, MealOrder, MaintenanceTicket, KitchenConfig, Holiday, MenuDish } from '../types';
+import { kitchenService } from '../services/kitchen';
 import { hasAccess } from '../utils/permissions';
 import { maintenanceService } from '../services/maintenance';
 import { carService } from '../services/cars';
 import { reservationService } from '../services/reservations';
 import { mealService } from '../services/meals';
+import { menuService } from '../services/menus';
 import { gospelService, GospelData } from '../services/gospel';
 import { useCalendarEvents } from '../hooks/useCalendarEvents';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { evaluateMealLock, getTimeToDayCutoff, DayLockState, MealLockContext } from '../utils/mealLocks';
+import { findTemplateForDate } from '../utils/mealTemplates';
 import { EpactaEvent } from './EpactaEvent';
 import { SugarPacket } from './SugarPacket';
 import { CarDetail } from './CarDetail'; // Import CarDetail
+import { MealOptionBadge } from './MealOptionBadge';
+import { MenuDishes } from './MenuDishes';
+import { dishesFor } from '../utils/menus';
+import { getActiveAllergens } from '../utils/allergens';
 import {
     Car as CarIcon,
     Utensils,
@@ -34,16 +42,6 @@ interface HomeViewProps {
     onNavigate: (view: 'HOME' | 'VEHICLES' | 'MEALS' | 'MAINTENANCE' | 'CALENDAR') => void;
 }
 
-// Color configuration matching DailyOrderManager
-const OPTION_CONFIG: Record<string, { label: string; color: string; textColor: string }> = {
-    skip: { label: 'NO', color: 'bg-rose-500', textColor: 'text-white' },
-    standard: { label: 'SÍ', color: 'bg-emerald-500', textColor: 'text-white' },
-    early: { label: '1T', color: 'bg-yellow-400', textColor: 'text-zinc-900' },
-    late: { label: '2T', color: 'bg-emerald-700', textColor: 'text-white' },
-    tupper: { label: 'TP', color: 'bg-amber-800', textColor: 'text-white' },
-    bag: { label: 'B', color: 'bg-blue-600', textColor: 'text-white' },
-};
-
 
 export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
     // Data State
@@ -57,8 +55,11 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
         lunch?: MealOrder | { status: 'template'; option: string; isBag: boolean };
         dinner?: MealOrder | { status: 'template'; option: string; isBag: boolean };
     }>({});
+    const [todayMenu, setTodayMenu] = useState<MenuDish[]>([]); // Published dishes
 
     const [kitchenConfig, setKitchenConfig] = useState<KitchenConfig | null>(null);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [dayLocks, setDayLocks] = useState<DayLockState[]>([]);
     const [timeLeft, setTimeLeft] = useState<string | null>(null);
     const [isClosingSoon, setIsClosingSoon] = useState(false);
 
@@ -66,6 +67,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
     const [viewDate, setViewDate] = useState(new Date());
     const [gospel, setGospel] = useState<GospelData | null>(null);
     const { events, loading: eventsLoading } = useCalendarEvents();
+    const { getOption, getOptionsForMeal } = useMealOptions();
 
     // Quick Fleet State
     const [quickCars, setQuickCars] = useState<Car[]>([]);
@@ -105,30 +107,19 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
         updateCountdown(); // Initial run
         const timer = setInterval(updateCountdown, 1000);
         return () => clearInterval(timer);
-    }, [kitchenConfig]);
-
-    const updateCountdown = () => {
-        if (!kitchenConfig || !kitchenConfig.weekly_schedule) return;
+    }, [kitchenConfig, holidays, dayLocks]);
 
-        const now = new Date();
-        const startDay = now.getDay().toString();
-        const cutoffTime = kitchenConfig.weekly_schedule[startDay];
-
-        if (!cutoffTime) {
-            setTimeLeft(null);
-            return;
-        }
+    const getLockContext = (): MealLockContext => ({ config: kitchenConfig, holidays, locks: dayLocks, now: new Date() });
 
-        const [h, m] = cutoffTime.split(':').map(Number);
-        const deadline = new Date(now);
-        deadline.setHours(h, m, 0, 0);
+    const updateCountdown = () => {
+        if (!kitchenConfig) return;
 
-        if (deadline <= now) {
-            setTimeLeft(null); // Deadline passed
+        const diff = getTimeToDayCutoff(getLockContext());
+        if (diff === null || diff <= 0) {
+            setTimeLeft(null); // Deadline passed or kitchen closed
             return;
         }
 
-        const diff = deadline.getTime() - now.getTime();
         const hours = Math.floor(diff / (1000 * 60 * 60));
         const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
         const seconds = Math.floor((diff % (1000 * 60)) / 1000);
@@ -149,9 +140,12 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                 setQuickCars(cachedData.quickCars);
                 setDailyMeals(cachedData.dailyMeals);
                 setKitchenConfig(cachedData.kitchenConfig);
+                setHolidays(cachedData.holidays || []);
+                setDayLocks(cachedData.dayLocks || []);
                 setViewDate(new Date(cachedData.viewDate));
                 setReservations(cachedData.reservations || []);
                 if (cachedData.activeTickets) setActiveTickets(cachedData.activeTickets);
+                setTodayMenu(cachedData.todayMenu || []);
                 // Don't cache gospel - always fetch fresh
             } catch (e) {
                 console.error('Cache parse error:', e);
@@ -191,23 +185,35 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
 
             // 2. Meal Status (Today)
             const todayStr = format(now, 'yyyy-MM-dd');
-            let dayOfWeek = now.getDay(); // 0=Sun
-            if (dayOfWeek === 0) dayOfWeek = 7; // Convert to 1-7 (Mon-Sun)
 
-            const [templates, orders, config] = await Promise.all([
+            const yesterdayStr = format(addDays(now, -1), 'yyyy-MM-dd');
+
+            const [templateSets, templates, orders, config, holidaysData, todayLocked, yesterdayLocked, menuData] = await Promise.all([
+                mealService.getMyTemplateSets(),
                 mealService.getMyTemplates(),
                 mealService.getMyOrders(todayStr, todayStr),
-                kitchenService.getConfig()
+                kitchenService.getConfig(),
+                kitchenService.getHolidays(),
+                kitchenService.getDailyLockStatus(todayStr),
+                kitchenService.getDailyLockStatus(yesterdayStr),
+                menuService.getDishes(todayStr, todayStr)
             ]);
 
+            const locksData = [
+                { date: yesterdayStr, isLocked: yesterdayLocked },
+                { date: todayStr, isLocked: todayLocked }
+            ];
             setKitchenConfig(config);
+            setHolidays(holidaysData);
+            setDayLocks(locksData);
+            setTodayMenu(menuData);
 
             // Helper to resolve meal status
             const resolveMeal = (type: string) => {
                 const order = orders.find(o => o.mealType === type);
                 if (order) return order; // Explicit order/skip
 
-                const template = templates.find(t => t.dayOfWeek === dayOfWeek && t.mealType === type);
+                const template = findTemplateForDate(templateSets, templates, user.id, todayStr, type);
                 if (template) return { status: 'template' as const, option: template.option, isBag: template.isBag };
 
                 return { status: 'template' as const, option: 'skip', isBag: false };
@@ -244,9 +250,12 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                 quickCars: quickCarsData,
                 dailyMeals: mealsData,
                 kitchenConfig: config,
+                holidays: holidaysData,
+                dayLocks: locksData,
                 viewDate: agendaDate,
                 reservations: res,
-                activeTickets: ticketsData
+                activeTickets: ticketsData,
+                todayMenu: menuData
             }));
 
         } catch (error) {
@@ -260,8 +269,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
         // Check if we're changing FROM a prep item (tupper/bag) to a standard option
         const currentItem = dailyMeals[type];
         const currentOption = currentItem?.option;
-        const isChangingFromPrep = (currentOption === 'tupper' || currentOption === 'bag') &&
-            (option !== 'tupper' && option !== 'bag');
+        const isChangingFromPrep = !!currentOption && getOption(currentOption).needsPrep && !getOption(option).needsPrep;
 
         if (isChangingFromPrep) {
             // Show modal instead of window.confirm
@@ -281,6 +289,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
             await mealService.upsertOrder(user.id, todayStr, type, option, isBag);
         } catch (error) {
             console.error("Failed to update meal", error);
+            alert(error instanceof Error ? error.message : 'Error al actualizar el pedido');
             loadDashboardData(); // Revert on error
         }
     };
@@ -301,6 +310,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
             await mealService.upsertOrder(user.id, todayStr, type, option, isBag);
         } catch (error) {
             console.error("Failed to update meal", error);
+            alert(error instanceof Error ? error.message : 'Error al actualizar el pedido');
             loadDashboardData();
         } finally {
             setShowPrepWarning(false);
@@ -308,19 +318,6 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
         }
     };
 
-    // Helper for labels
-    const getOptionLabel = (opt: string) => {
-        const map: Record<string, string> = {
-            'standard': 'Normal',
-            'early': 'Pronto',
-            'late': 'Tarde',
-            'tupper': 'Tupper',
-            'bag': 'Bolsa',
-            'skip': 'No'
-        };
-        return map[opt] || opt;
-    };
-
     return (
         <div className="space-y-8 animate-in fade-in duration-500">
             {/* Header */}
@@ -455,17 +452,23 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
 
                                 {/* Meals List - Color Coded */}
                                 <div className="space-y-1">
-                                    {[
-                                        { key: 'breakfast', label: 'Desayuno', options: ['standard', 'early', 'bag', 'skip'], data: dailyMeals.breakfast },
-                                        { key: 'lunch', label: 'Comida', options: ['standard', 'early', 'late', 'skip'], data: dailyMeals.lunch },
-                                        { key: 'dinner', label: 'Cena', options: ['standard', 'late', 'skip'], data: dailyMeals.dinner }
-                                    ].map((meal) => {
+                                    {([
+                                        { key: 'breakfast', label: 'Desayuno', data: dailyMeals.breakfast },
+                                        { key: 'lunch', label: 'Comida', data: dailyMeals.lunch },
+                                        { key: 'dinner', label: 'Cena', data: dailyMeals.dinner }
+                                    ] as const).map((meal) => {
                                         if (!meal.data) return null;
 
                                         const currentOption = meal.data.option;
-                                        const config = OPTION_CONFIG[currentOption] || OPTION_CONFIG.standard;
-                                        const isLocked = !timeLeft;
-                                        const isPrepLocked = meal.key === 'breakfast';
+                                        const config = getOption(currentOption);
+                                        const getLock = (intended?: string) => evaluateMealLock(getLockContext(), {
+                                            date: format(new Date(), 'yyyy-MM-dd'),
+                                            mealType: meal.key,
+                                            currentOption: config,
+                                            intendedOption: intended ? getOption(intended) : undefined
+                                        });
+                                        const isLocked = getLock().locked;
+                                        const options = getOptionsForMeal(meal.key).filter(o => !getLock(o.id).locked);
                                         const isExpanded = expandedMeal === meal.key;
 
                                         return (
@@ -473,24 +476,31 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                                                 <button
                                                     onClick={(e) => {
                                                         e.stopPropagation();
-                                                        if (!isLocked && !isPrepLocked) {
+                                                        if (!isLocked) {
                                                             setExpandedMeal(isExpanded ? null : meal.key);
                                                         }
                                                     }}
-                                                    disabled={isLocked || isPrepLocked}
-                                                    className={`w-full flex items-center justify-between py-2 px-2 rounded-lg transition-colors ${isLocked || isPrepLocked
+                                                    disabled={isLocked}
+                                                    className={`w-full flex items-center justify-between py-2 px-2 rounded-lg transition-colors ${isLocked
                                                         ? 'opacity-60 cursor-not-allowed'
                                                         : isExpanded
                                                             ? 'bg-zinc-50 dark:bg-zinc-800/50'
                                                             : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50 cursor-pointer'
                                                         }`}
                                                 >
-                                                    <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{meal.label}</span>
+                                                    <div className="min-w-0 text-left">
+                                                        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{meal.label}</span>
+                                                        {currentOption !== 'skip' && (
+                                                            <MenuDishes
+                                                                dishes={dishesFor(todayMenu, format(new Date(), 'yyyy-MM-dd'), meal.key)}
+                                                                allergens={getActiveAllergens(user, format(new Date(), 'yyyy-MM-dd'))}
+                                                                compact
+                                                            />
+                                                        )}
+                                                    </div>
                                                     <div className="flex items-center gap-2">
-                                                        <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-xs`}>
-                                                            {config.label}
-                                                        </div>
-                                                        {!isLocked && !isPrepLocked && (
+                                                        <MealOptionBadge option={config} className="px-3 py-1 rounded-lg font-semibold text-xs" />
+                                                        {!isLocked && (
                                                             <ChevronRight size={14} className={`text-zinc-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
                                                         )}
                                                     </div>
@@ -500,15 +510,15 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                                                 {isExpanded && (
                                                     <div className="mt-1 p-2 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-200 dark:border-zinc-700 animate-in slide-in-from-top-2 duration-200">
                                                         <div className="grid grid-cols-3 gap-1">
-                                                            {meal.options.map(opt => {
-                                                                const optConfig = OPTION_CONFIG[opt] || OPTION_CONFIG.standard;
+                                                            {options.map(optConfig => {
+                                                                const opt = optConfig.id;
                                                                 const isSelected = currentOption === opt;
                                                                 return (
                                                                     <button
                                                                         key={opt}
                                                                         onClick={(e) => {
                                                                             e.stopPropagation();
-                                                                            handleMealUpdate(meal.key as any, opt, opt === 'bag');
+                                                                            handleMealUpdate(meal.key, opt, optConfig.isBag);
                                                                             setExpandedMeal(null);
                                                                         }}
                                                                         className={`p-2 rounded-lg transition-all ${isSelected
@@ -516,9 +526,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                                                                             : 'bg-white/50 dark:bg-zinc-700/50 hover:bg-white dark:hover:bg-zinc-700'
                                                                             }`}
                                                                     >
-                                                                        <div className={`px-2 py-1 rounded ${optConfig.color} ${optConfig.textColor} font-semibold text-xs`}>
-                                                                            {optConfig.label}
-                                                                        </div>
+                                                                        <MealOptionBadge option={optConfig} className="w-full px-2 py-1 rounded font-semibold text-xs" />
                                                                     </button>
                                                                 );
                                                             })}
@@ -692,7 +700,6 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                 <CarDetail
                     car={selectedCar}
                     reservations={reservations.filter(r => r.carId === selectedCar.id)}
-                    activity={[]}
                     currentUser={user}
                     onClose={() => setSelectedCar(null)}
                     onUpdate={loadDashboardData}
@@ -712,7 +719,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ user, onNavigate }) => {
                                     Cambiar pedido preparado
                                 </h3>
                                 <p className="text-sm text-zinc-600 dark:text-zinc-400">
-                                    Ya tienes {pendingMealChange.currentOption === 'tupper' ? 'preparado un' : 'preparada una'} <span className="font-medium text-zinc-900 dark:text-white">{pendingMealChange.currentOption === 'tupper' ? 'tupper' : 'bolsa'}</span>. ¿Quieres cambiarlo de todas formas?
+                                    Ya tienes pedido <span className="font-medium text-zinc-900 dark:text-white">{getOption(pendingMealChange.currentOption).label.toLowerCase()}</span> y la cocina lo prepara con antelación. ¿Quieres cambiarlo de todas formas?
                                 </p>
                             </div>
                         </div>
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { UserPlus, Trash2 } from 'lucide-react';
+import { kitchenService, MealGuest } from '../services/kitchen';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealLockResult } from '../utils/mealLocks';
+import { MealType } from '../utils/mealForecast';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface HostGuestsEditorProps {
+    date: string; // YYYY-MM-DD
+    mealType: MealType;
+    guests: MealGuest[]; // The resident's own guests for this meal
+    getLock: (intendedOption: string, currentOption: string) => MealLockResult;
+    onChanged: () => void;
+}
+
+// Guests a resident brings to one meal, inside the order modal
+export const HostGuestsEditor: React.FC<HostGuestsEditorProps> = ({ date, mealType, guests, getLock, onChanged }) => {
+    const { getOption, getOptionsForMeal } = useMealOptions();
+    const options = getOptionsForMeal(mealType).filter(o => o.id !== 'skip');
+    const [isAdding, setIsAdding] = useState(false);
+    const [count, setCount] = useState(1);
+    const [option, setOption] = useState(options[0]?.id || 'standard');
+    const [notes, setNotes] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const addLock = getLock(option, 'skip');
+
+    const handleAdd = async () => {
+        if (addLock.locked || count < 1) return;
+        setSaving(true);
+        try {
+            await kitchenService.addGuest(date, mealType, count, option, getOption(option).isBag, notes.trim() || undefined, true);
+            setIsAdding(false);
+            setCount(1);
+            setNotes('');
+            onChanged();
+        } catch (error) {
+            console.error('Error adding guests:', error);
+            alert(error instanceof Error ? error.message : 'Error al añadir invitados');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRemove = async (guest: MealGuest) => {
+        try {
+            await kitchenService.deleteGuest(guest.id);
+            onChanged();
+        } catch (error) {
+            console.error('Error removing guests:', error);
+            alert(error instanceof Error ? error.message : 'Error al quitar invitados');
+        }
+    };
+
+    return (
+        <div className="px-6 pb-6 space-y-2">
+            <div className="flex items-center justify-between">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Mis invitados</h4>
+                {!isAdding && (
+                    <button
+                        onClick={() => setIsAdding(true)}
+                        disabled={getLock(options[0]?.id || 'standard', 'skip').locked}
+                        className="flex items-center gap-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-40 disabled:no-underline"
+                    >
+                        <UserPlus size={14} />
+                        Añadir
+                    </button>
+                )}
+            </div>
+
+            {guests.length === 0 && !isAdding && (
+                <p className="text-xs text-zinc-400">No has apuntado invitados a esta comida.</p>
+            )}
+
+            {guests.map(guest => {
+                const removeLock = getLock('skip', guest.option);
+                return (
+                    <div key={guest.id} className="flex items-center gap-2 p-2 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 text-sm">
+                        <span className="font-bold text-indigo-600 dark:text-indigo-400">+{guest.count}</span>
+                        <MealOptionBadge option={getOption(guest.option)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                        <span className="flex-1 truncate text-xs text-zinc-600 dark:text-zinc-400">{guest.notes}</span>
+                        <button
+                            onClick={() => handleRemove(guest)}
+                            disabled={removeLock.locked}
+                            title={removeLock.locked ? removeLock.message : 'Quitar'}
+                            className="p-1 text-zinc-400 hover:text-rose-500 transition-colors disabled:opacity-30 disabled:hover:text-zinc-400"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                );
+            })}
+
+            {isAdding && (
+                <div className="p-3 rounded-xl border border-zinc-200 dark:border-zinc-700 space-y-2">
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            min="1"
+                            value={count}
+                            onChange={e => setCount(parseInt(e.target.value) || 1)}
+                            className="w-16 p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                        />
+                        <select
+                            value={option}
+                            onChange={e => setOption(e.target.value)}
+                            className="flex-1 p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                        >
+                            {options.map(o => (
+                                <option key={o.id} value={o.id}>{o.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <input
+                        type="text"
+                        value={notes}
+                        onChange={e => setNotes(e.target.value)}
+                        placeholder="Quién viene (opcional)"
+                        className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                    />
+                    {addLock.locked && (
+                        <p className="text-xs text-amber-600 dark:text-amber-500">{addLock.message}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setIsAdding(false)}
+                            className="px-3 py-1.5 text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-white"
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            onClick={handleAdd}
+                            disabled={saving || addLock.locked}
+                            className="px-3 py-1.5 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-xs font-bold rounded-lg disabled:opacity-50"
+                        >
+                            Apuntar
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
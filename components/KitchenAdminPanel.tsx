@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { kitchenService } from '../services/kitchen';
-import { Settings, Users, Save, Clock, Lock, Unlock, CalendarDays } from 'lucide-react';
+import { Settings, Users, Save, Clock, Lock, Unlock, CalendarDays, BookOpen, Receipt } from 'lucide-react';
 import { format, isAfter, startOfToday, isSameDay } from 'date-fns';
 import { HolidaysManager } from './HolidaysManager';
+import { MealOptionsManager } from './MealOptionsManager';
+import { KitchenMenuPlanner } from './KitchenMenuPlanner';
+import { GuestMealsReportModal } from './GuestMealsReportModal';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealType } from '../utils/mealForecast';
+import { getDayCutoff } from '../utils/mealLocks';
 import { KitchenConfig, Holiday } from '../types';
 
 interface KitchenAdminPanelProps {
@@ -12,11 +18,14 @@ interface KitchenAdminPanelProps {
 }
 
 export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDate, onUpdate, holidays = [] }) => {
+    const { getOption, getOptionsForMeal } = useMealOptions();
     const [config, setConfig] = useState<KitchenConfig | null>(null);
     const [isLocked, setIsLocked] = useState(false);
     const [loading, setLoading] = useState(true);
     const [savingConfig, setSavingConfig] = useState(false);
     const [showConfig, setShowConfig] = useState(false);
+    const [showMenuPlanner, setShowMenuPlanner] = useState(false);
+    const [showGuestReport, setShowGuestReport] = useState(false);
 
     // Guest Form
     const [showAddGuest, setShowAddGuest] = useState(false);
@@ -109,7 +118,7 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
 
     const handleAddGuest = async () => {
         try {
-            const isBag = newGuestOption === 'bag';
+            const isBag = getOption(newGuestOption).isBag;
             await kitchenService.addGuest(
                 dateStr,
                 newGuestType,
@@ -133,17 +142,7 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
     if (loading) return null;
 
     // Helper to determine closing time for TODAY (selectedDate) for display
-    const getClosingTimeDisplay = () => {
-        if (!config) return '--:--';
-        const isHoliday = holidays.some(h => h.date === dateStr);
-
-        if (config.overrides && config.overrides[dateStr]) return config.overrides[dateStr];
-        
-        const day = selectedDate.getDay();
-        if (day === 0 || isHoliday) return config.schedule_sunday_holiday || '--:--';
-        if (day === 6) return config.schedule_saturday || '--:--';
-        return config.schedule_weekdays || '--:--';
-    };
+    const getClosingTimeDisplay = () => getDayCutoff(config, holidays, dateStr) || '--:--';
 
     return (
         <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4 mb-6 shadow-sm">
@@ -193,6 +192,16 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
                     <Users size={14} />
                     {showAddGuest ? 'Cancelar' : 'Añadir Invitados'}
                 </button>
+                <div className="h-4 w-px bg-zinc-200 dark:bg-zinc-700"></div>
+                <button onClick={() => setShowMenuPlanner(true)} className="flex items-center gap-1 text-indigo-600 hover:underline font-medium">
+                    <BookOpen size={14} />
+                    Menú semanal
+                </button>
+                <div className="h-4 w-px bg-zinc-200 dark:bg-zinc-700"></div>
+                <button onClick={() => setShowGuestReport(true)} className="flex items-center gap-1 text-indigo-600 hover:underline font-medium">
+                    <Receipt size={14} />
+                    Invitados del mes
+                </button>
             </div>
 
             {/* Expandable Config */}
@@ -257,6 +266,11 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
                         </div>
                     </div>
 
+                    {/* Meal Options Catalog */}
+                    <div className="mt-6 pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                        <MealOptionsManager />
+                    </div>
+
                     <div className="flex justify-end mt-4 pt-4 border-t border-zinc-200 dark:border-zinc-700">
                         <button
                             onClick={handleSaveConfig}
@@ -292,11 +306,9 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
                                 onChange={e => setNewGuestOption(e.target.value)}
                                 className="w-full p-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-transparent text-xs"
                             >
-                                <option value="standard">Normal</option>
-                                <option value="early">Pronto</option>
-                                <option value="late">Tarde</option>
-                                <option value="tupper">Tupper</option>
-                                <option value="bag">Bolsa</option>
+                                {getOptionsForMeal(newGuestType as MealType).filter(o => o.id !== 'skip').map(option => (
+                                    <option key={option.id} value={option.id}>{option.label}</option>
+                                ))}
                             </select>
                         </div>
                         <div>
@@ -328,6 +340,18 @@ export const KitchenAdminPanel: React.FC<KitchenAdminPanelProps> = ({ selectedDa
                     </div>
                 </div>
             )}
+
+            <KitchenMenuPlanner
+                isOpen={showMenuPlanner}
+                onClose={() => setShowMenuPlanner(false)}
+                initialDate={selectedDate}
+            />
+
+            <GuestMealsReportModal
+                isOpen={showGuestReport}
+                onClose={() => setShowGuestReport(false)}
+                initialDate={selectedDate}
+            />
         </div>
     );
 };
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Bell, Check, X, ArrowRight } from 'lucide-react';
+import { MealChangeRequest } from '../types';
+import { mealChangeRequestService } from '../services/mealChangeRequests';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealOptionBadge } from './MealOptionBadge';
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+const POLL_INTERVAL = 60000;
+
+// Bell in the kitchen header with the late-change requests waiting for an answer
+export const KitchenChangeRequests: React.FC = () => {
+    const { getOption } = useMealOptions();
+    const [requests, setRequests] = useState<MealChangeRequest[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [responseNotes, setResponseNotes] = useState<Record<string, string>>({});
+    const [respondingId, setRespondingId] = useState<string | null>(null);
+
+    const loadRequests = async () => {
+        try {
+            setRequests(await mealChangeRequestService.getPending());
+        } catch (error) {
+            console.error('Error loading meal change requests:', error);
+        }
+    };
+
+    useEffect(() => {
+        loadRequests();
+        const interval = setInterval(loadRequests, POLL_INTERVAL);
+        return () => clearInterval(interval);
+    }, []);
+
+    const handleRespond = async (request: MealChangeRequest, accept: boolean) => {
+        setRespondingId(request.id);
+        try {
+            await mealChangeRequestService.respond(request, accept, responseNotes[request.id] || '');
+            setRequests(prev => prev.filter(r => r.id !== request.id));
+        } catch (error) {
+            console.error('Error answering meal change request:', error);
+            alert(error instanceof Error ? error.message : 'Error al responder la solicitud');
+        } finally {
+            setRespondingId(null);
+        }
+    };
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                className="relative p-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                title="Solicitudes de cambio"
+            >
+                <Bell size={20} />
+                {requests.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {requests.length}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                            <div>
+                                <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">Solicitudes de cambio</h3>
+                                <p className="text-sm text-zinc-500 dark:text-zinc-400">Cambios pedidos después del cierre</p>
+                            </div>
+                            <button
+                                onClick={() => setIsOpen(false)}
+                                className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                            >
+                                <X size={20} className="text-zinc-500" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-3 overflow-y-auto">
+                            {requests.length === 0 ? (
+                                <p className="text-sm text-zinc-500 dark:text-zinc-400 text-center py-8">
+                                    No hay solicitudes pendientes
+                                </p>
+                            ) : requests.map(request => (
+                                <div key={request.id} className="p-4 rounded-xl border border-zinc-200 dark:border-zinc-800 space-y-3">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div>
+                                            <p className="font-semibold text-zinc-900 dark:text-white">{request.userName || 'Residente'}</p>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400 capitalize">
+                                                {MEAL_NAMES[request.mealType]} • {format(parseISO(request.date), "EEEE d MMM", { locale: es })}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-1.5">
+                                            <MealOptionBadge option={getOption(request.currentOption)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                                            <ArrowRight size={14} className="text-zinc-400" />
+                                            <MealOptionBadge option={getOption(request.requestedOption)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                                        </div>
+                                    </div>
+
+                                    {request.note && (
+                                        <p className="text-sm text-zinc-700 dark:text-zinc-300 italic">"{request.note}"</p>
+                                    )}
+                                    {request.isBag && request.bagTime && (
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">Recogida a las {request.bagTime}</p>
+                                    )}
+
+                                    <input
+                                        type="text"
+                                        value={responseNotes[request.id] || ''}
+                                        onChange={e => setResponseNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                                        placeholder="Respuesta (opcional)"
+                                        className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-white"
+                                    />
+
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleRespond(request, false)}
+                                            disabled={respondingId === request.id}
+                                            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            <X size={16} />
+                                            Rechazar
+                                        </button>
+                                        <button
+                                            onClick={() => handleRespond(request, true)}
+                                            disabled={respondingId === request.id}
+                                            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 text-sm font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            <Check size={16} />
+                                            Aceptar
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, ArrowRight, ChevronDown, ChevronUp, CheckCheck, ShieldAlert } from 'lucide-react';
+import { MealOrderChange } from '../types';
+import { mealService } from '../services/meals';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface KitchenChangesFeedProps {
+    date: Date;
+}
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+const SOURCE_LABELS: Record<MealOrderChange['previousSource'], string> = {
+    order: 'pedido',
+    template: 'plantilla',
+    absence: 'ausencia',
+    none: 'sin pedido'
+};
+
+const POLL_INTERVAL = 60000;
+
+// created_at of the newest change the kitchen has seen for a day, kept per device.
+// A server timestamp, so a device with a wrong clock doesn't hide or resurface changes.
+const seenKey = (dateStr: string) => `kitchen-changes-seen-${dateStr}`;
+
+export const KitchenChangesFeed: React.FC<KitchenChangesFeedProps> = ({ date }) => {
+    const { getOption } = useMealOptions();
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const [changes, setChanges] = useState<MealOrderChange[]>([]);
+    const [lastSeen, setLastSeen] = useState<string | null>(null);
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    useEffect(() => {
+        setLastSeen(localStorage.getItem(seenKey(dateStr)));
+        setChanges([]);
+
+        const loadChanges = async () => {
+            try {
+                setChanges(await mealService.getOrderChanges(dateStr));
+            } catch (error) {
+                console.error('Error loading meal order changes:', error);
+            }
+        };
+
+        loadChanges();
+        const interval = setInterval(loadChanges, POLL_INTERVAL);
+        return () => clearInterval(interval);
+    }, [dateStr]);
+
+    const isNew = (change: MealOrderChange) => !lastSeen || parseISO(change.createdAt) > parseISO(lastSeen);
+    const newCount = changes.filter(isNew).length;
+
+    const markAsSeen = () => {
+        if (changes.length === 0) return;
+        const newest = changes.reduce((latest, change) =>
+            parseISO(change.createdAt) > parseISO(latest) ? change.createdAt : latest, changes[0].createdAt);
+        localStorage.setItem(seenKey(dateStr), newest);
+        setLastSeen(newest);
+    };
+
+    const renderOption = (option?: string, isBag?: boolean, bagTime?: string) => {
+        if (!option) return <span className="text-xs text-zinc-400">—</span>;
+        return (
+            <span className="inline-flex items-center gap-1">
+                <MealOptionBadge option={getOption(option)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                {isBag && bagTime && <span className="text-[10px] text-zinc-500">{bagTime}</span>}
+            </span>
+        );
+    };
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 shadow-sm overflow-hidden">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors"
+            >
+                <div className="flex items-center gap-2">
+                    <History size={18} className="text-zinc-400" />
+                    <span className="font-semibold text-zinc-900 dark:text-white">Cambios del día</span>
+                    <span className="text-xs text-zinc-500">({changes.length})</span>
+                    {newCount > 0 && (
+                        <span className="px-2 py-0.5 rounded-full bg-rose-500 text-white text-[10px] font-bold">
+                            {newCount} {newCount === 1 ? 'nuevo' : 'nuevos'}
+                        </span>
+                    )}
+                </div>
+                {isExpanded ? <ChevronUp size={18} className="text-zinc-400" /> : <ChevronDown size={18} className="text-zinc-400" />}
+            </button>
+
+            {isExpanded && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800">
+                    {changes.length === 0 ? (
+                        <p className="p-6 text-sm text-center text-zinc-500 dark:text-zinc-400">Sin cambios para este día</p>
+                    ) : (
+                        <>
+                            <div className="max-h-80 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800">
+                                {changes.map(change => (
+                                    <div
+                                        key={change.id}
+                                        className={`flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2.5 text-sm ${isNew(change) ? 'bg-amber-50/60 dark:bg-amber-900/10' : ''}`}
+                                    >
+                                        <span className="text-xs font-mono text-zinc-500 w-10">
+                                            {format(new Date(change.createdAt), 'HH:mm')}
+                                        </span>
+                                        <span className="font-medium text-zinc-900 dark:text-white min-w-[120px]">
+                                            {change.userName || 'Residente'}
+                                        </span>
+                                        <span className="text-xs text-zinc-500 w-16">{MEAL_NAMES[change.mealType]}</span>
+                                        <span className="flex items-center gap-1.5">
+                                            {renderOption(change.oldOption, change.oldIsBag, change.oldBagTime)}
+                                            <ArrowRight size={12} className="text-zinc-400" />
+                                            {renderOption(change.newOption, change.newIsBag, change.newBagTime)}
+                                        </span>
+                                        <span className="ml-auto flex items-center gap-2 text-xs text-zinc-500">
+                                            <span>antes: {SOURCE_LABELS[change.previousSource]}</span>
+                                            {change.changedBy && change.changedBy !== change.userId && (
+                                                <span>· por {change.changedByName || 'otro usuario'}</span>
+                                            )}
+                                            {change.isOverride && (
+                                                <span className="flex items-center gap-0.5 text-amber-600 dark:text-amber-500" title="Cambio forzado tras el cierre">
+                                                    <ShieldAlert size={12} />
+                                                    forzado
+                                                </span>
+                                            )}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                            {newCount > 0 && (
+                                <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 flex justify-end">
+                                    <button
+                                        onClick={markAsSeen}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                                    >
+                                        <CheckCheck size={14} />
+                                        Marcar como visto
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
 import { User } from '../types';
-import { UtensilsCrossed, FileText, LogOut, Receipt } from 'lucide-react';
+import { UtensilsCrossed, FileText, LogOut, Receipt, TrendingUp, Package } from 'lucide-react';
 import { Logo } from './Logo';
 import { KitchenOrdersView } from './KitchenOrdersView';
 import { KitchenDietsView } from './KitchenDietsView';
+import { KitchenForecastView } from './KitchenForecastView';
+import { KitchenPantryView } from './KitchenPantryView';
+import { KitchenChangeRequests } from './KitchenChangeRequests';
 import { AnimatePresence, motion } from 'framer-motion';
 
 interface KitchenDashboardProps {
@@ -12,7 +15,7 @@ interface KitchenDashboardProps {
 }
 
 export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogout }) => {
-    const [view, setView] = useState<'ORDERS' | 'DIETS'>('ORDERS');
+    const [view, setView] = useState<'ORDERS' | 'FORECAST' | 'DIETS' | 'PANTRY'>('ORDERS');
 
     return (
         <div className="min-h-screen bg-zinc-50 dark:bg-black flex flex-col transition-colors duration-300">
@@ -34,6 +37,16 @@ export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogo
                                 <Receipt size={16} />
                                 Pedidos
                             </button>
+                            <button
+                                onClick={() => setView('FORECAST')}
+                                className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${view === 'FORECAST'
+                                    ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                    : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white'
+                                    }`}
+                            >
+                                <TrendingUp size={16} />
+                                Previsión
+                            </button>
                             <button
                                 onClick={() => setView('DIETS')}
                                 className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${view === 'DIETS'
@@ -44,10 +57,21 @@ export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogo
                                 <FileText size={16} />
                                 Dietas
                             </button>
+                            <button
+                                onClick={() => setView('PANTRY')}
+                                className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${view === 'PANTRY'
+                                    ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                    : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white'
+                                    }`}
+                            >
+                                <Package size={16} />
+                                Despensa
+                            </button>
                         </nav>
                     </div>
 
                     <div className="flex items-center gap-4">
+                        <KitchenChangeRequests />
                         <div className="text-right hidden sm:block">
                             <p className="text-sm font-semibold text-zinc-900 dark:text-white">Cocina</p>
                             <p className="text-xs text-zinc-500 dark:text-zinc-400">Personal</p>
@@ -77,6 +101,16 @@ export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogo
                         <Receipt size={18} />
                         Pedidos
                     </button>
+                    <button
+                        onClick={() => setView('FORECAST')}
+                        className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${view === 'FORECAST'
+                            ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-white'
+                            : 'text-zinc-600 dark:text-zinc-400'
+                            }`}
+                    >
+                        <TrendingUp size={18} />
+                        Previsión
+                    </button>
                     <button
                         onClick={() => setView('DIETS')}
                         className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${view === 'DIETS'
@@ -87,6 +121,16 @@ export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogo
                         <FileText size={18} />
                         Dietas
                     </button>
+                    <button
+                        onClick={() => setView('PANTRY')}
+                        className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${view === 'PANTRY'
+                            ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-white'
+                            : 'text-zinc-600 dark:text-zinc-400'
+                            }`}
+                    >
+                        <Package size={18} />
+                        Despensa
+                    </button>
                 </nav>
             </div>
 
@@ -103,6 +147,10 @@ export const KitchenDashboard: React.FC<KitchenDashboardProps> = ({ user, onLogo
                     >
                         {view === 'ORDERS' ? (
                             <KitchenOrdersView user={user} />
+                        ) : view === 'FORECAST' ? (
+                            <KitchenForecastView />
+                        ) : view === 'PANTRY' ? (
+                            <KitchenPantryView />
                         ) : (
                             <KitchenDietsView />
                         )}
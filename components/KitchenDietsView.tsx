@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { User, DietFile } from '../types';
 import { profileService } from '../services/profiles';
-import { FileText, Image as ImageIcon, Download, ExternalLink, Utensils, AlertCircle, RefreshCcw, Save } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { FileText, Image as ImageIcon, Download, ExternalLink, Utensils, AlertCircle, RefreshCcw, Save, CalendarRange } from 'lucide-react';
+import { getAllergen, isDietActive } from '../utils/allergens';
 
 interface DietUserCardProps {
     user: User;
@@ -57,8 +60,12 @@ const DietUserCard: React.FC<DietUserCardProps> = ({ user, onUpdate }) => {
         }
     };
 
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const isActive = isDietActive(user, today);
+    const formatDay = (date: string) => format(parseISO(date), 'd MMM yyyy', { locale: es });
+
     return (
-        <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm">
+        <div className={`bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6 shadow-sm ${isActive ? '' : 'opacity-60'}`}>
             <div className="flex items-start justify-between mb-4">
                 <div>
                     <div className="flex items-center gap-3 mb-1">
@@ -90,10 +97,36 @@ const DietUserCard: React.FC<DietUserCardProps> = ({ user, onUpdate }) => {
                             )}
                         </div>
                     </div>
+                    {(user.dietValidFrom || user.dietValidTo) && (
+                        <div className="flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+                            <CalendarRange size={12} />
+                            <span>
+                                {user.dietValidFrom ? formatDay(user.dietValidFrom) : 'Siempre'} – {user.dietValidTo ? formatDay(user.dietValidTo) : 'sin fin'}
+                            </span>
+                            {!isActive && (
+                                <span className="px-1.5 py-0.5 rounded bg-zinc-100 dark:bg-zinc-800 font-medium">
+                                    {user.dietValidTo && user.dietValidTo < today ? 'Caducada' : 'Aún no vigente'}
+                                </span>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
 
             <div className="space-y-4">
+                {user.allergens && user.allergens.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                        {user.allergens.map(id => (
+                            <span
+                                key={id}
+                                className="px-2 py-0.5 rounded-full text-xs font-medium bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-400"
+                            >
+                                Sin {getAllergen(id).label.toLowerCase()}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
                 <div className="bg-zinc-50 dark:bg-zinc-800/50 rounded-lg p-4">
                     <h4 className="text-sm font-semibold text-zinc-900 dark:text-white mb-1">
                         {user.dietName || 'Dieta Especial'}
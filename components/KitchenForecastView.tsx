@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, addDays, startOfToday, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CalendarDays, Users } from 'lucide-react';
+import { mealService } from '../services/meals';
+import { kitchenService } from '../services/kitchen';
+import { calendarService } from '../services/calendar';
+import { computeMealForecast, DayForecast, FORECAST_MEALS, forecastOptions } from '../utils/mealForecast';
+import { useMealOptions } from '../hooks/useMealOptions';
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+export const KitchenForecastView = () => {
+    const { options, getOption } = useMealOptions();
+    const [days, setDays] = useState<7 | 14>(7);
+    const [forecast, setForecast] = useState<DayForecast[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        loadForecast();
+    }, [days, options]);
+
+    const loadForecast = async () => {
+        setLoading(true);
+        try {
+            const dates = Array.from({ length: days }, (_, i) => format(addDays(startOfToday(), i), 'yyyy-MM-dd'));
+
+            const [plans, guests, holidays, events] = await Promise.all([
+                mealService.getEffectiveDailyPlans(dates),
+                kitchenService.getGuestsInRange(dates[0], dates[dates.length - 1]),
+                kitchenService.getHolidays(),
+                calendarService.getCalendars().then(async cals => {
+                    const epactaCals = cals.filter(c => c.is_epacta);
+                    if (epactaCals.length === 0) return [];
+                    return calendarService.getCachedEvents(epactaCals.map(c => c.id));
+                })
+            ]);
+
+            setForecast(computeMealForecast(dates, plans, guests, holidays, events, options));
+        } catch (error) {
+            console.error('Error loading forecast:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Totals over the whole period, to plan purchasing
+    const totals = useMemo(() => FORECAST_MEALS.map(mealType => ({
+        mealType,
+        total: forecast.reduce((sum, day) => sum + day.meals[mealType].total, 0),
+        guests: forecast.reduce((sum, day) => sum + day.meals[mealType].guests, 0)
+    })), [forecast]);
+
+    // One column per catalog option, plus any other key that shows up in the period
+    const columns = useMemo(() => Object.fromEntries(FORECAST_MEALS.map(mealType => [
+        mealType,
+        forecastOptions(options, mealType, [...new Set(forecast.flatMap(day => Object.keys(day.meals[mealType].byOption)))])
+    ])), [forecast, options]);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">Previsión</h2>
+                    <p className="text-zinc-500 dark:text-zinc-400">Comensales previstos para planificar la compra.</p>
+                </div>
+
+                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                    {([7, 14] as const).map(value => (
+                        <button
+                            key={value}
+                            onClick={() => setDays(value)}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${days === value
+                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                                }`}
+                        >
+                            {value} días
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="p-12 text-center text-zinc-400">
+                    <p className="text-sm">Cargando...</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-3 gap-4">
+                        {totals.map(({ mealType, total, guests }) => (
+                            <div key={mealType} className="p-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800">
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400">{MEAL_NAMES[mealType]}</p>
+                                <p className="text-2xl font-semibold text-zinc-900 dark:text-white mt-1">{total}</p>
+                                <p className="text-[10px] text-zinc-400 dark:text-zinc-500">{guests} invitados · {days} días</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-zinc-500 dark:text-zinc-400">
+                                    <th rowSpan={2} className="text-left font-medium p-3 align-bottom">Día</th>
+                                    {FORECAST_MEALS.map(mealType => (
+                                        <th
+                                            key={mealType}
+                                            colSpan={columns[mealType].length + 1}
+                                            className="font-semibold text-zinc-900 dark:text-white px-2 pt-3 pb-1 border-l border-zinc-100 dark:border-zinc-800"
+                                        >
+                                            {MEAL_NAMES[mealType]}
+                                        </th>
+                                    ))}
+                                </tr>
+                                <tr className="text-zinc-500 dark:text-zinc-400">
+                                    {FORECAST_MEALS.map(mealType => (
+                                        <React.Fragment key={mealType}>
+                                            {columns[mealType].map((option, index) => (
+                                                <th
+                                                    key={option}
+                                                    className={`font-medium px-2 pb-2 whitespace-nowrap ${index === 0 ? 'border-l border-zinc-100 dark:border-zinc-800' : ''}`}
+                                                    style={{ color: getOption(option).color }}
+                                                >
+                                                    {getOption(option).label}
+                                                </th>
+                                            ))}
+                                            <th className="font-semibold px-2 pb-2 text-zinc-900 dark:text-white">Total</th>
+                                        </React.Fragment>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {forecast.map(day => {
+                                    const isSpecial = !!day.holiday || day.familyFeasts.length > 0;
+                                    return (
+                                        <tr
+                                            key={day.date}
+                                            className={`border-t border-zinc-100 dark:border-zinc-800 ${isSpecial ? 'bg-fuchsia-50/60 dark:bg-fuchsia-900/10' : ''}`}
+                                        >
+                                            <td className="p-3 whitespace-nowrap">
+                                                <p className={`font-medium capitalize ${day.isSunday ? 'text-rose-600 dark:text-rose-400' : 'text-zinc-900 dark:text-white'}`}>
+                                                    {format(parseISO(day.date), 'EEE d MMM', { locale: es })}
+                                                </p>
+                                                {day.holiday && (
+                                                    <p className="text-[10px] text-fuchsia-700 dark:text-fuchsia-300 flex items-center gap-1">
+                                                        <CalendarDays size={10} /> {day.holiday}
+                                                    </p>
+                                                )}
+                                                {day.familyFeasts.map(letter => (
+                                                    <p key={letter} className="text-[10px] text-indigo-700 dark:text-indigo-300 flex items-center gap-1">
+                                                        <CalendarDays size={10} /> Fiesta de Familia {letter}
+                                                    </p>
+                                                ))}
+                                            </td>
+                                            {FORECAST_MEALS.map(mealType => {
+                                                const meal = day.meals[mealType];
+                                                return (
+                                                    <React.Fragment key={mealType}>
+                                                        {columns[mealType].map((option, index) => (
+                                                            <td
+                                                                key={option}
+                                                                className={`px-2 py-2 text-center ${meal.byOption[option] ? 'text-zinc-900 dark:text-white' : 'text-zinc-300 dark:text-zinc-700'} ${index === 0 ? 'border-l border-zinc-100 dark:border-zinc-800' : ''}`}
+                                                            >
+                                                                {meal.byOption[option] || 0}
+                                                            </td>
+                                                        ))}
+                                                        <td className="px-2 py-2 text-center font-semibold text-zinc-900 dark:text-white whitespace-nowrap">
+                                                            {meal.total}
+                                                            {meal.guests > 0 && (
+                                                                <span className="ml-1 text-[10px] font-normal text-zinc-400 inline-flex items-center gap-0.5" title="Invitados incluidos">
+                                                                    <Users size={9} />{meal.guests}
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                    </React.Fragment>
+                                                );
+                                            })}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <p className="text-[10px] text-zinc-400 dark:text-zinc-500">
+                        Incluye pedidos, plantillas semanales, ausencias e invitados registrados hasta ahora. Los días siguientes aún pueden cambiar.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import { format, addDays, parseISO, startOfWeek } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, ChevronLeft, ChevronRight, Plus, Trash2, Copy, Send, AlertTriangle, BookOpen } from 'lucide-react';
+import { MenuCourse, MenuDish, User } from '../types';
+import { menuService } from '../services/menus';
+import { mealService } from '../services/meals';
+import { profileService } from '../services/profiles';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { ALLERGENS, getAllergen } from '../utils/allergens';
+import { MENU_COURSES, MenuConflict, courseLabel, dishesFor, findMenuConflicts } from '../utils/menus';
+import { MealType } from '../utils/mealForecast';
+
+interface KitchenMenuPlannerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+// Breakfast is the same every day, so only lunch and dinner get a menu
+const MENU_MEALS: { id: MealType; name: string }[] = [
+    { id: 'lunch', name: 'Comida' },
+    { id: 'dinner', name: 'Cena' }
+];
+
+const toMonday = (date: Date) => format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+export const KitchenMenuPlanner: React.FC<KitchenMenuPlannerProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const [monday, setMonday] = useState(toMonday(initialDate));
+    const [dishes, setDishes] = useState<MenuDish[]>([]);
+    const [conflicts, setConflicts] = useState<MenuConflict[]>([]);
+    const [pastWeeks, setPastWeeks] = useState<string[]>([]);
+    const [copyFrom, setCopyFrom] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    // New dish form, open for one day and meal at a time
+    const [adding, setAdding] = useState<{ date: string; mealType: MealType } | null>(null);
+    const [newName, setNewName] = useState('');
+    const [newCourse, setNewCourse] = useState<MenuCourse>('main');
+    const [newAllergens, setNewAllergens] = useState<string[]>([]);
+
+    const dates = Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(monday), i), 'yyyy-MM-dd'));
+    const sunday = dates[6];
+
+    useEffect(() => {
+        if (isOpen) setMonday(toMonday(initialDate));
+    }, [isOpen, initialDate]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setAdding(null);
+        loadWeek();
+    }, [isOpen, monday]);
+
+    const loadWeek = async () => {
+        setLoading(true);
+        try {
+            const [dishesData, weeksData] = await Promise.all([
+                menuService.getDishes(monday, sunday, false),
+                menuService.getPlannedWeeks(monday)
+            ]);
+            setDishes(dishesData);
+            setPastWeeks(weeksData);
+            setCopyFrom(weeksData[0] || '');
+            loadConflicts(dishesData);
+        } catch (error) {
+            console.error('Error loading menu:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Plans are heavier to compute, so warnings arrive after the menu itself
+    const loadConflicts = async (weekDishes: MenuDish[]) => {
+        if (!weekDishes.some(d => d.allergens.length > 0)) {
+            setConflicts([]);
+            return;
+        }
+        try {
+            const [plans, profiles] = await Promise.all([
+                mealService.getEffectiveDailyPlans(dates),
+                profileService.getAllProfiles()
+            ]);
+            setConflicts(findMenuConflicts(weekDishes, plans, new Map<string, User>(profiles.map(p => [p.id, p]))));
+        } catch (error) {
+            console.error('Error checking menu against diets:', error);
+        }
+    };
+
+    const openAddForm = (date: string, mealType: MealType) => {
+        setAdding({ date, mealType });
+        setNewName('');
+        setNewCourse('main');
+        setNewAllergens([]);
+    };
+
+    const handleAddDish = async () => {
+        if (!adding || !newName.trim()) return;
+        setBusy(true);
+        try {
+            const dish = await menuService.addDish({
+                date: adding.date,
+                mealType: adding.mealType,
+                course: newCourse,
+                name: newName,
+                allergens: newAllergens,
+                sortOrder: dishesFor(dishes, adding.date, adding.mealType).length
+            });
+            const updated = [...dishes, dish];
+            setDishes(updated);
+            setAdding(null);
+            loadConflicts(updated);
+        } catch (error) {
+            console.error('Error adding dish:', error);
+            alert('Error al añadir el plato');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDeleteDish = async (dish: MenuDish) => {
+        try {
+            await menuService.deleteDish(dish.id);
+            const updated = dishes.filter(d => d.id !== dish.id);
+            setDishes(updated);
+            loadConflicts(updated);
+        } catch (error) {
+            console.error('Error deleting dish:', error);
+        }
+    };
+
+    const handleCopyWeek = async () => {
+        if (!copyFrom) return;
+        if (dishes.length > 0 && !confirm('Esta semana ya tiene platos. ¿Añadir también los de la semana elegida?')) return;
+        setBusy(true);
+        try {
+            const copied = await menuService.copyWeek(copyFrom, monday);
+            const updated = [...dishes, ...copied];
+            setDishes(updated);
+            loadConflicts(updated);
+        } catch (error) {
+            console.error('Error copying menu week:', error);
+            alert('Error al copiar la semana');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handlePublish = async () => {
+        setBusy(true);
+        try {
+            await menuService.publishRange(monday, sunday);
+            setDishes(prev => prev.map(d => ({ ...d, isPublished: true })));
+        } catch (error) {
+            console.error('Error publishing menu:', error);
+            alert('Error al publicar el menú');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const draftCount = dishes.filter(d => !d.isPublished).length;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between gap-4">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                        <BookOpen size={18} /> Menú semanal
+                    </h3>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setMonday(format(addDays(parseISO(monday), -7), 'yyyy-MM-dd'))}
+                            className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                        >
+                            <ChevronLeft size={18} className="text-zinc-600 dark:text-zinc-400" />
+                        </button>
+                        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300 min-w-[130px] text-center">
+                            {format(parseISO(monday), "d MMM", { locale: es })} – {format(parseISO(sunday), "d MMM", { locale: es })}
+                        </span>
+                        <button
+                            onClick={() => setMonday(format(addDays(parseISO(monday), 7), 'yyyy-MM-dd'))}
+                            className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                        >
+                            <ChevronRight size={18} className="text-zinc-600 dark:text-zinc-400" />
+                        </button>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                {/* Reuse and publish */}
+                <div className="px-6 py-3 border-b border-zinc-200 dark:border-zinc-800 flex flex-wrap items-center gap-3 text-xs">
+                    <div className="flex items-center gap-2">
+                        <span className="text-zinc-500">Reutilizar:</span>
+                        <select
+                            value={copyFrom}
+                            onChange={e => setCopyFrom(e.target.value)}
+                            disabled={pastWeeks.length === 0}
+                            className="p-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-transparent text-xs"
+                        >
+                            {pastWeeks.length === 0 && <option value="">Sin semanas anteriores</option>}
+                            {pastWeeks.map(week => (
+                                <option key={week} value={week}>
+                                    Semana del {format(parseISO(week), "d 'de' MMMM", { locale: es })}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleCopyWeek}
+                            disabled={busy || !copyFrom}
+                            className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400 font-medium hover:underline disabled:opacity-50"
+                        >
+                            <Copy size={14} /> Copiar
+                        </button>
+                    </div>
+                    <div className="ml-auto flex items-center gap-3">
+                        {conflicts.length > 0 && (
+                            <span className="flex items-center gap-1 text-amber-600 dark:text-amber-500 font-medium">
+                                <AlertTriangle size={14} />
+                                {conflicts.length} {conflicts.length === 1 ? 'conflicto' : 'conflictos'} con dietas
+                            </span>
+                        )}
+                        <button
+                            onClick={handlePublish}
+                            disabled={busy || draftCount === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                        >
+                            <Send size={12} />
+                            {draftCount > 0 ? `Publicar (${draftCount})` : 'Publicado'}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-4">
+                    {loading ? (
+                        <p className="text-sm text-center text-zinc-400 py-8">Cargando menú...</p>
+                    ) : dates.map(date => (
+                        <div key={date} className="space-y-2">
+                            <h4 className="text-sm font-semibold text-zinc-900 dark:text-white capitalize">
+                                {format(parseISO(date), "EEEE d 'de' MMMM", { locale: es })}
+                            </h4>
+                            <div className="grid md:grid-cols-2 gap-3">
+                                {MENU_MEALS.map(meal => {
+                                    const mealDishes = dishesFor(dishes, date, meal.id);
+                                    const isAdding = adding?.date === date && adding.mealType === meal.id;
+
+                                    return (
+                                        <div key={meal.id} className="p-3 rounded-xl border border-zinc-200 dark:border-zinc-800 space-y-2">
+                                            <div className="flex items-center justify-between">
+                                                <span className="text-[10px] uppercase font-bold text-zinc-400">{meal.name}</span>
+                                                {!isAdding && (
+                                                    <button
+                                                        onClick={() => openAddForm(date, meal.id)}
+                                                        className="p-1 text-zinc-400 hover:text-zinc-900 dark:hover:text-white rounded transition-colors"
+                                                        title="Añadir plato"
+                                                    >
+                                                        <Plus size={14} />
+                                                    </button>
+                                                )}
+                                            </div>
+
+                                            {mealDishes.length === 0 && !isAdding && (
+                                                <p className="text-xs text-zinc-400 italic">Sin platos</p>
+                                            )}
+
+                                            {mealDishes.map(dish => {
+                                                const dishConflicts = conflicts.filter(c => c.dish.id === dish.id);
+                                                return (
+                                                    <div key={dish.id} className="group text-sm">
+                                                        <div className="flex items-center gap-2">
+                                                            <span className="text-[10px] text-zinc-400 w-12 shrink-0">{courseLabel(dish.course)}</span>
+                                                            <span className={`flex-1 font-medium ${dish.isPublished ? 'text-zinc-900 dark:text-white' : 'text-zinc-500 italic'}`}>
+                                                                {dish.name}
+                                                            </span>
+                                                            {dish.allergens.map(id => (
+                                                                <span key={id} title={getAllergen(id).label} className="px-1 rounded text-[9px] font-bold bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400">
+                                                                    {getAllergen(id).shortLabel}
+                                                                </span>
+                                                            ))}
+                                                            <button
+                                                                onClick={() => handleDeleteDish(dish)}
+                                                                className="p-1 text-zinc-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                            >
+                                                                <Trash2 size={12} />
+                                                            </button>
+                                                        </div>
+                                                        {dishConflicts.length > 0 && (
+                                                            <p className="ml-14 text-[11px] text-amber-600 dark:text-amber-500">
+                                                                ⚠ {dishConflicts.map(c => `${c.userName} (${c.allergens.map(a => getAllergen(a).label.toLowerCase()).join(', ')})`).join(' · ')}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+
+                                            {isAdding && (
+                                                <div className="pt-2 border-t border-zinc-100 dark:border-zinc-800 space-y-2">
+                                                    <div className="flex gap-2">
+                                                        <select
+                                                            value={newCourse}
+                                                            onChange={e => setNewCourse(e.target.value as MenuCourse)}
+                                                            className="p-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-transparent text-xs"
+                                                        >
+                                                            {MENU_COURSES.map(course => (
+                                                                <option key={course.id} value={course.id}>{course.label}</option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="text"
+                                                            value={newName}
+                                                            onChange={e => setNewName(e.target.value)}
+                                                            onKeyDown={e => e.key === 'Enter' && handleAddDish()}
+                                                            placeholder="Nombre del plato"
+                                                            autoFocus
+                                                            className="flex-1 p-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-transparent text-xs"
+                                                        />
+                                                    </div>
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {ALLERGENS.map(allergen => {
+                                                            const isSelected = newAllergens.includes(allergen.id);
+                                                            return (
+                                                                <button
+                                                                    key={allergen.id}
+                                                                    onClick={() => setNewAllergens(isSelected ? newAllergens.filter(a => a !== allergen.id) : [...newAllergens, allergen.id])}
+                                                                    className={`px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${isSelected
+                                                                        ? 'bg-rose-500 border-rose-500 text-white'
+                                                                        : 'border-zinc-200 dark:border-zinc-700 text-zinc-500'
+                                                                        }`}
+                                                                >
+                                                                    {allergen.label}
+                                                                </button>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                    <div className="flex justify-end gap-2">
+                                                        <button
+                                                            onClick={() => setAdding(null)}
+                                                            className="px-2 py-1 text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-white"
+                                                        >
+                                                            Cancelar
+                                                        </button>
+                                                        <button
+                                                            onClick={handleAddDish}
+                                                            disabled={busy || !newName.trim()}
+                                                            className="px-3 py-1 bg-indigo-600 text-white rounded text-xs font-medium hover:bg-indigo-700 disabled:opacity-50"
+                                                        >
+                                                            Añadir
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
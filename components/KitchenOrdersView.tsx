@@ -1,12 +1,23 @@
 import React, { useState } from 'react';
 import { DailyMealsList } from './DailyMealsList';
-import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { KitchenPrintModal } from './KitchenPrintModal';
+import { KitchenChangesFeed } from './KitchenChangesFeed';
+import { GuestMealsReportModal } from './GuestMealsReportModal';
+import { MealCheckInModal } from './MealCheckInModal';
+import { MealWasteReportModal } from './MealWasteReportModal';
+import { MealPickupBoardModal } from './MealPickupBoardModal';
+import { ChevronLeft, ChevronRight, Calendar, Printer, Users, ClipboardCheck, TrendingDown, ShoppingBag } from 'lucide-react';
 import { format, addDays, subDays } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { User } from '../types';
 
 export const KitchenOrdersView = ({ user }: { user: User }) => {
     const [currentDate, setCurrentDate] = useState(new Date());
+    const [isPrintOpen, setIsPrintOpen] = useState(false);
+    const [isGuestReportOpen, setIsGuestReportOpen] = useState(false);
+    const [isCheckInOpen, setIsCheckInOpen] = useState(false);
+    const [isWasteReportOpen, setIsWasteReportOpen] = useState(false);
+    const [isPickupBoardOpen, setIsPickupBoardOpen] = useState(false);
 
     const handlePrevDay = () => setCurrentDate(prev => subDays(prev, 1));
     const handleNextDay = () => setCurrentDate(prev => addDays(prev, 1));
@@ -16,32 +27,102 @@ export const KitchenOrdersView = ({ user }: { user: User }) => {
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                 <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">Pedidos de Comida</h2>
 
-                <div className="flex items-center justify-between bg-white dark:bg-zinc-900 rounded-xl p-1 border border-zinc-200 dark:border-zinc-800 shadow-sm">
+                <div className="flex flex-wrap items-center gap-2">
                     <button
-                        onClick={handlePrevDay}
-                        className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg text-zinc-600 dark:text-zinc-400 transition-colors"
+                        onClick={() => setIsPrintOpen(true)}
+                        className="p-3 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Imprimir hojas de cocina"
                     >
-                        <ChevronLeft size={20} />
+                        <Printer size={20} />
+                    </button>
+                    <button
+                        onClick={() => setIsGuestReportOpen(true)}
+                        className="p-3 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Invitados por residente"
+                    >
+                        <Users size={20} />
+                    </button>
+                    <button
+                        onClick={() => setIsCheckInOpen(true)}
+                        className="p-3 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Pase de comedor"
+                    >
+                        <ClipboardCheck size={20} />
+                    </button>
+                    <button
+                        onClick={() => setIsPickupBoardOpen(true)}
+                        className="p-3 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Bolsas y tuppers"
+                    >
+                        <ShoppingBag size={20} />
                     </button>
-                    <div className="flex items-center gap-2 px-4 font-medium text-zinc-900 dark:text-white capitalize">
-                        <Calendar size={18} className="text-zinc-400" />
-                        {format(currentDate, "EEEE, d 'de' MMMM", { locale: es })}
-                    </div>
                     <button
-                        onClick={handleNextDay}
-                        className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg text-zinc-600 dark:text-zinc-400 transition-colors"
+                        onClick={() => setIsWasteReportOpen(true)}
+                        className="p-3 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Pedidas y servidas"
                     >
-                        <ChevronRight size={20} />
+                        <TrendingDown size={20} />
                     </button>
+
+                    <div className="flex-1 flex items-center justify-between bg-white dark:bg-zinc-900 rounded-xl p-1 border border-zinc-200 dark:border-zinc-800 shadow-sm">
+                        <button
+                            onClick={handlePrevDay}
+                            className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg text-zinc-600 dark:text-zinc-400 transition-colors"
+                        >
+                            <ChevronLeft size={20} />
+                        </button>
+                        <div className="flex items-center gap-2 px-4 font-medium text-zinc-900 dark:text-white capitalize">
+                            <Calendar size={18} className="text-zinc-400" />
+                            {format(currentDate, "EEEE, d 'de' MMMM", { locale: es })}
+                        </div>
+                        <button
+                            onClick={handleNextDay}
+                            className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg text-zinc-600 dark:text-zinc-400 transition-colors"
+                        >
+                            <ChevronRight size={20} />
+                        </button>
+                    </div>
                 </div>
             </div>
 
+            <KitchenChangesFeed date={currentDate} />
+
             <DailyMealsList
                 user={user}
                 selectedDate={currentDate}
                 onDateChange={setCurrentDate}
                 mode="kitchen"
             />
+
+            <KitchenPrintModal
+                isOpen={isPrintOpen}
+                onClose={() => setIsPrintOpen(false)}
+                initialDate={currentDate}
+            />
+
+            <GuestMealsReportModal
+                isOpen={isGuestReportOpen}
+                onClose={() => setIsGuestReportOpen(false)}
+                initialDate={currentDate}
+            />
+
+            <MealCheckInModal
+                isOpen={isCheckInOpen}
+                onClose={() => setIsCheckInOpen(false)}
+                initialDate={currentDate}
+            />
+
+            <MealWasteReportModal
+                isOpen={isWasteReportOpen}
+                onClose={() => setIsWasteReportOpen(false)}
+                initialDate={currentDate}
+            />
+
+            <MealPickupBoardModal
+                isOpen={isPickupBoardOpen}
+                onClose={() => setIsPickupBoardOpen(false)}
+                initialDate={currentDate}
+            />
         </div>
     );
 };
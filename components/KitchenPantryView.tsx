@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from 'react';
+import { format, addDays, startOfToday, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Plus, Save, Archive, Truck, ShoppingCart, Boxes, Copy, Check } from 'lucide-react';
+import { PantryItem, PantryDelivery } from '../types';
+import { pantryService } from '../services/pantry';
+import { mealService } from '../services/meals';
+import { kitchenService } from '../services/kitchen';
+import { calendarService } from '../services/calendar';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { computeMealForecast, FORECAST_MEALS, MealType } from '../utils/mealForecast';
+import { buildShoppingList, formatQuantity, isLowStock, ShoppingLine } from '../utils/pantry';
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+const UNITS = ['kg', 'g', 'l', 'ud', 'paquete', 'lata'];
+
+type PantrySection = 'STOCK' | 'SHOPPING' | 'DELIVERIES';
+
+type ItemDraft = Omit<PantryItem, 'id' | 'isActive' | 'updatedAt'> & { id?: string };
+
+const emptyDraft = (): ItemDraft => ({
+    name: '',
+    category: '',
+    unit: 'kg',
+    stock: 0,
+    minStock: 0,
+    perServing: undefined,
+    mealTypes: ['lunch', 'dinner']
+});
+
+const inputClass = 'w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-white';
+
+export const KitchenPantryView = () => {
+    const { options } = useMealOptions();
+    const [section, setSection] = useState<PantrySection>('STOCK');
+    const [items, setItems] = useState<PantryItem[]>([]);
+    const [deliveries, setDeliveries] = useState<PantryDelivery[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    // Item form
+    const [draft, setDraft] = useState<ItemDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    // Shopping list
+    const [days, setDays] = useState<7 | 14>(7);
+    const [shoppingList, setShoppingList] = useState<ShoppingLine[]>([]);
+    const [loadingList, setLoadingList] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    // Delivery form
+    const [deliveryItemId, setDeliveryItemId] = useState('');
+    const [deliveryQuantity, setDeliveryQuantity] = useState('');
+    const [deliveryDate, setDeliveryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [deliverySupplier, setDeliverySupplier] = useState('');
+    const [deliveryNotes, setDeliveryNotes] = useState('');
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    useEffect(() => {
+        if (section === 'SHOPPING') loadShoppingList();
+    }, [section, days, items, options]);
+
+    const loadData = async () => {
+        try {
+            const [itemsData, deliveriesData] = await Promise.all([
+                pantryService.getItems(),
+                pantryService.getDeliveries()
+            ]);
+            setItems(itemsData);
+            setDeliveries(deliveriesData);
+        } catch (error) {
+            console.error('Error loading pantry:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadShoppingList = async () => {
+        setLoadingList(true);
+        try {
+            const dates = Array.from({ length: days }, (_, i) => format(addDays(startOfToday(), i), 'yyyy-MM-dd'));
+            const [plans, guests, holidays, events] = await Promise.all([
+                mealService.getEffectiveDailyPlans(dates),
+                kitchenService.getGuestsInRange(dates[0], dates[dates.length - 1]),
+                kitchenService.getHolidays(),
+                calendarService.getCalendars().then(async cals => {
+                    const epactaCals = cals.filter(c => c.is_epacta);
+                    if (epactaCals.length === 0) return [];
+                    return calendarService.getCachedEvents(epactaCals.map(c => c.id));
+                })
+            ]);
+            const forecast = computeMealForecast(dates, plans, guests, holidays, events, options);
+            setShoppingList(buildShoppingList(items, forecast));
+        } catch (error) {
+            console.error('Error building shopping list:', error);
+        } finally {
+            setLoadingList(false);
+        }
+    };
+
+    const handleSaveItem = async () => {
+        if (!draft || !draft.name.trim()) return;
+        setSaving(true);
+        try {
+            if (draft.id) {
+                const { id, stock, ...fields } = draft;
+                const saved = await pantryService.updateItem(id, fields);
+                setItems(prev => prev.map(i => i.id === saved.id ? saved : i));
+            } else {
+                const saved = await pantryService.addItem(draft);
+                setItems(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+            }
+            setDraft(null);
+        } catch (error) {
+            console.error('Error saving pantry item:', error);
+            alert('Error al guardar el producto');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleArchiveItem = async (item: PantryItem) => {
+        if (!confirm(`¿Quitar "${item.name}" del inventario?`)) return;
+        try {
+            await pantryService.archiveItem(item.id);
+            setItems(prev => prev.filter(i => i.id !== item.id));
+            setDraft(null);
+        } catch (error) {
+            console.error('Error archiving pantry item:', error);
+        }
+    };
+
+    const handleStockChange = async (item: PantryItem, value: string) => {
+        const stock = parseFloat(value);
+        if (isNaN(stock) || stock === item.stock) return;
+        try {
+            await pantryService.setStock(item.id, stock);
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, stock } : i));
+        } catch (error) {
+            console.error('Error updating stock:', error);
+        }
+    };
+
+    const handleRecordDelivery = async () => {
+        const quantity = parseFloat(deliveryQuantity);
+        if (!deliveryItemId || isNaN(quantity) || quantity <= 0) return;
+        setSaving(true);
+        try {
+            const delivery = await pantryService.recordDelivery(deliveryItemId, quantity, deliveryDate, deliverySupplier, deliveryNotes);
+            setDeliveries(prev => [delivery, ...prev]);
+            setItems(prev => prev.map(i => i.id === deliveryItemId ? { ...i, stock: i.stock + quantity } : i));
+            setDeliveryQuantity('');
+            setDeliveryNotes('');
+        } catch (error) {
+            console.error('Error recording delivery:', error);
+            alert('Error al registrar la entrega');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCopyList = async () => {
+        const text = shoppingList.map(line => `- ${line.item.name}: ${formatQuantity(line.quantity, line.item.unit)}`).join('\n');
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Error copying shopping list:', error);
+        }
+    };
+
+    const toggleDraftMeal = (mealType: MealType) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            mealTypes: draft.mealTypes.includes(mealType)
+                ? draft.mealTypes.filter(m => m !== mealType)
+                : FORECAST_MEALS.filter(m => m === mealType || draft.mealTypes.includes(m))
+        });
+    };
+
+    if (loading) {
+        return <div className="p-8 text-center text-zinc-500">Cargando despensa...</div>;
+    }
+
+    const lowCount = items.filter(isLowStock).length;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">Despensa</h2>
+                    <p className="text-zinc-500 dark:text-zinc-400">
+                        {items.length} productos{lowCount > 0 ? ` · ${lowCount} por debajo del mínimo` : ''}
+                    </p>
+                </div>
+
+                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                    {([
+                        { id: 'STOCK', label: 'Inventario', icon: Boxes },
+                        { id: 'SHOPPING', label: 'Compra', icon: ShoppingCart },
+                        { id: 'DELIVERIES', label: 'Entregas', icon: Truck }
+                    ] as const).map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setSection(tab.id)}
+                            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium rounded-md transition-all ${section === tab.id
+                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                                }`}
+                        >
+                            <tab.icon size={14} />
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {section === 'STOCK' && (
+                <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 shadow-sm overflow-hidden">
+                    <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 flex justify-end">
+                        <button
+                            onClick={() => setDraft(emptyDraft())}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-sm font-medium"
+                        >
+                            <Plus size={16} /> Producto
+                        </button>
+                    </div>
+
+                    {draft && (
+                        <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50 space-y-3">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                <div className="col-span-2">
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Nombre</label>
+                                    <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} autoFocus />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Categoría</label>
+                                    <input type="text" value={draft.category || ''} onChange={e => setDraft({ ...draft, category: e.target.value })} placeholder="Lácteos, verdura..." className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Unidad</label>
+                                    <select value={draft.unit} onChange={e => setDraft({ ...draft, unit: e.target.value })} className={inputClass}>
+                                        {UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                                    </select>
+                                </div>
+                                {!draft.id && (
+                                    <div>
+                                        <label className="text-xs font-medium text-zinc-500 block mb-1">Existencias</label>
+                                        <input type="number" min="0" step="any" value={draft.stock} onChange={e => setDraft({ ...draft, stock: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Mínimo</label>
+                                    <input type="number" min="0" step="any" value={draft.minStock} onChange={e => setDraft({ ...draft, minStock: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Por comensal</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="any"
+                                        value={draft.perServing ?? ''}
+                                        onChange={e => setDraft({ ...draft, perServing: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                                        placeholder="Opcional"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-medium text-zinc-500 block mb-1">Se usa en</label>
+                                    <div className="flex gap-1">
+                                        {FORECAST_MEALS.map(mealType => (
+                                            <button
+                                                key={mealType}
+                                                onClick={() => toggleDraftMeal(mealType)}
+                                                className={`flex-1 px-1 py-2 rounded-lg text-[11px] font-bold border transition-colors ${draft.mealTypes.includes(mealType)
+                                                    ? 'bg-zinc-900 text-white dark:bg-white dark:text-black border-zinc-900 dark:border-white'
+                                                    : 'border-zinc-200 dark:border-zinc-700 text-zinc-500'
+                                                    }`}
+                                            >
+                                                {MEAL_NAMES[mealType].slice(0, 3)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                {draft.id ? (
+                                    <button
+                                        onClick={() => handleArchiveItem(items.find(i => i.id === draft.id)!)}
+                                        className="flex items-center gap-1 text-xs text-rose-600 hover:underline"
+                                    >
+                                        <Archive size={14} /> Quitar del inventario
+                                    </button>
+                                ) : <span />}
+                                <div className="flex gap-2">
+                                    <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-zinc-500 hover:text-zinc-900 dark:hover:text-white">
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        onClick={handleSaveItem}
+                                        disabled={saving || !draft.name.trim() || draft.mealTypes.length === 0}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                                    >
+                                        <Save size={14} /> Guardar
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {items.length === 0 ? (
+                        <p className="p-8 text-sm text-center text-zinc-500 dark:text-zinc-400">Todavía no hay productos en la despensa</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+                                        <th className="text-left font-medium p-3">Producto</th>
+                                        <th className="text-left font-medium p-3">Existencias</th>
+                                        <th className="text-left font-medium p-3">Mínimo</th>
+                                        <th className="text-left font-medium p-3 hidden sm:table-cell">Por comensal</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {items.map(item => (
+                                        <tr key={item.id} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                                            <td className="p-3">
+                                                <button onClick={() => setDraft({ ...item })} className="text-left hover:underline">
+                                                    <span className="font-medium text-zinc-900 dark:text-white">{item.name}</span>
+                                                    {item.category && <span className="block text-xs text-zinc-500">{item.category}</span>}
+                                                </button>
+                                            </td>
+                                            <td className="p-3">
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        key={`${item.id}-${item.stock}`}
+                                                        type="number"
+                                                        min="0"
+                                                        step="any"
+                                                        defaultValue={item.stock}
+                                                        onBlur={e => handleStockChange(item, e.target.value)}
+                                                        onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                                        className={`w-20 p-1.5 rounded-lg border text-sm bg-transparent ${isLowStock(item)
+                                                            ? 'border-rose-300 dark:border-rose-800 text-rose-600 dark:text-rose-400 font-bold'
+                                                            : 'border-zinc-200 dark:border-zinc-700'
+                                                            }`}
+                                                    />
+                                                    <span className="text-xs text-zinc-500">{item.unit}</span>
+                                                </div>
+                                            </td>
+                                            <td className="p-3 text-zinc-600 dark:text-zinc-400">{formatQuantity(item.minStock, item.unit)}</td>
+                                            <td className="p-3 text-zinc-600 dark:text-zinc-400 hidden sm:table-cell">
+                                                {item.perServing ? formatQuantity(item.perServing, item.unit) : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {section === 'SHOPPING' && (
+                <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 shadow-sm overflow-hidden">
+                    <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 text-sm text-zinc-500">
+                            <span>Para los próximos</span>
+                            <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                                {([7, 14] as const).map(value => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setDays(value)}
+                                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${days === value
+                                            ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                            : 'text-zinc-500 dark:text-zinc-400'
+                                            }`}
+                                    >
+                                        {value} días
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <button
+                            onClick={handleCopyList}
+                            disabled={shoppingList.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                        >
+                            {copied ? <Check size={14} /> : <Copy size={14} />}
+                            {copied ? 'Copiada' : 'Copiar lista'}
+                        </button>
+                    </div>
+
+                    {loadingList ? (
+                        <p className="p-8 text-sm text-center text-zinc-400">Calculando con la previsión...</p>
+                    ) : shoppingList.length === 0 ? (
+                        <p className="p-8 text-sm text-center text-zinc-500 dark:text-zinc-400">No hace falta comprar nada para estos días</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+                                    <th className="text-left font-medium p-3">Producto</th>
+                                    <th className="text-left font-medium p-3">Hay</th>
+                                    <th className="text-left font-medium p-3 hidden sm:table-cell">Consumo previsto</th>
+                                    <th className="text-left font-medium p-3">Comprar</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {shoppingList.map(line => (
+                                    <tr key={line.item.id} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                                        <td className="p-3">
+                                            <span className="font-medium text-zinc-900 dark:text-white">{line.item.name}</span>
+                                            {line.isLow && (
+                                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400">BAJO MÍNIMO</span>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-zinc-600 dark:text-zinc-400">{formatQuantity(line.item.stock, line.item.unit)}</td>
+                                        <td className="p-3 text-zinc-600 dark:text-zinc-400 hidden sm:table-cell">
+                                            {line.expectedUse > 0 ? formatQuantity(line.expectedUse, line.item.unit) : '—'}
+                                        </td>
+                                        <td className="p-3 font-bold text-zinc-900 dark:text-white">{formatQuantity(line.quantity, line.item.unit)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+
+            {section === 'DELIVERIES' && (
+                <div className="space-y-4">
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 shadow-sm p-4">
+                        <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Registrar entrega</h3>
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+                            <div className="col-span-2">
+                                <label className="text-xs font-medium text-zinc-500 block mb-1">Producto</label>
+                                <select value={deliveryItemId} onChange={e => setDeliveryItemId(e.target.value)} className={inputClass}>
+                                    <option value="">Elige...</option>
+                                    {items.map(item => <option key={item.id} value={item.id}>{item.name} ({item.unit})</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-zinc-500 block mb-1">Cantidad</label>
+                                <input type="number" min="0" step="any" value={deliveryQuantity} onChange={e => setDeliveryQuantity(e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-zinc-500 block mb-1">Fecha</label>
+                                <input type="date" value={deliveryDate} onChange={e => setDeliveryDate(e.target.value)} className={`${inputClass} [color-scheme:light] dark:[color-scheme:dark]`} />
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-zinc-500 block mb-1">Proveedor</label>
+                                <input type="text" value={deliverySupplier} onChange={e => setDeliverySupplier(e.target.value)} className={inputClass} />
+                            </div>
+                            <button
+                                onClick={handleRecordDelivery}
+                                disabled={saving || !deliveryItemId || !(parseFloat(deliveryQuantity) > 0)}
+                                className="flex items-center justify-center gap-1.5 p-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                <Truck size={16} /> Registrar
+                            </button>
+                            <div className="col-span-2 md:col-span-6">
+                                <input type="text" value={deliveryNotes} onChange={e => setDeliveryNotes(e.target.value)} placeholder="Notas (albarán, incidencias...)" className={inputClass} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 shadow-sm divide-y divide-zinc-100 dark:divide-zinc-800">
+                        {deliveries.length === 0 ? (
+                            <p className="p-8 text-sm text-center text-zinc-500 dark:text-zinc-400">No hay entregas registradas</p>
+                        ) : deliveries.map(delivery => {
+                            const item = items.find(i => i.id === delivery.itemId);
+                            return (
+                                <div key={delivery.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-3 text-sm">
+                                    <span className="text-xs text-zinc-500 w-20 capitalize">
+                                        {format(parseISO(delivery.deliveredOn), 'EEE d MMM', { locale: es })}
+                                    </span>
+                                    <span className="font-medium text-zinc-900 dark:text-white">{delivery.itemName || item?.name || 'Producto'}</span>
+                                    <span className="text-emerald-600 dark:text-emerald-400 font-semibold">
+                                        +{formatQuantity(delivery.quantity, item?.unit || '')}
+                                    </span>
+                                    {delivery.supplier && <span className="text-xs text-zinc-500">{delivery.supplier}</span>}
+                                    {delivery.notes && <span className="text-xs text-zinc-400 italic w-full sm:w-auto">{delivery.notes}</span>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
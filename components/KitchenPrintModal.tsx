@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { format, addDays, parseISO, eachDayOfInterval, nextSaturday, isSaturday, isSunday } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Printer } from 'lucide-react';
+import { MealOption, User } from '../types';
+import { mealService } from '../services/meals';
+import { kitchenService } from '../services/kitchen';
+import { profileService } from '../services/profiles';
+import { buildKitchenSheets, KitchenSheet } from '../utils/kitchenSheets';
+import { FORECAST_MEALS, MealType } from '../utils/mealForecast';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { getMealOption } from '../utils/mealOptions';
+import { getAllergen } from '../utils/allergens';
+
+interface KitchenPrintModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+// Printed with the browser, so the styles are plain CSS instead of Tailwind classes
+const PRINT_STYLES = `
+    @page { size: A4; margin: 14mm; }
+    * { box-sizing: border-box; }
+    body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #18181b; margin: 0; }
+    .sheet { break-after: page; }
+    .sheet:last-child { break-after: auto; }
+    header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #18181b; padding-bottom: 6px; margin-bottom: 14px; }
+    h1 { font-size: 22pt; margin: 0; }
+    h1 small { font-size: 12pt; font-weight: normal; text-transform: capitalize; margin-left: 8px; }
+    .total { font-size: 16pt; font-weight: bold; }
+    .total span { font-size: 10pt; font-weight: normal; color: #52525b; }
+    h2 { font-size: 13pt; margin: 16px 0 6px; padding: 4px 8px; background: #f4f4f5; border-radius: 4px; display: flex; justify-content: space-between; }
+    table { width: 100%; border-collapse: collapse; font-size: 11pt; }
+    td { padding: 4px 8px; border-bottom: 1px solid #e4e4e7; vertical-align: top; }
+    td.check { width: 18px; }
+    td.check div { width: 12px; height: 12px; border: 1px solid #71717a; border-radius: 2px; }
+    td.name { font-weight: 600; width: 90px; }
+    td.time { font-family: monospace; width: 60px; }
+    .diet { font-weight: bold; }
+    .allergens { font-size: 10pt; margin: -6px 0 10px; }
+    .muted { color: #71717a; }
+    .empty { color: #a1a1aa; font-style: italic; }
+`;
+
+const KitchenSheetsDocument: React.FC<{ sheets: KitchenSheet[]; options: MealOption[] }> = ({ sheets, options }) => (
+    <>
+        {sheets.map(sheet => (
+            <section key={`${sheet.date}-${sheet.mealType}`} className="sheet">
+                <header>
+                    <h1>
+                        {MEAL_NAMES[sheet.mealType]}
+                        <small>{format(parseISO(sheet.date), "EEEE, d 'de' MMMM", { locale: es })}</small>
+                    </h1>
+                    <div className="total">
+                        {sheet.total} <span>comensales{sheet.diets > 0 ? ` · ${sheet.diets} dietas` : ''}</span>
+                    </div>
+                </header>
+
+                {sheet.allergens.length > 0 && (
+                    <p className="allergens">
+                        <strong>Sin: </strong>
+                        {sheet.allergens.map(({ allergen, count }) => `${allergen.label} ${count}`).join(' · ')}
+                    </p>
+                )}
+
+                {sheet.groups.length === 0 && <p className="empty">Nadie ha pedido esta comida.</p>}
+
+                {sheet.groups.map(group => (
+                    <div key={group.option}>
+                        <h2>
+                            <span>{getMealOption(options, group.option).label}</span>
+                            <span>{group.total}</span>
+                        </h2>
+                        <table>
+                            <tbody>
+                                {group.entries.map((entry, index) => (
+                                    <tr key={index}>
+                                        <td className="check"><div /></td>
+                                        <td className="name">
+                                            {entry.guestCount ? `+${entry.guestCount} ${entry.label}` : entry.label}
+                                        </td>
+                                        <td className="time">{entry.bagTime || ''}</td>
+                                        <td>
+                                            {entry.dietNumber && (
+                                                <span className="diet">D{entry.dietNumber}{entry.dietName ? ` · ${entry.dietName}` : ''}</span>
+                                            )}
+                                            {entry.allergens && entry.allergens.length > 0 && (
+                                                <span className="muted"> sin {entry.allergens.map(id => getAllergen(id).label.toLowerCase()).join(', ')}</span>
+                                            )}
+                                            {entry.notes && <span className="muted">{entry.notes}</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </section>
+        ))}
+    </>
+);
+
+export const KitchenPrintModal: React.FC<KitchenPrintModalProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const { options } = useMealOptions();
+    const [fromDate, setFromDate] = useState(format(initialDate, 'yyyy-MM-dd'));
+    const [toDate, setToDate] = useState(format(initialDate, 'yyyy-MM-dd'));
+    const [mealTypes, setMealTypes] = useState<MealType[]>(FORECAST_MEALS);
+    const [printing, setPrinting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setFromDate(format(initialDate, 'yyyy-MM-dd'));
+        setToDate(format(initialDate, 'yyyy-MM-dd'));
+        setError(null);
+    }, [isOpen, initialDate]);
+
+    const isValidRange = fromDate <= toDate;
+
+    const handleWeekend = () => {
+        const today = new Date();
+        const saturday = isSaturday(today) ? today : isSunday(today) ? addDays(today, -1) : nextSaturday(today);
+        setFromDate(format(saturday, 'yyyy-MM-dd'));
+        setToDate(format(addDays(saturday, 1), 'yyyy-MM-dd'));
+    };
+
+    const toggleMeal = (mealType: MealType) => {
+        setMealTypes(prev => prev.includes(mealType)
+            ? prev.filter(m => m !== mealType)
+            : FORECAST_MEALS.filter(m => m === mealType || prev.includes(m)));
+    };
+
+    const handlePrint = async () => {
+        // Opened before awaiting anything so the browser does not block the popup
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            setError('El navegador ha bloqueado la ventana de impresión');
+            return;
+        }
+
+        setPrinting(true);
+        setError(null);
+        try {
+            const dates = eachDayOfInterval({ start: parseISO(fromDate), end: parseISO(toDate) })
+                .map(date => format(date, 'yyyy-MM-dd'));
+
+            const [plans, guests, profiles] = await Promise.all([
+                mealService.getEffectiveDailyPlans(dates),
+                kitchenService.getGuestsInRange(fromDate, toDate),
+                profileService.getAllProfiles()
+            ]);
+
+            const profileMap = new Map<string, User>(profiles.map(profile => [profile.id, profile]));
+            const sheets = buildKitchenSheets(dates, mealTypes, plans, guests, profileMap, options);
+            const body = renderToStaticMarkup(<KitchenSheetsDocument sheets={sheets} options={options} />);
+
+            printWindow.document.write(
+                `<!DOCTYPE html><html lang="es"><head><meta charset="utf-8"><title>Cocina ${fromDate}${toDate !== fromDate ? ` – ${toDate}` : ''}</title>` +
+                `<style>${PRINT_STYLES}</style></head><body>${body}</body></html>`
+            );
+            printWindow.document.close();
+            printWindow.focus();
+            printWindow.print();
+            onClose();
+        } catch (e) {
+            printWindow.close();
+            setError('Error al preparar las hojas: ' + (e as Error).message);
+        } finally {
+            setPrinting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-sm w-full border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                        <Printer size={18} /> Imprimir hojas de cocina
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Desde</label>
+                            <input
+                                type="date"
+                                className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg [color-scheme:light] dark:[color-scheme:dark]"
+                                value={fromDate}
+                                onChange={e => setFromDate(e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Hasta</label>
+                            <input
+                                type="date"
+                                className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg [color-scheme:light] dark:[color-scheme:dark]"
+                                value={toDate}
+                                onChange={e => setToDate(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={handleWeekend}
+                        className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                        Todo el fin de semana
+                    </button>
+
+                    <div>
+                        <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Comidas</label>
+                        <div className="flex gap-2">
+                            {FORECAST_MEALS.map(mealType => (
+                                <button
+                                    key={mealType}
+                                    onClick={() => toggleMeal(mealType)}
+                                    className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${mealTypes.includes(mealType)
+                                        ? 'bg-zinc-900 text-white dark:bg-white dark:text-black border-zinc-900 dark:border-white'
+                                        : 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400'
+                                        }`}
+                                >
+                                    {MEAL_NAMES[mealType]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {error && (
+                        <p className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 rounded-lg px-3 py-2">
+                            {error}
+                        </p>
+                    )}
+
+                    <p className="text-[10px] text-zinc-400 dark:text-zinc-500">
+                        Una hoja A4 por comida. Para guardarlo como PDF elige «Guardar como PDF» en el diálogo de impresión.
+                    </p>
+
+                    <button
+                        onClick={handlePrint}
+                        disabled={printing || !isValidRange || mealTypes.length === 0}
+                        className="w-full bg-zinc-900 dark:bg-white text-white dark:text-black py-2.5 rounded-xl font-semibold text-sm hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Printer size={16} />
+                        {printing ? 'Preparando...' : 'Imprimir / PDF'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Check, ClipboardCheck, Lock } from 'lucide-react';
+import { MealAttendance } from '../types';
+import { mealService } from '../services/meals';
+import { attendanceService } from '../services/attendance';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { buildCheckInList, CheckInEntry, currentMealType } from '../utils/attendance';
+import { FORECAST_MEALS, MealType } from '../utils/mealForecast';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface MealCheckInModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+// Full-screen grid for a tablet at the dining room door: tap a resident as they are served
+export const MealCheckInModal: React.FC<MealCheckInModalProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const { options, getOption } = useMealOptions();
+    const [mealType, setMealType] = useState<MealType>(currentMealType(new Date()));
+    const [entries, setEntries] = useState<CheckInEntry[]>([]);
+    const [attendance, setAttendance] = useState<Record<string, MealAttendance>>({});
+    const [loading, setLoading] = useState(false);
+    const [closing, setClosing] = useState(false);
+
+    const dateStr = format(initialDate, 'yyyy-MM-dd');
+
+    useEffect(() => {
+        if (isOpen) setMealType(currentMealType(new Date()));
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadData();
+    }, [isOpen, dateStr, mealType, options]);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const [plan, records] = await Promise.all([
+                mealService.getDailyMealPlan(dateStr),
+                attendanceService.getAttendance(dateStr, mealType)
+            ]);
+            setEntries(buildCheckInList(plan, mealType, options));
+            setAttendance(Object.fromEntries(records.map(r => [r.userId, r])));
+        } catch (error) {
+            console.error('Error loading check-in:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleToggle = async (entry: CheckInEntry) => {
+        const previous = attendance[entry.userId];
+        const served = !previous?.served;
+        const optimistic: MealAttendance = previous
+            ? { ...previous, served }
+            : { id: 'pending', date: dateStr, mealType, userId: entry.userId, orderedOption: entry.option, served, markedAt: new Date().toISOString() };
+        setAttendance(prev => ({ ...prev, [entry.userId]: optimistic }));
+
+        try {
+            const saved = await attendanceService.setServed(dateStr, mealType, entry.userId, previous?.orderedOption || entry.option, served);
+            setAttendance(prev => ({ ...prev, [entry.userId]: saved }));
+        } catch (error) {
+            console.error('Error marking attendance:', error);
+            setAttendance(prev => {
+                const next = { ...prev };
+                if (previous) next[entry.userId] = previous;
+                else delete next[entry.userId];
+                return next;
+            });
+        }
+    };
+
+    const handleCloseService = async () => {
+        const pending = entries.filter(e => !attendance[e.userId]);
+        if (!confirm(`Se anotarán ${pending.length} residentes como no presentados. ¿Cerrar el servicio?`)) return;
+        setClosing(true);
+        try {
+            await attendanceService.closeService(dateStr, mealType, pending.map(e => ({ userId: e.userId, option: e.option })));
+            await loadData();
+        } catch (error) {
+            console.error('Error closing service:', error);
+            alert('Error al cerrar el servicio');
+        } finally {
+            setClosing(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const servedCount = entries.filter(e => attendance[e.userId]?.served).length;
+    const pendingCount = entries.filter(e => !attendance[e.userId]).length;
+    const isClosed = entries.length > 0 && pendingCount === 0;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex flex-col bg-zinc-50 dark:bg-black animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="p-4 sm:p-6 border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-xl font-bold text-zinc-900 dark:text-white flex items-center gap-2">
+                        <ClipboardCheck size={22} /> Pase de comedor
+                    </h3>
+                    <p className="text-sm text-zinc-500 capitalize">{format(initialDate, "EEEE, d 'de' MMMM", { locale: es })}</p>
+                </div>
+
+                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                    {FORECAST_MEALS.map(meal => (
+                        <button
+                            key={meal}
+                            onClick={() => setMealType(meal)}
+                            className={`px-5 py-2 text-sm font-medium rounded-md transition-all ${mealType === meal
+                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                : 'text-zinc-500 dark:text-zinc-400'
+                                }`}
+                        >
+                            {MEAL_NAMES[meal]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-4">
+                    <div className="text-right">
+                        <p className="text-2xl font-bold text-zinc-900 dark:text-white">{servedCount}<span className="text-base text-zinc-400">/{entries.length}</span></p>
+                        <p className="text-xs text-zinc-500">servidos</p>
+                    </div>
+                    <button
+                        onClick={handleCloseService}
+                        disabled={closing || loading || isClosed || entries.length === 0}
+                        className="flex items-center gap-1.5 px-4 py-2.5 rounded-xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-sm font-bold disabled:opacity-40"
+                    >
+                        <Lock size={16} />
+                        {isClosed ? 'Cerrado' : 'Cerrar servicio'}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-zinc-500" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 sm:p-6">
+                {loading ? (
+                    <p className="text-center text-zinc-400 py-12">Cargando...</p>
+                ) : entries.length === 0 ? (
+                    <p className="text-center text-zinc-500 dark:text-zinc-400 py-12">Nadie ha pedido {MEAL_NAMES[mealType].toLowerCase()} en el comedor</p>
+                ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                        {entries.map(entry => {
+                            const record = attendance[entry.userId];
+                            const served = record?.served;
+                            const noShow = record && !record.served;
+                            return (
+                                <button
+                                    key={entry.userId}
+                                    onClick={() => handleToggle(entry)}
+                                    className={`relative flex flex-col items-start gap-2 p-4 rounded-2xl border-2 text-left transition-all active:scale-95 ${served
+                                        ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-500'
+                                        : noShow
+                                            ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-300 dark:border-rose-800'
+                                            : 'bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800'
+                                        }`}
+                                >
+                                    {served && (
+                                        <span className="absolute top-3 right-3 p-1 rounded-full bg-emerald-500 text-white">
+                                            <Check size={14} />
+                                        </span>
+                                    )}
+                                    <span className="font-semibold text-zinc-900 dark:text-white pr-6 line-clamp-2">{entry.userName}</span>
+                                    <MealOptionBadge option={getOption(entry.option)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                                    {noShow && <span className="text-[11px] font-medium text-rose-600 dark:text-rose-400">No presentado</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { MealOption } from '../types';
+import { MEAL_OPTION_ICONS, optionTextColor } from '../utils/mealOptions';
+
+interface MealOptionBadgeProps {
+    option: MealOption;
+    className?: string;
+    showIcon?: boolean;
+}
+
+// Coloured pill with the option's short label, as used in the order grids
+export const MealOptionBadge: React.FC<MealOptionBadgeProps> = ({ option, className = '', showIcon = false }) => {
+    const Icon = showIcon && option.icon ? MEAL_OPTION_ICONS[option.icon] : undefined;
+
+    return (
+        <span
+            className={`inline-flex items-center justify-center gap-1 ${className}`}
+            style={{ backgroundColor: option.color, color: optionTextColor(option.color) }}
+        >
+            {Icon && <Icon size={12} />}
+            {option.shortLabel}
+        </span>
+    );
+};
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { mealOptionService } from '../services/mealOptions';
+import { MealOption, MealOptionLockRule } from '../types';
+import { Trash2, Plus, Pencil, ListChecks, Loader2, X } from 'lucide-react';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { MEAL_OPTION_ICONS } from '../utils/mealOptions';
+import { FORECAST_MEALS } from '../utils/mealForecast';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface MealOptionsManagerProps {
+    className?: string;
+}
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+const LOCK_RULE_LABELS: Record<MealOptionLockRule, string> = {
+    default: 'Como la comida',
+    day_before: 'Día anterior',
+    cutoff: 'Hora propia'
+};
+
+const EMPTY_OPTION: MealOption = {
+    id: '',
+    label: '',
+    shortLabel: '',
+    color: '#6366f1',
+    mealTypes: ['lunch'],
+    needsPrep: false,
+    isBag: false,
+    lockRule: 'default',
+    sortOrder: 60,
+    isActive: true,
+    isSystem: false
+};
+
+// Key stored in the orders: lowercase ascii without spaces ("Cena fría" -> "cena_fria")
+const toOptionKey = (label: string) => label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+export const MealOptionsManager: React.FC<MealOptionsManagerProps> = ({ className }) => {
+    const { options, refresh } = useMealOptions();
+    const [editing, setEditing] = useState<{ option: MealOption; isNew: boolean } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+
+        const option = {
+            ...editing.option,
+            id: editing.isNew ? toOptionKey(editing.option.label) : editing.option.id
+        };
+        if (!option.id || !option.shortLabel || option.mealTypes.length === 0) return;
+        if (editing.isNew && options.some(o => o.id === option.id)) {
+            alert('Ya existe una opción con ese nombre.');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await mealOptionService.upsertOption(option);
+            await refresh();
+            setEditing(null);
+        } catch (error) {
+            console.error("Failed to save meal option", error);
+            alert("Error al guardar la opción.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (option: MealOption) => {
+        if (!confirm(`¿Eliminar la opción «${option.label}»? Los pedidos antiguos con esta opción se mostrarán sin formato. Si solo quieres retirarla, desactívala.`)) return;
+        try {
+            await mealOptionService.deleteOption(option.id);
+            await refresh();
+        } catch (error) {
+            console.error("Failed to delete meal option", error);
+            alert("Error al eliminar la opción.");
+        }
+    };
+
+    const update = (changes: Partial<MealOption>) => {
+        if (!editing) return;
+        setEditing({ ...editing, option: { ...editing.option, ...changes } });
+    };
+
+    const toggleMeal = (mealType: MealOption['mealTypes'][number]) => {
+        if (!editing) return;
+        const mealTypes = editing.option.mealTypes;
+        update({
+            mealTypes: mealTypes.includes(mealType)
+                ? mealTypes.filter(m => m !== mealType)
+                : FORECAST_MEALS.filter(m => m === mealType || mealTypes.includes(m))
+        });
+    };
+
+    return (
+        <div className={`space-y-4 ${className}`}>
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-zinc-800 dark:text-zinc-200 flex items-center gap-2">
+                    <ListChecks size={18} />
+                    Opciones de comida
+                </h3>
+                {!editing && (
+                    <button
+                        onClick={() => setEditing({ option: EMPTY_OPTION, isNew: true })}
+                        className="flex items-center gap-1 text-xs text-indigo-600 hover:underline font-medium"
+                    >
+                        <Plus size={14} /> Nueva opción
+                    </button>
+                )}
+            </div>
+
+            {/* List */}
+            <div className="space-y-2 max-h-72 overflow-y-auto pr-2">
+                {options.map(option => (
+                    <div
+                        key={option.id}
+                        className={`flex items-center gap-3 p-2 bg-zinc-50 dark:bg-zinc-800 rounded border border-zinc-100 dark:border-zinc-700 ${option.isActive ? '' : 'opacity-50'}`}
+                    >
+                        <MealOptionBadge option={option} showIcon className="px-2 py-1 rounded font-semibold text-xs min-w-[48px]" />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                {option.label}
+                                {!option.isActive && <span className="ml-2 text-[10px] text-zinc-400 uppercase">Inactiva</span>}
+                            </p>
+                            <p className="text-xs text-zinc-500 truncate">
+                                {option.mealTypes.map(m => MEAL_NAMES[m]).join(', ')}
+                                {option.needsPrep && ' · Se prepara el día antes'}
+                                {option.isBag && ' · Bolsa'}
+                                {option.lockRule !== 'default' && ` · Cierre: ${option.lockRule === 'cutoff' ? option.cutoffTime || '--:--' : LOCK_RULE_LABELS[option.lockRule]}`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => setEditing({ option, isNew: false })}
+                            className="text-zinc-400 hover:text-indigo-500 p-1"
+                        >
+                            <Pencil size={16} />
+                        </button>
+                        {!option.isSystem && (
+                            <button
+                                onClick={() => handleDelete(option)}
+                                className="text-zinc-400 hover:text-red-500 p-1"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* Edit Form */}
+            {editing && (
+                <form onSubmit={handleSave} className="space-y-3 pt-3 border-t border-zinc-200 dark:border-zinc-700 animate-in slide-in-from-top-2">
+                    <div className="flex items-center justify-between">
+                        <h4 className="font-bold text-xs uppercase text-zinc-500">
+                            {editing.isNew ? 'Nueva opción' : `Editar «${editing.option.label}»`}
+                        </h4>
+                        <button type="button" onClick={() => setEditing(null)} className="text-zinc-400 hover:text-zinc-600 p-1">
+                            <X size={16} />
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="col-span-2">
+                            <label className="text-[10px] uppercase text-zinc-400 font-bold">Nombre</label>
+                            <input
+                                type="text"
+                                value={editing.option.label}
+                                onChange={e => update({ label: e.target.value })}
+                                placeholder="Ej. Vegetariano"
+                                className="w-full text-xs p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] uppercase text-zinc-400 font-bold">Abreviatura</label>
+                            <input
+                                type="text"
+                                value={editing.option.shortLabel}
+                                onChange={e => update({ shortLabel: e.target.value.toUpperCase().slice(0, 3) })}
+                                placeholder="VG"
+                                className="w-full text-xs p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] uppercase text-zinc-400 font-bold">Color</label>
+                            <input
+                                type="color"
+                                value={editing.option.color}
+                                onChange={e => update({ color: e.target.value })}
+                                className="w-full h-[34px] p-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-[10px] uppercase text-zinc-400 font-bold block mb-1">Icono</label>
+                        <div className="flex flex-wrap gap-1">
+                            {Object.entries(MEAL_OPTION_ICONS).map(([key, Icon]) => (
+                                <button
+                                    key={key}
+                                    type="button"
+                                    onClick={() => update({ icon: editing.option.icon === key ? undefined : key })}
+                                    className={`p-1.5 rounded border transition-colors ${editing.option.icon === key
+                                        ? 'bg-zinc-900 text-white dark:bg-white dark:text-black border-zinc-900 dark:border-white'
+                                        : 'border-zinc-200 dark:border-zinc-700 text-zinc-500'
+                                        }`}
+                                >
+                                    <Icon size={14} />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-[10px] uppercase text-zinc-400 font-bold block mb-1">Disponible en</label>
+                        <div className="flex gap-2">
+                            {FORECAST_MEALS.map(mealType => (
+                                <button
+                                    key={mealType}
+                                    type="button"
+                                    onClick={() => toggleMeal(mealType)}
+                                    className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${editing.option.mealTypes.includes(mealType)
+                                        ? 'bg-zinc-900 text-white dark:bg-white dark:text-black border-zinc-900 dark:border-white'
+                                        : 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400'
+                                        }`}
+                                >
+                                    {MEAL_NAMES[mealType]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                        <div>
+                            <label className="text-[10px] uppercase text-zinc-400 font-bold">Cierre</label>
+                            <select
+                                value={editing.option.lockRule}
+                                onChange={e => update({ lockRule: e.target.value as MealOptionLockRule })}
+                                className="w-full text-xs p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                            >
+                                {(Object.keys(LOCK_RULE_LABELS) as MealOptionLockRule[]).map(rule => (
+                                    <option key={rule} value={rule}>{LOCK_RULE_LABELS[rule]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {editing.option.lockRule === 'cutoff' && (
+                            <div>
+                                <label className="text-[10px] uppercase text-zinc-400 font-bold">Hora límite</label>
+                                <input
+                                    type="time"
+                                    value={editing.option.cutoffTime || ''}
+                                    onChange={e => update({ cutoffTime: e.target.value })}
+                                    className="w-full text-xs p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                                    required
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <label className="text-[10px] uppercase text-zinc-400 font-bold">Orden</label>
+                            <input
+                                type="number"
+                                value={editing.option.sortOrder}
+                                onChange={e => update({ sortOrder: parseInt(e.target.value) || 0 })}
+                                className="w-full text-xs p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-4 text-xs text-zinc-600 dark:text-zinc-400">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={editing.option.needsPrep} onChange={e => update({ needsPrep: e.target.checked })} />
+                            Se prepara el día antes
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={editing.option.isBag} onChange={e => update({ isBag: e.target.checked })} />
+                            Es bolsa (con hora de recogida)
+                        </label>
+                        {!editing.option.isSystem && (
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={editing.option.isActive} onChange={e => update({ isActive: e.target.checked })} />
+                                Activa
+                            </label>
+                        )}
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="flex items-center gap-2 px-4 py-2 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50"
+                        >
+                            {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                            {editing.isNew ? 'AÑADIR OPCIÓN' : 'GUARDAR OPCIÓN'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
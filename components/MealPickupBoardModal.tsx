@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, ShoppingBag, Clock, Check, Undo2 } from 'lucide-react';
+import { MealPickup } from '../types';
+import { mealService } from '../services/meals';
+import { pickupService } from '../services/pickups';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { buildPickupBoard, PickupEntry, PickupSlot } from '../utils/pickups';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface MealPickupBoardModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'Desayuno',
+    lunch: 'Comida',
+    dinner: 'Cena'
+};
+
+const pickupKey = (mealType: string, userId: string) => `${mealType}-${userId}`;
+
+// Bags and tuppers of the day by pickup time, moved from "to prepare" to prepared and collected
+export const MealPickupBoardModal: React.FC<MealPickupBoardModalProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const { options, getOption } = useMealOptions();
+    const [slots, setSlots] = useState<PickupSlot[]>([]);
+    const [pickups, setPickups] = useState<Record<string, MealPickup>>({});
+    const [loading, setLoading] = useState(false);
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+
+    const dateStr = format(initialDate, 'yyyy-MM-dd');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadData();
+    }, [isOpen, dateStr, options]);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const [plan, records] = await Promise.all([
+                mealService.getDailyMealPlan(dateStr),
+                pickupService.getPickups(dateStr)
+            ]);
+            setSlots(buildPickupBoard(plan, options));
+            setPickups(Object.fromEntries(records.map(p => [pickupKey(p.mealType, p.userId), p])));
+        } catch (error) {
+            console.error('Error loading pickups:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const runAction = async (entry: PickupEntry, action: () => Promise<void>) => {
+        const key = pickupKey(entry.mealType, entry.userId);
+        setBusyKey(key);
+        try {
+            await action();
+        } catch (error) {
+            console.error('Error updating pickup:', error);
+            alert('Error al actualizar la bolsa');
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handlePrepared = (entry: PickupEntry) => runAction(entry, async () => {
+        const pickup = await pickupService.markPrepared(dateStr, entry.mealType, entry.userId, getOption(entry.option).label, entry.bagTime);
+        setPickups(prev => ({ ...prev, [pickupKey(entry.mealType, entry.userId)]: pickup }));
+    });
+
+    const handleCollected = (entry: PickupEntry, pickup: MealPickup) => runAction(entry, async () => {
+        await pickupService.markCollected(pickup.id);
+        setPickups(prev => ({ ...prev, [pickupKey(entry.mealType, entry.userId)]: { ...pickup, status: 'collected', collectedAt: new Date().toISOString() } }));
+    });
+
+    const handleReset = (entry: PickupEntry, pickup: MealPickup) => runAction(entry, async () => {
+        await pickupService.resetPickup(pickup.id);
+        setPickups(prev => {
+            const next = { ...prev };
+            delete next[pickupKey(entry.mealType, entry.userId)];
+            return next;
+        });
+    });
+
+    if (!isOpen) return null;
+
+    const allEntries = slots.flatMap(slot => slot.entries);
+    const countByStatus = (status: MealPickup['status'] | 'pending') =>
+        allEntries.filter(e => (pickups[pickupKey(e.mealType, e.userId)]?.status || 'pending') === status).length;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                            <ShoppingBag size={18} /> Bolsas y tuppers
+                        </h3>
+                        <p className="text-sm text-zinc-500 capitalize">{format(initialDate, "EEEE, d 'de' MMMM", { locale: es })}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                {allEntries.length > 0 && (
+                    <div className="px-6 py-3 border-b border-zinc-200 dark:border-zinc-800 flex gap-4 text-xs text-zinc-500">
+                        <span><strong className="text-zinc-900 dark:text-white">{countByStatus('pending')}</strong> por preparar</span>
+                        <span><strong className="text-amber-600 dark:text-amber-400">{countByStatus('prepared')}</strong> preparadas</span>
+                        <span><strong className="text-emerald-600 dark:text-emerald-400">{countByStatus('collected')}</strong> recogidas</span>
+                    </div>
+                )}
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {loading ? (
+                        <p className="text-sm text-center text-zinc-400 py-8">Cargando...</p>
+                    ) : slots.length === 0 ? (
+                        <p className="text-sm text-center text-zinc-500 dark:text-zinc-400 py-8">Nadie ha pedido bolsa ni tupper este día</p>
+                    ) : slots.map(slot => (
+                        <div key={slot.time || 'none'} className="space-y-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-1.5">
+                                <Clock size={14} />
+                                {slot.time || 'Sin hora'}
+                                <span className="font-normal normal-case tracking-normal">· {slot.entries.length}</span>
+                            </h4>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                {slot.entries.map(entry => {
+                                    const key = pickupKey(entry.mealType, entry.userId);
+                                    const pickup = pickups[key];
+                                    const isBusy = busyKey === key;
+                                    return (
+                                        <div
+                                            key={key}
+                                            className={`flex items-center gap-3 p-3 rounded-xl border ${pickup?.status === 'collected'
+                                                ? 'border-emerald-200 dark:border-emerald-900/50 bg-emerald-50/50 dark:bg-emerald-900/10 opacity-60'
+                                                : pickup?.status === 'prepared'
+                                                    ? 'border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/10'
+                                                    : 'border-zinc-200 dark:border-zinc-800'
+                                                }`}
+                                        >
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-medium text-sm text-zinc-900 dark:text-white truncate">{entry.userName}</p>
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <span className="text-[11px] text-zinc-500">{MEAL_NAMES[entry.mealType]}</span>
+                                                    <MealOptionBadge option={getOption(entry.option)} className="px-1.5 py-0.5 rounded text-[10px] font-semibold" />
+                                                </div>
+                                            </div>
+
+                                            {pickup && (
+                                                <button
+                                                    onClick={() => handleReset(entry, pickup)}
+                                                    disabled={isBusy}
+                                                    title="Deshacer"
+                                                    className="p-1.5 text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 transition-colors disabled:opacity-40"
+                                                >
+                                                    <Undo2 size={14} />
+                                                </button>
+                                            )}
+
+                                            {!pickup ? (
+                                                <button
+                                                    onClick={() => handlePrepared(entry)}
+                                                    disabled={isBusy}
+                                                    className="px-3 py-1.5 rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-xs font-bold disabled:opacity-50"
+                                                >
+                                                    Preparada
+                                                </button>
+                                            ) : pickup.status === 'prepared' ? (
+                                                <button
+                                                    onClick={() => handleCollected(entry, pickup)}
+                                                    disabled={isBusy}
+                                                    className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-50"
+                                                >
+                                                    Recogida
+                                                </button>
+                                            ) : (
+                                                <span className="flex items-center gap-1 text-xs font-medium text-emerald-600 dark:text-emerald-400">
+                                                    <Check size={14} /> {pickup.collectedAt ? format(new Date(pickup.collectedAt), 'HH:mm') : 'Recogida'}
+                                                </span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
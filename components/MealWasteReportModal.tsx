@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { format, addMonths, startOfMonth, endOfMonth, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, ChevronLeft, ChevronRight, TrendingDown, AlertTriangle } from 'lucide-react';
+import { attendanceService } from '../services/attendance';
+import { profileService } from '../services/profiles';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { buildWasteReport, findNoShows, NoShowRow, WasteRow } from '../utils/attendance';
+import { MealOptionBadge } from './MealOptionBadge';
+
+interface MealWasteReportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialDate: Date;
+}
+
+// Ordered vs served per option over a month, from the services closed at check-in
+export const MealWasteReportModal: React.FC<MealWasteReportModalProps> = ({ isOpen, onClose, initialDate }) => {
+    useBodyScrollLock(isOpen);
+    const { getOption } = useMealOptions();
+    const [month, setMonth] = useState(format(startOfMonth(initialDate), 'yyyy-MM-dd'));
+    const [rows, setRows] = useState<WasteRow[]>([]);
+    const [noShows, setNoShows] = useState<NoShowRow[]>([]);
+    const [names, setNames] = useState<Map<string, string>>(new Map());
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setMonth(format(startOfMonth(initialDate), 'yyyy-MM-dd'));
+    }, [isOpen, initialDate]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadReport();
+    }, [isOpen, month]);
+
+    const loadReport = async () => {
+        setLoading(true);
+        try {
+            const [records, profiles] = await Promise.all([
+                attendanceService.getAttendanceInRange(month, format(endOfMonth(parseISO(month)), 'yyyy-MM-dd')),
+                profileService.getAllProfiles()
+            ]);
+            setRows(buildWasteReport(records));
+            setNoShows(findNoShows(records));
+            setNames(new Map(profiles.map(p => [p.id, p.name])));
+        } catch (error) {
+            console.error('Error loading waste report:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const totals = rows.reduce(
+        (acc, row) => ({ ordered: acc.ordered + row.ordered, served: acc.served + row.served, missed: acc.missed + row.missed }),
+        { ordered: 0, served: 0, missed: 0 }
+    );
+    const percent = (part: number, whole: number) => whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200 min-h-[100dvh]">
+            <div className="bg-white dark:bg-zinc-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200">
+                <div className="p-6 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-white flex items-center gap-2">
+                        <TrendingDown size={18} /> Pedidas y servidas
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <X size={20} className="text-zinc-500" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-3 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-center gap-2">
+                    <button
+                        onClick={() => setMonth(format(addMonths(parseISO(month), -1), 'yyyy-MM-dd'))}
+                        className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <ChevronLeft size={18} className="text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                    <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300 min-w-[120px] text-center capitalize">
+                        {format(parseISO(month), 'MMMM yyyy', { locale: es })}
+                    </span>
+                    <button
+                        onClick={() => setMonth(format(addMonths(parseISO(month), 1), 'yyyy-MM-dd'))}
+                        className="p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+                    >
+                        <ChevronRight size={18} className="text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {loading ? (
+                        <p className="text-sm text-center text-zinc-400 py-8">Cargando...</p>
+                    ) : rows.length === 0 ? (
+                        <p className="text-sm text-center text-zinc-500 dark:text-zinc-400 py-8">No se ha pasado lista ningún día de este mes</p>
+                    ) : (
+                        <>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+                                        <th className="text-left font-medium py-2">Opción</th>
+                                        <th className="font-medium py-2">Pedidas</th>
+                                        <th className="font-medium py-2">Servidas</th>
+                                        <th className="font-medium py-2">Sin servir</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map(row => (
+                                        <tr key={row.option} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                                            <td className="py-2">
+                                                <MealOptionBadge option={getOption(row.option)} className="px-2 py-0.5 rounded-md text-xs font-semibold" />
+                                            </td>
+                                            <td className="py-2 text-center text-zinc-600 dark:text-zinc-400">{row.ordered}</td>
+                                            <td className="py-2 text-center text-zinc-600 dark:text-zinc-400">{row.served}</td>
+                                            <td className="py-2 text-center font-bold text-rose-600 dark:text-rose-400">
+                                                {row.missed} <span className="text-xs font-normal text-zinc-400">({percent(row.missed, row.ordered)})</span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    <tr className="text-xs font-bold text-zinc-500">
+                                        <td className="py-2">Total</td>
+                                        <td className="py-2 text-center">{totals.ordered}</td>
+                                        <td className="py-2 text-center">{totals.served}</td>
+                                        <td className="py-2 text-center">{totals.missed} ({percent(totals.missed, totals.ordered)})</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+
+                            <div className="space-y-2">
+                                <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-1.5">
+                                    <AlertTriangle size={14} className="text-amber-500" /> Piden y no vienen
+                                </h4>
+                                {noShows.length === 0 ? (
+                                    <p className="text-xs text-zinc-400">Nadie ha faltado tres o más veces este mes.</p>
+                                ) : noShows.map(row => (
+                                    <div key={row.userId} className="flex items-center justify-between p-2 rounded-lg bg-amber-50 dark:bg-amber-900/10 text-sm">
+                                        <span className="font-medium text-zinc-900 dark:text-white">{names.get(row.userId) || 'Residente'}</span>
+                                        <span className="text-xs text-zinc-600 dark:text-zinc-400">
+                                            {row.missed} de {row.ordered} sin venir · última {format(parseISO(row.lastMissed), 'd MMM', { locale: es })}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
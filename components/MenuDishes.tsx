@@ -0,0 +1,53 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { MenuDish } from '../types';
+import { getAllergen } from '../utils/allergens';
+import { courseLabel, dishConflicts } from '../utils/menus';
+
+interface MenuDishesProps {
+    dishes: MenuDish[]; // One meal, in serving order
+    allergens: string[]; // The viewer's, while their diet applies
+    compact?: boolean;
+}
+
+// Published dishes of a meal as residents see them, flagging the ones their diet excludes
+export const MenuDishes: React.FC<MenuDishesProps> = ({ dishes, allergens, compact = false }) => {
+    if (dishes.length === 0) return null;
+
+    if (compact) {
+        const hasConflict = dishes.some(dish => dishConflicts(dish, allergens).length > 0);
+        return (
+            <p className="flex items-center gap-1 text-[11px] text-zinc-500 dark:text-zinc-400 truncate">
+                {hasConflict && <AlertTriangle size={11} className="shrink-0 text-amber-500" />}
+                <span className="truncate">{dishes.map(dish => dish.name).join(' · ')}</span>
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-1">
+            {dishes.map(dish => {
+                const conflicts = dishConflicts(dish, allergens);
+                return (
+                    <div key={dish.id} className="text-xs">
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] text-zinc-400 w-12 shrink-0">{courseLabel(dish.course)}</span>
+                            <span className="font-medium text-zinc-800 dark:text-zinc-200">{dish.name}</span>
+                            {dish.allergens.map(id => (
+                                <span key={id} title={getAllergen(id).label} className="px-1 rounded text-[9px] font-bold bg-zinc-100 dark:bg-zinc-800 text-zinc-500">
+                                    {getAllergen(id).shortLabel}
+                                </span>
+                            ))}
+                        </div>
+                        {conflicts.length > 0 && (
+                            <p className="ml-14 flex items-center gap-1 text-[11px] text-amber-600 dark:text-amber-500">
+                                <AlertTriangle size={11} />
+                                Contiene {conflicts.map(a => getAllergen(a).label.toLowerCase()).join(', ')}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
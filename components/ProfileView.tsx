@@ -7,6 +7,7 @@ import { supabase } from '../services/supabase';
 import { useTheme } from '../contexts/ThemeContext';
 import { profileService } from '../services/profiles';
 import { absencesService } from '../services/absences';
+import { ALLERGENS } from '../utils/allergens';
 import { tasksService } from '../services/tasks';
 import { NotificationSettings } from './NotificationSettings';
 import { MessagingView } from './MessagingView';
@@ -46,6 +47,9 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdate, onRest
     const [hasDiet, setHasDiet] = useState(user.hasDiet || false);
     const [dietName, setDietName] = useState(user.dietName || '');
     const [dietNotes, setDietNotes] = useState(user.dietNotes || '');
+    const [allergens, setAllergens] = useState<string[]>(user.allergens || []);
+    const [dietValidFrom, setDietValidFrom] = useState(user.dietValidFrom || '');
+    const [dietValidTo, setDietValidTo] = useState(user.dietValidTo || '');
     const [dietFiles, setDietFiles] = useState<DietFile[]>([]);
     const [uploadingDietFile, setUploadingDietFile] = useState(false);
     const [savingProfile, setSavingProfile] = useState(false);
@@ -92,6 +96,9 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdate, onRest
         setHasDiet(user.hasDiet || false);
         setDietName(user.dietName || '');
         setDietNotes(user.dietNotes || '');
+        setAllergens(user.allergens || []);
+        setDietValidFrom(user.dietValidFrom || '');
+        setDietValidTo(user.dietValidTo || '');
     }, [user]);
 
     // Load diet files and absences
@@ -288,6 +295,10 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdate, onRest
     };
 
     const handleSaveProfile = async () => {
+        if (hasDiet && dietValidFrom && dietValidTo && dietValidFrom > dietValidTo) {
+            setError('La fecha de fin de la dieta no puede ser anterior a la de inicio');
+            return;
+        }
         setSavingProfile(true);
         setError(null);
         try {
@@ -297,6 +308,9 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdate, onRest
                 hasDiet,
                 dietName: dietName || undefined,
                 dietNotes: dietNotes || undefined,
+                allergens: hasDiet ? allergens : [],
+                dietValidFrom: hasDiet && dietValidFrom ? dietValidFrom : null,
+                dietValidTo: hasDiet && dietValidTo ? dietValidTo : null,
             });
 
             onUpdate();
@@ -824,6 +838,48 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdate, onRest
                                         />
                                     </div>
 
+                                    <div className="space-y-2">
+                                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider px-1">Alergias e intolerancias</label>
+                                        <div className="flex flex-wrap gap-2">
+                                            {ALLERGENS.map(allergen => {
+                                                const isSelected = allergens.includes(allergen.id);
+                                                return (
+                                                    <button
+                                                        key={allergen.id}
+                                                        type="button"
+                                                        onClick={() => setAllergens(isSelected ? allergens.filter(a => a !== allergen.id) : [...allergens, allergen.id])}
+                                                        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${isSelected
+                                                            ? 'bg-rose-500 border-rose-500 text-white'
+                                                            : 'bg-zinc-50 dark:bg-zinc-800/50 border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300'
+                                                            }`}
+                                                    >
+                                                        {allergen.label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider px-1">Vigencia (solo dietas temporales)</label>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <input
+                                                type="date"
+                                                value={dietValidFrom}
+                                                onChange={(e) => setDietValidFrom(e.target.value)}
+                                                className="w-full px-4 py-3 text-sm bg-zinc-50 dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 rounded-xl outline-none focus:ring-2 focus:ring-green-500/20 transition-all"
+                                            />
+                                            <input
+                                                type="date"
+                                                value={dietValidTo}
+                                                min={dietValidFrom || undefined}
+                                                onChange={(e) => setDietValidTo(e.target.value)}
+                                                className="w-full px-4 py-3 text-sm bg-zinc-50 dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 rounded-xl outline-none focus:ring-2 focus:ring-green-500/20 transition-all"
+                                            />
+                                        </div>
+                                        <p className="text-xs text-zinc-400 px-1">Déjalo vacío si la dieta es permanente.</p>
+                                    </div>
+
                                     <div className="space-y-2">
                                         <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider px-1">Notas y detalles</label>
                                         <textarea
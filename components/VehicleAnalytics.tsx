@@ -0,0 +1,229 @@
+import React, { useState, useMemo } from 'react';
+import { format, parseISO, subWeeks, startOfDay, addDays } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ArrowLeft, Download, CalendarCheck, XCircle, Clock, UserPlus } from 'lucide-react';
+import { Car, Reservation } from '../types';
+import { computeFleetStats, reservationsToCsv } from '../utils/vehicleAnalytics';
+import { UserAvatar } from './UserAvatar';
+
+interface VehicleAnalyticsProps {
+    cars: Car[];
+    reservations: Reservation[];
+    onClose: () => void;
+}
+
+const DAY_LABELS = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return hours > 0 ? `${hours}h ${mins}min` : `${mins}min`;
+};
+
+export const VehicleAnalytics: React.FC<VehicleAnalyticsProps> = ({ cars, reservations, onClose }) => {
+    const [fromDate, setFromDate] = useState(format(subWeeks(new Date(), 8), 'yyyy-MM-dd'));
+    const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+    // The "to" day is inclusive
+    const range = useMemo(() => ({
+        from: startOfDay(parseISO(fromDate)),
+        to: addDays(startOfDay(parseISO(toDate)), 1)
+    }), [fromDate, toDate]);
+    const isValidRange = range.from < range.to;
+
+    const stats = useMemo(
+        () => isValidRange ? computeFleetStats(cars, reservations, range) : null,
+        [cars, reservations, range, isValidRange]
+    );
+
+    const heatmapMax = stats ? Math.max(1, ...stats.heatmap.flat()) : 1;
+
+    const handleExport = () => {
+        const csv = reservationsToCsv(cars, reservations, range);
+        const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `reservas_${fromDate}_${toDate}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={onClose}
+                        className="p-2 -ml-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors"
+                    >
+                        <ArrowLeft size={20} />
+                    </button>
+                    <div>
+                        <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">Uso de la flota</h2>
+                        <p className="text-zinc-500 dark:text-zinc-400">Cómo se están usando los coches.</p>
+                    </div>
+                </div>
+
+                <div className="flex items-end gap-2">
+                    <div>
+                        <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Desde</label>
+                        <input
+                            type="date"
+                            className="text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg [color-scheme:light] dark:[color-scheme:dark]"
+                            value={fromDate}
+                            onChange={e => setFromDate(e.target.value)}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Hasta</label>
+                        <input
+                            type="date"
+                            className="text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg [color-scheme:light] dark:[color-scheme:dark]"
+                            value={toDate}
+                            onChange={e => setToDate(e.target.value)}
+                        />
+                    </div>
+                    <button
+                        onClick={handleExport}
+                        disabled={!isValidRange}
+                        className="h-[30px] px-3 flex items-center gap-1.5 bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-xs font-medium disabled:opacity-50"
+                    >
+                        <Download size={14} /> CSV
+                    </button>
+                </div>
+            </div>
+
+            {!stats ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">Elige un rango de fechas válido.</p>
+            ) : (
+                <>
+                    {/* KPIs */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Reservas', value: String(stats.totalBookings), icon: CalendarCheck },
+                            { label: 'Cancelaciones', value: formatPercent(stats.cancellationRate), icon: XCircle, hint: `${stats.cancelledBookings} canceladas` },
+                            { label: 'Duración media', value: formatDuration(stats.averageMinutes), icon: Clock },
+                            { label: 'Con invitado', value: formatPercent(stats.guestShare), icon: UserPlus, hint: `${stats.guestBookings} reservas` },
+                        ].map(kpi => (
+                            <div key={kpi.label} className="p-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800">
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400 flex items-center gap-1.5">
+                                    <kpi.icon size={14} /> {kpi.label}
+                                </p>
+                                <p className="text-2xl font-semibold text-zinc-900 dark:text-white mt-1">{kpi.value}</p>
+                                {kpi.hint && <p className="text-[10px] text-zinc-400 dark:text-zinc-500">{kpi.hint}</p>}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Utilization per car per week */}
+                    <section className="p-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800">
+                        <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-1">Ocupación por coche y semana</h3>
+                        <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mb-4">Porcentaje del tiempo total (24h) que el coche estuvo reservado</p>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-zinc-500 dark:text-zinc-400">
+                                        <th className="text-left font-medium pb-2 pr-3">Coche</th>
+                                        {stats.utilization[0]?.weeks.map(week => (
+                                            <th key={week.weekStart.toISOString()} className="font-medium pb-2 px-1 whitespace-nowrap">
+                                                {format(week.weekStart, 'd MMM', { locale: es })}
+                                            </th>
+                                        ))}
+                                        <th className="text-right font-medium pb-2 pl-3">Total</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {stats.utilization.map(car => (
+                                        <tr key={car.carId} className="border-t border-zinc-100 dark:border-zinc-800">
+                                            <td className="py-1.5 pr-3 text-zinc-900 dark:text-white whitespace-nowrap">{car.carName}</td>
+                                            {car.weeks.map(week => (
+                                                <td key={week.weekStart.toISOString()} className="px-1 py-1.5">
+                                                    <div
+                                                        className="h-6 min-w-[2.5rem] rounded flex items-center justify-center text-[10px] font-medium"
+                                                        style={{ backgroundColor: `rgba(59, 130, 246, ${0.08 + week.ratio * 0.8})` }}
+                                                        title={`${week.hours.toFixed(1)} h`}
+                                                    >
+                                                        <span className={week.ratio > 0.5 ? 'text-white' : 'text-zinc-700 dark:text-zinc-200'}>{formatPercent(week.ratio)}</span>
+                                                    </div>
+                                                </td>
+                                            ))}
+                                            <td className="py-1.5 pl-3 text-right font-medium text-zinc-900 dark:text-white whitespace-nowrap">
+                                                {formatPercent(car.ratio)} <span className="text-zinc-400 font-normal">· {Math.round(car.totalHours)} h</span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </section>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        {/* Peak hours heatmap */}
+                        <section className="lg:col-span-2 p-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800">
+                            <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-4">Horas punta</h3>
+                            <div className="overflow-x-auto">
+                                <div className="inline-grid gap-0.5" style={{ gridTemplateColumns: 'auto repeat(24, minmax(14px, 1fr))' }}>
+                                    <div />
+                                    {Array.from({ length: 24 }, (_, hour) => (
+                                        <div key={hour} className="text-[9px] text-zinc-400 text-center">{hour % 3 === 0 ? hour : ''}</div>
+                                    ))}
+                                    {stats.heatmap.map((hours, day) => (
+                                        <React.Fragment key={day}>
+                                            <div className="text-[10px] text-zinc-500 dark:text-zinc-400 pr-1.5">{DAY_LABELS[day]}</div>
+                                            {hours.map((count, hour) => (
+                                                <div
+                                                    key={hour}
+                                                    className="h-4 rounded-sm"
+                                                    style={{ backgroundColor: count > 0 ? `rgba(16, 185, 129, ${0.15 + (count / heatmapMax) * 0.85})` : undefined }}
+                                                    title={`${DAY_LABELS[day]} ${hour}:00 · ${count} reservas`}
+                                                >
+                                                    {count === 0 && <div className="w-full h-full rounded-sm bg-zinc-100 dark:bg-zinc-800" />}
+                                                </div>
+                                            ))}
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            </div>
+                        </section>
+
+                        {/* Top users */}
+                        <section className="p-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800">
+                            <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-4">Quién más lo usa</h3>
+                            {stats.topUsers.length === 0 && (
+                                <p className="text-xs text-zinc-400 dark:text-zinc-500">Sin reservas en este periodo</p>
+                            )}
+                            <div className="space-y-2">
+                                {stats.topUsers.map(user => (
+                                    <div key={user.userId} className="flex items-center gap-2">
+                                        <UserAvatar name={user.userName} size="sm" className="w-5 h-5 text-[10px]" />
+                                        <span className="flex-1 text-xs text-zinc-900 dark:text-white truncate">{user.userName}</span>
+                                        <span className="text-[10px] text-zinc-500 dark:text-zinc-400 whitespace-nowrap">
+                                            {user.bookings} · {Math.round(user.hours)} h
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {stats.topGuests.length > 0 && (
+                                <>
+                                    <h4 className="text-xs font-semibold text-zinc-900 dark:text-white mt-6 mb-2">Invitados frecuentes</h4>
+                                    <div className="space-y-1.5">
+                                        {stats.topGuests.map(guest => (
+                                            <div key={guest.name} className="flex items-center justify-between text-xs">
+                                                <span className="text-zinc-700 dark:text-zinc-300 truncate">{guest.name}</span>
+                                                <span className="text-[10px] text-zinc-500 dark:text-zinc-400">{guest.bookings}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </section>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
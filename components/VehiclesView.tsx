@@ -7,16 +7,23 @@ import { hasAdminAccess } from '../utils/permissions';
 
 // I will do two replacements in one go if I can? replace_file_content only does one contiguous block.
 // I will start with the Import.
-import { User, Car, Reservation } from '../types';
+import { User, Car, Reservation, WaitlistEntry } from '../types';
 import { carService } from '../services/cars';
 import { reservationService } from '../services/reservations';
+import { waitlistService } from '../services/waitlist';
+import { ConfirmModal } from './ConfirmModal';
 import { AddCarModal } from './AddCarModal';
+import { CarFinderModal } from './CarFinderModal';
+import { GuestDriversModal } from './GuestDriversModal';
+import { VehicleAnalytics } from './VehicleAnalytics';
 import { CarCard } from './CarCard';
 import { CarDetail } from './CarDetail';
 import { CarListView } from './CarListView';
 import { CarTimelineView } from './CarTimelineView';
 import { AnimatePresence } from 'framer-motion';
-import { Plus, LayoutGrid, List, CalendarRange } from 'lucide-react';
+import { Plus, LayoutGrid, List, CalendarRange, BellRing, X, Search, BarChart3, Users } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
 
 interface VehiclesViewProps {
     user: User;
@@ -30,6 +37,11 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [isFinderOpen, setIsFinderOpen] = useState(false);
+    const [isGuestsOpen, setIsGuestsOpen] = useState(false);
+    const [showAnalytics, setShowAnalytics] = useState(false);
+    const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+    const [waitlistOffer, setWaitlistOffer] = useState<WaitlistEntry | null>(null);
     const [viewMode, setViewMode] = useState<'GRID' | 'LIST' | 'TIMELINE'>(() => {
         const saved = localStorage.getItem('jaracar_view_mode');
         return (saved as 'GRID' | 'LIST' | 'TIMELINE') || 'GRID';
@@ -88,12 +100,82 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
         }
     };
 
+    const fetchWaitlist = async () => {
+        try {
+            setWaitlist(await waitlistService.getMyEntries());
+        } catch (e) {
+            console.warn('Waitlist not available:', e);
+        }
+    };
+
     useEffect(() => {
         fetchData();
+        fetchWaitlist();
         const interval = setInterval(fetchData, 60000); // Auto refresh every minute
         return () => clearInterval(interval);
     }, []);
 
+    // Opened from a "slot freed" push notification: ?tab=cars&waitlist=<id>
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const waitlistId = params.get('waitlist');
+        if (!waitlistId) return;
+
+        params.delete('waitlist');
+        const query = params.toString();
+        window.history.replaceState({}, '', window.location.pathname + (query ? `?${query}` : ''));
+
+        waitlistService.getEntry(waitlistId)
+            .then(entry => {
+                if (entry && entry.status === 'NOTIFIED' && entry.offeredCarId) setWaitlistOffer(entry);
+            })
+            .catch(e => console.error('Error loading waitlist entry:', e));
+    }, []);
+
+    const handleAcceptWaitlistOffer = async () => {
+        if (!waitlistOffer?.offeredCarId) return;
+        try {
+            await reservationService.createReservation({
+                carId: waitlistOffer.offeredCarId,
+                userId: user.id,
+                startTime: waitlistOffer.startTime,
+                endTime: waitlistOffer.endTime,
+                notes: ''
+            });
+            await waitlistService.markBooked(waitlistOffer.id);
+        } catch (e) {
+            setError('No se pudo completar la reserva: ' + (e as Error).message);
+            // Don't hold the slot: back to the queue, and the next resident gets the offer
+            await waitlistService.release(waitlistOffer.id).catch(err => console.error('Error releasing waitlist offer:', err));
+            await waitlistService.pushOffers();
+        } finally {
+            setWaitlistOffer(null);
+            fetchData();
+            fetchWaitlist();
+        }
+    };
+
+    // Also declines a pending offer, which the database passes on to the next entry
+    const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+        try {
+            await waitlistService.cancel(entry.id);
+            setWaitlist(prev => prev.filter(e => e.id !== entry.id));
+            if (entry.status === 'NOTIFIED') await waitlistService.pushOffers();
+        } catch (e) {
+            console.error('Error leaving waitlist:', e);
+        }
+    };
+
+    const handleDeclineWaitlistOffer = async () => {
+        if (!waitlistOffer) return;
+        const entry = waitlistOffer;
+        setWaitlistOffer(null);
+        await handleLeaveWaitlist(entry);
+    };
+
+    const formatWaitlistSlot = (entry: WaitlistEntry) =>
+        `${format(parseISO(entry.startTime), "EEE d MMM, HH:mm", { locale: es })} - ${format(parseISO(entry.endTime), 'HH:mm', { locale: es })}`;
+
     const handleAddCar = async () => {
         setIsAddModalOpen(true);
     }
@@ -124,6 +206,16 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
         return 0;
     });
 
+    if (showAnalytics && hasAdminAccess(user, 'vehicles')) {
+        return (
+            <VehicleAnalytics
+                cars={cars}
+                reservations={reservations}
+                onClose={() => setShowAnalytics(false)}
+            />
+        );
+    }
+
     return (
         <div className="space-y-6">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -133,6 +225,23 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
                 </div>
 
                 <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setIsFinderOpen(true)}
+                        className="h-9 px-3 flex items-center gap-2 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white border border-zinc-200 dark:border-zinc-800 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm font-medium"
+                        title="Buscar un coche libre"
+                    >
+                        <Search size={16} />
+                        <span>Buscar libre</span>
+                    </button>
+
+                    <button
+                        onClick={() => setIsGuestsOpen(true)}
+                        className="h-9 w-9 flex items-center justify-center bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white border border-zinc-200 dark:border-zinc-800 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+                        title="Conductores invitados"
+                    >
+                        <Users size={16} />
+                    </button>
+
                     {/* View Switcher */}
                     <div className="flex bg-zinc-100 dark:bg-zinc-900 p-1 rounded-lg border border-zinc-200 dark:border-zinc-800" data-tutorial="view-switcher">
                         <button
@@ -168,6 +277,14 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
                         <>
                             <div className="h-6 w-px bg-zinc-200 dark:bg-zinc-800 mx-1" />
 
+                            <button
+                                onClick={() => setShowAnalytics(true)}
+                                className="h-9 w-9 flex items-center justify-center bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white border border-zinc-200 dark:border-zinc-800 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+                                title="Uso de la flota"
+                            >
+                                <BarChart3 size={16} />
+                            </button>
+
                             <button
                                 onClick={handleAddCar}
                                 className="group h-9 px-4 flex items-center gap-2 bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm font-medium"
@@ -194,6 +311,41 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
                 </div>
             )}
 
+            {/* Waitlist */}
+            {waitlist.length > 0 && (
+                <div className="space-y-2">
+                    {waitlist.map(entry => {
+                        const carName = cars.find(c => c.id === (entry.offeredCarId || entry.carId))?.name;
+                        return (
+                            <div key={entry.id} className="flex items-center gap-3 px-4 py-2.5 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 rounded-lg">
+                                <BellRing size={16} className="text-amber-600 dark:text-amber-400 shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-zinc-900 dark:text-white truncate">
+                                        {entry.status === 'NOTIFIED' ? `¡${carName || 'Un coche'} está libre!` : `En lista de espera: ${entry.carId ? carName || 'Coche' : 'Cualquier coche'}`}
+                                    </p>
+                                    <p className="text-xs text-zinc-500 dark:text-zinc-400">{formatWaitlistSlot(entry)}</p>
+                                </div>
+                                {entry.status === 'NOTIFIED' && (
+                                    <button
+                                        onClick={() => setWaitlistOffer(entry)}
+                                        className="px-3 py-1.5 text-xs font-medium bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+                                    >
+                                        Reservar
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleLeaveWaitlist(entry)}
+                                    className="p-1 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+                                    title="Salir de la lista de espera"
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
             {loading ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                     {[1, 2, 3, 4].map(i => (
@@ -244,7 +396,6 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
                     <CarDetail
                         car={selectedCar}
                         reservations={reservations.filter(r => r.carId === selectedCar.id)}
-                        activity={[]}
                         currentUser={user}
                         onClose={() => setSelectedCar(null)}
                         onUpdate={fetchData}
@@ -252,6 +403,35 @@ export const VehiclesView: React.FC<VehiclesViewProps> = ({ user }) => {
                 )}
             </AnimatePresence>
 
+            <ConfirmModal
+                isOpen={!!waitlistOffer}
+                onClose={() => setWaitlistOffer(null)}
+                onConfirm={handleAcceptWaitlistOffer}
+                onCancel={handleDeclineWaitlistOffer}
+                title="Se ha liberado un coche"
+                message={waitlistOffer
+                    ? `${cars.find(c => c.id === waitlistOffer.offeredCarId)?.name || 'El coche'} está libre ${formatWaitlistSlot(waitlistOffer)}. ¿Quieres reservarlo?`
+                    : ''}
+                confirmText="Reservar"
+                cancelText="Ahora no"
+            />
+
+            <CarFinderModal
+                isOpen={isFinderOpen}
+                onClose={() => setIsFinderOpen(false)}
+                user={user}
+                cars={cars}
+                reservations={reservations}
+                favorites={favorites}
+                onBooked={fetchData}
+            />
+
+            <GuestDriversModal
+                isOpen={isGuestsOpen}
+                onClose={() => setIsGuestsOpen(false)}
+                user={user}
+            />
+
             <AddCarModal
                 isOpen={isAddModalOpen}
                 onClose={() => setIsAddModalOpen(false)}
@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { MealTemplate } from '../types';
+import { MealTemplate, MealTemplateSet, MealTemplateRotation } from '../types';
 import { mealService } from '../services/meals';
-import { Save, Loader2, X, Copy } from 'lucide-react';
+import { Save, Loader2, X, Copy, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { MealOptionBadge } from './MealOptionBadge';
+import { useMealOptions } from '../hooks/useMealOptions';
+import { optionTextColor } from '../utils/mealOptions';
+import { MealType } from '../utils/mealForecast';
+import { getActiveTemplateSet } from '../utils/mealTemplates';
 
 interface WeeklyTemplateEditorProps {
     userId: string;
@@ -26,22 +32,26 @@ const MEALS = [
     { id: 'dinner', name: 'Cena', short: 'Ce' }
 ];
 
-// Option configurations with colors
-const OPTION_CONFIG: Record<string, { label: string; color: string; textColor: string }> = {
-    skip: { label: 'NO', color: 'bg-rose-500', textColor: 'text-white' },
-    standard: { label: 'SÍ', color: 'bg-emerald-500', textColor: 'text-white' },
-    early: { label: '1T', color: 'bg-yellow-400', textColor: 'text-zinc-900' },
-    late: { label: '2T', color: 'bg-emerald-700', textColor: 'text-white' },
-    tupper: { label: 'TP', color: 'bg-amber-800', textColor: 'text-white' },
-    bag: { label: 'B', color: 'bg-blue-600', textColor: 'text-white' },
-};
+const ROTATIONS: { id: MealTemplateRotation; name: string }[] = [
+    { id: 'all', name: 'Todas las semanas' },
+    { id: 'odd', name: 'Semanas impares' },
+    { id: 'even', name: 'Semanas pares' }
+];
 
 export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ userId, onUnsavedChanges, onSave }) => {
+    const { getOption, getOptionsForMeal } = useMealOptions();
     const [templates, setTemplates] = useState<MealTemplate[]>([]);
     const [originalTemplates, setOriginalTemplates] = useState<MealTemplate[]>([]); // Track original state
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
 
+    // Named templates (Habitual, Exámenes, Verano...) and the one being edited
+    const [sets, setSets] = useState<MealTemplateSet[]>([]);
+    const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
+    const selectedSet = sets.find(s => s.id === selectedSetId);
+    const activeToday = getActiveTemplateSet(sets, userId, format(new Date(), 'yyyy-MM-dd'));
+    const selectedTemplates = templates.filter(t => t.templateId === selectedSetId);
+
     // Edit modal state
     const [editingMeal, setEditingMeal] = useState<{
         dayId: number;
@@ -79,16 +89,22 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
         onUnsavedChanges?.(hasUnsavedChanges);
     }, [hasUnsavedChanges, onUnsavedChanges]);
 
+    const selectDefaultSet = (list: MealTemplateSet[]) => {
+        setSelectedSetId(prev => prev && list.some(s => s.id === prev) ? prev : list.find(s => s.isDefault)?.id || list[0]?.id || null);
+    };
+
     const loadTemplates = async () => {
-        const cacheKey = `weekly-templates-${userId}`;
+        const cacheKey = `weekly-templates-v2-${userId}`;
 
         // Try to load from cache first
         const cached = localStorage.getItem(cacheKey);
         if (cached) {
             try {
                 const cachedData = JSON.parse(cached);
-                setTemplates(cachedData);
-                setOriginalTemplates(cachedData);
+                setTemplates(cachedData.templates);
+                setOriginalTemplates(cachedData.templates);
+                setSets(cachedData.sets);
+                selectDefaultSet(cachedData.sets);
                 setLoading(false); // Show cached data immediately
             } catch (e) {
                 console.error('Cache parse error:', e);
@@ -97,12 +113,17 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
 
         // Fetch fresh data in background
         try {
-            const data = await mealService.getMyTemplates();
+            const [setsData, data] = await Promise.all([
+                mealService.getMyTemplateSets(),
+                mealService.getMyTemplates()
+            ]);
+            setSets(setsData);
+            selectDefaultSet(setsData);
             setTemplates(data);
             setOriginalTemplates(data);
 
             // Cache the fresh data
-            localStorage.setItem(cacheKey, JSON.stringify(data));
+            localStorage.setItem(cacheKey, JSON.stringify({ sets: setsData, templates: data }));
         } catch (error) {
             console.error('Error loading templates:', error);
         } finally {
@@ -111,7 +132,7 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
     };
 
     const handleCellClick = (dayId: number, mealType: string) => {
-        const current = templates.find(t => t.dayOfWeek === dayId && t.mealType === mealType);
+        const current = selectedTemplates.find(t => t.dayOfWeek === dayId && t.mealType === mealType);
         const currentOption = current?.option || 'skip';
 
         setEditingMeal({
@@ -122,25 +143,26 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
     };
 
     const handleOptionSelect = async (option: string) => {
-        if (!editingMeal) return;
+        if (!editingMeal || !selectedSetId) return;
 
         const { dayId, mealType } = editingMeal;
 
         // Update local state
         setTemplates(prev => {
-            const existingIndex = prev.findIndex(t => t.dayOfWeek === dayId && t.mealType === mealType);
+            const existingIndex = prev.findIndex(t => t.templateId === selectedSetId && t.dayOfWeek === dayId && t.mealType === mealType);
             const newTemplates = [...prev];
 
             if (existingIndex >= 0) {
-                newTemplates[existingIndex] = { ...newTemplates[existingIndex], option };
+                newTemplates[existingIndex] = { ...newTemplates[existingIndex], option, isBag: getOption(option).isBag };
             } else {
                 newTemplates.push({
                     id: 'temp-' + Date.now(),
                     userId,
+                    templateId: selectedSetId,
                     dayOfWeek: dayId,
                     mealType: mealType as any,
                     option,
-                    isBag: option === 'bag'
+                    isBag: getOption(option).isBag
                 });
             }
             return newTemplates;
@@ -155,7 +177,7 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
     };
 
     const confirmApplyToAll = (option: string) => {
-        if (!applyToAllMeal) return;
+        if (!applyToAllMeal || !selectedSetId) return;
 
         const { mealType } = applyToAllMeal;
 
@@ -164,18 +186,19 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
 
             // Update or create template for each day
             DAYS.forEach(day => {
-                const existingIndex = newTemplates.findIndex(t => t.dayOfWeek === day.id && t.mealType === mealType);
+                const existingIndex = newTemplates.findIndex(t => t.templateId === selectedSetId && t.dayOfWeek === day.id && t.mealType === mealType);
 
                 if (existingIndex >= 0) {
-                    newTemplates[existingIndex] = { ...newTemplates[existingIndex], option };
+                    newTemplates[existingIndex] = { ...newTemplates[existingIndex], option, isBag: getOption(option).isBag };
                 } else {
                     newTemplates.push({
                         id: 'temp-' + Date.now() + '-' + day.id,
                         userId,
+                        templateId: selectedSetId,
                         dayOfWeek: day.id,
                         mealType: mealType as any,
                         option,
-                        isBag: option === 'bag'
+                        isBag: getOption(option).isBag
                     });
                 }
             });
@@ -190,7 +213,7 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
         setSaving(true);
         try {
             const promises = templates.map(t =>
-                mealService.upsertTemplate(userId, t.dayOfWeek, t.mealType, t.option, t.isBag)
+                mealService.upsertTemplate(userId, t.templateId, t.dayOfWeek, t.mealType, t.option, t.isBag)
             );
             await Promise.all(promises);
             const freshData = await mealService.getMyTemplates();
@@ -203,6 +226,50 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
         }
     }, [templates, userId]);
 
+    // New templates start as a copy of the one on screen; the copied week is saved with the rest
+    const handleCreateSet = async () => {
+        try {
+            const created = await mealService.upsertTemplateSet({ name: `Plantilla ${sets.length + 1}`, weekRotation: 'all' });
+            setSets(prev => [...prev, created]);
+            setTemplates(prev => [
+                ...prev,
+                ...selectedTemplates.map(t => ({ ...t, id: `temp-${created.id}-${t.dayOfWeek}-${t.mealType}`, templateId: created.id }))
+            ]);
+            setSelectedSetId(created.id);
+        } catch (error) {
+            console.error('Error creating template set:', error);
+        }
+    };
+
+    const handleUpdateSet = async (updates: Partial<MealTemplateSet>) => {
+        if (!selectedSet) return;
+
+        const next = { ...selectedSet, ...updates };
+        setSets(prev => prev.map(s => s.id === next.id ? next : s));
+        try {
+            await mealService.upsertTemplateSet(next);
+        } catch (error) {
+            console.error('Error updating template set:', error);
+            alert('No se pudo guardar la plantilla. Revisa las fechas.');
+        }
+    };
+
+    const handleDeleteSet = async () => {
+        if (!selectedSet || selectedSet.isDefault) return;
+        if (!confirm(`¿Eliminar la plantilla "${selectedSet.name}"?`)) return;
+
+        try {
+            await mealService.deleteTemplateSet(selectedSet.id);
+            const remaining = sets.filter(s => s.id !== selectedSet.id);
+            setSets(remaining);
+            setTemplates(prev => prev.filter(t => t.templateId !== selectedSet.id));
+            setOriginalTemplates(prev => prev.filter(t => t.templateId !== selectedSet.id));
+            setSelectedSetId(remaining.find(s => s.isDefault)?.id || null);
+        } catch (error) {
+            console.error('Error deleting template set:', error);
+        }
+    };
+
     // Pass save handler to parent when it changes
     useEffect(() => {
         if (onSave) {
@@ -210,16 +277,6 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
         }
     }, [handleSave, onSave]);
 
-    const getAvailableOptions = (mealType: string) => {
-        if (mealType === 'breakfast') {
-            return ['standard', 'early', 'skip'];
-        } else if (mealType === 'lunch') {
-            return ['standard', 'early', 'late', 'tupper', 'bag', 'skip'];
-        } else {
-            return ['standard', 'late', 'skip'];
-        }
-    };
-
     if (loading) return <div className="p-8 text-center text-zinc-500">Cargando plantilla...</div>;
 
     return (
@@ -236,6 +293,90 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
                 </button>
             </div>
 
+            {/* Template Sets */}
+            <div className="space-y-3">
+                <div className="flex items-center gap-2 overflow-x-auto pb-1">
+                    {sets.map(set => (
+                        <button
+                            key={set.id}
+                            onClick={() => setSelectedSetId(set.id)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium whitespace-nowrap transition-colors ${set.id === selectedSetId
+                                ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                                : 'bg-white dark:bg-zinc-900 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-800 hover:text-zinc-900 dark:hover:text-white'
+                                }`}
+                        >
+                            {set.id === activeToday?.id && (
+                                <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" title="En uso hoy" />
+                            )}
+                            {set.name}
+                        </button>
+                    ))}
+                    <button
+                        onClick={handleCreateSet}
+                        className="p-1.5 rounded-lg text-zinc-500 border border-dashed border-zinc-300 dark:border-zinc-700 hover:text-zinc-900 dark:hover:text-white transition-colors"
+                        title="Nueva plantilla"
+                    >
+                        <Plus size={16} />
+                    </button>
+                </div>
+
+                {selectedSet && !selectedSet.isDefault && (
+                    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-4 grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+                        <label className="col-span-2 sm:col-span-1 text-xs font-medium text-zinc-500 space-y-1">
+                            <span>Nombre</span>
+                            <input
+                                type="text"
+                                defaultValue={selectedSet.name}
+                                key={selectedSet.id}
+                                onBlur={e => e.target.value.trim() && e.target.value !== selectedSet.name && handleUpdateSet({ name: e.target.value.trim() })}
+                                className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                        <label className="text-xs font-medium text-zinc-500 space-y-1">
+                            <span>Desde</span>
+                            <input
+                                type="date"
+                                value={selectedSet.validFrom || ''}
+                                onChange={e => handleUpdateSet({ validFrom: e.target.value || undefined })}
+                                className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                        <label className="text-xs font-medium text-zinc-500 space-y-1">
+                            <span>Hasta</span>
+                            <input
+                                type="date"
+                                value={selectedSet.validTo || ''}
+                                min={selectedSet.validFrom}
+                                onChange={e => handleUpdateSet({ validTo: e.target.value || undefined })}
+                                className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                        <div className="col-span-2 sm:col-span-1 flex items-end gap-2">
+                            <label className="flex-1 text-xs font-medium text-zinc-500 space-y-1">
+                                <span>Semanas</span>
+                                <select
+                                    value={selectedSet.weekRotation}
+                                    onChange={e => handleUpdateSet({ weekRotation: e.target.value as MealTemplateRotation })}
+                                    className="w-full p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white text-sm"
+                                >
+                                    {ROTATIONS.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                                </select>
+                            </label>
+                            <button
+                                onClick={handleDeleteSet}
+                                className="p-2 rounded-lg text-zinc-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors"
+                                title="Eliminar plantilla"
+                            >
+                                <Trash2 size={18} />
+                            </button>
+                        </div>
+                        <p className="col-span-2 sm:col-span-4 text-xs text-zinc-500">
+                            Sin fechas ni semanas, esta plantilla sustituye siempre a la habitual. Fuera de su periodo se usa la habitual.
+                        </p>
+                    </div>
+                )}
+            </div>
+
             {/* Matrix Table */}
             <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden shadow-sm">
                 <div className="overflow-x-auto">
@@ -274,22 +415,22 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
                                         </div>
                                     </td>
                                     {MEALS.map(meal => {
-                                        const current = templates.find(t => t.dayOfWeek === day.id && t.mealType === meal.id);
+                                        const current = selectedTemplates.find(t => t.dayOfWeek === day.id && t.mealType === meal.id);
                                         const option = current?.option || 'skip';
-                                        const config = OPTION_CONFIG[option];
+                                        const config = getOption(option);
 
                                         return (
                                             <td key={meal.id} className="p-1 sm:p-4">
                                                 <button
                                                     onClick={() => handleCellClick(day.id, meal.id)}
+                                                    style={{ backgroundColor: config.color, color: optionTextColor(config.color) }}
                                                     className={`
                                                         w-full px-1.5 sm:px-4 py-2.5 rounded-xl font-bold sm:font-semibold text-[13px] sm:text-sm
-                                                        ${config.color} ${config.textColor}
                                                         hover:scale-105 cursor-pointer shadow-sm hover:shadow-md
                                                         transition-all duration-200
                                                     `}
                                                 >
-                                                    {config.label}
+                                                    {config.shortLabel}
                                                 </button>
                                             </td>
                                         );
@@ -329,8 +470,8 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
 
                         {/* Options */}
                         <div className="p-6 space-y-2">
-                            {getAvailableOptions(editingMeal.mealType).map(opt => {
-                                const config = OPTION_CONFIG[opt];
+                            {getOptionsForMeal(editingMeal.mealType as MealType).map(config => {
+                                const opt = config.id;
                                 const isSelected = editingMeal.currentOption === opt;
 
                                 return (
@@ -350,11 +491,9 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
                                             ? 'border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white'
                                             : 'border-zinc-300 dark:border-zinc-600'
                                             }`} />
-                                        <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                            {config.label}
-                                        </div>
+                                        <MealOptionBadge option={config} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                         <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                            {opt === 'skip' ? 'No' : opt === 'standard' ? 'Normal' : opt === 'early' ? 'Temprano' : opt === 'late' ? 'Tarde' : opt === 'tupper' ? 'Tupper' : 'Bolsa'}
+                                            {config.label}
                                         </span>
                                     </button>
                                 );
@@ -388,8 +527,8 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
 
                         {/* Options */}
                         <div className="p-6 space-y-2">
-                            {getAvailableOptions(applyToAllMeal.mealType).map(opt => {
-                                const config = OPTION_CONFIG[opt];
+                            {getOptionsForMeal(applyToAllMeal.mealType as MealType).map(config => {
+                                const opt = config.id;
 
                                 return (
                                     <button
@@ -397,11 +536,9 @@ export const WeeklyTemplateEditor: React.FC<WeeklyTemplateEditorProps> = ({ user
                                         onClick={() => confirmApplyToAll(opt)}
                                         className="w-full flex items-center gap-3 p-4 rounded-xl border-2 border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600 transition-all cursor-pointer"
                                     >
-                                        <div className={`px-3 py-1 rounded-lg ${config.color} ${config.textColor} font-semibold text-sm min-w-[48px] text-center`}>
-                                            {config.label}
-                                        </div>
+                                        <MealOptionBadge option={config} className="px-3 py-1 rounded-lg font-semibold text-sm min-w-[48px]" />
                                         <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                            {opt === 'skip' ? 'No' : opt === 'standard' ? 'Normal' : opt === 'early' ? 'Temprano' : opt === 'late' ? 'Tarde' : opt === 'tupper' ? 'Tupper' : 'Bolsa'}
+                                            {config.label}
                                         </span>
                                     </button>
                                 );
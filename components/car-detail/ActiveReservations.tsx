@@ -1,12 +1,16 @@
 import React from 'react';
-import { format, parseISO, isAfter } from 'date-fns';
+import { format, parseISO, isAfter, addMinutes, subMinutes } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { CheckCircle, X, Pencil } from 'lucide-react';
+import { CheckCircle, X, Pencil, Repeat, KeyRound } from 'lucide-react';
 import { Reservation, User } from '../../types';
 import { UserAvatar } from '../UserAvatar';
 import { NoteEditor } from './NoteEditor';
 import { reservationService } from '../../services/reservations';
 
+// Must match the reservation-lifecycle edge function
+const PICKUP_OPENS_MINUTES = 15;
+const NO_SHOW_GRACE_MINUTES = 30;
+
 interface ActiveReservationsProps {
     reservations: Reservation[];
     currentUser: User;
@@ -39,6 +43,16 @@ export const ActiveReservations: React.FC<ActiveReservationsProps> = ({
         }
     };
 
+    const handlePickUp = async (reservationId: string) => {
+        try {
+            await reservationService.pickUpReservation(reservationId);
+            onShowToast('Recogida registrada. ¡Buen viaje!', 'success');
+            onUpdate();
+        } catch (e) {
+            onShowToast('Error al registrar la recogida: ' + (e as Error).message, 'error');
+        }
+    };
+
     return (
         <section>
             <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-4">Reservas Activas</h3>
@@ -50,10 +64,20 @@ export const ActiveReservations: React.FC<ActiveReservationsProps> = ({
                                 <div className="flex items-center gap-2 mb-1">
                                     <UserAvatar name={res.userName} imageUrl={res.userAvatar} size="sm" className="w-5 h-5 text-[10px]" />
                                     <p className="text-xs font-medium text-zinc-900 dark:text-white">{res.userName}</p>
+                                    {res.seriesId && (
+                                        <span className="text-zinc-400 dark:text-zinc-500" title="Reserva periódica">
+                                            <Repeat size={11} />
+                                        </span>
+                                    )}
                                 </div>
                                 <p className="text-[10px] text-zinc-500 dark:text-zinc-400 mt-0.5 ml-7">
                                     {format(parseISO(res.startTime), 'd MMM, HH:mm', { locale: es })} → {format(parseISO(res.endTime), 'HH:mm', { locale: es })}
                                 </p>
+                                {res.status === 'ACTIVE' && !res.pickedUpAt && isAfter(now, parseISO(res.startTime)) && (
+                                    <p className="text-[10px] text-amber-600 dark:text-amber-400 mt-0.5 ml-7">
+                                        Sin recoger · se liberará a las {format(addMinutes(parseISO(res.startTime), NO_SHOW_GRACE_MINUTES), 'HH:mm')}
+                                    </p>
+                                )}
 
                                 {/* Note Editor */}
                                 <div className="mt-2 ml-7">
@@ -67,6 +91,26 @@ export const ActiveReservations: React.FC<ActiveReservationsProps> = ({
                             </div>
 
                             {/* Actions */}
+                            {res.status === 'ACTIVE' && res.userId === currentUser.id && !res.pickedUpAt && isAfter(now, subMinutes(parseISO(res.startTime), PICKUP_OPENS_MINUTES)) && (
+                                // The booker confirms they have the car, otherwise it's released as a no-show
+                                <button
+                                    onClick={() => handlePickUp(res.id)}
+                                    className="ml-2 text-[10px] text-emerald-600 dark:text-emerald-400 hover:text-emerald-700 dark:hover:text-emerald-300 px-2 py-1 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded transition-colors flex items-center gap-1"
+                                    title="Confirmar que has recogido el coche"
+                                >
+                                    <KeyRound size={12} /> Recoger
+                                </button>
+                            )}
+                            {currentUser.role !== 'ADMIN' && res.status === 'ACTIVE' && res.userId === currentUser.id && res.pickedUpAt && isAfter(now, parseISO(res.startTime)) && (
+                                // Ongoing reservation of the current user: return the car
+                                <button
+                                    onClick={() => onFinishReservation(res.id)}
+                                    className="ml-2 text-[10px] text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 px-2 py-1 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors flex items-center gap-1"
+                                    title="Registrar devolución"
+                                >
+                                    <CheckCircle size={12} /> Devolver
+                                </button>
+                            )}
                             {currentUser.role === 'ADMIN' && res.status === 'ACTIVE' && (
                                 <div className="flex items-center gap-2 ml-2">
                                     {isAfter(now, parseISO(res.startTime)) ? (
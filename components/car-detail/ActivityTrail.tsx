@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CalendarPlus, XCircle, MessageSquare, CheckCircle, Pencil, KeyRound, UserX, Clock } from 'lucide-react';
+import { ActivityLog } from '../../types';
+import { UserAvatar } from '../UserAvatar';
+import { reservationService } from '../../services/reservations';
+
+interface ActivityTrailProps {
+    carId: string;
+    startDate?: string;
+    endDate?: string;
+}
+
+const ACTION_CONFIG: Record<ActivityLog['action'], { label: string; icon: React.ElementType; color: string }> = {
+    RESERVE: { label: 'Reserva', icon: CalendarPlus, color: 'text-blue-500' },
+    EDIT: { label: 'Cambio de horario', icon: Pencil, color: 'text-zinc-500' },
+    CANCEL: { label: 'Cancelación', icon: XCircle, color: 'text-red-500' },
+    RETURN: { label: 'Devolución', icon: CheckCircle, color: 'text-emerald-500' },
+    COMMENT: { label: 'Nota', icon: MessageSquare, color: 'text-amber-500' },
+    PICKUP: { label: 'Recogida', icon: KeyRound, color: 'text-emerald-500' },
+    NO_SHOW: { label: 'No presentado', icon: UserX, color: 'text-red-500' },
+    OVERDUE: { label: 'Devolución atrasada', icon: Clock, color: 'text-amber-500' },
+};
+
+export const ActivityTrail: React.FC<ActivityTrailProps> = ({ carId, startDate, endDate }) => {
+    const [items, setItems] = useState<ActivityLog[]>([]);
+    const [page, setPage] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(true);
+
+    const loadPage = async (pageToLoad: number) => {
+        setLoading(true);
+        try {
+            const result = await reservationService.getActivity(carId, pageToLoad, { startDate, endDate });
+            setItems(prev => pageToLoad === 0 ? result.items : [...prev, ...result.items]);
+            setHasMore(result.hasMore);
+            setPage(pageToLoad);
+        } catch (error) {
+            console.error('Error fetching vehicle activity:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadPage(0);
+    }, [carId, startDate, endDate]);
+
+    if (!loading && items.length === 0) {
+        return <p className="text-xs text-zinc-400 dark:text-zinc-500 pl-6 py-4 text-center">No hay actividad registrada</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-0 relative border-l border-zinc-100 dark:border-zinc-800 ml-2">
+                {items.map(entry => {
+                    const config = ACTION_CONFIG[entry.action];
+                    const Icon = config.icon;
+                    return (
+                        <div key={entry.id} className="relative pl-6 pb-5 last:pb-0">
+                            <div className="absolute -left-[7px] top-0.5 bg-white dark:bg-zinc-900">
+                                <Icon size={14} className={config.color} />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <UserAvatar name={entry.userName} imageUrl={entry.userAvatar} size="sm" className="w-5 h-5 text-[10px]" />
+                                <p className="text-xs font-medium text-zinc-900 dark:text-white">{entry.userName}</p>
+                                <span className="text-[10px] text-zinc-500 dark:text-zinc-400">{config.label}</span>
+                            </div>
+                            <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-0.5">
+                                {format(parseISO(entry.timestamp), 'd MMM yyyy, HH:mm', { locale: es })}
+                            </p>
+                            {entry.details && (
+                                <p className="text-xs text-zinc-600 dark:text-zinc-400 mt-1">{entry.details}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {loading && (
+                <div className="flex justify-center py-2">
+                    <div className="w-4 h-4 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-white rounded-full animate-spin" />
+                </div>
+            )}
+
+            {!loading && hasMore && (
+                <button
+                    onClick={() => loadPage(page + 1)}
+                    className="w-full py-2 text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors"
+                >
+                    Cargar más
+                </button>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { format, isBefore, addMinutes, setHours, setMinutes, addDays, parseISO, areIntervalsOverlapping } from 'date-fns';
+import { format, isBefore, addMinutes, setHours, setMinutes, addDays, addWeeks, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { Car, Reservation, User } from '../../types';
-import { reservationService } from '../../services/reservations';
+import { Repeat, AlertTriangle, CheckCircle, BellRing, UserPlus, IdCard } from 'lucide-react';
+import { Car, Reservation, User, RecurrenceRule, SeriesScope, GuestDriver } from '../../types';
+import { reservationService, ReservationConflictError } from '../../services/reservations';
+import { waitlistService } from '../../services/waitlist';
+import { guestDriverService, isLicenseExpired } from '../../services/guestDrivers';
+import { expandRecurrence, findConflict, isRecurrenceTruncated, MAX_OCCURRENCES } from '../../utils/recurrence';
 import { DateTimeSelector } from '../DateTimeSelector';
 
+const WEEK_DAYS = [
+    { value: 1, label: 'L' },
+    { value: 2, label: 'M' },
+    { value: 3, label: 'X' },
+    { value: 4, label: 'J' },
+    { value: 5, label: 'V' },
+    { value: 6, label: 'S' },
+    { value: 7, label: 'D' },
+];
+
+export const SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+    { value: 'THIS', label: 'Solo esta' },
+    { value: 'FOLLOWING', label: 'Esta y siguientes' },
+    { value: 'ALL', label: 'Toda la serie' },
+];
+
 interface BookingFormProps {
     car: Car;
     currentUser: User;
@@ -38,23 +58,71 @@ export const BookingForm: React.FC<BookingFormProps> = ({
     // Guest Reservation State
     const [isForGuest, setIsForGuest] = useState(false);
     const [guestName, setGuestName] = useState('');
-    const [guestSuggestions, setGuestSuggestions] = useState<string[]>([]);
-    const [filteredSuggestions, setFilteredSuggestions] = useState<string[]>([]);
+    const [guests, setGuests] = useState<GuestDriver[]>([]);
+    const [selectedGuest, setSelectedGuest] = useState<GuestDriver | null>(null);
+    const [filteredSuggestions, setFilteredSuggestions] = useState<GuestDriver[]>([]);
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
     const guestInputRef = useRef<HTMLInputElement>(null);
 
-    // Load guest name suggestions on mount
+    // New guest registration (name comes from the search input)
+    const [showNewGuestForm, setShowNewGuestForm] = useState(false);
+    const [newGuestPhone, setNewGuestPhone] = useState('');
+    const [newGuestLicense, setNewGuestLicense] = useState('');
+    const [newGuestExpiry, setNewGuestExpiry] = useState('');
+    const [savingGuest, setSavingGuest] = useState(false);
+
+    // Recurrence State
+    const [isRecurring, setIsRecurring] = useState(false);
+    const [recurrenceFrequency, setRecurrenceFrequency] = useState<RecurrenceRule['frequency']>('weekly');
+    const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+    const [recurrenceEndMode, setRecurrenceEndMode] = useState<'UNTIL' | 'COUNT'>('UNTIL');
+    const [recurrenceUntil, setRecurrenceUntil] = useState(format(addWeeks(new Date(), 4), 'yyyy-MM-dd'));
+    const [recurrenceCount, setRecurrenceCount] = useState(8);
+    const [editScope, setEditScope] = useState<SeriesScope>('THIS');
+
+    // Slot that was taken when trying to book; offers joining the waitlist for it
+    const [waitlistSlot, setWaitlistSlot] = useState<{ start: Date; end: Date } | null>(null);
+    const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+
+    useEffect(() => {
+        setWaitlistSlot(null);
+    }, [startDate, endDate]);
+
+    const recurrenceRule = useMemo<RecurrenceRule>(() => ({
+        frequency: recurrenceFrequency,
+        daysOfWeek: recurrenceFrequency === 'custom' ? recurrenceDays : undefined,
+        until: recurrenceEndMode === 'UNTIL' ? recurrenceUntil : undefined,
+        count: recurrenceEndMode === 'COUNT' ? recurrenceCount : undefined
+    }), [recurrenceFrequency, recurrenceDays, recurrenceEndMode, recurrenceUntil, recurrenceCount]);
+
+    const isSeriesBooking = isRecurring && bookingMode === 'LATER' && !editingReservation;
+
+    // Preview of every occurrence and the booking it clashes with (if any)
+    const occurrencePreview = useMemo(() => {
+        if (!isSeriesBooking || !isBefore(startDate, endDate)) return [];
+        return expandRecurrence(startDate, endDate, recurrenceRule).map(occ => ({
+            ...occ,
+            conflict: findConflict(occ, reservations)
+        }));
+    }, [isSeriesBooking, startDate, endDate, recurrenceRule, reservations]);
+
+    const conflictingOccurrences = occurrencePreview.filter(o => o.conflict).length;
+    const isPreviewTruncated = useMemo(
+        () => isSeriesBooking && isBefore(startDate, endDate) && isRecurrenceTruncated(startDate, endDate, recurrenceRule),
+        [isSeriesBooking, startDate, endDate, recurrenceRule]
+    );
+
+    // Load the guest driver registry on mount
     useEffect(() => {
-        const loadSuggestions = async () => {
+        const loadGuests = async () => {
             try {
-                const suggestions = await reservationService.getGuestNameSuggestions();
-                setGuestSuggestions(suggestions);
+                setGuests(await guestDriverService.getGuests());
             } catch (error) {
-                console.error('Failed to load guest suggestions:', error);
+                console.error('Failed to load guest drivers:', error);
             }
         };
-        loadSuggestions();
+        loadGuests();
     }, []);
 
     // Sync with editingReservation
@@ -63,31 +131,69 @@ export const BookingForm: React.FC<BookingFormProps> = ({
             setBookingMode('LATER');
             setStartDate(parseISO(editingReservation.startTime));
             setEndDate(parseISO(editingReservation.endTime));
+            setIsRecurring(false);
+            setEditScope('THIS');
             // Scroll to form
             const formElement = document.getElementById('booking-form');
             if (formElement) formElement.scrollIntoView({ behavior: 'smooth' });
-        } else {
-            // Reset defaults if not editing (optional, or keep last state?)
-            // Let's reset to defaults when clearing edit to avoid confusion
-            // But only if we were editing before? 
-            // Actually, let's just leave it, or reset if needed.
         }
     }, [editingReservation]);
 
     // Filter suggestions based on input
     useEffect(() => {
-        if (guestName.trim().length > 0) {
-            const filtered = guestSuggestions.filter(name =>
-                name.toLowerCase().includes(guestName.toLowerCase())
+        if (guestName.trim().length > 0 && selectedGuest?.name !== guestName) {
+            const filtered = guests.filter(guest =>
+                guest.name.toLowerCase().includes(guestName.toLowerCase())
             );
             setFilteredSuggestions(filtered);
-            setShowSuggestions(filtered.length > 0);
+            setShowSuggestions(true);
         } else {
             setFilteredSuggestions([]);
             setShowSuggestions(false);
         }
         setSelectedSuggestionIndex(-1);
-    }, [guestName, guestSuggestions]);
+    }, [guestName, guests, selectedGuest]);
+
+    const guestNameTaken = guests.some(guest => guest.name.toLowerCase() === guestName.trim().toLowerCase());
+
+    // Licence must stay valid until the car is returned
+    const licenseWarning = useMemo(() => {
+        if (!isForGuest || !selectedGuest) return null;
+        if (!selectedGuest.licenseExpiry) return `No constan los datos del carnet de ${selectedGuest.name}`;
+        const expiry = format(parseISO(selectedGuest.licenseExpiry), 'd MMM yyyy', { locale: es });
+        if (isLicenseExpired(selectedGuest)) return `El carnet de ${selectedGuest.name} caducó el ${expiry}`;
+        if (isLicenseExpired(selectedGuest, endDate)) return `El carnet de ${selectedGuest.name} caduca el ${expiry}, antes de que acabe la reserva`;
+        return null;
+    }, [isForGuest, selectedGuest, endDate]);
+
+    const handleSelectGuest = (guest: GuestDriver) => {
+        setSelectedGuest(guest);
+        setGuestName(guest.name);
+        setShowSuggestions(false);
+        setShowNewGuestForm(false);
+    };
+
+    const handleCreateGuest = async () => {
+        if (!guestName.trim()) return;
+        setSavingGuest(true);
+        try {
+            const guest = await guestDriverService.createGuest({
+                name: guestName,
+                phone: newGuestPhone.trim() || undefined,
+                licenseNumber: newGuestLicense.trim() || undefined,
+                licenseExpiry: newGuestExpiry || undefined
+            });
+            setGuests(prev => [...prev, guest].sort((a, b) => a.name.localeCompare(b.name)));
+            handleSelectGuest(guest);
+            setNewGuestPhone('');
+            setNewGuestLicense('');
+            setNewGuestExpiry('');
+        } catch (e) {
+            onShowToast('Error al registrar al invitado: ' + (e as Error).message, 'error');
+        } finally {
+            setSavingGuest(false);
+        }
+    };
 
     const handleQuickDuration = (type: 'LUNCH' | 'DINNER' | 'CUSTOM') => {
         setSelectedDuration(type);
@@ -128,23 +234,75 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                 return;
             }
 
-            // Check for conflicts using robust interval check
-            const hasConflict = reservations.some(res => {
-                if (res.status === 'CANCELLED') return false; // Ignore cancelled
-                if (editingReservation && res.id === editingReservation.id) return false; // Ignore self when editing
+            if (isForGuest && !selectedGuest && !editingReservation) {
+                onShowToast('Elige un invitado del registro o añádelo como nuevo', 'error');
+                setLoading(false);
+                return;
+            }
+
+            if (isSeriesBooking) {
+                if (recurrenceFrequency === 'custom' && recurrenceDays.length === 0) {
+                    onShowToast('Selecciona al menos un día de la semana', 'error');
+                    setLoading(false);
+                    return;
+                }
 
-                // Parse dates safely
-                const resStart = parseISO(res.startTime);
-                const resEnd = parseISO(res.endTime);
+                const freeOccurrences = occurrencePreview.filter(o => !o.conflict);
+                if (freeOccurrences.length === 0) {
+                    onShowToast('Todas las fechas de la serie están ocupadas', 'error');
+                    setLoading(false);
+                    return;
+                }
 
-                return areIntervalsOverlapping(
-                    { start, end },
-                    { start: resStart, end: resEnd }
+                await reservationService.createReservationSeries({
+                    carId: car.id,
+                    userId: currentUser.id,
+                    notes: '',
+                    isForGuest,
+                    guestName: isForGuest ? selectedGuest?.name : undefined,
+                    guestDriverId: isForGuest ? selectedGuest?.id : undefined,
+                    recurrence: recurrenceRule
+                }, freeOccurrences);
+
+                onShowToast(
+                    conflictingOccurrences > 0
+                        ? `${freeOccurrences.length} reservas creadas, ${conflictingOccurrences} omitidas por conflicto`
+                        : `${freeOccurrences.length} reservas creadas`,
+                    conflictingOccurrences > 0 ? 'info' : 'success'
                 );
-            });
+                onUpdate();
+                onClose();
+                return;
+            }
+
+            // When editing several occurrences, each one moves by the same offset
+            const startOffset = editingReservation ? start.getTime() - parseISO(editingReservation.startTime).getTime() : 0;
+            const endOffset = editingReservation ? end.getTime() - parseISO(editingReservation.endTime).getTime() : 0;
+            const seriesMembers = editingReservation?.seriesId && editScope !== 'THIS'
+                ? reservations.filter(res =>
+                    res.seriesId === editingReservation.seriesId &&
+                    res.status === 'ACTIVE' &&
+                    isBefore(new Date(), parseISO(res.endTime)) &&
+                    (editScope === 'ALL' || !isBefore(parseISO(res.startTime), parseISO(editingReservation.startTime)))
+                )
+                : [];
+
+            const slotsToCheck = seriesMembers.length > 0
+                ? seriesMembers.map(res => ({
+                    start: new Date(parseISO(res.startTime).getTime() + startOffset),
+                    end: new Date(parseISO(res.endTime).getTime() + endOffset)
+                }))
+                : [{ start, end }];
+            const ignoreIds = seriesMembers.length > 0
+                ? seriesMembers.map(res => res.id)
+                : editingReservation ? [editingReservation.id] : [];
+
+            // Quick check against the loaded reservations; the database constraint is the real guard
+            const hasConflict = slotsToCheck.some(slot => !!findConflict(slot, reservations, ignoreIds));
 
             if (hasConflict) {
                 onShowToast('Ya existe una reserva en ese horario', 'error');
+                if (!editingReservation) setWaitlistSlot({ start, end });
                 setLoading(false);
                 return;
             }
@@ -153,7 +311,7 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                 await reservationService.updateReservation(editingReservation.id, {
                     startTime: start.toISOString(),
                     endTime: end.toISOString()
-                });
+                }, editScope);
                 onShowToast('Reserva actualizada', 'success');
                 onCancelEdit(); // Clear edit mode
             } else {
@@ -164,21 +322,42 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                     endTime: end.toISOString(),
                     notes: '',
                     isForGuest,
-                    guestName: isForGuest ? guestName : undefined
+                    guestName: isForGuest ? selectedGuest?.name : undefined,
+                    guestDriverId: isForGuest ? selectedGuest?.id : undefined
                 });
                 onShowToast('Reserva creada con éxito', 'success');
             }
 
             onUpdate();
-            if (!editingReservation) onClose();
-            else onClose(); // Also close on edit? Yes, usually.
+            onClose();
         } catch (e) {
-            onShowToast('Error al guardar reserva: ' + (e as Error).message, 'error');
+            if (e instanceof ReservationConflictError) {
+                // Someone else booked the slot after our list was loaded: refresh it
+                onShowToast(e.message, 'error');
+                if (!editingReservation && !isSeriesBooking) setWaitlistSlot({ start: new Date(startDate), end: new Date(endDate) });
+                onUpdate();
+            } else {
+                onShowToast('Error al guardar reserva: ' + (e as Error).message, 'error');
+            }
         } finally {
             setLoading(false);
         }
     };
 
+    const handleJoinWaitlist = async (anyCar: boolean) => {
+        if (!waitlistSlot) return;
+        setJoiningWaitlist(true);
+        try {
+            await waitlistService.join(anyCar ? null : car.id, waitlistSlot.start.toISOString(), waitlistSlot.end.toISOString());
+            onShowToast('Te avisaremos si se libera un coche en ese horario', 'success');
+            setWaitlistSlot(null);
+        } catch (e) {
+            onShowToast('Error al apuntarte a la lista de espera: ' + (e as Error).message, 'error');
+        } finally {
+            setJoiningWaitlist(false);
+        }
+    };
+
     return (
         <section id="booking-form">
             <div className="flex justify-between items-center mb-4">
@@ -297,6 +476,150 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                             onChange={setEndDate}
                             minDate={startDate}
                         />
+
+                        {/* Recurrence (new bookings only) */}
+                        {!editingReservation && (
+                            <div className="space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        id="isRecurring"
+                                        checked={isRecurring}
+                                        onChange={(e) => setIsRecurring(e.target.checked)}
+                                        className="w-4 h-4 rounded border-zinc-300 dark:border-zinc-600 text-zinc-900 dark:text-white focus:ring-zinc-900 dark:focus:ring-white bg-white dark:bg-zinc-700"
+                                    />
+                                    <label htmlFor="isRecurring" className="text-xs text-zinc-700 dark:text-zinc-300 cursor-pointer select-none flex items-center gap-1">
+                                        <Repeat size={12} /> Repetir reserva
+                                    </label>
+                                </div>
+
+                                <AnimatePresence>
+                                    {isRecurring && (
+                                        <motion.div
+                                            initial={{ height: 0, opacity: 0 }}
+                                            animate={{ height: 'auto', opacity: 1 }}
+                                            exit={{ height: 0, opacity: 0 }}
+                                            className="overflow-hidden space-y-3"
+                                        >
+                                            <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                                                {([['daily', 'Diaria'], ['weekly', 'Semanal'], ['custom', 'Días']] as const).map(([value, label]) => (
+                                                    <button
+                                                        key={value}
+                                                        onClick={() => setRecurrenceFrequency(value)}
+                                                        className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${recurrenceFrequency === value
+                                                            ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                                            : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                                                            }`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+
+                                            {recurrenceFrequency === 'custom' && (
+                                                <div className="flex justify-between gap-1">
+                                                    {WEEK_DAYS.map(day => (
+                                                        <button
+                                                            key={day.value}
+                                                            onClick={() => setRecurrenceDays(prev => prev.includes(day.value)
+                                                                ? prev.filter(d => d !== day.value)
+                                                                : [...prev, day.value].sort())}
+                                                            className={`w-8 h-8 rounded-full text-xs font-medium border transition-all ${recurrenceDays.includes(day.value)
+                                                                ? 'border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-black'
+                                                                : 'border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300'
+                                                                }`}
+                                                        >
+                                                            {day.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <select
+                                                    value={recurrenceEndMode}
+                                                    onChange={(e) => setRecurrenceEndMode(e.target.value as 'UNTIL' | 'COUNT')}
+                                                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg outline-none"
+                                                >
+                                                    <option value="UNTIL">Hasta el día</option>
+                                                    <option value="COUNT">Nº de veces</option>
+                                                </select>
+                                                {recurrenceEndMode === 'UNTIL' ? (
+                                                    <input
+                                                        type="date"
+                                                        value={recurrenceUntil}
+                                                        min={format(startDate, 'yyyy-MM-dd')}
+                                                        onChange={(e) => setRecurrenceUntil(e.target.value)}
+                                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg outline-none [color-scheme:light] dark:[color-scheme:dark]"
+                                                    />
+                                                ) : (
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={MAX_OCCURRENCES}
+                                                        value={recurrenceCount}
+                                                        onChange={(e) => setRecurrenceCount(Math.max(1, Math.min(MAX_OCCURRENCES, Number(e.target.value) || 1)))}
+                                                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg outline-none"
+                                                    />
+                                                )}
+                                            </div>
+
+                                            {/* Conflict Preview */}
+                                            {occurrencePreview.length > 0 && (
+                                                <div className="rounded-lg border border-zinc-100 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50 p-2">
+                                                    <p className="text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1.5">
+                                                        {occurrencePreview.length} fechas
+                                                        {conflictingOccurrences > 0 && ` · ${conflictingOccurrences} con conflicto (no se reservarán)`}
+                                                    </p>
+                                                    {isPreviewTruncated && (
+                                                        <p className="text-[10px] font-medium text-amber-600 dark:text-amber-400 mb-1.5">
+                                                            Una serie admite como máximo {MAX_OCCURRENCES} fechas: solo se reservarán hasta el {format(occurrencePreview[occurrencePreview.length - 1].start, "d MMM yyyy", { locale: es })}
+                                                        </p>
+                                                    )}
+                                                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                                                        {occurrencePreview.map(occ => (
+                                                            <div
+                                                                key={occ.start.toISOString()}
+                                                                className={`flex items-center gap-1.5 text-[11px] ${occ.conflict ? 'text-red-600 dark:text-red-400' : 'text-zinc-700 dark:text-zinc-300'}`}
+                                                            >
+                                                                {occ.conflict ? <AlertTriangle size={11} /> : <CheckCircle size={11} className="text-emerald-500" />}
+                                                                <span className={occ.conflict ? 'line-through' : ''}>
+                                                                    {format(occ.start, "EEE d MMM, HH:mm", { locale: es })} → {format(occ.end, 'HH:mm')}
+                                                                </span>
+                                                                {occ.conflict && (
+                                                                    <span className="ml-auto truncate">{occ.conflict.userName}</span>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </motion.div>
+                                    )}
+                                </AnimatePresence>
+                            </div>
+                        )}
+
+                        {/* Series scope when editing one occurrence of a recurring booking */}
+                        {editingReservation?.seriesId && (
+                            <div>
+                                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Aplicar cambios a</label>
+                                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                                    {SCOPE_OPTIONS.map(opt => (
+                                        <button
+                                            key={opt.value}
+                                            onClick={() => setEditScope(opt.value)}
+                                            className={`flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${editScope === opt.value
+                                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                                                }`}
+                                        >
+                                            {opt.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -308,7 +631,11 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                         checked={isForGuest}
                         onChange={(e) => {
                             setIsForGuest(e.target.checked);
-                            if (!e.target.checked) setGuestName('');
+                            if (!e.target.checked) {
+                                setGuestName('');
+                                setSelectedGuest(null);
+                                setShowNewGuestForm(false);
+                            }
                         }}
                         className="w-4 h-4 rounded border-zinc-300 dark:border-zinc-600 text-zinc-900 dark:text-white focus:ring-zinc-900 dark:focus:ring-white bg-white dark:bg-zinc-700"
                     />
@@ -335,21 +662,24 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                                         ref={guestInputRef}
                                         type="text"
                                         value={guestName}
-                                        onChange={(e) => setGuestName(e.target.value)}
+                                        onChange={(e) => {
+                                            setGuestName(e.target.value);
+                                            setSelectedGuest(null);
+                                        }}
                                         onFocus={() => {
-                                            if (guestName.trim().length > 0) setShowSuggestions(true);
+                                            if (guestName.trim().length > 0 && !selectedGuest) setShowSuggestions(true);
                                         }}
                                         onBlur={() => {
                                             // Delay hiding suggestions to allow clicking on them
                                             setTimeout(() => setShowSuggestions(false), 200);
                                         }}
                                         className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
-                                        placeholder="Nombre completo del invitado"
+                                        placeholder="Busca en el registro de invitados"
                                     />
 
                                     {/* Autocomplete Suggestions */}
                                     <AnimatePresence>
-                                        {showSuggestions && filteredSuggestions.length > 0 && (
+                                        {showSuggestions && (filteredSuggestions.length > 0 || !guestNameTaken) && (
                                             <motion.div
                                                 initial={{ opacity: 0, y: -10 }}
                                                 animate={{ opacity: 1, y: 0 }}
@@ -358,25 +688,132 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                                             >
                                                 {filteredSuggestions.map((suggestion, index) => (
                                                     <button
-                                                        key={index}
-                                                        className={`w-full text-left px-3 py-2 text-xs hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors ${index === selectedSuggestionIndex ? 'bg-zinc-100 dark:bg-zinc-700' : ''
+                                                        key={suggestion.id}
+                                                        className={`w-full text-left px-3 py-2 text-xs hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors flex items-center justify-between gap-2 ${index === selectedSuggestionIndex ? 'bg-zinc-100 dark:bg-zinc-700' : ''
                                                             }`}
+                                                        onClick={() => handleSelectGuest(suggestion)}
+                                                    >
+                                                        <span className="truncate">{suggestion.name}</span>
+                                                        {isLicenseExpired(suggestion) && (
+                                                            <span className="text-[10px] text-red-500 whitespace-nowrap">Carnet caducado</span>
+                                                        )}
+                                                    </button>
+                                                ))}
+                                                {!guestNameTaken && (
+                                                    <button
+                                                        className="w-full text-left px-3 py-2 text-xs text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors flex items-center gap-1.5 border-t border-zinc-100 dark:border-zinc-700"
                                                         onClick={() => {
-                                                            setGuestName(suggestion);
+                                                            setShowNewGuestForm(true);
                                                             setShowSuggestions(false);
                                                         }}
                                                     >
-                                                        {suggestion}
+                                                        <UserPlus size={12} /> Añadir «{guestName.trim()}» como invitado nuevo
                                                     </button>
-                                                ))}
+                                                )}
                                             </motion.div>
                                         )}
                                     </AnimatePresence>
                                 </div>
+
+                                {/* New guest registration */}
+                                {showNewGuestForm && !selectedGuest && (
+                                    <div className="mt-2 p-3 bg-zinc-50 dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 rounded-lg space-y-2">
+                                        <p className="text-[11px] font-medium text-zinc-700 dark:text-zinc-300">Nuevo invitado: {guestName.trim()}</p>
+                                        <div>
+                                            <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Teléfono</label>
+                                            <input
+                                                type="tel"
+                                                value={newGuestPhone}
+                                                onChange={(e) => setNewGuestPhone(e.target.value)}
+                                                className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                                            />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Nº de carnet</label>
+                                                <input
+                                                    type="text"
+                                                    value={newGuestLicense}
+                                                    onChange={(e) => setNewGuestLicense(e.target.value)}
+                                                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Caducidad</label>
+                                                <input
+                                                    type="date"
+                                                    value={newGuestExpiry}
+                                                    onChange={(e) => setNewGuestExpiry(e.target.value)}
+                                                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg [color-scheme:light] dark:[color-scheme:dark]"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => setShowNewGuestForm(false)}
+                                                className="flex-1 py-1.5 text-[11px] font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                                            >
+                                                Cancelar
+                                            </button>
+                                            <button
+                                                onClick={handleCreateGuest}
+                                                disabled={savingGuest || !guestName.trim()}
+                                                className="flex-1 py-1.5 text-[11px] font-medium bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                                            >
+                                                {savingGuest ? 'Guardando...' : 'Registrar invitado'}
+                                            </button>
+                                        </div>
+                                        <p className="text-[10px] text-zinc-400 dark:text-zinc-500">Quedarás como responsable de este invitado.</p>
+                                    </div>
+                                )}
+
+                                {selectedGuest && (
+                                    <p className="mt-1.5 text-[10px] text-zinc-500 dark:text-zinc-400 flex items-center gap-1">
+                                        <IdCard size={11} />
+                                        {selectedGuest.licenseNumber ? `Carnet ${selectedGuest.licenseNumber}` : 'Carnet sin registrar'}
+                                        {selectedGuest.vouchedByName && ` · Responde ${selectedGuest.vouchedByName}`}
+                                    </p>
+                                )}
+
+                                {licenseWarning && (
+                                    <div className="mt-2 p-2 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 rounded-lg">
+                                        <p className="text-[11px] text-amber-800 dark:text-amber-300 flex items-center gap-1.5">
+                                            <AlertTriangle size={12} className="shrink-0" />
+                                            {licenseWarning}
+                                        </p>
+                                    </div>
+                                )}
                             </div>
                         </motion.div>
                     )}
                 </AnimatePresence>
+
+                {/* Waitlist Offer */}
+                {waitlistSlot && (
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 rounded-lg space-y-2">
+                        <p className="text-xs text-amber-800 dark:text-amber-300 flex items-center gap-1.5">
+                            <BellRing size={12} />
+                            Ese horario está ocupado. ¿Quieres que te avisemos si se libera?
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => handleJoinWaitlist(false)}
+                                disabled={joiningWaitlist}
+                                className="flex-1 py-1.5 text-[11px] font-medium bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                            >
+                                Este coche
+                            </button>
+                            <button
+                                onClick={() => handleJoinWaitlist(true)}
+                                disabled={joiningWaitlist}
+                                className="flex-1 py-1.5 text-[11px] font-medium bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                            >
+                                Cualquier coche
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 <button
                     onClick={handleBook}
                     disabled={loading}
@@ -388,7 +825,7 @@ export const BookingForm: React.FC<BookingFormProps> = ({
                             {editingReservation ? 'Actualizando...' : 'Procesando...'}
                         </span>
                     ) : (
-                        editingReservation ? 'Actualizar Reserva' : 'Confirmar Reserva'
+                        editingReservation ? 'Actualizar Reserva' : isSeriesBooking ? 'Confirmar Serie' : 'Confirmar Reserva'
                     )}
                 </button>
             </div>
@@ -43,7 +43,9 @@ export const EditCarForm: React.FC<EditCarFormProps> = ({
         inWorkshop: car.inWorkshop,
         nextServiceDate: car.nextServiceDate || '',
         imageUrl: car.imageUrl,
-        assignedUserId: car.assignedUserId || ''
+        assignedUserId: car.assignedUserId || '',
+        odometerKm: car.odometerKm !== undefined ? String(car.odometerKm) : '',
+        seats: car.seats !== undefined ? String(car.seats) : ''
     });
 
     // Check if next service is within 1 week
@@ -83,7 +85,9 @@ export const EditCarForm: React.FC<EditCarFormProps> = ({
                 inWorkshop: editFormData.inWorkshop,
                 nextServiceDate: editFormData.nextServiceDate || undefined,
                 imageUrl: editFormData.imageUrl,
-                assignedUserId: editFormData.assignedUserId || undefined
+                assignedUserId: editFormData.assignedUserId || undefined,
+                odometerKm: editFormData.odometerKm !== '' ? Number(editFormData.odometerKm) : undefined,
+                seats: editFormData.seats !== '' ? Number(editFormData.seats) : undefined
             });
 
             onShowToast('Cambios guardados correctamente', 'success');
@@ -188,6 +192,31 @@ export const EditCarForm: React.FC<EditCarFormProps> = ({
                 )}
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Kilometraje</label>
+                    <input
+                        type="number"
+                        min={0}
+                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                        value={editFormData.odometerKm}
+                        onChange={e => setEditFormData({ ...editFormData, odometerKm: e.target.value })}
+                        placeholder="Se actualiza en cada devolución"
+                    />
+                </div>
+                <div>
+                    <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Plazas</label>
+                    <input
+                        type="number"
+                        min={1}
+                        className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                        value={editFormData.seats}
+                        onChange={e => setEditFormData({ ...editFormData, seats: e.target.value })}
+                        placeholder="5"
+                    />
+                </div>
+            </div>
+
             <div className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${editFormData.inWorkshop ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-200 dark:border-rose-800' : 'bg-zinc-50 dark:bg-zinc-800/50 border-zinc-200 dark:border-zinc-700'}`}>
                 <input
                     type="checkbox"
@@ -1,13 +1,15 @@
 import React from 'react';
 import { format, parseISO, isAfter } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { Reservation, User } from '../../types';
+import { Gauge, Fuel, Sparkles, AlertTriangle } from 'lucide-react';
+import { Reservation, ReservationReturn, User } from '../../types';
 import { UserAvatar } from '../UserAvatar';
 import { NoteEditor } from './NoteEditor';
 import { reservationService } from '../../services/reservations';
 
 interface HistoryListProps {
     reservations: Reservation[];
+    returns?: Record<string, ReservationReturn>; // Return check-ins keyed by reservation id
     currentUser: User;
     onUpdate: () => void;
     onShowToast: (message: string, type: 'success' | 'error' | 'info') => void;
@@ -17,6 +19,7 @@ interface HistoryListProps {
 
 export const HistoryList: React.FC<HistoryListProps> = ({
     reservations,
+    returns = {},
     currentUser,
     onUpdate,
     onShowToast,
@@ -64,6 +67,11 @@ export const HistoryList: React.FC<HistoryListProps> = ({
                                 {format(parseISO(res.startTime), compact ? 'd MMM HH:mm' : 'd MMM yyyy, HH:mm', { locale: es })} — {format(parseISO(res.endTime), 'HH:mm', { locale: es })}
                             </p>
 
+                            {/* Return Check-in */}
+                            {returns[res.id] && (
+                                <TripSummary checkIn={returns[res.id]} compact={compact} />
+                            )}
+
                             {/* Note Editor */}
                             <div className="mt-1">
                                 <NoteEditor
@@ -81,3 +89,39 @@ export const HistoryList: React.FC<HistoryListProps> = ({
         </div>
     );
 };
+
+const CLEANLINESS_LABELS: Record<ReservationReturn['cleanliness'], string> = {
+    clean: 'Limpio',
+    acceptable: 'Aceptable',
+    dirty: 'Sucio'
+};
+
+const TripSummary: React.FC<{ checkIn: ReservationReturn; compact: boolean }> = ({ checkIn, compact }) => {
+    const distance = checkIn.startOdometerKm !== undefined ? checkIn.endOdometerKm - checkIn.startOdometerKm : null;
+
+    return (
+        <div className="mt-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[10px] text-zinc-500 dark:text-zinc-400">
+                <span className="flex items-center gap-1 font-medium text-zinc-700 dark:text-zinc-300">
+                    <Gauge size={10} /> {distance !== null ? `${distance} km` : `${checkIn.endOdometerKm} km`}
+                </span>
+                <span className="flex items-center gap-1"><Fuel size={10} /> {checkIn.fuelLevel}%</span>
+                <span className="flex items-center gap-1"><Sparkles size={10} /> {CLEANLINESS_LABELS[checkIn.cleanliness]}</span>
+            </div>
+            {checkIn.damageNotes && (
+                <p className="text-[10px] text-amber-600 dark:text-amber-400 flex items-start gap-1">
+                    <AlertTriangle size={10} className="mt-0.5 shrink-0" /> {checkIn.damageNotes}
+                </p>
+            )}
+            {!compact && checkIn.photoUrls.length > 0 && (
+                <div className="flex gap-1.5 pt-1">
+                    {checkIn.photoUrls.map(url => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img src={url} alt="Foto de la devolución" className="w-12 h-12 object-cover rounded border border-zinc-100 dark:border-zinc-800" />
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,229 @@
+import React, { useState, useRef } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Camera, Gauge, Fuel, BatteryCharging, Sparkles, X, CheckCircle } from 'lucide-react';
+import { Car, Reservation, ReservationReturn } from '../../types';
+import { reservationService } from '../../services/reservations';
+import { carService } from '../../services/cars';
+
+interface ReturnCheckInFormProps {
+    car: Car;
+    reservation: Reservation;
+    onSubmitted: () => void;
+    onCancel: () => void;
+    onShowToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const CLEANLINESS_OPTIONS: { value: ReservationReturn['cleanliness']; label: string }[] = [
+    { value: 'clean', label: 'Limpio' },
+    { value: 'acceptable', label: 'Aceptable' },
+    { value: 'dirty', label: 'Sucio' },
+];
+
+export const ReturnCheckInForm: React.FC<ReturnCheckInFormProps> = ({
+    car,
+    reservation,
+    onSubmitted,
+    onCancel,
+    onShowToast
+}) => {
+    const [odometer, setOdometer] = useState<string>(car.odometerKm !== undefined ? String(car.odometerKm) : '');
+    const [fuelLevel, setFuelLevel] = useState<number>(car.fuelLevel ?? 100);
+    const [cleanliness, setCleanliness] = useState<ReservationReturn['cleanliness']>('clean');
+    const [damageNotes, setDamageNotes] = useState('');
+    const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const isElectric = car.fuelType === 'electric';
+    const odometerValue = Number(odometer);
+    const distance = odometer !== '' && car.odometerKm !== undefined ? odometerValue - car.odometerKm : null;
+
+    const handlePhotoUpload = async (files: FileList) => {
+        setUploading(true);
+        try {
+            const urls = await Promise.all(Array.from(files).map(file => carService.uploadImage(file)));
+            setPhotoUrls(prev => [...prev, ...urls]);
+        } catch (error) {
+            console.error(error);
+            onShowToast('Error al subir la foto: ' + (error as Error).message, 'error');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (odometer.trim() === '') {
+            onShowToast('Indica el kilometraje actual', 'error');
+            return;
+        }
+        if (!Number.isInteger(odometerValue) || odometerValue < 0) {
+            onShowToast('El kilometraje debe ser un número entero de km, sin decimales', 'error');
+            return;
+        }
+        if (car.odometerKm !== undefined && odometerValue < car.odometerKm) {
+            onShowToast(`El kilometraje no puede ser menor que ${car.odometerKm} km`, 'error');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await reservationService.finishReservation(reservation.id, {
+                endOdometerKm: odometerValue,
+                fuelLevel,
+                cleanliness,
+                damageNotes: damageNotes.trim() || undefined,
+                photoUrls
+            });
+            onShowToast('Devolución registrada', 'success');
+            onSubmitted();
+        } catch (e) {
+            onShowToast('Error al registrar la devolución: ' + (e as Error).message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="p-3 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-100 dark:border-zinc-800">
+                <p className="text-xs font-medium text-zinc-900 dark:text-white">{reservation.userName}</p>
+                <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                    {format(parseISO(reservation.startTime), 'd MMM, HH:mm', { locale: es })} → {format(parseISO(reservation.endTime), 'HH:mm', { locale: es })}
+                </p>
+            </div>
+
+            {/* Odometer */}
+            <div>
+                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1 flex items-center gap-1">
+                    <Gauge size={12} /> Kilometraje al devolver
+                </label>
+                <input
+                    type="number"
+                    inputMode="numeric"
+                    min={car.odometerKm ?? 0}
+                    step={1}
+                    value={odometer}
+                    onChange={e => setOdometer(e.target.value)}
+                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none"
+                    placeholder="Ej. 45210"
+                />
+                <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-1">
+                    {car.odometerKm !== undefined ? `Último registro: ${car.odometerKm} km` : 'Sin registros anteriores'}
+                    {distance !== null && distance >= 0 && ` · ${distance} km en este viaje`}
+                </p>
+            </div>
+
+            {/* Fuel / Charge */}
+            <div>
+                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1 flex items-center gap-1">
+                    {isElectric ? <BatteryCharging size={12} /> : <Fuel size={12} />}
+                    {isElectric ? 'Nivel de carga' : 'Nivel de combustible'}: {fuelLevel}%
+                </label>
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={isElectric ? 5 : 25}
+                    value={fuelLevel}
+                    onChange={e => setFuelLevel(Number(e.target.value))}
+                    className="w-full accent-zinc-900 dark:accent-white"
+                />
+                {!isElectric && (
+                    <div className="flex justify-between text-[10px] text-zinc-400 dark:text-zinc-500">
+                        <span>Reserva</span><span>1/4</span><span>1/2</span><span>3/4</span><span>Lleno</span>
+                    </div>
+                )}
+            </div>
+
+            {/* Cleanliness */}
+            <div>
+                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1 flex items-center gap-1">
+                    <Sparkles size={12} /> Limpieza
+                </label>
+                <div className="flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
+                    {CLEANLINESS_OPTIONS.map(opt => (
+                        <button
+                            key={opt.value}
+                            onClick={() => setCleanliness(opt.value)}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${cleanliness === opt.value
+                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm'
+                                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                                }`}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Damage Notes */}
+            <div>
+                <label className="block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1">Daños o incidencias</label>
+                <textarea
+                    value={damageNotes}
+                    onChange={e => setDamageNotes(e.target.value)}
+                    rows={3}
+                    className="w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none resize-none"
+                    placeholder="Rayazo en la puerta trasera, testigo encendido..."
+                />
+            </div>
+
+            {/* Photos */}
+            <div>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => e.target.files && e.target.files.length > 0 && handlePhotoUpload(e.target.files)}
+                    className="hidden"
+                />
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                    className="w-full flex items-center justify-center gap-2 py-1.5 px-2 text-[10px] border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                >
+                    <Camera size={12} />
+                    {uploading ? 'Subiendo...' : 'Añadir fotos (opcional)'}
+                </button>
+                {photoUrls.length > 0 && (
+                    <div className="grid grid-cols-4 gap-2 mt-2">
+                        {photoUrls.map(url => (
+                            <div key={url} className="relative aspect-square rounded-lg overflow-hidden bg-zinc-100 dark:bg-zinc-800">
+                                <img src={url} alt="Foto de la devolución" className="w-full h-full object-cover" />
+                                <button
+                                    onClick={() => setPhotoUrls(prev => prev.filter(u => u !== url))}
+                                    className="absolute top-1 right-1 p-0.5 bg-black/60 text-white rounded-full"
+                                    title="Quitar foto"
+                                >
+                                    <X size={10} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-2 pt-2">
+                <button
+                    onClick={onCancel}
+                    disabled={loading}
+                    className="flex-1 px-4 py-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSubmit}
+                    disabled={loading || uploading}
+                    className="flex-1 px-4 py-2 text-xs bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                    <CheckCircle size={14} />
+                    {loading ? 'Guardando...' : 'Registrar devolución'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { format, parseISO, isBefore, addDays, addHours } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ClipboardCheck, Droplet, CircleDot, ShieldCheck, Wrench, Plus, Paperclip, Trash2, Euro, AlertTriangle, X } from 'lucide-react';
+import { Car, VehicleServiceRecord, VehicleServiceType } from '../../types';
+import { serviceLogService } from '../../services/serviceLog';
+import { DateTimeSelector } from '../DateTimeSelector';
+
+interface ServiceLogProps {
+    car: Car;
+    isAdmin: boolean;
+    onUpdate: () => void;
+    onShowToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+export const SERVICE_TYPE_CONFIG: Record<VehicleServiceType, { label: string; icon: React.ElementType; color: string }> = {
+    itv: { label: 'ITV', icon: ClipboardCheck, color: 'text-blue-500' },
+    oil: { label: 'Cambio de aceite', icon: Droplet, color: 'text-amber-500' },
+    tyres: { label: 'Neumáticos', icon: CircleDot, color: 'text-zinc-500' },
+    insurance: { label: 'Seguro', icon: ShieldCheck, color: 'text-emerald-500' },
+    other: { label: 'Otro', icon: Wrench, color: 'text-zinc-500' },
+};
+
+const inputClass = "w-full text-xs py-1.5 px-2 border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white rounded-lg focus:ring-2 focus:ring-zinc-900/10 dark:focus:ring-white/10 outline-none [color-scheme:light] dark:[color-scheme:dark]";
+const labelClass = "block text-[10px] font-medium text-zinc-500 dark:text-zinc-400 mb-1";
+
+const emptyForm = () => ({
+    type: 'itv' as VehicleServiceType,
+    serviceDate: format(new Date(), 'yyyy-MM-dd'),
+    nextDueDate: '',
+    cost: '',
+    workshop: '',
+    notes: '',
+    invoiceUrls: [] as string[],
+    sendToWorkshop: false,
+    workshopStart: new Date(),
+    workshopEnd: addHours(new Date(), 24)
+});
+
+export const ServiceLog: React.FC<ServiceLogProps> = ({ car, isAdmin, onUpdate, onShowToast }) => {
+    const [records, setRecords] = useState<VehicleServiceRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showForm, setShowForm] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [uploading, setUploading] = useState(false);
+    const [form, setForm] = useState(emptyForm);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const fetchRecords = async () => {
+        try {
+            setRecords(await serviceLogService.getRecords(car.id));
+        } catch (error) {
+            console.error('Error fetching service log:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchRecords();
+    }, [car.id]);
+
+    // Latest record of each type tells when that service is due next
+    const upcoming = Object.values(
+        records.reduce<Record<string, VehicleServiceRecord>>((acc, record) => {
+            if (!acc[record.type]) acc[record.type] = record;
+            return acc;
+        }, {})
+    ).filter(r => r.nextDueDate).sort((a, b) => a.nextDueDate!.localeCompare(b.nextDueDate!));
+
+    const handleInvoiceUpload = async (files: FileList) => {
+        setUploading(true);
+        try {
+            const urls = await Promise.all(Array.from(files).map(file => serviceLogService.uploadInvoice(file)));
+            setForm(prev => ({ ...prev, invoiceUrls: [...prev.invoiceUrls, ...urls] }));
+        } catch (error) {
+            onShowToast('Error al subir la factura: ' + (error as Error).message, 'error');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (form.sendToWorkshop && !isBefore(form.workshopStart, form.workshopEnd)) {
+            onShowToast('La salida del taller debe ser posterior a la entrada', 'error');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const { cancelled } = await serviceLogService.addRecord({
+                carId: car.id,
+                type: form.type,
+                serviceDate: form.serviceDate,
+                nextDueDate: form.nextDueDate || undefined,
+                cost: form.cost !== '' ? Number(form.cost) : undefined,
+                workshop: form.workshop.trim() || undefined,
+                notes: form.notes.trim() || undefined,
+                invoiceUrls: form.invoiceUrls,
+                workshopStart: form.sendToWorkshop ? form.workshopStart.toISOString() : undefined,
+                workshopEnd: form.sendToWorkshop ? form.workshopEnd.toISOString() : undefined
+            });
+
+            onShowToast(
+                cancelled.length > 0
+                    ? `Registro guardado. ${cancelled.length} ${cancelled.length === 1 ? 'reserva cancelada' : 'reservas canceladas'} y avisadas`
+                    : 'Registro guardado',
+                'success'
+            );
+            setForm(emptyForm());
+            setShowForm(false);
+            fetchRecords();
+            onUpdate();
+        } catch (e) {
+            onShowToast('Error al guardar: ' + (e as Error).message, 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEndWorkshop = async (record: VehicleServiceRecord) => {
+        try {
+            await serviceLogService.endWorkshop(record);
+            onShowToast('El coche vuelve a estar disponible', 'success');
+            fetchRecords();
+            onUpdate();
+        } catch (e) {
+            onShowToast('Error: ' + (e as Error).message, 'error');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await serviceLogService.deleteRecord(id);
+            setRecords(prev => prev.filter(r => r.id !== id));
+            onUpdate();
+        } catch (e) {
+            onShowToast('Error al eliminar: ' + (e as Error).message, 'error');
+        }
+    };
+
+    const now = new Date();
+
+    return (
+        <div className="space-y-6">
+            {/* Upcoming due dates */}
+            {upcoming.length > 0 && (
+                <section>
+                    <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Próximos vencimientos</h3>
+                    <div className="grid grid-cols-2 gap-2">
+                        {upcoming.map(record => {
+                            const config = SERVICE_TYPE_CONFIG[record.type];
+                            const Icon = config.icon;
+                            const due = parseISO(record.nextDueDate!);
+                            const overdue = isBefore(due, now);
+                            const soon = !overdue && isBefore(due, addDays(now, 30));
+                            return (
+                                <div
+                                    key={record.type}
+                                    className={`p-3 rounded-lg border ${overdue
+                                        ? 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/30'
+                                        : soon
+                                            ? 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900/30'
+                                            : 'bg-zinc-50 dark:bg-zinc-800/50 border-zinc-100 dark:border-zinc-800'}`}
+                                >
+                                    <p className="text-xs font-medium text-zinc-900 dark:text-white flex items-center gap-1.5">
+                                        <Icon size={12} className={config.color} /> {config.label}
+                                    </p>
+                                    <p className={`text-[10px] mt-0.5 ${overdue ? 'text-red-600 dark:text-red-400' : 'text-zinc-500 dark:text-zinc-400'}`}>
+                                        {overdue ? 'Vencido el ' : 'Vence el '}{format(due, 'd MMM yyyy', { locale: es })}
+                                    </p>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </section>
+            )}
+
+            {/* New record */}
+            {isAdmin && !showForm && (
+                <button
+                    onClick={() => setShowForm(true)}
+                    className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium border border-dashed border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+                >
+                    <Plus size={14} /> Añadir registro
+                </button>
+            )}
+
+            {isAdmin && showForm && (
+                <section className="space-y-3 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-100 dark:border-zinc-800">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>Tipo</label>
+                            <select className={inputClass} value={form.type} onChange={e => setForm({ ...form, type: e.target.value as VehicleServiceType })}>
+                                {(Object.keys(SERVICE_TYPE_CONFIG) as VehicleServiceType[]).map(type => (
+                                    <option key={type} value={type}>{SERVICE_TYPE_CONFIG[type].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Fecha</label>
+                            <input type="date" className={inputClass} value={form.serviceDate} onChange={e => setForm({ ...form, serviceDate: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Próximo vencimiento</label>
+                            <input type="date" className={inputClass} value={form.nextDueDate} onChange={e => setForm({ ...form, nextDueDate: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Coste (€)</label>
+                            <input type="number" min={0} step="0.01" className={inputClass} value={form.cost} onChange={e => setForm({ ...form, cost: e.target.value })} placeholder="0,00" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Taller / Aseguradora</label>
+                        <input type="text" className={inputClass} value={form.workshop} onChange={e => setForm({ ...form, workshop: e.target.value })} placeholder="Talleres García" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Notas</label>
+                        <textarea rows={2} className={`${inputClass} resize-none`} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+                    </div>
+
+                    {/* Invoices */}
+                    <div>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*,application/pdf"
+                            multiple
+                            onChange={(e) => e.target.files && e.target.files.length > 0 && handleInvoiceUpload(e.target.files)}
+                            className="hidden"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploading}
+                            className="w-full flex items-center justify-center gap-2 py-1.5 px-2 text-[10px] border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                        >
+                            <Paperclip size={12} />
+                            {uploading ? 'Subiendo...' : 'Adjuntar facturas'}
+                        </button>
+                        {form.invoiceUrls.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-2">
+                                {form.invoiceUrls.map((url, i) => (
+                                    <span key={url} className="flex items-center gap-1 text-[10px] px-2 py-0.5 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-full text-zinc-600 dark:text-zinc-300">
+                                        Factura {i + 1}
+                                        <button onClick={() => setForm(prev => ({ ...prev, invoiceUrls: prev.invoiceUrls.filter(u => u !== url) }))}>
+                                            <X size={10} />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Workshop window */}
+                    <label className="flex items-center gap-2 text-xs text-zinc-700 dark:text-zinc-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={form.sendToWorkshop}
+                            onChange={e => setForm({ ...form, sendToWorkshop: e.target.checked })}
+                            className="w-4 h-4 rounded border-zinc-300 dark:border-zinc-600"
+                        />
+                        El coche pasa por el taller
+                    </label>
+                    {form.sendToWorkshop && (
+                        <div className="space-y-2">
+                            <DateTimeSelector label="Entrada" value={form.workshopStart} onChange={d => setForm(prev => ({ ...prev, workshopStart: d }))} />
+                            <DateTimeSelector label="Salida prevista" value={form.workshopEnd} onChange={d => setForm(prev => ({ ...prev, workshopEnd: d }))} minDate={form.workshopStart} />
+                            <p className="text-[10px] text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                                <AlertTriangle size={10} /> Las reservas en ese horario se cancelarán y se avisará a sus usuarios
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="flex gap-2 pt-1">
+                        <button
+                            onClick={() => { setShowForm(false); setForm(emptyForm()); }}
+                            disabled={saving}
+                            className="flex-1 px-4 py-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || uploading}
+                            className="flex-1 px-4 py-2 text-xs bg-zinc-900 dark:bg-white text-white dark:text-black rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                        >
+                            {saving ? 'Guardando...' : 'Guardar registro'}
+                        </button>
+                    </div>
+                </section>
+            )}
+
+            {/* History */}
+            <section>
+                <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Historial de mantenimiento</h3>
+                {!loading && records.length === 0 && (
+                    <p className="text-xs text-zinc-400 dark:text-zinc-500 py-4 text-center">No hay registros de mantenimiento</p>
+                )}
+                <div className="space-y-0 relative border-l border-zinc-100 dark:border-zinc-800 ml-2">
+                    {records.map(record => {
+                        const config = SERVICE_TYPE_CONFIG[record.type];
+                        const Icon = config.icon;
+                        const inWorkshopNow = record.workshopStart && record.workshopEnd
+                            && parseISO(record.workshopStart) <= now && now < parseISO(record.workshopEnd);
+                        return (
+                            <div key={record.id} className="relative pl-6 pb-5 last:pb-0 group">
+                                <div className="absolute -left-[7px] top-0.5 bg-white dark:bg-zinc-900">
+                                    <Icon size={14} className={config.color} />
+                                </div>
+                                <div className="flex items-start justify-between gap-2">
+                                    <div>
+                                        <p className="text-xs font-medium text-zinc-900 dark:text-white">
+                                            {config.label}
+                                            {record.workshop && <span className="font-normal text-zinc-500 dark:text-zinc-400"> · {record.workshop}</span>}
+                                        </p>
+                                        <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-0.5 flex items-center gap-2">
+                                            {format(parseISO(record.serviceDate), 'd MMM yyyy', { locale: es })}
+                                            {record.cost !== undefined && (
+                                                <span className="flex items-center gap-0.5"><Euro size={10} />{record.cost.toLocaleString('es-ES', { minimumFractionDigits: 2 })}</span>
+                                            )}
+                                            {record.createdByName && <span>· {record.createdByName}</span>}
+                                        </p>
+                                    </div>
+                                    {isAdmin && (
+                                        <button
+                                            onClick={() => handleDelete(record.id)}
+                                            className="p-1 text-zinc-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title="Eliminar registro"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                                {record.workshopStart && record.workshopEnd && (
+                                    <p className="text-[10px] text-rose-600 dark:text-rose-400 mt-1 flex items-center gap-1">
+                                        <Wrench size={10} />
+                                        En taller {format(parseISO(record.workshopStart), 'd MMM, HH:mm', { locale: es })} → {format(parseISO(record.workshopEnd), 'd MMM, HH:mm', { locale: es })}
+                                        {isAdmin && inWorkshopNow && (
+                                            <button
+                                                onClick={() => handleEndWorkshop(record)}
+                                                className="ml-2 underline hover:text-rose-800 dark:hover:text-rose-300"
+                                            >
+                                                Ya ha salido
+                                            </button>
+                                        )}
+                                    </p>
+                                )}
+                                {record.nextDueDate && (
+                                    <p className="text-[10px] text-zinc-500 dark:text-zinc-400 mt-1">
+                                        Próximo: {format(parseISO(record.nextDueDate), 'd MMM yyyy', { locale: es })}
+                                    </p>
+                                )}
+                                {record.notes && (
+                                    <p className="text-xs text-zinc-600 dark:text-zinc-400 mt-1">{record.notes}</p>
+                                )}
+                                {record.invoiceUrls.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-1">
+                                        {record.invoiceUrls.map((url, i) => (
+                                            <a
+                                                key={url}
+                                                href={url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-[10px] text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-0.5"
+                                            >
+                                                <Paperclip size={10} /> Factura {i + 1}
+                                            </a>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </section>
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MealOption } from '../types';
+import { mealOptionService } from '../services/mealOptions';
+import { DEFAULT_MEAL_OPTIONS, getMealOption, getOptionsForMeal } from '../utils/mealOptions';
+import { MealType } from '../utils/mealForecast';
+
+const CACHE_KEY = 'meal_options_cache';
+const UPDATED_EVENT = 'meal-options-updated';
+
+const readCache = (): MealOption[] => {
+    try {
+        const cached = localStorage.getItem(CACHE_KEY);
+        if (cached) return JSON.parse(cached);
+    } catch {
+        // Ignore a corrupted cache
+    }
+    return DEFAULT_MEAL_OPTIONS;
+};
+
+// Shared between every component using the hook so the catalog is fetched once
+let catalog: MealOption[] = readCache();
+let pending: Promise<void> | null = null;
+
+const fetchCatalog = () => {
+    if (!pending) {
+        pending = mealOptionService.getOptions()
+            .then(options => {
+                if (options.length === 0) return;
+                catalog = options;
+                localStorage.setItem(CACHE_KEY, JSON.stringify(options));
+                window.dispatchEvent(new Event(UPDATED_EVENT));
+            })
+            .catch(error => console.error('Error loading meal options:', error))
+            .finally(() => { pending = null; });
+    }
+    return pending;
+};
+
+// Call after editing the catalog so every open view picks the change up
+export const refreshMealOptions = () => fetchCatalog();
+
+export const useMealOptions = () => {
+    const [options, setOptions] = useState<MealOption[]>(catalog);
+
+    useEffect(() => {
+        const handleUpdate = () => setOptions(catalog);
+        window.addEventListener(UPDATED_EVENT, handleUpdate);
+        fetchCatalog();
+        return () => window.removeEventListener(UPDATED_EVENT, handleUpdate);
+    }, []);
+
+    const getOption = useCallback((id: string) => getMealOption(options, id), [options]);
+    const forMeal = useCallback((mealType: MealType) => getOptionsForMeal(options, mealType), [options]);
+
+    return { options, getOption, getOptionsForMeal: forMeal, refresh: refreshMealOptions };
+};
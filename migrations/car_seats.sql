@@ -0,0 +1,8 @@
+-- Migration: Car seat count
+-- Description: Number of seats per car, used by the "find me any car" search to match passenger needs
+-- Execute this in your Supabase SQL Editor
+
+ALTER TABLE cars
+ADD COLUMN IF NOT EXISTS seats INTEGER CHECK (seats > 0);
+
+COMMENT ON COLUMN cars.seats IS 'Number of seats including the driver';
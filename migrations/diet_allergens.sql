@@ -0,0 +1,15 @@
+-- Migration: Structured diet allergens and validity
+-- Description: Adds allergen/intolerance tags (keys from utils/allergens.ts) and an optional
+-- start/end date for temporary diets to profiles. Like diet_name and diet_notes, they are kept when
+-- the diet is turned off (see compact_diets.sql); the app ignores them while has_diet is false.
+-- Execute this in your Supabase SQL Editor
+
+alter table public.profiles
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists diet_valid_from date,
+  add column if not exists diet_valid_to date;
+
+alter table public.profiles drop constraint if exists profiles_diet_validity_check;
+alter table public.profiles
+  add constraint profiles_diet_validity_check
+  check (diet_valid_from is null or diet_valid_to is null or diet_valid_from <= diet_valid_to);
@@ -0,0 +1,77 @@
+-- Migration: Guest driver registry
+-- Description: Guests who drive the residence cars, with their license details and the resident
+-- who vouches for them. Reservations made for a guest point to the registry entry.
+-- Execute this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS guest_drivers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    phone TEXT,
+    license_number TEXT,
+    license_expiry DATE,
+    vouched_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_drivers_name ON guest_drivers(lower(name));
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS guest_driver_id UUID REFERENCES guest_drivers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_guest_driver_id ON reservations(guest_driver_id) WHERE guest_driver_id IS NOT NULL;
+
+-- ============================================
+-- BACKFILL FROM FREE-TEXT GUEST NAMES
+-- ============================================
+-- One registry entry per distinct name, vouched for by whoever booked for them first
+INSERT INTO guest_drivers (name, vouched_by, created_at)
+SELECT DISTINCT ON (lower(trim(guest_name))) trim(guest_name), user_id, created_at
+FROM reservations
+WHERE is_for_guest = true AND guest_name IS NOT NULL AND trim(guest_name) <> ''
+ORDER BY lower(trim(guest_name)), created_at;
+
+UPDATE reservations r
+SET guest_driver_id = g.id
+FROM guest_drivers g
+WHERE r.is_for_guest = true
+  AND r.guest_driver_id IS NULL
+  AND lower(trim(r.guest_name)) = lower(g.name);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE guest_drivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view guest drivers"
+ON guest_drivers FOR SELECT
+TO authenticated
+USING (true);
+
+-- Whoever registers a guest vouches for them
+CREATE POLICY "Users can register guest drivers"
+ON guest_drivers FOR INSERT
+TO authenticated
+WITH CHECK (vouched_by = auth.uid());
+
+CREATE POLICY "Vouchers and vehicle admins can update guest drivers"
+ON guest_drivers FOR UPDATE
+TO authenticated
+USING (
+    vouched_by = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND (profiles.role = 'ADMIN' OR (profiles.permissions->'vehicles'->>'admin')::boolean = true)
+    )
+);
+
+CREATE POLICY "Vehicle admins can delete guest drivers"
+ON guest_drivers FOR DELETE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND (profiles.role = 'ADMIN' OR (profiles.permissions->'vehicles'->>'admin')::boolean = true)
+    )
+);
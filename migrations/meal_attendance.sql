@@ -0,0 +1,44 @@
+-- Migration: Meal attendance check-in
+-- Description: Who actually ate each ordered meal. The kitchen marks residents as served from the
+-- check-in grid; closing the service records everyone left unmarked as a no-show.
+-- The ordered option is stored with each row so the waste report survives later order changes.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.meal_attendance (
+  id uuid default gen_random_uuid() primary key,
+  date date not null,
+  meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner')),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  ordered_option text not null,
+  served boolean not null default false,
+  marked_by uuid references auth.users(id),
+  marked_at timestamptz default now(),
+  unique (date, meal_type, user_id)
+);
+
+create index if not exists idx_meal_attendance_date on public.meal_attendance(date, meal_type);
+
+alter table public.meal_attendance enable row level security;
+
+drop policy if exists "View meal attendance" on public.meal_attendance;
+create policy "View meal attendance"
+  on public.meal_attendance for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+drop policy if exists "Kitchen manages meal attendance" on public.meal_attendance;
+create policy "Kitchen manages meal attendance"
+  on public.meal_attendance for all
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
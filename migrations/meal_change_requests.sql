@@ -0,0 +1,112 @@
+-- Migration: Late-change requests for closed meals
+-- Description: Residents ask the kitchen to change a meal after its deadline. The kitchen accepts
+-- (the change is written through override_meal_order, so it is logged) or declines it, both through
+-- respond_meal_change_request() so a request is answered once and the change applied with it.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.meal_change_requests (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  date date not null,
+  meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner')),
+  current_option text not null,
+  requested_option text not null,
+  is_bag boolean default false,
+  bag_time text, -- "HH:mm"
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined')),
+  response_note text,
+  responded_by uuid references auth.users(id),
+  responded_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_meal_change_requests_status on public.meal_change_requests(status, date);
+create index if not exists idx_meal_change_requests_user on public.meal_change_requests(user_id, date);
+
+-- Only one open request per meal
+create unique index if not exists idx_meal_change_requests_pending
+  on public.meal_change_requests(user_id, date, meal_type)
+  where status = 'pending';
+
+alter table public.meal_change_requests enable row level security;
+
+drop policy if exists "Users view own meal change requests" on public.meal_change_requests;
+create policy "Users view own meal change requests"
+  on public.meal_change_requests for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+drop policy if exists "Users create own meal change requests" on public.meal_change_requests;
+create policy "Users create own meal change requests"
+  on public.meal_change_requests for insert
+  with check (user_id = auth.uid() and status = 'pending');
+
+-- Residents can withdraw a request until the kitchen answers it
+drop policy if exists "Users withdraw pending meal change requests" on public.meal_change_requests;
+create policy "Users withdraw pending meal change requests"
+  on public.meal_change_requests for delete
+  using (user_id = auth.uid() and status = 'pending');
+
+-- No update policy: requests are only answered through respond_meal_change_request(), so an
+-- accepted request always comes with its order change and override log entry
+drop policy if exists "Kitchen answers meal change requests" on public.meal_change_requests;
+
+-- Closes a pending request and, when accepted, applies it in the same transaction.
+-- Raises REQUEST_NOT_PENDING when someone else answered it first.
+create or replace function public.respond_meal_change_request(
+  p_request_id uuid,
+  p_accept boolean,
+  p_response_note text
+)
+returns setof public.meal_change_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request meal_change_requests%rowtype;
+begin
+  if not exists (
+    select 1 from profiles
+    where profiles.id = auth.uid()
+    and (
+      profiles.role = 'ADMIN' or profiles.role = 'KITCHEN'
+      or (profiles.permissions->>'kitchen')::boolean = true
+      or public.has_granular_admin(auth.uid(), 'meals')
+    )
+  ) then
+    raise exception 'Only admins and kitchen staff can answer meal change requests';
+  end if;
+
+  update meal_change_requests
+  set status = case when p_accept then 'accepted' else 'declined' end,
+      response_note = nullif(trim(p_response_note), ''),
+      responded_by = auth.uid(),
+      responded_at = now()
+  where id = p_request_id and status = 'pending'
+  returning * into v_request;
+
+  if not found then
+    raise exception 'REQUEST_NOT_PENDING';
+  end if;
+
+  if p_accept then
+    perform override_meal_order(
+      v_request.user_id, v_request.date, v_request.meal_type, v_request.requested_option,
+      v_request.is_bag, v_request.bag_time,
+      'Solicitud tardía aceptada' || coalesce(': ' || v_request.note, '')
+    );
+  end if;
+
+  return next v_request;
+end;
+$$;
+
+grant execute on function public.respond_meal_change_request(uuid, boolean, text) to authenticated;
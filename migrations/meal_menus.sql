@@ -0,0 +1,44 @@
+-- Migration: Weekly menu planner
+-- Description: Dishes the kitchen plans per day and meal, tagged with allergens (keys from
+-- utils/allergens.ts). Residents only see dishes once the kitchen publishes them.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.menu_dishes (
+  id uuid default gen_random_uuid() primary key,
+  date date not null,
+  meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner')),
+  course text not null default 'main' check (course in ('starter', 'main', 'dessert')),
+  name text not null,
+  allergens text[] not null default '{}',
+  sort_order integer not null default 0,
+  is_published boolean not null default false,
+  created_by uuid references auth.users(id),
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_menu_dishes_date on public.menu_dishes(date, meal_type);
+
+alter table public.menu_dishes enable row level security;
+
+drop policy if exists "View menu dishes" on public.menu_dishes;
+create policy "View menu dishes"
+  on public.menu_dishes for select
+  using (
+    is_published
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+drop policy if exists "Kitchen manages menu dishes" on public.menu_dishes;
+create policy "Kitchen manages menu dishes"
+  on public.menu_dishes for all
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
@@ -0,0 +1,77 @@
+-- Migration: Meal option catalog
+-- Description: The options residents can pick for each meal (normal, early, tupper, bag...),
+-- managed from the kitchen admin panel instead of being hard-coded in the app.
+-- The id is the value stored in meal_orders.option / meal_templates.option / meal_guests.option.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.meal_options (
+  id text primary key,
+  label text not null,                 -- Full name shown in pickers ("Tupper")
+  short_label text not null,           -- Badge shown in the order grid ("TP")
+  icon text,                           -- Optional lucide icon key (see utils/mealOptions.ts)
+  color text not null default '#71717a',
+  meal_types text[] not null default array['breakfast', 'lunch', 'dinner'],
+  needs_prep boolean not null default false,  -- Prepared the day before (listed in tomorrow's prep)
+  is_bag boolean not null default false,      -- Picked up as a bag, with an optional pickup time
+  lock_rule text not null default 'default'
+    check (lock_rule in ('default', 'day_before', 'cutoff')),
+  cutoff_time text,                    -- HH:mm, only for lock_rule = 'cutoff'
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  is_system boolean not null default false,   -- 'standard' and 'skip' cannot be removed
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Seed with the options the app has always offered
+insert into public.meal_options (id, label, short_label, icon, color, meal_types, needs_prep, is_bag, lock_rule, sort_order, is_system)
+values
+  ('standard', 'Normal', 'SÍ', 'utensils', '#10b981', array['breakfast', 'lunch', 'dinner'], false, false, 'default', 10, true),
+  ('early', 'Pronto', '1T', 'sunrise', '#facc15', array['breakfast', 'lunch'], false, false, 'default', 20, false),
+  ('late', 'Tarde', '2T', 'moon', '#047857', array['lunch', 'dinner'], false, false, 'default', 30, false),
+  ('tupper', 'Tupper', 'TP', 'package', '#92400e', array['lunch'], true, false, 'default', 40, false),
+  ('bag', 'Bolsa', 'B', 'shopping-bag', '#2563eb', array['breakfast', 'lunch'], true, true, 'default', 50, false),
+  ('skip', 'No', 'NO', 'x', '#f43f5e', array['breakfast', 'lunch', 'dinner'], false, false, 'default', 100, true)
+on conflict (id) do nothing;
+
+-- RLS
+alter table public.meal_options enable row level security;
+
+drop policy if exists "Meal options are viewable by everyone" on public.meal_options;
+create policy "Meal options are viewable by everyone"
+  on public.meal_options for select
+  using (true);
+
+drop policy if exists "Meal options are manageable by admins and kitchen" on public.meal_options;
+create policy "Meal options are manageable by admins and kitchen"
+  on public.meal_options for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN')
+    )
+  );
+
+-- System options must stay available
+create or replace function public.protect_system_meal_options()
+returns trigger as $$
+begin
+  if tg_op = 'DELETE' then
+    if old.is_system then
+      raise exception 'No se puede eliminar una opción del sistema';
+    end if;
+    return old;
+  end if;
+
+  if old.is_system and (new.is_active = false or new.id <> old.id) then
+    raise exception 'Las opciones del sistema no se pueden desactivar';
+  end if;
+  new.is_system := old.is_system;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists protect_system_meal_options on public.meal_options;
+create trigger protect_system_meal_options
+  before update or delete on public.meal_options
+  for each row execute function public.protect_system_meal_options();
@@ -0,0 +1,271 @@
+-- Migration: Enforce meal order deadlines in the database
+-- Description: Rejects changes to meal_orders once the kitchen has closed them, with the same rules
+-- as utils/mealLocks.ts (keep both in sync). Admins and kitchen staff change closed orders through
+-- override_meal_order(), which logs every change in meal_order_overrides.
+-- Execute this in your Supabase SQL Editor
+
+-- 1. Closing time (HH:mm) of a day: override > Sunday/holiday > Saturday > weekday > legacy weekly_schedule
+create or replace function public.meal_day_cutoff(p_date date)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    nullif(c.overrides->>to_char(p_date, 'YYYY-MM-DD'), ''),
+    nullif(
+      case
+        when extract(dow from p_date) = 0 or exists (select 1 from holidays h where h.date = p_date)
+          then c.schedule_sunday_holiday
+        when extract(dow from p_date) = 6 then c.schedule_saturday
+        else c.schedule_weekdays
+      end, ''),
+    nullif(c.weekly_schedule->>(extract(dow from p_date)::int::text), '')
+  )
+  from kitchen_config c
+  limit 1;
+$$;
+
+-- 2. Why a whole day no longer takes changes, or null while it is open
+create or replace function public.meal_day_closure(p_date date)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamp := now() at time zone 'Europe/Madrid';
+  v_cutoff text;
+begin
+  if p_date < v_now::date then return 'past'; end if;
+  if exists (select 1 from daily_meal_status where date = p_date and is_locked) then return 'day_locked'; end if;
+  if p_date > v_now::date then return null; end if;
+
+  v_cutoff := meal_day_cutoff(p_date);
+  if v_cutoff is not null and to_char(v_now, 'HH24:MI') >= v_cutoff then return 'deadline_passed'; end if;
+  return null;
+end;
+$$;
+
+-- 3. Lock reason for changing a meal from one option to another (null when allowed).
+-- Mirrors evaluateMealLock() in utils/mealLocks.ts.
+create or replace function public.meal_order_lock_reason(
+  p_date date,
+  p_meal_type text,
+  p_current_option text,
+  p_intended_option text
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamp := now() at time zone 'Europe/Madrid';
+  v_current meal_options%rowtype;
+  v_intended meal_options%rowtype;
+begin
+  if p_date < v_now::date then return 'past'; end if;
+
+  select * into v_current from meal_options where id = p_current_option;
+  select * into v_intended from meal_options where id = p_intended_option;
+
+  -- Dropping an option the kitchen prepares in advance is allowed until the day itself
+  if coalesce(v_current.needs_prep, false) and not coalesce(v_intended.needs_prep, false) then
+    return null;
+  end if;
+
+  if v_intended.lock_rule = 'day_before' then
+    return case when meal_day_closure(p_date - 1) is not null then 'previous_day_closed' end;
+  end if;
+
+  if v_intended.lock_rule = 'cutoff' and nullif(v_intended.cutoff_time, '') is not null then
+    if exists (select 1 from daily_meal_status where date = p_date and is_locked) then return 'day_locked'; end if;
+    if p_date = v_now::date and to_char(v_now, 'HH24:MI') >= v_intended.cutoff_time then return 'option_cutoff'; end if;
+    return null;
+  end if;
+
+  if p_meal_type = 'breakfast' then
+    return case when meal_day_closure(p_date - 1) is not null then 'previous_day_closed' end;
+  end if;
+
+  return meal_day_closure(p_date);
+end;
+$$;
+
+-- 4. Log of changes forced on closed (or other residents') orders
+create table if not exists public.meal_order_overrides (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null, -- Resident whose order changed
+  date date not null,
+  meal_type text not null,
+  previous_option text,
+  new_option text not null,
+  lock_reason text, -- What would have blocked the change; null if it was still open
+  reason text,
+  changed_by uuid references auth.users(id) not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_meal_order_overrides_date on public.meal_order_overrides(date);
+
+alter table public.meal_order_overrides enable row level security;
+
+drop policy if exists "Kitchen can view meal order overrides" on public.meal_order_overrides;
+create policy "Kitchen can view meal order overrides"
+  on public.meal_order_overrides for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+-- No insert policy: rows are only written by override_meal_order()
+
+-- 5. Reject changes to closed orders
+create or replace function public.enforce_meal_order_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row meal_orders%rowtype;
+  v_template text;
+  v_current text;
+  v_intended text;
+  v_reason text;
+begin
+  -- Service role jobs and the logged override path are trusted
+  if auth.uid() is null or current_setting('app.meal_lock_override', true) = 'on' then
+    return coalesce(new, old);
+  end if;
+
+  -- Status-only updates (e.g. marking as served) don't change what was ordered
+  if tg_op = 'UPDATE'
+    and new.date = old.date and new.meal_type = old.meal_type
+    and new.option is not distinct from old.option
+    and new.is_bag is not distinct from old.is_bag
+    and new.bag_time is not distinct from old.bag_time then
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then v_row := old; else v_row := new; end if;
+
+  -- Without an order row an absence means no meal; otherwise the resident's weekly template applies
+  if exists (
+    select 1 from user_absences
+    where user_id = v_row.user_id and v_row.date between start_date and end_date
+  ) then
+    v_template := 'skip';
+  else
+    select option into v_template
+    from meal_templates
+    where user_id = v_row.user_id
+      and day_of_week = extract(isodow from v_row.date)
+      and meal_type = v_row.meal_type;
+  end if;
+
+  -- An upsert over an existing order still fires as INSERT: check against what is stored
+  if tg_op = 'INSERT' then
+    select option into v_current
+    from meal_orders
+    where user_id = new.user_id and date = new.date and meal_type = new.meal_type;
+    v_current := coalesce(v_current, v_template, 'skip');
+  else
+    v_current := old.option;
+  end if;
+  v_intended := case when tg_op = 'DELETE' then coalesce(v_template, 'skip') else new.option end;
+
+  v_reason := meal_order_lock_reason(v_row.date, v_row.meal_type, v_current, v_intended);
+  if v_reason is not null then
+    raise exception 'MEAL_LOCKED'
+      using detail = v_reason,
+            hint = 'Admins and kitchen staff can use override_meal_order()';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists enforce_meal_order_deadline on public.meal_orders;
+create trigger enforce_meal_order_deadline
+  before insert or update or delete on public.meal_orders
+  for each row execute function public.enforce_meal_order_deadline();
+
+-- 6. Explicit override for admins and kitchen staff, always logged
+create or replace function public.override_meal_order(
+  p_user_id uuid,
+  p_date date,
+  p_meal_type text,
+  p_option text,
+  p_is_bag boolean,
+  p_bag_time text,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous text;
+begin
+  if not exists (
+    select 1 from profiles
+    where profiles.id = auth.uid()
+    and (
+      profiles.role = 'ADMIN' or profiles.role = 'KITCHEN'
+      or (profiles.permissions->>'kitchen')::boolean = true
+      or public.has_granular_admin(auth.uid(), 'meals')
+    )
+  ) then
+    raise exception 'Only admins and kitchen staff can override meal orders';
+  end if;
+
+  select option into v_previous
+  from meal_orders
+  where user_id = p_user_id and date = p_date and meal_type = p_meal_type;
+
+  if v_previous is null then
+    if exists (
+      select 1 from user_absences
+      where user_id = p_user_id and p_date between start_date and end_date
+    ) then
+      v_previous := 'skip';
+    else
+      select option into v_previous
+      from meal_templates
+      where user_id = p_user_id and day_of_week = extract(isodow from p_date) and meal_type = p_meal_type;
+    end if;
+  end if;
+
+  insert into meal_order_overrides (user_id, date, meal_type, previous_option, new_option, lock_reason, reason, changed_by)
+  values (
+    p_user_id, p_date, p_meal_type, v_previous, p_option,
+    meal_order_lock_reason(p_date, p_meal_type, coalesce(v_previous, 'skip'), p_option),
+    nullif(trim(p_reason), ''),
+    auth.uid()
+  );
+
+  perform set_config('app.meal_lock_override', 'on', true);
+
+  insert into meal_orders (user_id, date, meal_type, option, is_bag, bag_time, status)
+  values (p_user_id, p_date, p_meal_type, p_option, p_is_bag, case when p_is_bag then p_bag_time end, 'confirmed')
+  on conflict (user_id, date, meal_type) do update
+    set option = excluded.option,
+        is_bag = excluded.is_bag,
+        bag_time = excluded.bag_time,
+        status = excluded.status;
+
+  perform set_config('app.meal_lock_override', 'off', true);
+end;
+$$;
+
+grant execute on function public.meal_order_lock_reason(date, text, text, text) to authenticated;
+grant execute on function public.override_meal_order(uuid, date, text, text, boolean, text, text) to authenticated;
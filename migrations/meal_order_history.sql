@@ -0,0 +1,102 @@
+-- Migration: Meal order change history
+-- Description: Records every change to meal_orders (who, when, old and new option, bag and pickup time,
+-- and what the resident had before: an explicit order, their template or an absence).
+-- Feeds the kitchen's per-day changes feed.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.meal_order_changes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null, -- Resident whose meal changed
+  date date not null,
+  meal_type text not null,
+  old_option text,
+  new_option text,
+  old_is_bag boolean,
+  new_is_bag boolean,
+  old_bag_time text,
+  new_bag_time text,
+  previous_source text not null check (previous_source in ('order', 'template', 'absence', 'none')),
+  changed_by uuid references auth.users(id), -- Null for service jobs
+  is_override boolean default false, -- Written through override_meal_order()
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_meal_order_changes_date on public.meal_order_changes(date, created_at);
+
+alter table public.meal_order_changes enable row level security;
+
+drop policy if exists "View meal order changes" on public.meal_order_changes;
+create policy "View meal order changes"
+  on public.meal_order_changes for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+-- No insert policy: rows are only written by the trigger below
+
+create or replace function public.log_meal_order_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row meal_orders%rowtype;
+  v_source text := 'order';
+  v_old_option text;
+begin
+  if tg_op = 'DELETE' then v_row := old; else v_row := new; end if;
+
+  if tg_op = 'UPDATE'
+    and new.option is not distinct from old.option
+    and new.is_bag is not distinct from old.is_bag
+    and new.bag_time is not distinct from old.bag_time then
+    return new; -- Status-only updates
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- Same precedence as the daily plan: absence, then template
+    if exists (
+      select 1 from user_absences
+      where user_id = new.user_id and new.date between start_date and end_date
+    ) then
+      v_source := 'absence';
+      v_old_option := 'skip';
+    else
+      select option into v_old_option
+      from meal_templates
+      where user_id = new.user_id
+        and day_of_week = extract(isodow from new.date)
+        and meal_type = new.meal_type;
+      v_source := case when v_old_option is null then 'none' else 'template' end;
+    end if;
+  else
+    v_old_option := old.option;
+  end if;
+
+  insert into meal_order_changes (
+    user_id, date, meal_type,
+    old_option, new_option,
+    old_is_bag, new_is_bag,
+    old_bag_time, new_bag_time,
+    previous_source, changed_by, is_override
+  ) values (
+    v_row.user_id, v_row.date, v_row.meal_type,
+    v_old_option, case when tg_op = 'DELETE' then null else new.option end,
+    case when tg_op = 'INSERT' then null else old.is_bag end, case when tg_op = 'DELETE' then null else new.is_bag end,
+    case when tg_op = 'INSERT' then null else old.bag_time end, case when tg_op = 'DELETE' then null else new.bag_time end,
+    v_source, auth.uid(), coalesce(current_setting('app.meal_lock_override', true), '') = 'on'
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists log_meal_order_change on public.meal_orders;
+create trigger log_meal_order_change
+  after insert or update or delete on public.meal_orders
+  for each row execute function public.log_meal_order_change();
@@ -0,0 +1,43 @@
+-- Migration: Bag and tupper pickup board
+-- Description: Pickup state of each resident's bag or tupper meal. No row means it is still to be
+-- prepared; the kitchen moves it to 'prepared' (which notifies the resident) and then 'collected'.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.meal_pickups (
+  id uuid default gen_random_uuid() primary key,
+  date date not null,
+  meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner')),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  status text not null default 'prepared' check (status in ('prepared', 'collected')),
+  prepared_by uuid references auth.users(id),
+  prepared_at timestamptz default now(),
+  collected_at timestamptz,
+  unique (date, meal_type, user_id)
+);
+
+create index if not exists idx_meal_pickups_date on public.meal_pickups(date);
+
+alter table public.meal_pickups enable row level security;
+
+drop policy if exists "View meal pickups" on public.meal_pickups;
+create policy "View meal pickups"
+  on public.meal_pickups for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+drop policy if exists "Kitchen manages meal pickups" on public.meal_pickups;
+create policy "Kitchen manages meal pickups"
+  on public.meal_pickups for all
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
@@ -0,0 +1,311 @@
+-- Migration: Several named weekly templates per user
+-- Description: Groups meal_templates into sets ("Habitual", "Exámenes", "Verano"...). A set can be
+-- limited to a date range and/or to odd or even ISO weeks; the most specific set that applies to a
+-- date wins, with the user's default set as fallback. Same rules as utils/mealTemplates.ts.
+-- Execute this in your Supabase SQL Editor
+
+-- 1. Template sets
+create table if not exists public.meal_template_sets (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  is_default boolean not null default false,
+  valid_from date,
+  valid_to date,
+  week_rotation text not null default 'all' check (week_rotation in ('all', 'odd', 'even')),
+  created_at timestamptz default now(),
+  check (valid_from is null or valid_to is null or valid_to >= valid_from)
+);
+
+create unique index if not exists idx_meal_template_sets_default
+  on public.meal_template_sets(user_id)
+  where is_default;
+
+alter table public.meal_template_sets enable row level security;
+
+-- Everyone reads them to compute the effective plans, like meal_templates
+drop policy if exists "View Meal Template Sets" on public.meal_template_sets;
+create policy "View Meal Template Sets"
+  on public.meal_template_sets for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Users manage own template sets" on public.meal_template_sets;
+create policy "Users manage own template sets"
+  on public.meal_template_sets for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- 2. Existing templates become each user's default set
+insert into public.meal_template_sets (user_id, name, is_default)
+select distinct user_id, 'Habitual', true
+from public.meal_templates
+on conflict (user_id) where is_default do nothing;
+
+alter table public.meal_templates
+  add column if not exists template_id uuid references public.meal_template_sets(id) on delete cascade;
+
+update public.meal_templates t
+set template_id = s.id
+from public.meal_template_sets s
+where s.user_id = t.user_id and s.is_default and t.template_id is null;
+
+-- Rows saved without a set (older clients) go to the user's default set
+create or replace function public.assign_default_meal_template()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.template_id is null then
+    select id into new.template_id
+    from meal_template_sets
+    where user_id = new.user_id and is_default;
+
+    if new.template_id is null then
+      insert into meal_template_sets (user_id, name, is_default)
+      values (new.user_id, 'Habitual', true)
+      returning id into new.template_id;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_default_meal_template on public.meal_templates;
+create trigger assign_default_meal_template
+  before insert on public.meal_templates
+  for each row execute function public.assign_default_meal_template();
+
+alter table public.meal_templates alter column template_id set not null;
+
+alter table public.meal_templates drop constraint if exists meal_templates_user_id_day_of_week_meal_type_key;
+alter table public.meal_templates drop constraint if exists meal_templates_template_day_meal_key;
+alter table public.meal_templates
+  add constraint meal_templates_template_day_meal_key unique (template_id, day_of_week, meal_type);
+
+-- 3. Resolution
+create or replace function public.active_meal_template(p_user_id uuid, p_date date)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id
+  from meal_template_sets
+  where user_id = p_user_id
+    and (valid_from is null or valid_from <= p_date)
+    and (valid_to is null or valid_to >= p_date)
+    and (
+      week_rotation = 'all'
+      or (week_rotation = 'odd' and extract(week from p_date)::int % 2 = 1)
+      or (week_rotation = 'even' and extract(week from p_date)::int % 2 = 0)
+    )
+  -- Named sets before the default; dated before undated; rotating before every week; newest first
+  order by is_default,
+    (valid_from is not null or valid_to is not null) desc,
+    (week_rotation <> 'all') desc,
+    created_at desc
+  limit 1;
+$$;
+
+create or replace function public.meal_template_option(p_user_id uuid, p_date date, p_meal_type text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select option
+  from meal_templates
+  where template_id = active_meal_template(p_user_id, p_date)
+    and day_of_week = extract(isodow from p_date)
+    and meal_type = p_meal_type;
+$$;
+
+grant execute on function public.meal_template_option(uuid, date, text) to authenticated;
+
+-- 4. Order triggers and the override RPC read the active set from now on
+-- (same bodies as in meal_order_deadlines.sql and meal_order_history.sql otherwise)
+create or replace function public.enforce_meal_order_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row meal_orders%rowtype;
+  v_template text;
+  v_current text;
+  v_intended text;
+  v_reason text;
+begin
+  -- Service role jobs and the logged override path are trusted
+  if auth.uid() is null or current_setting('app.meal_lock_override', true) = 'on' then
+    return coalesce(new, old);
+  end if;
+
+  -- Status-only updates (e.g. marking as served) don't change what was ordered
+  if tg_op = 'UPDATE'
+    and new.date = old.date and new.meal_type = old.meal_type
+    and new.option is not distinct from old.option
+    and new.is_bag is not distinct from old.is_bag
+    and new.bag_time is not distinct from old.bag_time then
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then v_row := old; else v_row := new; end if;
+
+  -- Without an order row an absence means no meal; otherwise the resident's weekly template applies
+  if exists (
+    select 1 from user_absences
+    where user_id = v_row.user_id and v_row.date between start_date and end_date
+  ) then
+    v_template := 'skip';
+  else
+    v_template := meal_template_option(v_row.user_id, v_row.date, v_row.meal_type);
+  end if;
+
+  -- An upsert over an existing order still fires as INSERT: check against what is stored
+  if tg_op = 'INSERT' then
+    select option into v_current
+    from meal_orders
+    where user_id = new.user_id and date = new.date and meal_type = new.meal_type;
+    v_current := coalesce(v_current, v_template, 'skip');
+  else
+    v_current := old.option;
+  end if;
+  v_intended := case when tg_op = 'DELETE' then coalesce(v_template, 'skip') else new.option end;
+
+  v_reason := meal_order_lock_reason(v_row.date, v_row.meal_type, v_current, v_intended);
+  if v_reason is not null then
+    raise exception 'MEAL_LOCKED'
+      using detail = v_reason,
+            hint = 'Admins and kitchen staff can use override_meal_order()';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+create or replace function public.override_meal_order(
+  p_user_id uuid,
+  p_date date,
+  p_meal_type text,
+  p_option text,
+  p_is_bag boolean,
+  p_bag_time text,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous text;
+begin
+  if not exists (
+    select 1 from profiles
+    where profiles.id = auth.uid()
+    and (
+      profiles.role = 'ADMIN' or profiles.role = 'KITCHEN'
+      or (profiles.permissions->>'kitchen')::boolean = true
+      or public.has_granular_admin(auth.uid(), 'meals')
+    )
+  ) then
+    raise exception 'Only admins and kitchen staff can override meal orders';
+  end if;
+
+  select option into v_previous
+  from meal_orders
+  where user_id = p_user_id and date = p_date and meal_type = p_meal_type;
+
+  if v_previous is null then
+    if exists (
+      select 1 from user_absences
+      where user_id = p_user_id and p_date between start_date and end_date
+    ) then
+      v_previous := 'skip';
+    else
+      v_previous := meal_template_option(p_user_id, p_date, p_meal_type);
+    end if;
+  end if;
+
+  insert into meal_order_overrides (user_id, date, meal_type, previous_option, new_option, lock_reason, reason, changed_by)
+  values (
+    p_user_id, p_date, p_meal_type, v_previous, p_option,
+    meal_order_lock_reason(p_date, p_meal_type, coalesce(v_previous, 'skip'), p_option),
+    nullif(trim(p_reason), ''),
+    auth.uid()
+  );
+
+  perform set_config('app.meal_lock_override', 'on', true);
+
+  insert into meal_orders (user_id, date, meal_type, option, is_bag, bag_time, status)
+  values (p_user_id, p_date, p_meal_type, p_option, p_is_bag, case when p_is_bag then p_bag_time end, 'confirmed')
+  on conflict (user_id, date, meal_type) do update
+    set option = excluded.option,
+        is_bag = excluded.is_bag,
+        bag_time = excluded.bag_time,
+        status = excluded.status;
+
+  perform set_config('app.meal_lock_override', 'off', true);
+end;
+$$;
+
+create or replace function public.log_meal_order_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row meal_orders%rowtype;
+  v_source text := 'order';
+  v_old_option text;
+begin
+  if tg_op = 'DELETE' then v_row := old; else v_row := new; end if;
+
+  if tg_op = 'UPDATE'
+    and new.option is not distinct from old.option
+    and new.is_bag is not distinct from old.is_bag
+    and new.bag_time is not distinct from old.bag_time then
+    return new; -- Status-only updates
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- Same precedence as the daily plan: absence, then template
+    if exists (
+      select 1 from user_absences
+      where user_id = new.user_id and new.date between start_date and end_date
+    ) then
+      v_source := 'absence';
+      v_old_option := 'skip';
+    else
+      v_old_option := meal_template_option(new.user_id, new.date, new.meal_type);
+      v_source := case when v_old_option is null then 'none' else 'template' end;
+    end if;
+  else
+    v_old_option := old.option;
+  end if;
+
+  insert into meal_order_changes (
+    user_id, date, meal_type,
+    old_option, new_option,
+    old_is_bag, new_is_bag,
+    old_bag_time, new_bag_time,
+    previous_source, changed_by, is_override
+  ) values (
+    v_row.user_id, v_row.date, v_row.meal_type,
+    v_old_option, case when tg_op = 'DELETE' then null else new.option end,
+    case when tg_op = 'INSERT' then null else old.is_bag end, case when tg_op = 'DELETE' then null else new.is_bag end,
+    case when tg_op = 'INSERT' then null else old.bag_time end, case when tg_op = 'DELETE' then null else new.bag_time end,
+    v_source, auth.uid(), coalesce(current_setting('app.meal_lock_override', true), '') = 'on'
+  );
+
+  return coalesce(new, old);
+end;
+$$;
@@ -0,0 +1,76 @@
+-- Migration: Kitchen pantry inventory
+-- Description: Pantry items with unit, current stock and minimum level, an optional quantity per diner
+-- used to turn the meal forecast into a shopping list, and the deliveries that restock them.
+-- Execute this in your Supabase SQL Editor
+
+create table if not exists public.pantry_items (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  category text,
+  unit text not null default 'ud', -- 'kg', 'l', 'ud'...
+  stock numeric not null default 0,
+  min_stock numeric not null default 0,
+  per_serving numeric, -- Units used per diner, null when it doesn't scale with headcount
+  meal_types text[] not null default '{lunch,dinner}', -- Meals that use it
+  is_active boolean not null default true,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.pantry_deliveries (
+  id uuid default gen_random_uuid() primary key,
+  item_id uuid references public.pantry_items(id) on delete cascade not null,
+  quantity numeric not null check (quantity > 0),
+  supplier text,
+  notes text,
+  delivered_on date not null default current_date,
+  received_by uuid references auth.users(id),
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_pantry_deliveries_item on public.pantry_deliveries(item_id, delivered_on);
+
+alter table public.pantry_items enable row level security;
+alter table public.pantry_deliveries enable row level security;
+
+drop policy if exists "Kitchen manages pantry items" on public.pantry_items;
+create policy "Kitchen manages pantry items"
+  on public.pantry_items for all
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+drop policy if exists "Kitchen manages pantry deliveries" on public.pantry_deliveries;
+create policy "Kitchen manages pantry deliveries"
+  on public.pantry_deliveries for all
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+    )
+  );
+
+-- A delivery adds to the item's stock
+create or replace function public.apply_pantry_delivery()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update pantry_items
+  set stock = stock + new.quantity, updated_at = now()
+  where id = new.item_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_pantry_delivery on public.pantry_deliveries;
+create trigger apply_pantry_delivery
+  after insert on public.pantry_deliveries
+  for each row execute function public.apply_pantry_delivery();
@@ -0,0 +1,68 @@
+-- Migration: Recurring vehicle reservations
+-- Description: Groups the occurrences of a periodic booking under a common series_id
+-- Execute this in your Supabase SQL Editor
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS series_id UUID,
+ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+COMMENT ON COLUMN reservations.series_id IS 'Shared by every occurrence of a recurring reservation (NULL for one-off bookings)';
+COMMENT ON COLUMN reservations.recurrence IS 'Rule used to generate the series: { frequency, daysOfWeek, until, count }';
+
+-- Series-wide edits and cancellations filter by series_id
+CREATE INDEX IF NOT EXISTS idx_reservations_series_id
+ON reservations(series_id)
+WHERE series_id IS NOT NULL;
+
+-- ============================================
+-- MOVE A SERIES IN ONE TRANSACTION
+-- ============================================
+-- Shifts the ACTIVE, unfinished occurrences of the series ('ALL', or 'FOLLOWING' from this one on)
+-- by the offset applied to p_reservation_id. Any overlap aborts the whole move (error 23P01).
+-- Runs with the caller's rights, so the reservations RLS still decides what can be moved.
+CREATE OR REPLACE FUNCTION move_reservation_series(
+    p_reservation_id UUID,
+    p_scope TEXT,
+    p_start_time TIMESTAMPTZ,
+    p_end_time TIMESTAMPTZ
+)
+RETURNS SETOF reservations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    anchor reservations;
+    occ reservations;
+    start_offset INTERVAL;
+    end_offset INTERVAL;
+BEGIN
+    SELECT * INTO anchor FROM reservations WHERE id = p_reservation_id;
+    IF NOT FOUND OR anchor.series_id IS NULL THEN
+        RAISE EXCEPTION 'La reserva no pertenece a ninguna serie';
+    END IF;
+
+    start_offset := p_start_time - anchor.start_time;
+    end_offset := p_end_time - anchor.end_time;
+
+    -- Move in the direction of the shift so occurrences never overlap each other mid-update
+    FOR occ IN
+        SELECT * FROM reservations
+        WHERE series_id = anchor.series_id
+          AND status = 'ACTIVE'
+          AND end_time >= NOW()
+          AND (p_scope = 'ALL' OR start_time >= anchor.start_time)
+        ORDER BY
+            CASE WHEN start_offset > INTERVAL '0' THEN start_time END DESC,
+            start_time ASC
+    LOOP
+        RETURN QUERY
+        UPDATE reservations
+        SET start_time = occ.start_time + start_offset,
+            end_time = occ.end_time + end_offset
+        WHERE id = occ.id
+        RETURNING *;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_reservation_series(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,44 @@
+-- Migration: Reservation lifecycle automation
+-- Description: Tracks when a car is actually picked up and which automatic notices were sent,
+-- so the reservation-lifecycle edge function can remind, escalate overdue returns and
+-- release no-shows.
+-- Execute this in your Supabase SQL Editor
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS picked_up_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS end_reminder_sent_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS overdue_notified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN reservations.picked_up_at IS 'When the booker confirmed they took the car; NULL after the grace period = no-show';
+
+-- Bookings already under way when this runs must not be treated as no-shows
+UPDATE reservations
+SET picked_up_at = start_time
+WHERE status = 'ACTIVE' AND start_time <= NOW() AND picked_up_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_active_end ON reservations(end_time) WHERE status = 'ACTIVE';
+
+-- ============================================
+-- NEW ACTIVITY ACTIONS
+-- ============================================
+ALTER TABLE vehicle_activity DROP CONSTRAINT IF EXISTS vehicle_activity_action_check;
+ALTER TABLE vehicle_activity
+ADD CONSTRAINT vehicle_activity_action_check
+CHECK (action IN ('RESERVE', 'CANCEL', 'COMMENT', 'RETURN', 'EDIT', 'PICKUP', 'NO_SHOW', 'OVERDUE'));
+
+-- ============================================
+-- SCHEDULE
+-- ============================================
+-- Run the reservation-lifecycle edge function every 5 minutes (requires pg_cron and pg_net).
+-- Replace <project-ref> and <service-role-key> before running:
+--
+-- SELECT cron.schedule(
+--     'reservation-lifecycle',
+--     '*/5 * * * *',
+--     $$
+--     SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/reservation-lifecycle',
+--         headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb
+--     );
+--     $$
+-- );
@@ -0,0 +1,28 @@
+-- Migration: Server-side reservation overlap enforcement
+-- Description: Rejects overlapping ACTIVE reservations of the same car in the database,
+-- so two residents booking at the same time can't both succeed.
+-- Execute this in your Supabase SQL Editor
+
+-- Needed to combine the car_id equality with a range overlap in one GiST index
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- The constraint can't be created while overlapping ACTIVE rows exist.
+-- List them first and cancel the duplicates by hand if this returns anything:
+--
+-- SELECT a.id, b.id, a.car_id, a.start_time, a.end_time, b.start_time, b.end_time
+-- FROM reservations a
+-- JOIN reservations b ON a.car_id = b.car_id AND a.id < b.id
+-- WHERE a.status = 'ACTIVE' AND b.status = 'ACTIVE'
+--   AND tstzrange(a.start_time, a.end_time, '[)') && tstzrange(b.start_time, b.end_time, '[)');
+
+ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_no_overlap;
+
+-- Half-open ranges: a booking ending at 14:00 doesn't clash with one starting at 14:00
+ALTER TABLE reservations
+ADD CONSTRAINT reservations_no_overlap
+EXCLUDE USING gist (
+    car_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&
+) WHERE (status = 'ACTIVE');
+
+COMMENT ON CONSTRAINT reservations_no_overlap ON reservations IS 'ACTIVE reservations of the same car cannot overlap (error code 23P01)';
@@ -0,0 +1,70 @@
+-- Migration: Guests booked by residents
+-- Description: Residents can bring guests to a meal. Their rows carry host_id, are listed under the
+-- host and feed the monthly guest-meal report. The same deadlines as meal_orders apply to them;
+-- rows the kitchen adds (host_id null) are not checked.
+-- Execute this in your Supabase SQL Editor
+
+alter table public.meal_guests
+  add column if not exists host_id uuid references auth.users(id) on delete set null;
+
+create index if not exists idx_meal_guests_host on public.meal_guests(host_id, date);
+
+drop policy if exists "Residents add own guests" on public.meal_guests;
+create policy "Residents add own guests"
+  on public.meal_guests for insert
+  with check (host_id = auth.uid() and created_by = auth.uid());
+
+drop policy if exists "Residents update own guests" on public.meal_guests;
+create policy "Residents update own guests"
+  on public.meal_guests for update
+  using (host_id = auth.uid())
+  with check (host_id = auth.uid());
+
+drop policy if exists "Residents remove own guests" on public.meal_guests;
+create policy "Residents remove own guests"
+  on public.meal_guests for delete
+  using (host_id = auth.uid());
+
+-- Adding a guest is ordering the guest's option; removing one is going back to 'skip'
+create or replace function public.enforce_meal_guest_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row meal_guests%rowtype;
+  v_reason text;
+begin
+  if tg_op = 'DELETE' then v_row := old; else v_row := new; end if;
+
+  if auth.uid() is null or v_row.host_id is null then
+    return coalesce(new, old);
+  end if;
+
+  if exists (
+    select 1 from profiles
+    where profiles.id = auth.uid()
+    and (profiles.role = 'ADMIN' or profiles.role = 'KITCHEN' or (profiles.permissions->>'kitchen')::boolean = true)
+  ) then
+    return coalesce(new, old);
+  end if;
+
+  v_reason := meal_order_lock_reason(
+    v_row.date,
+    v_row.meal_type,
+    case when tg_op = 'INSERT' then 'skip' else old.option end,
+    case when tg_op = 'DELETE' then 'skip' else new.option end
+  );
+  if v_reason is not null then
+    raise exception 'MEAL_LOCKED' using detail = v_reason;
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists enforce_meal_guest_deadline on public.meal_guests;
+create trigger enforce_meal_guest_deadline
+  before insert or update or delete on public.meal_guests
+  for each row execute function public.enforce_meal_guest_deadline();
@@ -0,0 +1,33 @@
+-- Migration: Persisted vehicle activity log
+-- Description: Audit trail of everything that happens to a car's reservations
+-- (create, edit, cancel, return, notes). Backs the ActivityLog type in the app.
+-- Execute this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS vehicle_activity (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id UUID NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('RESERVE', 'CANCEL', 'COMMENT', 'RETURN', 'EDIT')),
+    details TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_activity_car_id ON vehicle_activity(car_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_activity_reservation_id ON vehicle_activity(reservation_id);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE vehicle_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view vehicle activity"
+ON vehicle_activity FOR SELECT
+TO authenticated
+USING (true);
+
+-- Entries are written by the acting user; the log is append-only (no update/delete policies)
+CREATE POLICY "Users can log their own vehicle activity"
+ON vehicle_activity FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,144 @@
+-- Migration: Vehicle odometer, fuel level and return check-in
+-- Description: Tracks the car's mileage/fuel and records a check-in every time a reservation is returned
+-- Execute this in your Supabase SQL Editor
+
+-- ============================================
+-- CARS: current odometer and fuel/charge level
+-- ============================================
+ALTER TABLE cars
+ADD COLUMN IF NOT EXISTS odometer_km INTEGER CHECK (odometer_km >= 0),
+ADD COLUMN IF NOT EXISTS fuel_level INTEGER CHECK (fuel_level BETWEEN 0 AND 100);
+
+-- The inline checks are skipped when the columns already exist, so (re)create them by name
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_odometer_km_check;
+ALTER TABLE cars ADD CONSTRAINT cars_odometer_km_check CHECK (odometer_km >= 0);
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_fuel_level_check;
+ALTER TABLE cars ADD CONSTRAINT cars_fuel_level_check CHECK (fuel_level BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN cars.odometer_km IS 'Last odometer reading, updated on every return check-in';
+COMMENT ON COLUMN cars.fuel_level IS 'Fuel (or battery charge for electric cars) percentage at the last return';
+
+-- ============================================
+-- RESERVATION RETURNS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS reservation_returns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL UNIQUE REFERENCES reservations(id) ON DELETE CASCADE,
+    car_id UUID NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    start_odometer_km INTEGER,
+    end_odometer_km INTEGER NOT NULL CHECK (end_odometer_km >= 0),
+    fuel_level INTEGER NOT NULL CHECK (fuel_level BETWEEN 0 AND 100),
+    cleanliness TEXT NOT NULL DEFAULT 'clean' CHECK (cleanliness IN ('clean', 'acceptable', 'dirty')),
+    damage_notes TEXT,
+    photo_urls TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (start_odometer_km IS NULL OR end_odometer_km >= start_odometer_km)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_returns_car_id ON reservation_returns(car_id, created_at DESC);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE reservation_returns ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see the history of the fleet
+CREATE POLICY "Authenticated users can view reservation returns"
+ON reservation_returns FOR SELECT
+TO authenticated
+USING (true);
+
+-- The booker returns their own reservation; vehicle admins can do it on their behalf
+CREATE POLICY "Bookers and vehicle admins can insert reservation returns"
+ON reservation_returns FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id = auth.uid()
+    AND (
+        EXISTS (
+            SELECT 1 FROM reservations
+            WHERE reservations.id = reservation_id
+            AND reservations.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND (profiles.role = 'ADMIN' OR (profiles.permissions->'vehicles'->>'admin')::boolean = true)
+        )
+    )
+);
+
+-- ============================================
+-- KEEP CAR ODOMETER / FUEL IN SYNC
+-- ============================================
+-- Runs as definer so residents without update rights on cars can still return a car
+CREATE OR REPLACE FUNCTION sync_car_after_return()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE cars
+    SET odometer_km = GREATEST(COALESCE(odometer_km, 0), NEW.end_odometer_km),
+        fuel_level = NEW.fuel_level
+    WHERE id = NEW.car_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_reservation_return_sync_car ON reservation_returns;
+CREATE TRIGGER on_reservation_return_sync_car
+    AFTER INSERT ON reservation_returns
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_car_after_return();
+
+-- ============================================
+-- FINISH A RESERVATION
+-- ============================================
+-- Records the return check-in (when given) and completes the booking in one transaction, so a
+-- failed status update never leaves a check-in behind. The end is only brought forward: a late
+-- return must not stretch the booking. Runs with the caller's rights (RLS applies).
+CREATE OR REPLACE FUNCTION finish_reservation(
+    p_reservation_id UUID,
+    p_end_odometer_km INTEGER DEFAULT NULL,
+    p_fuel_level INTEGER DEFAULT NULL,
+    p_cleanliness TEXT DEFAULT 'clean',
+    p_damage_notes TEXT DEFAULT NULL,
+    p_photo_urls TEXT[] DEFAULT '{}'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    res reservations;
+    start_km INTEGER;
+BEGIN
+    SELECT * INTO res FROM reservations WHERE id = p_reservation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reserva no encontrada';
+    END IF;
+
+    IF p_end_odometer_km IS NOT NULL THEN
+        SELECT odometer_km INTO start_km FROM cars WHERE id = res.car_id;
+
+        INSERT INTO reservation_returns (
+            reservation_id, car_id, user_id, start_odometer_km, end_odometer_km,
+            fuel_level, cleanliness, damage_notes, photo_urls
+        ) VALUES (
+            p_reservation_id, res.car_id, auth.uid(), start_km, p_end_odometer_km,
+            p_fuel_level, p_cleanliness, p_damage_notes, COALESCE(p_photo_urls, '{}')
+        );
+    END IF;
+
+    UPDATE reservations
+    SET end_time = LEAST(end_time, NOW()),
+        picked_up_at = COALESCE(picked_up_at, NOW()),
+        status = 'COMPLETED'
+    WHERE id = p_reservation_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No se ha podido finalizar la reserva';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finish_reservation(UUID, INTEGER, INTEGER, TEXT, TEXT, TEXT[]) TO authenticated;
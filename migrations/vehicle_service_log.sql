@@ -0,0 +1,262 @@
+-- Migration: Vehicle service log and workshop windows
+-- Description: Per-car history of inspections (ITV), oil changes, tyre changes and insurance renewals,
+-- with cost, workshop, invoices and next due date. A record can carry a workshop window during which
+-- the car can't be reserved; cars.in_workshop follows the windows as they open and close.
+-- Execute this in your Supabase SQL Editor
+
+-- ============================================
+-- VEHICLE SERVICES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS vehicle_services (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id UUID NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('itv', 'oil', 'tyres', 'insurance', 'other')),
+    service_date DATE NOT NULL,
+    next_due_date DATE, -- Next ITV, oil change, insurance renewal...
+    cost NUMERIC(10, 2) CHECK (cost >= 0),
+    workshop TEXT,
+    notes TEXT,
+    invoice_urls TEXT[] NOT NULL DEFAULT '{}',
+    workshop_start TIMESTAMPTZ, -- Car unavailable from...
+    workshop_end TIMESTAMPTZ,   -- ...until
+    workshop_flagged BOOLEAN NOT NULL DEFAULT false, -- This window set cars.in_workshop
+    reminder_sent_at TIMESTAMPTZ, -- Set by the service-reminders function
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK ((workshop_start IS NULL) = (workshop_end IS NULL)),
+    CHECK (workshop_end IS NULL OR workshop_end > workshop_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_services_car_id ON vehicle_services(car_id, service_date DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_services_next_due ON vehicle_services(next_due_date) WHERE next_due_date IS NOT NULL;
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE vehicle_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view vehicle services"
+ON vehicle_services FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Vehicle admins can manage vehicle services"
+ON vehicle_services FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND (profiles.role = 'ADMIN' OR (profiles.permissions->'vehicles'->>'admin')::boolean = true)
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND (profiles.role = 'ADMIN' OR (profiles.permissions->'vehicles'->>'admin')::boolean = true)
+    )
+);
+
+-- ============================================
+-- KEEP cars.next_revision IN SYNC
+-- ============================================
+-- next_revision becomes the earliest upcoming due date among the latest record of each service type
+CREATE OR REPLACE FUNCTION sync_car_next_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_car UUID := COALESCE(NEW.car_id, OLD.car_id);
+    next_due DATE;
+BEGIN
+    SELECT MIN(latest.next_due_date) INTO next_due
+    FROM (
+        SELECT DISTINCT ON (type) next_due_date
+        FROM vehicle_services
+        WHERE car_id = target_car
+        ORDER BY type, service_date DESC, created_at DESC
+    ) latest
+    WHERE latest.next_due_date >= CURRENT_DATE;
+
+    -- Null once nothing is due any more
+    UPDATE cars SET next_revision = next_due WHERE id = target_car;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_vehicle_service_sync_next_revision ON vehicle_services;
+CREATE TRIGGER on_vehicle_service_sync_next_revision
+    AFTER INSERT OR UPDATE OR DELETE ON vehicle_services
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_car_next_revision();
+
+-- ============================================
+-- BLOCK RESERVATIONS DURING WORKSHOP WINDOWS
+-- ============================================
+CREATE OR REPLACE FUNCTION check_reservation_workshop_window()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'ACTIVE' AND EXISTS (
+        SELECT 1 FROM vehicle_services
+        WHERE car_id = NEW.car_id
+          AND workshop_start IS NOT NULL
+          AND tstzrange(workshop_start, workshop_end, '[)') && tstzrange(NEW.start_time, NEW.end_time, '[)')
+    ) THEN
+        RAISE EXCEPTION 'El coche estará en el taller en ese horario';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_reservation_check_workshop ON reservations;
+CREATE TRIGGER on_reservation_check_workshop
+    BEFORE INSERT OR UPDATE OF start_time, end_time, status, car_id ON reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION check_reservation_workshop_window();
+
+-- ============================================
+-- SAVE A RECORD AND CLEAR ITS WINDOW
+-- ============================================
+-- Inserts the record and cancels the ACTIVE bookings its workshop window overlaps in one
+-- transaction, logging each cancellation. Returns { record, cancelled } so the app can tell the
+-- bookers. Runs with the caller's rights (vehicle admins, per the policies above).
+CREATE OR REPLACE FUNCTION add_vehicle_service(
+    p_car_id UUID,
+    p_type TEXT,
+    p_service_date DATE,
+    p_next_due_date DATE,
+    p_cost NUMERIC,
+    p_workshop TEXT,
+    p_notes TEXT,
+    p_invoice_urls TEXT[],
+    p_workshop_start TIMESTAMPTZ,
+    p_workshop_end TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    rec vehicle_services;
+    cancelled JSONB;
+BEGIN
+    INSERT INTO vehicle_services (
+        car_id, type, service_date, next_due_date, cost, workshop, notes,
+        invoice_urls, workshop_start, workshop_end, created_by
+    ) VALUES (
+        p_car_id, p_type, p_service_date, p_next_due_date, p_cost, p_workshop, p_notes,
+        COALESCE(p_invoice_urls, '{}'), p_workshop_start, p_workshop_end, auth.uid()
+    )
+    RETURNING * INTO rec;
+
+    IF p_workshop_start IS NOT NULL THEN
+        WITH affected AS (
+            UPDATE reservations
+            SET status = 'CANCELLED'
+            WHERE car_id = p_car_id
+              AND status = 'ACTIVE'
+              AND start_time < p_workshop_end
+              AND end_time > p_workshop_start
+            RETURNING *
+        ), logged AS (
+            INSERT INTO vehicle_activity (car_id, reservation_id, user_id, action, details)
+            SELECT car_id, id, auth.uid(), 'CANCEL', 'El coche pasa por el taller'
+            FROM affected
+        )
+        SELECT jsonb_agg(
+            to_jsonb(a) || jsonb_build_object('user', jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url))
+            ORDER BY a.start_time
+        )
+        INTO cancelled
+        FROM affected a
+        LEFT JOIN profiles p ON p.id = a.user_id;
+    END IF;
+
+    RETURN jsonb_build_object('record', to_jsonb(rec), 'cancelled', COALESCE(cancelled, '[]'::jsonb));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_vehicle_service(UUID, TEXT, DATE, DATE, NUMERIC, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+-- ============================================
+-- FLAG CARS WHILE A WORKSHOP WINDOW IS OPEN
+-- ============================================
+-- Sets cars.in_workshop when a window starts and clears it when the window ends (unless another
+-- one is still open). Runs whenever a window is saved and from the reservation-lifecycle job,
+-- so windows booked ahead of time take effect on their own.
+CREATE OR REPLACE FUNCTION sync_workshop_flags()
+RETURNS VOID AS $$
+BEGIN
+    WITH started AS (
+        UPDATE vehicle_services
+        SET workshop_flagged = true
+        WHERE NOT workshop_flagged
+          AND workshop_start <= NOW()
+          AND workshop_end > NOW()
+        RETURNING car_id
+    )
+    UPDATE cars SET in_workshop = true
+    WHERE id IN (SELECT car_id FROM started);
+
+    WITH ended AS (
+        UPDATE vehicle_services
+        SET workshop_flagged = false
+        WHERE workshop_flagged
+          AND (workshop_end IS NULL OR workshop_end <= NOW() OR workshop_start > NOW())
+        RETURNING car_id
+    )
+    UPDATE cars SET in_workshop = false
+    WHERE id IN (SELECT car_id FROM ended)
+      AND NOT EXISTS (
+          SELECT 1 FROM vehicle_services s
+          WHERE s.car_id = cars.id
+            AND s.workshop_start <= NOW()
+            AND s.workshop_end > NOW()
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_workshop_flags() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_workshop_flags() TO service_role;
+
+CREATE OR REPLACE FUNCTION on_vehicle_service_window_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- A deleted record can't be unflagged by the sync: release its car here
+    IF TG_OP = 'DELETE' AND OLD.workshop_flagged THEN
+        UPDATE cars SET in_workshop = false
+        WHERE id = OLD.car_id
+          AND NOT EXISTS (
+              SELECT 1 FROM vehicle_services s
+              WHERE s.car_id = OLD.car_id
+                AND s.workshop_start <= NOW()
+                AND s.workshop_end > NOW()
+          );
+    END IF;
+
+    PERFORM sync_workshop_flags();
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_vehicle_service_sync_workshop ON vehicle_services;
+CREATE TRIGGER on_vehicle_service_sync_workshop
+    AFTER INSERT OR DELETE OR UPDATE OF workshop_start, workshop_end ON vehicle_services
+    FOR EACH ROW
+    EXECUTE FUNCTION on_vehicle_service_window_change();
+
+-- ============================================
+-- DAILY REMINDERS
+-- ============================================
+-- Schedule the service-reminders edge function once a day (requires pg_cron and pg_net).
+-- Replace <project-ref> and <service-role-key> before running:
+--
+-- SELECT cron.schedule(
+--     'vehicle-service-reminders',
+--     '0 8 * * *',
+--     $$
+--     SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/service-reminders',
+--         headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb
+--     );
+--     $$
+-- );
@@ -0,0 +1,170 @@
+-- Migration: Vehicle waitlist
+-- Description: Residents can queue for a car (or any car) and time window that is already booked.
+-- When a reservation is cancelled or returned early, a trigger offers the slot to the first matching
+-- entry and the push-waitlist-offers function notifies them. An offer that is declined, fails to
+-- book or isn't taken within 30 minutes passes on to the next entry.
+-- Execute this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS vehicle_waitlist (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    car_id UUID REFERENCES cars(id) ON DELETE CASCADE, -- NULL = any available car
+    offered_car_id UUID REFERENCES cars(id) ON DELETE SET NULL, -- Car that freed up for this entry
+    start_time TIMESTAMPTZ NOT NULL,
+    end_time TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'WAITING' CHECK (status IN ('WAITING', 'NOTIFIED', 'BOOKED', 'CANCELLED', 'EXPIRED')),
+    notified_at TIMESTAMPTZ,
+    pushed_at TIMESTAMPTZ, -- Set once the offer is pushed (push-waitlist-offers)
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_waitlist_waiting ON vehicle_waitlist(created_at) WHERE status = 'WAITING';
+CREATE INDEX IF NOT EXISTS idx_vehicle_waitlist_user_id ON vehicle_waitlist(user_id);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE vehicle_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries"
+ON vehicle_waitlist FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can join the waitlist"
+ON vehicle_waitlist FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own waitlist entries"
+ON vehicle_waitlist FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- ============================================
+-- OFFER A FREED SLOT
+-- ============================================
+-- Picks the oldest WAITING entry for this car (or for any car) whose whole window is now free
+-- and marks it NOTIFIED. Only reachable from the trigger below and the service role: residents
+-- must not be able to mark, or read, other residents' entries.
+CREATE OR REPLACE FUNCTION claim_waitlist_slot(p_car_id UUID, p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS SETOF vehicle_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    entry vehicle_waitlist;
+BEGIN
+    IF EXISTS (SELECT 1 FROM cars WHERE id = p_car_id AND in_workshop = true) THEN
+        RETURN;
+    END IF;
+
+    SELECT w.* INTO entry
+    FROM vehicle_waitlist w
+    WHERE w.status = 'WAITING'
+      AND (w.car_id = p_car_id OR w.car_id IS NULL)
+      AND w.end_time > NOW()
+      AND w.start_time < p_end
+      AND w.end_time > p_start
+      AND NOT EXISTS (
+          SELECT 1 FROM reservations r
+          WHERE r.car_id = p_car_id
+            AND r.status = 'ACTIVE'
+            AND tstzrange(r.start_time, r.end_time, '[)') && tstzrange(w.start_time, w.end_time, '[)')
+      )
+    ORDER BY w.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE vehicle_waitlist
+    SET status = 'NOTIFIED', offered_car_id = p_car_id, notified_at = NOW()
+    WHERE id = entry.id
+    RETURNING * INTO entry;
+
+    RETURN NEXT entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_waitlist_slot(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_waitlist_slot(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+
+-- A booking that is cancelled, or returned before its end, frees what is left of its window
+CREATE OR REPLACE FUNCTION offer_freed_reservation_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status = 'ACTIVE'
+       AND NEW.status IN ('CANCELLED', 'COMPLETED')
+       AND OLD.end_time > NOW() THEN
+        PERFORM claim_waitlist_slot(OLD.car_id, GREATEST(OLD.start_time, NOW()), OLD.end_time);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_reservation_offer_waitlist ON reservations;
+CREATE TRIGGER on_reservation_offer_waitlist
+    AFTER UPDATE OF status ON reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION offer_freed_reservation_slot();
+
+-- ============================================
+-- PASS AN OFFER ON
+-- ============================================
+-- An offer that ends without a booking (declined, expired, or put back to WAITING after a failed
+-- booking) is offered to the next matching entry
+CREATE OR REPLACE FUNCTION pass_waitlist_offer_on()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status = 'NOTIFIED'
+       AND NEW.status IN ('WAITING', 'CANCELLED', 'EXPIRED')
+       AND OLD.offered_car_id IS NOT NULL
+       AND OLD.end_time > NOW() THEN
+        PERFORM claim_waitlist_slot(OLD.offered_car_id, GREATEST(OLD.start_time, NOW()), OLD.end_time);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_waitlist_offer_released ON vehicle_waitlist;
+CREATE TRIGGER on_waitlist_offer_released
+    AFTER UPDATE OF status ON vehicle_waitlist
+    FOR EACH ROW
+    EXECUTE FUNCTION pass_waitlist_offer_on();
+
+-- Offers not taken within 30 minutes expire (keep in sync with WAITLIST_OFFER_TTL_MINUTES in
+-- supabase/functions/_shared/waitlistOffers.ts). Run by push-waitlist-offers and reservation-lifecycle.
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired INTEGER;
+BEGIN
+    UPDATE vehicle_waitlist
+    SET status = 'EXPIRED'
+    WHERE status = 'NOTIFIED'
+      AND (notified_at < NOW() - INTERVAL '30 minutes' OR end_time <= NOW());
+
+    GET DIAGNOSTICS expired = ROW_COUNT;
+    RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO service_role;
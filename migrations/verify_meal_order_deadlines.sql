@@ -0,0 +1,50 @@
+-- Check: meal order deadlines with upserts over an existing order
+-- Description: Runs against the real enforce_meal_order_deadline trigger inside a transaction that
+-- is rolled back, so nothing is kept. The app saves orders with an upsert, which fires the trigger
+-- as INSERT even when the row already exists: the lock must be checked against the stored order.
+-- Execute this in your Supabase SQL Editor; it prints OK or raises the failing case.
+
+begin;
+
+do $$
+declare
+  v_user uuid := (select id from profiles limit 1);
+  v_date date := current_date + 7;
+begin
+  -- Setup as a trusted job: an explicit tupper lunch on a day the kitchen has closed
+  perform set_config('app.meal_lock_override', 'on', true);
+
+  insert into meal_orders (user_id, date, meal_type, option, is_bag, status)
+  values (v_user, v_date, 'lunch', 'tupper', false, 'confirmed')
+  on conflict (user_id, date, meal_type) do update set option = excluded.option;
+
+  insert into daily_meal_status (date, meal_type, is_locked)
+  values (v_date, 'lunch', true)
+  on conflict (date, meal_type) do update set is_locked = true;
+
+  perform set_config('app.meal_lock_override', 'off', true);
+
+  -- From here on, act as the resident
+  perform set_config('request.jwt.claims', json_build_object('sub', v_user, 'role', 'authenticated')::text, true);
+
+  -- 1. Dropping the tupper is a prep release, whatever the template says
+  insert into meal_orders (user_id, date, meal_type, option, is_bag, status)
+  values (v_user, v_date, 'lunch', 'skip', false, 'confirmed')
+  on conflict (user_id, date, meal_type) do update set option = excluded.option;
+
+  -- 2. Any other change to the stored order is rejected, even if the template needs prep
+  begin
+    insert into meal_orders (user_id, date, meal_type, option, is_bag, status)
+    values (v_user, v_date, 'lunch', 'standard', false, 'confirmed')
+    on conflict (user_id, date, meal_type) do update set option = excluded.option;
+
+    raise exception 'FAIL: an upsert over a closed order was accepted';
+  exception when others then
+    if sqlerrm <> 'MEAL_LOCKED' then raise; end if;
+  end;
+
+  raise notice 'OK: upserts are checked against the stored order';
+end;
+$$;
+
+rollback;
@@ -39,6 +39,9 @@ self.addEventListener('notificationclick', (event) => {
 
     event.notification.close();
 
+    // Deep link sent in the payload data (e.g. waitlist offers), otherwise the home screen
+    const targetUrl = event.notification.data?.FCM_MSG?.data?.url || event.notification.data?.url || '/';
+
     // Open the app or focus existing window
     event.waitUntil(
         clients.matchAll({ type: 'window', includeUncontrolled: true })
@@ -46,12 +49,15 @@ self.addEventListener('notificationclick', (event) => {
                 // If a window is already open, focus it
                 for (const client of clientList) {
                     if (client.url.includes(self.location.origin) && 'focus' in client) {
+                        if (targetUrl !== '/' && 'navigate' in client) {
+                            return client.navigate(targetUrl).then((c) => (c || client).focus());
+                        }
                         return client.focus();
                     }
                 }
                 // Otherwise, open a new window
                 if (clients.openWindow) {
-                    return clients.openWindow('/');
+                    return clients.openWindow(targetUrl);
                 }
             })
     );
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { MealAttendance } from '../types';
+
+const mapAttendance = (row: any): MealAttendance => ({
+    id: row.id,
+    date: row.date,
+    mealType: row.meal_type,
+    userId: row.user_id,
+    orderedOption: row.ordered_option,
+    served: row.served,
+    markedAt: row.marked_at
+});
+
+export const attendanceService = {
+    async getAttendance(date: string, mealType: string): Promise<MealAttendance[]> {
+        const { data, error } = await supabase
+            .from('meal_attendance')
+            .select('*')
+            .eq('date', date)
+            .eq('meal_type', mealType);
+
+        if (error) throw error;
+        return data.map(mapAttendance);
+    },
+
+    async getAttendanceInRange(startDate: string, endDate: string): Promise<MealAttendance[]> {
+        const { data, error } = await supabase
+            .from('meal_attendance')
+            .select('*')
+            .gte('date', startDate)
+            .lte('date', endDate);
+
+        if (error) throw error;
+        return data.map(mapAttendance);
+    },
+
+    async setServed(date: string, mealType: string, userId: string, orderedOption: string, served: boolean): Promise<MealAttendance> {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { data, error } = await supabase
+            .from('meal_attendance')
+            .upsert({
+                date,
+                meal_type: mealType,
+                user_id: userId,
+                ordered_option: orderedOption,
+                served,
+                marked_by: user?.id,
+                marked_at: new Date().toISOString()
+            }, { onConflict: 'date,meal_type,user_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapAttendance(data);
+    },
+
+    // Everyone still unmarked when the service ends did not show up
+    async closeService(date: string, mealType: string, pending: { userId: string; option: string }[]): Promise<void> {
+        if (pending.length === 0) return;
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { error } = await supabase
+            .from('meal_attendance')
+            .upsert(pending.map(p => ({
+                date,
+                meal_type: mealType,
+                user_id: p.userId,
+                ordered_option: p.option,
+                served: false,
+                marked_by: user?.id
+            })), { onConflict: 'date,meal_type,user_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+    }
+};
@@ -136,7 +136,10 @@ export const authService = {
                     dietNumber: profile?.diet_number,
                     hasDiet: profile?.has_diet,
                     dietName: profile?.diet_name,
-                    dietNotes: profile?.diet_notes
+                    dietNotes: profile?.diet_notes,
+                    allergens: profile?.allergens || [],
+                    dietValidFrom: profile?.diet_valid_from || undefined,
+                    dietValidTo: profile?.diet_valid_to || undefined
                 };
             }
         } catch (error) {
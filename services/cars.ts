@@ -19,7 +19,10 @@ export const carService = {
             fuelType: car.fuel_type,
             nextServiceDate: car.next_revision,
             inWorkshop: car.in_workshop || false,
-            assignedUserId: car.assigned_user_id
+            assignedUserId: car.assigned_user_id,
+            odometerKm: car.odometer_km ?? undefined,
+            fuelLevel: car.fuel_level ?? undefined,
+            seats: car.seats ?? undefined
         }));
     },
 
@@ -33,7 +36,9 @@ export const carService = {
                 status: car.status,
                 fuel_type: car.fuelType,
                 next_revision: car.nextServiceDate,
-                assigned_user_id: car.assignedUserId
+                assigned_user_id: car.assignedUserId,
+                odometer_km: car.odometerKm,
+                seats: car.seats
             })
             .select()
             .single();
@@ -49,7 +54,10 @@ export const carService = {
             fuelType: data.fuel_type,
             nextServiceDate: data.next_revision,
             inWorkshop: data.in_workshop || false,
-            assignedUserId: data.assigned_user_id
+            assignedUserId: data.assigned_user_id,
+            odometerKm: data.odometer_km ?? undefined,
+            fuelLevel: data.fuel_level ?? undefined,
+            seats: data.seats ?? undefined
         };
 
         // If an encargado is assigned, create a task
@@ -87,6 +95,9 @@ export const carService = {
         if (updates.nextServiceDate !== undefined) dbUpdates.next_revision = updates.nextServiceDate;
         if (updates.inWorkshop !== undefined) dbUpdates.in_workshop = updates.inWorkshop;
         if (updates.assignedUserId !== undefined) dbUpdates.assigned_user_id = updates.assignedUserId;
+        if (updates.odometerKm !== undefined) dbUpdates.odometer_km = updates.odometerKm;
+        if (updates.fuelLevel !== undefined) dbUpdates.fuel_level = updates.fuelLevel;
+        if (updates.seats !== undefined) dbUpdates.seats = updates.seats;
 
         const { data, error } = await supabase
             .from('cars')
@@ -106,7 +117,10 @@ export const carService = {
             fuelType: data.fuel_type,
             nextServiceDate: data.next_revision,
             inWorkshop: data.in_workshop || false,
-            assignedUserId: data.assigned_user_id
+            assignedUserId: data.assigned_user_id,
+            odometerKm: data.odometer_km ?? undefined,
+            fuelLevel: data.fuel_level ?? undefined,
+            seats: data.seats ?? undefined
         };
 
         // If assignedUserId changed, handle tasks
@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+import { GuestDriver, Reservation } from '../types';
+
+const mapGuest = (row: any): GuestDriver => ({
+    id: row.id,
+    name: row.name,
+    phone: row.phone || undefined,
+    licenseNumber: row.license_number || undefined,
+    licenseExpiry: row.license_expiry || undefined,
+    vouchedBy: row.vouched_by || undefined,
+    vouchedByName: row.voucher?.full_name,
+    createdAt: row.created_at
+});
+
+// A license is valid through its expiry day
+export const isLicenseExpired = (guest: GuestDriver, on: Date = new Date()): boolean => {
+    if (!guest.licenseExpiry) return false;
+    return new Date(`${guest.licenseExpiry}T23:59:59`) < on;
+};
+
+export const guestDriverService = {
+    getGuests: async (): Promise<GuestDriver[]> => {
+        const { data, error } = await supabase
+            .from('guest_drivers')
+            .select('*, voucher:profiles!vouched_by(full_name)')
+            .order('name');
+
+        if (error) throw new Error(error.message);
+        return data.map(mapGuest);
+    },
+
+    createGuest: async (guest: Omit<GuestDriver, 'id' | 'createdAt' | 'vouchedBy' | 'vouchedByName'>): Promise<GuestDriver> => {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Usuario no autenticado');
+
+        const { data, error } = await supabase
+            .from('guest_drivers')
+            .insert({
+                name: guest.name.trim(),
+                phone: guest.phone || null,
+                license_number: guest.licenseNumber || null,
+                license_expiry: guest.licenseExpiry || null,
+                vouched_by: user.id
+            })
+            .select('*, voucher:profiles!vouched_by(full_name)')
+            .single();
+
+        if (error) throw new Error(error.message);
+        return mapGuest(data);
+    },
+
+    updateGuest: async (id: string, updates: Partial<Omit<GuestDriver, 'id' | 'createdAt' | 'vouchedBy' | 'vouchedByName'>>): Promise<void> => {
+        const dbUpdates: any = {};
+        if (updates.name !== undefined) dbUpdates.name = updates.name.trim();
+        if (updates.phone !== undefined) dbUpdates.phone = updates.phone || null;
+        if (updates.licenseNumber !== undefined) dbUpdates.license_number = updates.licenseNumber || null;
+        if (updates.licenseExpiry !== undefined) dbUpdates.license_expiry = updates.licenseExpiry || null;
+
+        const { error } = await supabase
+            .from('guest_drivers')
+            .update(dbUpdates)
+            .eq('id', id);
+
+        if (error) throw new Error(error.message);
+    },
+
+    // Every trip booked on the guest's behalf, newest first
+    getTrips: async (guestId: string): Promise<(Reservation & { carName?: string })[]> => {
+        const { data, error } = await supabase
+            .from('reservations')
+            .select('*, user:profiles(full_name, avatar_url), car:cars(name)')
+            .eq('guest_driver_id', guestId)
+            .order('start_time', { ascending: false });
+
+        if (error) throw new Error(error.message);
+
+        return data.map((res: any) => ({
+            id: res.id,
+            carId: res.car_id,
+            carName: res.car?.name,
+            userId: res.user_id,
+            userName: res.user?.full_name || 'Usuario',
+            userAvatar: res.user?.avatar_url,
+            startTime: res.start_time,
+            endTime: res.end_time,
+            status: res.status,
+            notes: res.notes,
+            isForGuest: true,
+            guestName: res.guest_name,
+            guestDriverId: res.guest_driver_id
+        }));
+    }
+};
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { KitchenConfig, Holiday } from '../types';
+import { MealLockReason, MEAL_LOCK_MESSAGES } from '../utils/mealLocks';
 
 export interface MealGuest {
     id: string;
@@ -10,6 +11,7 @@ export interface MealGuest {
     isBag: boolean;
     notes?: string;
     createdBy?: string;
+    hostId?: string; // Resident who brings them; kitchen-added guests have none
 }
 
 export interface DailyLock {
@@ -19,6 +21,12 @@ export interface DailyLock {
     isLocked: boolean; // Computed from all meals
 }
 
+// Raised by the enforce_meal_guest_deadline trigger on guests booked by residents
+const guestError = (error: any) =>
+    error.message === 'MEAL_LOCKED'
+        ? new Error(MEAL_LOCK_MESSAGES[error.details as MealLockReason] || 'El pedido ya está cerrado')
+        : error;
+
 export const kitchenService = {
     // --- Config ---
     async getConfig(): Promise<KitchenConfig> {
@@ -109,6 +117,19 @@ export const kitchenService = {
         return data.some((d: any) => d.is_locked);
     },
 
+    // Days in the range with at least one meal locked, in the shape used by utils/mealLocks
+    async getLocksInRange(startDate: string, endDate: string): Promise<{ date: string; isLocked: boolean }[]> {
+        const { data, error } = await supabase
+            .from('daily_meal_status')
+            .select('date, is_locked')
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .eq('is_locked', true);
+
+        if (error) throw error;
+        return data.map((d: any) => ({ date: d.date, isLocked: d.is_locked }));
+    },
+
     // Explicitly fetching lock Objects for a date is useful for the manager
     async getLocks(date: string): Promise<DailyLock[]> {
         const { data, error } = await supabase
@@ -164,11 +185,43 @@ export const kitchenService = {
             option: d.option || 'standard',
             isBag: d.is_bag || false,
             notes: d.notes,
-            createdBy: d.created_by
+            createdBy: d.created_by,
+            hostId: d.host_id || undefined
+        }));
+    },
+
+    async getGuestsInRange(startDate: string, endDate: string): Promise<MealGuest[]> {
+        const { data, error } = await supabase
+            .from('meal_guests')
+            .select('*')
+            .gte('date', startDate)
+            .lte('date', endDate);
+
+        if (error) throw error;
+
+        return data.map((d: any) => ({
+            id: d.id,
+            date: d.date,
+            mealType: d.meal_type,
+            count: d.count,
+            option: d.option || 'standard',
+            isBag: d.is_bag || false,
+            notes: d.notes,
+            createdBy: d.created_by,
+            hostId: d.host_id || undefined
         }));
     },
 
-    async addGuest(date: string, mealType: string, count: number, option: string = 'standard', isBag: boolean = false, notes?: string): Promise<MealGuest> {
+    async getMyGuests(startDate: string, endDate: string): Promise<MealGuest[]> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return [];
+
+        const guests = await this.getGuestsInRange(startDate, endDate);
+        return guests.filter(g => g.hostId === user.id);
+    },
+
+    // With `asHost` the guests are booked by the current resident, under the same deadlines as their own meals
+    async addGuest(date: string, mealType: string, count: number, option: string = 'standard', isBag: boolean = false, notes?: string, asHost: boolean = false): Promise<MealGuest> {
         const { data: { user } } = await supabase.auth.getUser();
 
         const { data, error } = await supabase
@@ -180,12 +233,13 @@ export const kitchenService = {
                 option,
                 is_bag: isBag,
                 notes,
-                created_by: user?.id
+                created_by: user?.id,
+                host_id: asHost ? user?.id : null
             })
             .select()
             .single();
 
-        if (error) throw error;
+        if (error) throw guestError(error);
         return {
             id: data.id,
             date: data.date,
@@ -194,7 +248,8 @@ export const kitchenService = {
             option: data.option,
             isBag: data.is_bag,
             notes: data.notes,
-            createdBy: data.created_by
+            createdBy: data.created_by,
+            hostId: data.host_id || undefined
         };
     },
 
@@ -204,6 +259,6 @@ export const kitchenService = {
             .delete()
             .eq('id', id);
 
-        if (error) throw error;
+        if (error) throw guestError(error);
     }
 };
@@ -0,0 +1,159 @@
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { supabase } from './supabase';
+import { MealChangeRequest } from '../types';
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'el desayuno',
+    lunch: 'la comida',
+    dinner: 'la cena'
+};
+
+const mapRequest = (row: any, userName?: string): MealChangeRequest => ({
+    id: row.id,
+    userId: row.user_id,
+    userName,
+    date: row.date,
+    mealType: row.meal_type,
+    currentOption: row.current_option,
+    requestedOption: row.requested_option,
+    isBag: row.is_bag || false,
+    bagTime: row.bag_time || undefined,
+    note: row.note || undefined,
+    status: row.status,
+    responseNote: row.response_note || undefined,
+    respondedBy: row.responded_by || undefined,
+    respondedAt: row.responded_at || undefined,
+    createdAt: row.created_at
+});
+
+const describeMeal = (request: MealChangeRequest) =>
+    `${MEAL_NAMES[request.mealType] || request.mealType} del ${format(parseISO(request.date), "EEEE d 'de' MMMM", { locale: es })}`;
+
+export const mealChangeRequestService = {
+    async submit(date: string, mealType: string, currentOption: string, requestedOption: string, isBag: boolean, note: string, bagTime?: string | null): Promise<MealChangeRequest> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data, error } = await supabase
+            .from('meal_change_requests')
+            .insert({
+                user_id: user.id,
+                date,
+                meal_type: mealType,
+                current_option: currentOption,
+                requested_option: requestedOption,
+                is_bag: isBag,
+                bag_time: isBag ? bagTime || null : null,
+                note: note.trim() || null
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === '23505') throw new Error('Ya tienes una solicitud pendiente para esta comida');
+            throw error;
+        }
+
+        const request = mapRequest(data, user.user_metadata?.full_name);
+
+        try {
+            await supabase.functions.invoke('send-notification', {
+                body: {
+                    role: 'KITCHEN',
+                    title: `Cambio tardío: ${request.userName || 'un residente'}`,
+                    body: `Pide cambiar ${describeMeal(request)}${request.note ? `: ${request.note}` : ''}`,
+                    data: {
+                        type: 'meal_change_request',
+                        requestId: request.id
+                    }
+                }
+            });
+        } catch (e) {
+            console.warn('Failed to send notification:', e);
+        }
+
+        return request;
+    },
+
+    async getMyRequests(startDate: string, endDate: string): Promise<MealChangeRequest[]> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return [];
+
+        const { data, error } = await supabase
+            .from('meal_change_requests')
+            .select('*')
+            .eq('user_id', user.id)
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data.map(row => mapRequest(row));
+    },
+
+    // Pending requests for the kitchen, oldest first, with the resident's name
+    async getPending(): Promise<MealChangeRequest[]> {
+        const { data, error } = await supabase
+            .from('meal_change_requests')
+            .select('*')
+            .eq('status', 'pending')
+            .gte('date', format(new Date(), 'yyyy-MM-dd'))
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        if (data.length === 0) return [];
+
+        const { data: profiles, error: profilesError } = await supabase
+            .from('profiles')
+            .select('id, full_name, email')
+            .in('id', [...new Set(data.map(row => row.user_id))]);
+
+        if (profilesError) throw profilesError;
+
+        const names = new Map((profiles || []).map(p => [p.id, p.full_name || p.email?.split('@')[0]]));
+        return data.map(row => mapRequest(row, names.get(row.user_id)));
+    },
+
+    async withdraw(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('meal_change_requests')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    // Closes the request and, when accepted, writes the change as an audited override, in one
+    // transaction (respond_meal_change_request), so a request can't be applied twice
+    async respond(request: MealChangeRequest, accept: boolean, responseNote = ''): Promise<void> {
+        const { error } = await supabase.rpc('respond_meal_change_request', {
+            p_request_id: request.id,
+            p_accept: accept,
+            p_response_note: responseNote
+        });
+
+        if (error) {
+            if (error.message === 'REQUEST_NOT_PENDING') throw new Error('Esta solicitud ya se ha respondido');
+            throw error;
+        }
+
+        try {
+            await supabase.functions.invoke('send-notification', {
+                body: {
+                    userId: request.userId,
+                    title: accept ? 'Cambio aceptado' : 'Cambio rechazado',
+                    body: `La cocina ha ${accept ? 'aceptado' : 'rechazado'} tu cambio en ${describeMeal(request)}${responseNote.trim() ? `: ${responseNote.trim()}` : ''}`,
+                    notificationType: 'meal_orders',
+                    data: {
+                        type: 'meal_change_response',
+                        requestId: request.id,
+                        url: '/?tab=meals'
+                    }
+                }
+            });
+        } catch (e) {
+            console.warn('Failed to send notification:', e);
+        }
+    }
+};
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { MealOption } from '../types';
+
+const mapOption = (d: any): MealOption => ({
+    id: d.id,
+    label: d.label,
+    shortLabel: d.short_label,
+    icon: d.icon || undefined,
+    color: d.color,
+    mealTypes: d.meal_types || [],
+    needsPrep: d.needs_prep,
+    isBag: d.is_bag,
+    lockRule: d.lock_rule,
+    cutoffTime: d.cutoff_time || undefined,
+    sortOrder: d.sort_order,
+    isActive: d.is_active,
+    isSystem: d.is_system
+});
+
+export const mealOptionService = {
+    // Includes inactive options: old orders may still point to them
+    async getOptions(): Promise<MealOption[]> {
+        const { data, error } = await supabase
+            .from('meal_options')
+            .select('*')
+            .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+        return data.map(mapOption);
+    },
+
+    async upsertOption(option: MealOption): Promise<MealOption> {
+        const { data, error } = await supabase
+            .from('meal_options')
+            .upsert({
+                id: option.id,
+                label: option.label,
+                short_label: option.shortLabel,
+                icon: option.icon || null,
+                color: option.color,
+                meal_types: option.mealTypes,
+                needs_prep: option.needsPrep,
+                is_bag: option.isBag,
+                lock_rule: option.lockRule,
+                cutoff_time: option.lockRule === 'cutoff' ? option.cutoffTime || null : null,
+                sort_order: option.sortOrder,
+                is_active: option.isActive
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapOption(data);
+    },
+
+    async deleteOption(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('meal_options')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -1,5 +1,18 @@
 import { supabase } from './supabase';
-import { MealTemplate, MealOrder } from '../types';
+import { MealTemplate, MealTemplateSet, MealOrder, MealOrderChange } from '../types';
+import { MealLockResult, MealLockReason, MEAL_LOCK_MESSAGES } from '../utils/mealLocks';
+import { getActiveTemplateSet } from '../utils/mealTemplates';
+
+const mapTemplateSet = (d: any): MealTemplateSet => ({
+    id: d.id,
+    userId: d.user_id,
+    name: d.name,
+    isDefault: d.is_default,
+    validFrom: d.valid_from || undefined,
+    validTo: d.valid_to || undefined,
+    weekRotation: d.week_rotation,
+    createdAt: d.created_at
+});
 
 export const mealService = {
     // --- Templates ---
@@ -21,6 +34,7 @@ export const mealService = {
         return data.map(d => ({
             id: d.id,
             userId: d.user_id,
+            templateId: d.template_id,
             dayOfWeek: d.day_of_week,
             mealType: d.meal_type,
             option: d.option,
@@ -28,6 +42,66 @@ export const mealService = {
         }));
     },
 
+    // The user's named templates, creating the default one on first use
+    async getMyTemplateSets(): Promise<MealTemplateSet[]> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data, error } = await supabase
+            .from('meal_template_sets')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        if (!data.some(d => d.is_default)) {
+            const { data: created, error: createError } = await supabase
+                .from('meal_template_sets')
+                .insert({ user_id: user.id, name: 'Habitual', is_default: true })
+                .select()
+                .single();
+
+            if (createError) throw createError;
+            return [mapTemplateSet(created), ...data.map(mapTemplateSet)];
+        }
+
+        return data.map(mapTemplateSet);
+    },
+
+    async upsertTemplateSet(set: Partial<MealTemplateSet> & { name: string }): Promise<MealTemplateSet> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data, error } = await supabase
+            .from('meal_template_sets')
+            .upsert({
+                ...(set.id ? { id: set.id } : {}),
+                user_id: user.id,
+                name: set.name,
+                is_default: set.isDefault || false,
+                valid_from: set.validFrom || null,
+                valid_to: set.validTo || null,
+                week_rotation: set.weekRotation || 'all'
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapTemplateSet(data);
+    },
+
+    // Its meal_templates rows go with it (on delete cascade)
+    async deleteTemplateSet(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('meal_template_sets')
+            .delete()
+            .eq('id', id)
+            .eq('is_default', false);
+
+        if (error) throw error;
+    },
+
     async getAllTemplates(dayOfWeek: number): Promise<MealTemplate[]> {
         // Requires public RLS policy on meal_templates
         const { data, error } = await supabase
@@ -40,6 +114,7 @@ export const mealService = {
         return data.map(d => ({
             id: d.id,
             userId: d.user_id,
+            templateId: d.template_id,
             dayOfWeek: d.day_of_week,
             mealType: d.meal_type,
             option: d.option,
@@ -47,16 +122,17 @@ export const mealService = {
         }));
     },
 
-    async upsertTemplate(userId: string, dayOfWeek: number, mealType: string, option: string, isBag: boolean): Promise<void> {
+    async upsertTemplate(userId: string, templateId: string, dayOfWeek: number, mealType: string, option: string, isBag: boolean): Promise<void> {
         const { error } = await supabase
             .from('meal_templates')
             .upsert({
                 user_id: userId,
+                template_id: templateId,
                 day_of_week: dayOfWeek,
                 meal_type: mealType,
                 option,
                 is_bag: isBag
-            }, { onConflict: 'user_id,day_of_week,meal_type' });
+            }, { onConflict: 'template_id,day_of_week,meal_type' });
 
         if (error) throw error;
     },
@@ -118,6 +194,16 @@ export const mealService = {
 
         if (templatesError) throw templatesError;
 
+        const { data: sets, error: setsError } = await supabase
+            .from('meal_template_sets')
+            .select('*');
+
+        if (setsError) throw setsError;
+
+        // Only rows of each user's set in force on this date
+        const templateSets = sets.map(mapTemplateSet);
+        const activeTemplates = templates.filter(t => t.template_id === getActiveTemplateSet(templateSets, t.user_id, date)?.id);
+
         // 4. Fetch Absences for this date
         const { data: absences, error: absencesError } = await supabase
             .from('user_absences')
@@ -137,13 +223,13 @@ export const mealService = {
             const isAbsent = absentUserIds.has(user.id);
 
             // Calculate Breakfast
-            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'breakfast', orders, templates, isAbsent);
+            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'breakfast', orders, activeTemplates, isAbsent);
 
             // Calculate Lunch
-            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'lunch', orders, templates, isAbsent);
+            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'lunch', orders, activeTemplates, isAbsent);
 
             // Calculate Dinner
-            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'dinner', orders, templates, isAbsent);
+            this._calculateEffectiveMeal(effectivePlan, user.id, userName, date, 'dinner', orders, activeTemplates, isAbsent);
         });
 
         return effectivePlan;
@@ -293,6 +379,14 @@ export const mealService = {
 
         if (templatesError) throw templatesError;
 
+        const { data: allSets, error: setsError } = await supabase
+            .from('meal_template_sets')
+            .select('*');
+
+        if (setsError) throw setsError;
+
+        const templateSets = allSets.map(mapTemplateSet);
+
         // 3. Calculate Plans
         const results: Record<string, (MealOrder & { userName: string })[]> = {};
 
@@ -303,7 +397,9 @@ export const mealService = {
 
             // Filter data for this specific day
             const dayOrders = allOrders.filter(o => o.date === date);
-            const dayTemplates = allTemplates.filter(t => t.day_of_week === dayOfWeek);
+            const dayTemplates = allTemplates.filter(t =>
+                t.day_of_week === dayOfWeek && t.template_id === getActiveTemplateSet(templateSets, t.user_id, date)?.id
+            );
             const dayAbsences = allAbsences.filter(a => a.start_date <= date && a.end_date >= date);
             const absentUserIds = new Set(dayAbsences.map(a => a.user_id));
 
@@ -324,7 +420,13 @@ export const mealService = {
         return results;
     },
 
-    async upsertOrder(userId: string, date: string, mealType: string, option: string, isBag: boolean, bagTime?: string | null): Promise<void> {
+    // Pass `audit` for changes made on someone's behalf after the deadline (kitchen overrides,
+    // accepted late requests): they skip the lock check and are logged with the reason.
+    async upsertOrder(userId: string, date: string, mealType: string, option: string, isBag: boolean, bagTime?: string | null, audit?: { reason: string }): Promise<void> {
+        if (audit) {
+            return this.overrideOrder(userId, date, mealType, option, isBag, audit.reason, bagTime);
+        }
+
         const { error } = await supabase
             .from('meal_orders')
             .upsert({
@@ -337,6 +439,107 @@ export const mealService = {
                 status: 'confirmed'
             }, { onConflict: 'user_id,date,meal_type' });
 
+        if (error) {
+            // Raised by the enforce_meal_order_deadline trigger, with the lock reason as detail
+            if (error.message === 'MEAL_LOCKED') {
+                throw new Error(MEAL_LOCK_MESSAGES[error.details as MealLockReason] || 'El pedido ya está cerrado');
+            }
+            throw error;
+        }
+    },
+
+    // One request for many cells (date ranges). The deadline trigger checks every row, so callers
+    // should leave out the cells they already know are closed.
+    async upsertOrders(userId: string, entries: { date: string; mealType: string; option: string; isBag: boolean; bagTime?: string | null }[]): Promise<void> {
+        if (entries.length === 0) return;
+
+        const { error } = await supabase
+            .from('meal_orders')
+            .upsert(entries.map(e => ({
+                user_id: userId,
+                date: e.date,
+                meal_type: e.mealType,
+                option: e.option,
+                is_bag: e.isBag,
+                bag_time: e.isBag ? e.bagTime || null : null,
+                status: 'confirmed'
+            })), { onConflict: 'user_id,date,meal_type' });
+
+        if (error) {
+            if (error.message === 'MEAL_LOCKED') {
+                throw new Error(`${MEAL_LOCK_MESSAGES[error.details as MealLockReason] || 'Algún pedido ya está cerrado'}. No se ha guardado ningún cambio.`);
+            }
+            throw error;
+        }
+    },
+
+    // Admin/kitchen change that skips the deadline check. Every call is logged in meal_order_overrides.
+    async overrideOrder(userId: string, date: string, mealType: string, option: string, isBag: boolean, reason: string, bagTime?: string | null): Promise<void> {
+        const { error } = await supabase.rpc('override_meal_order', {
+            p_user_id: userId,
+            p_date: date,
+            p_meal_type: mealType,
+            p_option: option,
+            p_is_bag: isBag,
+            p_bag_time: isBag ? bagTime || null : null,
+            p_reason: reason
+        });
+
+        if (error) throw error;
+    },
+
+    // Every change to the day's orders, newest first, with resident and author names
+    async getOrderChanges(date: string): Promise<MealOrderChange[]> {
+        const { data, error } = await supabase
+            .from('meal_order_changes')
+            .select('*')
+            .eq('date', date)
+            .order('created_at', { ascending: false });
+
         if (error) throw error;
+        if (data.length === 0) return [];
+
+        const ids = [...new Set(data.flatMap(d => [d.user_id, d.changed_by]).filter(Boolean))];
+        const { data: profiles, error: profilesError } = await supabase
+            .from('profiles')
+            .select('id, full_name, email')
+            .in('id', ids);
+
+        if (profilesError) throw profilesError;
+
+        const names = new Map((profiles || []).map(p => [p.id, p.full_name || p.email?.split('@')[0]]));
+
+        return data.map(d => ({
+            id: d.id,
+            userId: d.user_id,
+            userName: names.get(d.user_id),
+            date: d.date,
+            mealType: d.meal_type,
+            oldOption: d.old_option || undefined,
+            newOption: d.new_option || undefined,
+            oldIsBag: d.old_is_bag ?? undefined,
+            newIsBag: d.new_is_bag ?? undefined,
+            oldBagTime: d.old_bag_time || undefined,
+            newBagTime: d.new_bag_time || undefined,
+            previousSource: d.previous_source,
+            changedBy: d.changed_by || undefined,
+            changedByName: d.changed_by ? names.get(d.changed_by) : undefined,
+            isOverride: d.is_override || false,
+            createdAt: d.created_at
+        }));
+    },
+
+    // Server-side deadline check with the house clock. Null when the check could not run,
+    // so callers fall back to their local evaluation instead of blocking the resident.
+    async checkOrderLock(date: string, mealType: string, option: string): Promise<MealLockResult | null> {
+        const { data, error } = await supabase.functions.invoke('check-meal-lock', {
+            body: { date, mealType, option }
+        });
+
+        if (error) {
+            console.error('Error checking meal lock:', error);
+            return null;
+        }
+        return data as MealLockResult;
     }
 };
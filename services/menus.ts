@@ -0,0 +1,120 @@
+import { supabase } from './supabase';
+import { MenuDish } from '../types';
+import { shiftDate } from '../utils/mealLocks';
+
+const mapDish = (row: any): MenuDish => ({
+    id: row.id,
+    date: row.date,
+    mealType: row.meal_type,
+    course: row.course,
+    name: row.name,
+    allergens: row.allergens || [],
+    sortOrder: row.sort_order || 0,
+    isPublished: row.is_published
+});
+
+const daysBetween = (from: string, to: string) =>
+    Math.round((new Date(`${to}T12:00:00`).getTime() - new Date(`${from}T12:00:00`).getTime()) / 86400000);
+
+export const menuService = {
+    // Residents only get published dishes through RLS; the kitchen also sees drafts unless it asks for the published menu
+    async getDishes(startDate: string, endDate: string, publishedOnly: boolean = true): Promise<MenuDish[]> {
+        let query = supabase
+            .from('menu_dishes')
+            .select('*')
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .order('date')
+            .order('sort_order');
+
+        if (publishedOnly) query = query.eq('is_published', true);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data.map(mapDish);
+    },
+
+    async addDish(dish: Omit<MenuDish, 'id' | 'isPublished'>): Promise<MenuDish> {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { data, error } = await supabase
+            .from('menu_dishes')
+            .insert({
+                date: dish.date,
+                meal_type: dish.mealType,
+                course: dish.course,
+                name: dish.name.trim(),
+                allergens: dish.allergens,
+                sort_order: dish.sortOrder,
+                created_by: user?.id
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapDish(data);
+    },
+
+    async deleteDish(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('menu_dishes')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    async publishRange(startDate: string, endDate: string): Promise<void> {
+        const { error } = await supabase
+            .from('menu_dishes')
+            .update({ is_published: true })
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .eq('is_published', false);
+
+        if (error) throw error;
+    },
+
+    // Mondays of the weeks before `beforeDate` that have a menu, newest first
+    async getPlannedWeeks(beforeDate: string, limit: number = 8): Promise<string[]> {
+        const { data, error } = await supabase
+            .from('menu_dishes')
+            .select('date')
+            .lt('date', beforeDate)
+            .order('date', { ascending: false })
+            .limit(500);
+
+        if (error) throw error;
+
+        const mondays = data.map(row => {
+            const day = new Date(`${row.date}T12:00:00`).getDay();
+            return shiftDate(row.date, -((day + 6) % 7));
+        });
+        return [...new Set(mondays)].slice(0, limit);
+    },
+
+    // Copies a week's dishes onto another week as drafts, so the kitchen can adjust them before publishing
+    async copyWeek(fromMonday: string, toMonday: string): Promise<MenuDish[]> {
+        const source = await this.getDishes(fromMonday, shiftDate(fromMonday, 6), false);
+        if (source.length === 0) return [];
+
+        const { data: { user } } = await supabase.auth.getUser();
+        const offset = daysBetween(fromMonday, toMonday);
+
+        const { data, error } = await supabase
+            .from('menu_dishes')
+            .insert(source.map(dish => ({
+                date: shiftDate(dish.date, offset),
+                meal_type: dish.mealType,
+                course: dish.course,
+                name: dish.name,
+                allergens: dish.allergens,
+                sort_order: dish.sortOrder,
+                created_by: user?.id
+            })))
+            .select();
+
+        if (error) throw error;
+        return data.map(mapDish);
+    }
+};
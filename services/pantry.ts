@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { PantryItem, PantryDelivery } from '../types';
+
+const mapItem = (row: any): PantryItem => ({
+    id: row.id,
+    name: row.name,
+    category: row.category || undefined,
+    unit: row.unit,
+    stock: Number(row.stock),
+    minStock: Number(row.min_stock),
+    perServing: row.per_serving == null ? undefined : Number(row.per_serving),
+    mealTypes: row.meal_types || [],
+    isActive: row.is_active,
+    updatedAt: row.updated_at
+});
+
+const mapDelivery = (row: any): PantryDelivery => ({
+    id: row.id,
+    itemId: row.item_id,
+    itemName: row.pantry_items?.name,
+    quantity: Number(row.quantity),
+    supplier: row.supplier || undefined,
+    notes: row.notes || undefined,
+    deliveredOn: row.delivered_on,
+    createdAt: row.created_at
+});
+
+const toRow = (item: Omit<PantryItem, 'id' | 'isActive' | 'updatedAt' | 'stock'>) => ({
+    name: item.name.trim(),
+    category: item.category?.trim() || null,
+    unit: item.unit,
+    min_stock: item.minStock,
+    per_serving: item.perServing ?? null,
+    meal_types: item.mealTypes
+});
+
+export const pantryService = {
+    async getItems(): Promise<PantryItem[]> {
+        const { data, error } = await supabase
+            .from('pantry_items')
+            .select('*')
+            .eq('is_active', true)
+            .order('category', { nullsFirst: false })
+            .order('name');
+
+        if (error) throw error;
+        return data.map(mapItem);
+    },
+
+    async addItem(item: Omit<PantryItem, 'id' | 'isActive' | 'updatedAt'>): Promise<PantryItem> {
+        const { data, error } = await supabase
+            .from('pantry_items')
+            .insert({ ...toRow(item), stock: item.stock })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapItem(data);
+    },
+
+    // Stock is left out: it only changes through setStock and deliveries, which the form may not have seen
+    async updateItem(id: string, item: Omit<PantryItem, 'id' | 'isActive' | 'updatedAt' | 'stock'>): Promise<PantryItem> {
+        const { data, error } = await supabase
+            .from('pantry_items')
+            .update({ ...toRow(item), updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapItem(data);
+    },
+
+    // Stock count after checking the shelves
+    async setStock(id: string, stock: number): Promise<void> {
+        const { error } = await supabase
+            .from('pantry_items')
+            .update({ stock, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    // Items keep their delivery history, so they are hidden rather than deleted
+    async archiveItem(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('pantry_items')
+            .update({ is_active: false })
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    async getDeliveries(limit: number = 30): Promise<PantryDelivery[]> {
+        const { data, error } = await supabase
+            .from('pantry_deliveries')
+            .select('*, pantry_items(name)')
+            .order('delivered_on', { ascending: false })
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) throw error;
+        return data.map(mapDelivery);
+    },
+
+    // The apply_pantry_delivery trigger adds the quantity to the item's stock
+    async recordDelivery(itemId: string, quantity: number, deliveredOn: string, supplier?: string, notes?: string): Promise<PantryDelivery> {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { data, error } = await supabase
+            .from('pantry_deliveries')
+            .insert({
+                item_id: itemId,
+                quantity,
+                delivered_on: deliveredOn,
+                supplier: supplier?.trim() || null,
+                notes: notes?.trim() || null,
+                received_by: user?.id
+            })
+            .select('*, pantry_items(name)')
+            .single();
+
+        if (error) throw error;
+        return mapDelivery(data);
+    }
+};
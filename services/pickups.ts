@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+import { MealPickup } from '../types';
+
+const MEAL_NAMES: Record<string, string> = {
+    breakfast: 'del desayuno',
+    lunch: 'de la comida',
+    dinner: 'de la cena'
+};
+
+const mapPickup = (row: any): MealPickup => ({
+    id: row.id,
+    date: row.date,
+    mealType: row.meal_type,
+    userId: row.user_id,
+    status: row.status,
+    preparedAt: row.prepared_at || undefined,
+    collectedAt: row.collected_at || undefined
+});
+
+export const pickupService = {
+    async getPickups(date: string): Promise<MealPickup[]> {
+        const { data, error } = await supabase
+            .from('meal_pickups')
+            .select('*')
+            .eq('date', date);
+
+        if (error) throw error;
+        return data.map(mapPickup);
+    },
+
+    // optionLabel names what is collected in the resident's push ("Bolsa", "Tupper"...)
+    async markPrepared(date: string, mealType: string, userId: string, optionLabel: string, bagTime?: string): Promise<MealPickup> {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { data, error } = await supabase
+            .from('meal_pickups')
+            .upsert({
+                date,
+                meal_type: mealType,
+                user_id: userId,
+                status: 'prepared',
+                prepared_by: user?.id,
+                prepared_at: new Date().toISOString(),
+                collected_at: null
+            }, { onConflict: 'date,meal_type,user_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        try {
+            await supabase.functions.invoke('send-notification', {
+                body: {
+                    userId,
+                    title: 'Listo para recoger',
+                    body: `Ya puedes recoger tu ${optionLabel.toLowerCase()} ${MEAL_NAMES[mealType] || ''}${bagTime ? ` (${bagTime})` : ''} en la cocina`,
+                    notificationType: 'meal_orders',
+                    data: {
+                        type: 'meal_pickup_ready',
+                        url: '/?tab=meals'
+                    }
+                }
+            });
+        } catch (e) {
+            console.warn('Failed to send notification:', e);
+        }
+
+        return mapPickup(data);
+    },
+
+    async markCollected(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('meal_pickups')
+            .update({ status: 'collected', collected_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    // Back to "to prepare", for a bag marked by mistake
+    async resetPickup(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('meal_pickups')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -44,6 +44,9 @@ export const profileService = {
                 dietNumber: p.diet_number,
                 dietName: p.diet_name,
                 dietNotes: p.diet_notes,
+                allergens: p.allergens || [],
+                dietValidFrom: p.diet_valid_from || undefined,
+                dietValidTo: p.diet_valid_to || undefined,
                 roomId: p.room_id,
                 bedId: p.bed_id,
                 roomName,
@@ -97,6 +100,9 @@ export const profileService = {
             dietNumber: p.diet_number,
             dietName: p.diet_name,
             dietNotes: p.diet_notes,
+            allergens: p.allergens || [],
+            dietValidFrom: p.diet_valid_from || undefined,
+            dietValidTo: p.diet_valid_to || undefined,
             roomId: p.room_id,
             bedId: p.bed_id,
             roomName,
@@ -113,6 +119,9 @@ export const profileService = {
         hasDiet?: boolean;
         dietName?: string;
         dietNotes?: string;
+        allergens?: string[];
+        dietValidFrom?: string | null;
+        dietValidTo?: string | null;
     }) => {
         const dbUpdates: any = {};
 
@@ -123,6 +132,9 @@ export const profileService = {
         if (updates.hasDiet !== undefined) dbUpdates.has_diet = updates.hasDiet;
         if (updates.dietName !== undefined) dbUpdates.diet_name = updates.dietName;
         if (updates.dietNotes !== undefined) dbUpdates.diet_notes = updates.dietNotes;
+        if (updates.allergens !== undefined) dbUpdates.allergens = updates.allergens;
+        if (updates.dietValidFrom !== undefined) dbUpdates.diet_valid_from = updates.dietValidFrom;
+        if (updates.dietValidTo !== undefined) dbUpdates.diet_valid_to = updates.dietValidTo;
 
         const { error } = await supabase
             .from('profiles')
@@ -1,5 +1,105 @@
+import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
 import { supabase } from './supabase';
-import { Reservation, ActivityLog } from '../types';
+import { Reservation, ActivityLog, RecurrenceRule, SeriesScope, ReservationReturn } from '../types';
+import { Occurrence } from '../utils/recurrence';
+import { waitlistService } from './waitlist';
+
+// Postgres exclusion_violation, raised by the reservations_no_overlap constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+const formatSlot = (res: { startTime: string; endTime: string }): string =>
+    `${format(parseISO(res.startTime), "d MMM, HH:mm", { locale: es })} a ${format(parseISO(res.endTime), 'HH:mm', { locale: es })}`;
+
+/**
+ * Thrown when the database rejects a booking because it overlaps another ACTIVE
+ * reservation of the same car. `conflict` is the clashing booking when it could be found.
+ */
+export class ReservationConflictError extends Error {
+    conflict?: Reservation;
+
+    constructor(conflict?: Reservation) {
+        super(conflict
+            ? `El coche ya está reservado por ${conflict.isForGuest && conflict.guestName ? conflict.guestName : conflict.userName} de ${formatSlot(conflict)}`
+            : 'Ya existe una reserva en ese horario');
+        this.name = 'ReservationConflictError';
+        this.conflict = conflict;
+    }
+}
+
+// Turns a failed insert/update into a ReservationConflictError naming the booking it clashed with
+const toReservationError = async (
+    error: { code?: string; message: string },
+    target: { carId: string; slots: { startTime: string; endTime: string }[]; excludeIds?: string[] }
+): Promise<Error> => {
+    if (error.code !== EXCLUSION_VIOLATION) return new Error(error.message);
+
+    let query = supabase
+        .from('reservations')
+        .select('*, user:profiles(full_name, avatar_url)')
+        .eq('car_id', target.carId)
+        .eq('status', 'ACTIVE')
+        .or(target.slots.map(slot => `and(start_time.lt.${slot.endTime},end_time.gt.${slot.startTime})`).join(','))
+        .order('start_time')
+        .limit(1);
+    if (target.excludeIds && target.excludeIds.length > 0) {
+        query = query.not('id', 'in', `(${target.excludeIds.join(',')})`);
+    }
+
+    const { data } = await query;
+    const row = data?.[0];
+    if (!row) return new ReservationConflictError();
+
+    return new ReservationConflictError({
+        id: row.id,
+        carId: row.car_id,
+        userId: row.user_id,
+        userName: row.user?.full_name || 'Usuario',
+        userAvatar: row.user?.avatar_url,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        status: row.status,
+        notes: row.notes,
+        isForGuest: row.is_for_guest || false,
+        guestName: row.guest_name,
+        guestDriverId: row.guest_driver_id || undefined,
+        seriesId: row.series_id || undefined
+    });
+};
+
+// Appends an entry to the vehicle audit trail. Logging must never break the action
+// that triggered it, so failures are only reported to the console.
+const logActivity = async (entry: {
+    carId: string;
+    action: ActivityLog['action'];
+    reservationId?: string;
+    details?: string;
+    userId?: string;
+}): Promise<void> => {
+    try {
+        let userId = entry.userId;
+        if (!userId) {
+            const { data: { user } } = await supabase.auth.getUser();
+            userId = user?.id;
+        }
+
+        const { error } = await supabase
+            .from('vehicle_activity')
+            .insert({
+                car_id: entry.carId,
+                reservation_id: entry.reservationId || null,
+                user_id: userId,
+                action: entry.action,
+                details: entry.details || null
+            });
+
+        if (error) console.warn('Failed to log vehicle activity:', error);
+    } catch (e) {
+        console.warn('Failed to log vehicle activity:', e);
+    }
+};
+
+const ACTIVITY_PAGE_SIZE = 20;
 
 export const reservationService = {
     getReservations: async (carId?: string): Promise<Reservation[]> => {
@@ -25,7 +125,11 @@ export const reservationService = {
             status: res.status,
             notes: res.notes,
             isForGuest: res.is_for_guest || false,
-            guestName: res.guest_name
+            guestName: res.guest_name,
+            guestDriverId: res.guest_driver_id || undefined,
+            seriesId: res.series_id || undefined,
+            recurrence: res.recurrence || undefined,
+            pickedUpAt: res.picked_up_at || undefined
         }));
     },
 
@@ -40,12 +144,26 @@ export const reservationService = {
                 status: 'ACTIVE',
                 notes: res.notes,
                 is_for_guest: res.isForGuest || false,
-                guest_name: res.guestName || null
+                guest_name: res.guestName || null,
+                guest_driver_id: res.isForGuest ? res.guestDriverId || null : null,
+                // Booking "now" means the car is being taken right away
+                picked_up_at: new Date(res.startTime) <= new Date() ? new Date().toISOString() : null
             })
             .select()
             .single();
 
-        if (error) throw new Error(error.message);
+        if (error) throw await toReservationError(error, {
+            carId: res.carId,
+            slots: [{ startTime: res.startTime, endTime: res.endTime }]
+        });
+
+        await logActivity({
+            carId: res.carId,
+            action: 'RESERVE',
+            reservationId: data.id,
+            userId: res.userId,
+            details: `${formatSlot(res)}${res.isForGuest && res.guestName ? ` · Invitado: ${res.guestName}` : ''}`
+        });
 
         return {
             id: data.id,
@@ -57,73 +175,325 @@ export const reservationService = {
             status: data.status,
             notes: data.notes,
             isForGuest: data.is_for_guest,
-            guestName: data.guest_name
+            guestName: data.guest_name,
+            guestDriverId: data.guest_driver_id || undefined,
+            pickedUpAt: data.picked_up_at || undefined
         };
     },
 
-    cancelReservation: async (reservationId: string, userId: string): Promise<void> => {
+    // Creates every occurrence of a recurring reservation sharing one series_id.
+    // Occurrences are expected to be already filtered for conflicts by the caller.
+    createReservationSeries: async (
+        res: Omit<Reservation, 'id' | 'status' | 'userName' | 'startTime' | 'endTime' | 'seriesId'> & { recurrence: RecurrenceRule },
+        occurrences: Occurrence[]
+    ): Promise<Reservation[]> => {
+        if (occurrences.length === 0) return [];
+
+        const seriesId = crypto.randomUUID();
+        const { data, error } = await supabase
+            .from('reservations')
+            .insert(occurrences.map(occ => ({
+                car_id: res.carId,
+                user_id: res.userId,
+                start_time: occ.start.toISOString(),
+                end_time: occ.end.toISOString(),
+                status: 'ACTIVE',
+                notes: res.notes,
+                is_for_guest: res.isForGuest || false,
+                guest_name: res.guestName || null,
+                guest_driver_id: res.isForGuest ? res.guestDriverId || null : null,
+                series_id: seriesId,
+                recurrence: res.recurrence
+            })))
+            .select();
+
+        // The whole batch is rejected if any occurrence overlaps; report the first clash
+        if (error) throw await toReservationError(error, {
+            carId: res.carId,
+            slots: occurrences.map(occ => ({ startTime: occ.start.toISOString(), endTime: occ.end.toISOString() }))
+        });
+
+        await logActivity({
+            carId: res.carId,
+            action: 'RESERVE',
+            reservationId: data[0]?.id,
+            userId: res.userId,
+            details: `Serie de ${data.length} reservas desde ${format(occurrences[0].start, 'd MMM, HH:mm', { locale: es })}`
+        });
+
+        return data.map((row: any) => ({
+            id: row.id,
+            carId: row.car_id,
+            userId: row.user_id,
+            userName: 'Usuario',
+            startTime: row.start_time,
+            endTime: row.end_time,
+            status: row.status,
+            notes: row.notes,
+            isForGuest: row.is_for_guest,
+            guestName: row.guest_name,
+            guestDriverId: row.guest_driver_id || undefined,
+            seriesId: row.series_id,
+            recurrence: row.recurrence
+        }));
+    },
+
+    cancelReservation: async (reservationId: string, userId: string, scope: SeriesScope = 'THIS'): Promise<void> => {
         const { data: reservation, error: fetchError } = await supabase
             .from('reservations')
-            .select('car_id')
+            .select('car_id, series_id, start_time')
             .eq('id', reservationId)
             .single();
 
         if (fetchError) throw new Error(fetchError.message);
 
-        const { error } = await supabase
+        let query = supabase
             .from('reservations')
-            .update({ status: 'CANCELLED' })
-            .eq('id', reservationId);
+            .update({ status: 'CANCELLED' });
+
+        if (scope === 'THIS' || !reservation.series_id) {
+            query = query.eq('id', reservationId);
+        } else {
+            // Only occurrences that haven't finished yet; past trips stay in the history
+            query = query
+                .eq('series_id', reservation.series_id)
+                .eq('status', 'ACTIVE')
+                .gte('end_time', new Date().toISOString());
+            if (scope === 'FOLLOWING') query = query.gte('start_time', reservation.start_time);
+        }
+
+        // The database offers each freed slot to the waitlist (on_reservation_offer_waitlist trigger)
+        const { error } = await query;
 
         if (error) throw new Error(error.message);
+
+        await waitlistService.pushOffers();
+
+        await logActivity({
+            carId: reservation.car_id,
+            action: 'CANCEL',
+            reservationId,
+            userId,
+            details: scope === 'ALL' ? 'Toda la serie' : scope === 'FOLLOWING' ? 'Esta y las siguientes de la serie' : undefined
+        });
     },
 
     updateReservationNote: async (reservationId: string, note: string): Promise<void> => {
-        const { error } = await supabase
+        const { data, error } = await supabase
             .from('reservations')
             .update({ notes: note })
-            .eq('id', reservationId);
+            .eq('id', reservationId)
+            .select('car_id')
+            .single();
 
         if (error) throw new Error(error.message);
+
+        await logActivity({
+            carId: data.car_id,
+            action: 'COMMENT',
+            reservationId,
+            details: note.trim() || 'Nota eliminada'
+        });
     },
 
-    updateReservation: async (reservationId: string, updates: { startTime: string; endTime: string }): Promise<void> => {
-        const { error } = await supabase
+    updateReservation: async (reservationId: string, updates: { startTime: string; endTime: string }, scope: SeriesScope = 'THIS'): Promise<void> => {
+        const { data: original, error: fetchError } = await supabase
             .from('reservations')
-            .update({
-                start_time: updates.startTime,
-                end_time: updates.endTime
-            })
-            .eq('id', reservationId);
+            .select('car_id, series_id, start_time, end_time')
+            .eq('id', reservationId)
+            .single();
 
-        if (error) throw new Error(error.message);
+        if (fetchError) throw new Error(fetchError.message);
+
+        if (scope === 'THIS' || !original.series_id) {
+            const { error } = await supabase
+                .from('reservations')
+                .update({
+                    start_time: updates.startTime,
+                    end_time: updates.endTime
+                })
+                .eq('id', reservationId);
+
+            if (error) throw await toReservationError(error, {
+                carId: original.car_id,
+                slots: [updates],
+                excludeIds: [reservationId]
+            });
+
+            await logActivity({
+                carId: original.car_id,
+                action: 'EDIT',
+                reservationId,
+                details: `Nuevo horario: ${formatSlot(updates)}`
+            });
+            return;
+        }
+
+        // The database shifts every affected occurrence by the same offset in one transaction
+        const { data: moved, error } = await supabase.rpc('move_reservation_series', {
+            p_reservation_id: reservationId,
+            p_scope: scope,
+            p_start_time: updates.startTime,
+            p_end_time: updates.endTime
+        });
+
+        if (error) {
+            if (error.code !== EXCLUSION_VIOLATION) throw new Error(error.message);
+
+            // Look up the clash against the slots the series was being moved to
+            const startOffset = new Date(updates.startTime).getTime() - new Date(original.start_time).getTime();
+            const endOffset = new Date(updates.endTime).getTime() - new Date(original.end_time).getTime();
+
+            let query = supabase
+                .from('reservations')
+                .select('id, start_time, end_time')
+                .eq('series_id', original.series_id)
+                .eq('status', 'ACTIVE')
+                .gte('end_time', new Date().toISOString());
+            if (scope === 'FOLLOWING') query = query.gte('start_time', original.start_time);
+
+            const { data: occurrences } = await query;
+            if (!occurrences || occurrences.length === 0) throw new ReservationConflictError();
+
+            throw await toReservationError(error, {
+                carId: original.car_id,
+                slots: occurrences.map(occ => ({
+                    startTime: new Date(new Date(occ.start_time).getTime() + startOffset).toISOString(),
+                    endTime: new Date(new Date(occ.end_time).getTime() + endOffset).toISOString()
+                })),
+                excludeIds: occurrences.map(occ => occ.id)
+            });
+        }
+
+        await logActivity({
+            carId: original.car_id,
+            action: 'EDIT',
+            reservationId,
+            details: `${(moved || []).length} reservas de la serie movidas (${scope === 'ALL' ? 'toda la serie' : 'esta y siguientes'})`
+        });
     },
 
-    finishReservation: async (reservationId: string): Promise<void> => {
-        const now = new Date().toISOString();
-        const { error } = await supabase
+    // The booker confirms they have the car. Bookings never picked up are released as no-shows.
+    pickUpReservation: async (reservationId: string): Promise<void> => {
+        const { data, error } = await supabase
             .from('reservations')
-            .update({ end_time: now })
-            .eq('id', reservationId);
+            .update({ picked_up_at: new Date().toISOString() })
+            .eq('id', reservationId)
+            .select('car_id')
+            .single();
 
         if (error) throw new Error(error.message);
+
+        await logActivity({
+            carId: data.car_id,
+            action: 'PICKUP',
+            reservationId
+        });
     },
 
-    getGuestNameSuggestions: async (): Promise<string[]> => {
-        const { data, error } = await supabase
+    // Ends a reservation and, when provided, records the return check-in.
+    // The car's odometer and fuel level are synced from the check-in by a DB trigger.
+    finishReservation: async (
+        reservationId: string,
+        checkIn?: Omit<ReservationReturn, 'id' | 'reservationId' | 'carId' | 'userId' | 'userName' | 'startOdometerKm' | 'createdAt'>
+    ): Promise<void> => {
+        const { data: reservation, error: fetchError } = await supabase
             .from('reservations')
-            .select('guest_name')
-            .eq('is_for_guest', true)
-            .not('guest_name', 'is', null)
-            .order('guest_name');
+            .select('car_id, car:cars(odometer_km)')
+            .eq('id', reservationId)
+            .single();
 
-        if (error) {
-            console.error('Error fetching guest names:', error);
-            return [];
+        if (fetchError) throw new Error(fetchError.message);
+
+        if (checkIn) {
+            const startOdometerKm = (reservation.car as any)?.odometer_km ?? null;
+            if (startOdometerKm !== null && checkIn.endOdometerKm < startOdometerKm) {
+                throw new Error(`El kilometraje no puede ser menor que el anterior (${startOdometerKm} km)`);
+            }
         }
 
-        // Get unique guest names
-        const uniqueNames = [...new Set(data.map(r => r.guest_name).filter(Boolean))] as string[];
-        return uniqueNames.sort();
+        // The check-in and the status change are saved together (finish_reservation)
+        const { error } = await supabase.rpc('finish_reservation', {
+            p_reservation_id: reservationId,
+            ...(checkIn && {
+                p_end_odometer_km: checkIn.endOdometerKm,
+                p_fuel_level: checkIn.fuelLevel,
+                p_cleanliness: checkIn.cleanliness,
+                p_damage_notes: checkIn.damageNotes || null,
+                p_photo_urls: checkIn.photoUrls
+            })
+        });
+
+        if (error) throw new Error(error.message);
+
+        // Returned early: the rest of the slot may have been offered to the waitlist
+        await waitlistService.pushOffers();
+
+        await logActivity({
+            carId: reservation.car_id,
+            action: 'RETURN',
+            reservationId,
+            details: checkIn
+                ? `${checkIn.endOdometerKm} km · ${checkIn.fuelLevel}%${checkIn.damageNotes ? ` · Daños: ${checkIn.damageNotes}` : ''}`
+                : undefined
+        });
+    },
+
+    // Paged audit trail for a car, newest first. Dates are inclusive YYYY-MM-DD bounds.
+    getActivity: async (carId: string, page = 0, filter: { startDate?: string; endDate?: string } = {}): Promise<{ items: ActivityLog[]; hasMore: boolean }> => {
+        const from = page * ACTIVITY_PAGE_SIZE;
+        let query = supabase
+            .from('vehicle_activity')
+            .select('*, user:profiles(full_name, avatar_url)')
+            .eq('car_id', carId)
+            .order('created_at', { ascending: false })
+            // Ask for one extra row to know whether there is a next page
+            .range(from, from + ACTIVITY_PAGE_SIZE);
+
+        if (filter.startDate) query = query.gte('created_at', startOfDay(parseISO(filter.startDate)).toISOString());
+        if (filter.endDate) query = query.lte('created_at', endOfDay(parseISO(filter.endDate)).toISOString());
+
+        const { data, error } = await query;
+        if (error) throw new Error(error.message);
+
+        return {
+            hasMore: data.length > ACTIVITY_PAGE_SIZE,
+            items: data.slice(0, ACTIVITY_PAGE_SIZE).map((a: any) => ({
+                id: a.id,
+                carId: a.car_id,
+                userId: a.user_id,
+                userName: a.user?.full_name || 'Usuario',
+                userAvatar: a.user?.avatar_url,
+                action: a.action,
+                timestamp: a.created_at,
+                details: a.details || undefined,
+                reservationId: a.reservation_id || undefined
+            }))
+        };
+    },
+
+    getReturns: async (carId: string): Promise<ReservationReturn[]> => {
+        const { data, error } = await supabase
+            .from('reservation_returns')
+            .select('*, user:profiles(full_name)')
+            .eq('car_id', carId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(error.message);
+
+        return data.map((r: any) => ({
+            id: r.id,
+            reservationId: r.reservation_id,
+            carId: r.car_id,
+            userId: r.user_id,
+            userName: r.user?.full_name,
+            startOdometerKm: r.start_odometer_km ?? undefined,
+            endOdometerKm: r.end_odometer_km,
+            fuelLevel: r.fuel_level,
+            cleanliness: r.cleanliness,
+            damageNotes: r.damage_notes || undefined,
+            photoUrls: r.photo_urls || [],
+            createdAt: r.created_at
+        }));
     }
 };
@@ -0,0 +1,158 @@
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { supabase } from './supabase';
+import { Reservation, VehicleServiceRecord } from '../types';
+
+const mapRecord = (row: any): VehicleServiceRecord => ({
+    id: row.id,
+    carId: row.car_id,
+    type: row.type,
+    serviceDate: row.service_date,
+    nextDueDate: row.next_due_date || undefined,
+    cost: row.cost !== null ? Number(row.cost) : undefined,
+    workshop: row.workshop || undefined,
+    notes: row.notes || undefined,
+    invoiceUrls: row.invoice_urls || [],
+    workshopStart: row.workshop_start || undefined,
+    workshopEnd: row.workshop_end || undefined,
+    createdBy: row.created_by || undefined,
+    createdByName: row.creator?.full_name,
+    createdAt: row.created_at
+});
+
+// Bookings cancelled by add_vehicle_service, as returned in its JSON
+const mapCancelled = (row: any): Reservation => ({
+    id: row.id,
+    carId: row.car_id,
+    userId: row.user_id,
+    userName: row.user?.full_name || 'Usuario',
+    userAvatar: row.user?.avatar_url,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    status: row.status,
+    notes: row.notes,
+    isForGuest: row.is_for_guest || false,
+    guestName: row.guest_name,
+    seriesId: row.series_id || undefined
+});
+
+export const serviceLogService = {
+    getRecords: async (carId: string): Promise<VehicleServiceRecord[]> => {
+        const { data, error } = await supabase
+            .from('vehicle_services')
+            .select('*, creator:profiles!created_by(full_name)')
+            .eq('car_id', carId)
+            .order('service_date', { ascending: false })
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(error.message);
+        return data.map(mapRecord);
+    },
+
+    // Saves a service record. When it carries a workshop window, the bookings in that window are
+    // cancelled in the same transaction (add_vehicle_service) and their owners notified; they are
+    // returned so the UI can report them. cars.in_workshop follows the window in the database.
+    addRecord: async (
+        record: Omit<VehicleServiceRecord, 'id' | 'createdAt' | 'createdBy' | 'createdByName'>
+    ): Promise<{ record: VehicleServiceRecord; cancelled: Reservation[] }> => {
+        const { data, error } = await supabase.rpc('add_vehicle_service', {
+            p_car_id: record.carId,
+            p_type: record.type,
+            p_service_date: record.serviceDate,
+            p_next_due_date: record.nextDueDate || null,
+            p_cost: record.cost ?? null,
+            p_workshop: record.workshop || null,
+            p_notes: record.notes || null,
+            p_invoice_urls: record.invoiceUrls,
+            p_workshop_start: record.workshopStart || null,
+            p_workshop_end: record.workshopEnd || null
+        });
+
+        if (error) throw new Error(error.message);
+
+        const cancelled: Reservation[] = (data.cancelled || []).map(mapCancelled);
+        await serviceLogService.notifyCancelledBookers(record.carId, cancelled);
+
+        return { record: mapRecord(data.record), cancelled };
+    },
+
+    // The car came back early: closing the window puts it back in service (sync_workshop_flags)
+    endWorkshop: async (record: VehicleServiceRecord): Promise<void> => {
+        const now = new Date();
+        if (!record.workshopEnd || parseISO(record.workshopEnd) <= now) return;
+
+        const { error } = await supabase
+            .from('vehicle_services')
+            .update({ workshop_end: now.toISOString() })
+            .eq('id', record.id);
+
+        if (error) throw new Error(error.message);
+    },
+
+    deleteRecord: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('vehicle_services')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw new Error(error.message);
+    },
+
+    uploadInvoice: async (file: File): Promise<string> => {
+        const fileExt = file.name.split('.').pop();
+        const fileName = `${Math.random().toString(36).substring(2)}.${fileExt}`;
+        const filePath = `invoices/${fileName}`;
+
+        const { error: uploadError } = await supabase.storage
+            .from('car-images')
+            .upload(filePath, file);
+
+        if (uploadError) throw new Error(uploadError.message);
+
+        const { data } = supabase.storage
+            .from('car-images')
+            .getPublicUrl(filePath);
+
+        return data.publicUrl;
+    },
+
+    notifyCancelledBookers: async (carId: string, cancelled: Reservation[]): Promise<void> => {
+        if (cancelled.length === 0) return;
+
+        try {
+            const { data: car } = await supabase
+                .from('cars')
+                .select('name')
+                .eq('id', carId)
+                .single();
+
+            // One message per booker, listing all of their affected slots
+            const byUser = new Map<string, Reservation[]>();
+            cancelled.forEach(res => byUser.set(res.userId, [...(byUser.get(res.userId) || []), res]));
+
+            for (const [userId, bookings] of byUser) {
+                const slots = bookings
+                    .map(res => format(parseISO(res.startTime), "EEE d MMM, HH:mm", { locale: es }))
+                    .join(', ');
+
+                await supabase.functions.invoke('send-notification', {
+                    body: {
+                        userId,
+                        title: `Reserva cancelada: ${car?.name || 'coche'} en el taller`,
+                        body: bookings.length === 1
+                            ? `Tu reserva del ${slots} se ha cancelado porque el coche estará en el taller.`
+                            : `Tus reservas (${slots}) se han cancelado porque el coche estará en el taller.`,
+                        notificationType: 'reservations',
+                        data: {
+                            type: 'workshop_cancellation',
+                            carId,
+                            url: '/?tab=cars'
+                        }
+                    }
+                });
+            }
+        } catch (e) {
+            console.warn('Failed to send notification:', e);
+        }
+    }
+};
@@ -0,0 +1,103 @@
+import { supabase } from './supabase';
+import { WaitlistEntry } from '../types';
+
+const mapEntry = (row: any): WaitlistEntry => ({
+    id: row.id,
+    userId: row.user_id,
+    carId: row.car_id || undefined,
+    offeredCarId: row.offered_car_id || undefined,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    status: row.status,
+    notifiedAt: row.notified_at || undefined,
+    createdAt: row.created_at
+});
+
+export const waitlistService = {
+    // carId = null queues for any car that frees up in the window
+    async join(carId: string | null, startTime: string, endTime: string): Promise<WaitlistEntry> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Usuario no autenticado');
+
+        const { data, error } = await supabase
+            .from('vehicle_waitlist')
+            .insert({
+                user_id: user.id,
+                car_id: carId,
+                start_time: startTime,
+                end_time: endTime
+            })
+            .select()
+            .single();
+
+        if (error) throw new Error(error.message);
+        return mapEntry(data);
+    },
+
+    async getEntry(id: string): Promise<WaitlistEntry | null> {
+        const { data, error } = await supabase
+            .from('vehicle_waitlist')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data ? mapEntry(data) : null;
+    },
+
+    async getMyEntries(): Promise<WaitlistEntry[]> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return [];
+
+        const { data, error } = await supabase
+            .from('vehicle_waitlist')
+            .select('*')
+            .eq('user_id', user.id)
+            .in('status', ['WAITING', 'NOTIFIED'])
+            .gte('end_time', new Date().toISOString())
+            .order('start_time', { ascending: true });
+
+        if (error) throw new Error(error.message);
+        return data.map(mapEntry);
+    },
+
+    // Leaving the list (or declining an offer): the database passes a pending offer on
+    async cancel(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('vehicle_waitlist')
+            .update({ status: 'CANCELLED' })
+            .eq('id', id);
+
+        if (error) throw new Error(error.message);
+    },
+
+    // Booking the offered slot failed: back to the queue, and the slot goes to the next entry
+    async release(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('vehicle_waitlist')
+            .update({ status: 'WAITING', offered_car_id: null, notified_at: null, pushed_at: null })
+            .eq('id', id)
+            .eq('status', 'NOTIFIED');
+
+        if (error) throw new Error(error.message);
+    },
+
+    // Pushes the offers the database just made instead of waiting for the reservation-lifecycle job.
+    // Best effort: the job pushes anything missed here.
+    async pushOffers(): Promise<void> {
+        try {
+            await supabase.functions.invoke('push-waitlist-offers');
+        } catch (e) {
+            console.warn('Failed to push waitlist offers:', e);
+        }
+    },
+
+    async markBooked(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('vehicle_waitlist')
+            .update({ status: 'BOOKED' })
+            .eq('id', id);
+
+        if (error) throw new Error(error.message);
+    }
+};
@@ -0,0 +1,169 @@
+// Order deadline rules shared by every meal view (through utils/mealLocks) and the check-meal-lock
+// edge function. It lives under _shared so it is bundled with the function on deploy: keep it free
+// of imports from outside supabase/functions.
+// The database enforces the same rules (migrations/meal_order_deadlines.sql): keep both in sync.
+import type { KitchenConfig, Holiday, MealOption } from './mealTypes.ts';
+
+type MealType = MealOption['mealTypes'][number];
+
+export interface DayLockState {
+    date: string; // YYYY-MM-DD
+    isLocked: boolean; // Closed by the kitchen
+}
+
+export interface MealLockContext {
+    config: KitchenConfig | null;
+    holidays: Holiday[];
+    locks: DayLockState[];
+    now: Date;
+    timeZone?: string; // Wall clock to read `now` in; the browser's when omitted
+}
+
+export interface MealLockRequest {
+    date: string; // YYYY-MM-DD
+    mealType: MealType;
+    currentOption?: MealOption;
+    intendedOption?: MealOption; // Omitted when only asking whether the cell can be opened
+}
+
+export type MealLockReason =
+    | 'open'
+    | 'prep_release'
+    | 'past'
+    | 'day_locked'
+    | 'deadline_passed'
+    | 'previous_day_closed'
+    | 'option_cutoff';
+
+export interface MealLockResult {
+    locked: boolean;
+    reason: MealLockReason;
+    message: string;
+}
+
+export const MEAL_LOCK_MESSAGES: Record<MealLockReason, string> = {
+    open: 'Abierto',
+    prep_release: 'Puedes anular lo que la cocina ya tiene preparado hasta el mismo día',
+    past: 'El día ya ha pasado',
+    day_locked: 'La cocina ya ha cerrado los pedidos de este día',
+    deadline_passed: 'Ha pasado la hora de cierre de hoy',
+    previous_day_closed: 'Esta opción se pide antes del cierre del día anterior',
+    option_cutoff: 'Ha pasado la hora límite de esta opción'
+};
+
+const result = (locked: boolean, reason: MealLockReason): MealLockResult => ({ locked, reason, message: MEAL_LOCK_MESSAGES[reason] });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Date (YYYY-MM-DD) and time (HH:mm) as read on the house's clock
+export const wallClock = (now: Date, timeZone?: string): { date: string; time: string } => {
+    if (!timeZone) {
+        return {
+            date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+            time: `${pad(now.getHours())}:${pad(now.getMinutes())}`
+        };
+    }
+
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-GB', {
+            timeZone,
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+        }).formatToParts(now).map(p => [p.type, p.value])
+    );
+    return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+export const shiftDate = (date: string, days: number): string => {
+    const [y, m, d] = date.split('-').map(Number);
+    const shifted = new Date(Date.UTC(y, m - 1, d + days));
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+};
+
+const dayOfWeek = (date: string): number => {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d)).getUTCDay(); // 0 (Sun) - 6 (Sat)
+};
+
+/**
+ * Closing time (HH:mm) of a day. Hierarchy: override > Sunday/holiday > Saturday > weekday,
+ * falling back to the legacy weekly_schedule. Null when the day has no deadline.
+ */
+export const getDayCutoff = (config: KitchenConfig | null, holidays: Holiday[], date: string): string | null => {
+    if (!config) return null;
+
+    const dow = dayOfWeek(date);
+    const isHoliday = holidays.some(h => h.date === date);
+
+    const cutoff = config.overrides?.[date]
+        || (dow === 0 || isHoliday ? config.schedule_sunday_holiday
+            : dow === 6 ? config.schedule_saturday
+                : config.schedule_weekdays)
+        || config.weekly_schedule?.[String(dow)];
+
+    return cutoff || null;
+};
+
+// Why a whole day no longer takes changes, or null while it is open
+const getDayClosure = (ctx: MealLockContext, date: string): MealLockReason | null => {
+    const today = wallClock(ctx.now, ctx.timeZone);
+
+    if (date < today.date) return 'past';
+    if (ctx.locks.some(l => l.date === date && l.isLocked)) return 'day_locked';
+    if (date > today.date) return null;
+
+    const cutoff = getDayCutoff(ctx.config, ctx.holidays, date);
+    if (cutoff && today.time >= cutoff) return 'deadline_passed';
+    return null;
+};
+
+/**
+ * Whether a resident can still change a meal, and why not.
+ *
+ * - Past days never change.
+ * - Dropping an option the kitchen prepares in advance is allowed until the day itself.
+ * - Options with their own rule close on the previous day's deadline or at their own time.
+ * - Otherwise breakfast closes with the previous day and lunch/dinner with the day itself.
+ */
+export const evaluateMealLock = (ctx: MealLockContext, req: MealLockRequest): MealLockResult => {
+    const today = wallClock(ctx.now, ctx.timeZone);
+    if (req.date < today.date) return result(true, 'past');
+
+    if (req.currentOption?.needsPrep && !req.intendedOption?.needsPrep) {
+        return result(false, 'prep_release');
+    }
+
+    const previousDayClosure = () => getDayClosure(ctx, shiftDate(req.date, -1));
+    const intended = req.intendedOption;
+
+    if (intended?.lockRule === 'day_before') {
+        return previousDayClosure() ? result(true, 'previous_day_closed') : result(false, 'open');
+    }
+
+    if (intended?.lockRule === 'cutoff' && intended.cutoffTime) {
+        if (ctx.locks.some(l => l.date === req.date && l.isLocked)) return result(true, 'day_locked');
+        if (req.date === today.date && today.time >= intended.cutoffTime) return result(true, 'option_cutoff');
+        return result(false, 'open');
+    }
+
+    if (req.mealType === 'breakfast') {
+        return previousDayClosure() ? result(true, 'previous_day_closed') : result(false, 'open');
+    }
+
+    const closure = getDayClosure(ctx, req.date);
+    return closure ? result(true, closure) : result(false, 'open');
+};
+
+// Milliseconds until today's closing time, or null when there is none left today
+export const getTimeToDayCutoff = (ctx: MealLockContext): number | null => {
+    const today = wallClock(ctx.now, ctx.timeZone);
+    if (getDayClosure(ctx, today.date)) return null;
+
+    const cutoff = getDayCutoff(ctx.config, ctx.holidays, today.date);
+    if (!cutoff) return null;
+
+    const [h, m] = cutoff.split(':').map(Number);
+    const [nowH, nowM] = today.time.split(':').map(Number);
+    const seconds = ctx.now.getSeconds() + ctx.now.getMilliseconds() / 1000;
+    return ((h * 60 + m) - (nowH * 60 + nowM)) * 60000 - seconds * 1000;
+};
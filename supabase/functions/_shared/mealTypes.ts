@@ -0,0 +1,36 @@
+// Meal types used by both the app (re-exported from types.ts) and the edge functions.
+// Type-only and free of imports so Deno bundles it as is.
+
+export type MealOptionLockRule = 'default' | 'day_before' | 'cutoff';
+
+export interface MealOption {
+  id: string; // Value stored in orders and templates ('standard', 'tupper'...)
+  label: string;
+  shortLabel: string;
+  icon?: string;
+  color: string; // Hex
+  mealTypes: ('breakfast' | 'lunch' | 'dinner')[];
+  needsPrep: boolean; // Prepared the day before
+  isBag: boolean;
+  lockRule: MealOptionLockRule; // default: the meal's deadline; day_before: previous day's deadline; cutoff: own time
+  cutoffTime?: string; // HH:mm
+  sortOrder: number;
+  isActive: boolean;
+  isSystem: boolean;
+}
+
+export interface Holiday {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+export interface KitchenConfig {
+  id: string;
+  weekly_schedule: Record<string, string>; // Legacy support
+  schedule_weekdays?: string;
+  schedule_saturday?: string;
+  schedule_sunday_holiday?: string;
+  overrides?: Record<string, string>; // YYYY-MM-DD -> HH:mm
+}
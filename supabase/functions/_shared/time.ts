@@ -0,0 +1,3 @@
+// Times in notifications are read on the house's clock, not the server's
+export const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Madrid' })
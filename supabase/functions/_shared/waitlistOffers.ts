@@ -0,0 +1,48 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatTime } from './time.ts'
+
+// Keep in sync with expire_waitlist_offers() in migrations/vehicle_waitlist.sql
+export const WAITLIST_OFFER_TTL_MINUTES = 30
+
+/**
+ * Expires offers nobody took (the database passes them on) and pushes every offer not pushed yet.
+ * Each offer is claimed by setting pushed_at first, so overlapping runs never push it twice.
+ * Returns how many offers were pushed.
+ */
+export const processWaitlistOffers = async (client: SupabaseClient): Promise<number> => {
+  const { error: expireError } = await client.rpc('expire_waitlist_offers')
+  if (expireError) console.error('Error expiring waitlist offers:', expireError)
+
+  const { data: offers, error } = await client
+    .from('vehicle_waitlist')
+    .select('id, user_id, start_time, end_time, car:cars!offered_car_id(name)')
+    .eq('status', 'NOTIFIED')
+    .is('pushed_at', null)
+
+  if (error) throw error
+
+  let pushed = 0
+  for (const entry of offers || []) {
+    const { data: claimed } = await client
+      .from('vehicle_waitlist')
+      .update({ pushed_at: new Date().toISOString() })
+      .eq('id', entry.id)
+      .is('pushed_at', null)
+      .select('id')
+    if (!claimed || claimed.length === 0) continue
+
+    const { error: notifyError } = await client.functions.invoke('send-notification', {
+      body: {
+        userId: entry.user_id,
+        title: `Se ha liberado ${(entry.car as any)?.name || 'un coche'}`,
+        body: `Desde las ${formatTime(entry.start_time)} hasta las ${formatTime(entry.end_time)}. Tienes ${WAITLIST_OFFER_TTL_MINUTES} minutos para reservarlo.`,
+        notificationType: 'reservations',
+        data: { type: 'waitlist_slot', waitlistId: entry.id, url: `/?tab=cars&waitlist=${entry.id}` }
+      }
+    })
+    if (notifyError) console.error('Error sending notification:', notifyError)
+    pushed++
+  }
+
+  return pushed
+}
@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { evaluateMealLock, shiftDate } from '../_shared/mealLocks.ts'
+import type { MealOption } from '../_shared/mealTypes.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Deadlines are read on the house's clock, not the server's
+const HOUSE_TIME_ZONE = 'Europe/Madrid'
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+const mapOption = (d: any): MealOption => ({
+  id: d.id,
+  label: d.label,
+  shortLabel: d.short_label,
+  icon: d.icon || undefined,
+  color: d.color,
+  mealTypes: d.meal_types || [],
+  needsPrep: d.needs_prep,
+  isBag: d.is_bag,
+  lockRule: d.lock_rule,
+  cutoffTime: d.cutoff_time || undefined,
+  sortOrder: d.sort_order,
+  isActive: d.is_active,
+  isSystem: d.is_system
+})
+
+// Tells the caller whether their change to a meal is still accepted, using the same rules as the app
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser()
+    if (userError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { date, mealType, option } = await req.json()
+    if (!date || !mealType || !option) return json({ error: 'date, mealType and option are required' }, 400)
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const [config, holidays, locks, options, order, absence, template] = await Promise.all([
+      supabaseClient.from('kitchen_config').select('*').maybeSingle(),
+      supabaseClient.from('holidays').select('id, name, date, created_at'),
+      supabaseClient.from('daily_meal_status').select('date, is_locked').in('date', [shiftDate(date, -1), date]),
+      supabaseClient.from('meal_options').select('*'),
+      supabaseClient.from('meal_orders').select('option').eq('user_id', user.id).eq('date', date).eq('meal_type', mealType).maybeSingle(),
+      supabaseClient.from('user_absences').select('id').eq('user_id', user.id).lte('start_date', date).gte('end_date', date).limit(1),
+      // Resolves the template set in force on that date
+      supabaseClient.rpc('meal_template_option', { p_user_id: user.id, p_date: date, p_meal_type: mealType })
+    ])
+
+    for (const res of [config, holidays, locks, options, order, absence, template]) {
+      if (res.error) throw res.error
+    }
+
+    const catalog = (options.data || []).map(mapOption)
+    // Same precedence as the daily plan: order, then absence (no meal), then template
+    const currentKey = order.data?.option || ((absence.data || []).length > 0 ? 'skip' : template.data) || 'skip'
+
+    const result = evaluateMealLock(
+      {
+        config: config.data,
+        holidays: (holidays.data || []).map((h: any) => ({ id: h.id, name: h.name, date: h.date, createdAt: h.created_at })),
+        locks: (locks.data || []).map((l: any) => ({ date: l.date, isLocked: l.is_locked })),
+        now: new Date(),
+        timeZone: HOUSE_TIME_ZONE
+      },
+      {
+        date,
+        mealType,
+        currentOption: catalog.find(o => o.id === currentKey),
+        intendedOption: catalog.find(o => o.id === option)
+      }
+    )
+
+    return json(result)
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400)
+  }
+})
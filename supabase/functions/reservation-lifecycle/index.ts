@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatTime } from '../_shared/time.ts'
+import { processWaitlistOffers } from '../_shared/waitlistOffers.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Keep in sync with components/car-detail/ActiveReservations.tsx
+const END_REMINDER_MINUTES = 15    // Reminder this long before end_time
+const OVERDUE_GRACE_MINUTES = 15   // Escalate when the car is this late
+const NO_SHOW_GRACE_MINUTES = 30   // Release bookings not picked up this long after start_time
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000).toISOString()
+
+const notify = async (client: SupabaseClient, body: Record<string, unknown>) => {
+  const { error } = await client.functions.invoke('send-notification', { body })
+  if (error) console.error('Error sending notification:', error)
+}
+
+const logActivity = async (client: SupabaseClient, reservation: any, action: string, details: string) => {
+  const { error } = await client
+    .from('vehicle_activity')
+    .insert({
+      car_id: reservation.car_id,
+      reservation_id: reservation.id,
+      user_id: reservation.user_id,
+      action,
+      details
+    })
+  if (error) console.error('Error logging activity:', error)
+}
+
+// Runs every few minutes (see migrations/reservation_lifecycle.sql):
+// 1. reminds bookers shortly before their booking ends,
+// 2. escalates overdue returns to the booker and the car's encargado,
+// 3. releases bookings that were never picked up,
+// 4. expires waitlist offers nobody took and pushes the ones the app hasn't pushed yet,
+// 5. takes cars in and out of service as their workshop windows open and close.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const now = new Date().toISOString()
+    const summary = { reminders: 0, overdue: 0, noShows: 0, waitlistOffers: 0 }
+
+    // 1. End-of-booking reminders
+    const { data: ending, error: endingError } = await supabaseClient
+      .from('reservations')
+      .select('id, car_id, user_id, end_time, car:cars(name)')
+      .eq('status', 'ACTIVE')
+      .not('picked_up_at', 'is', null)
+      .is('end_reminder_sent_at', null)
+      .gt('end_time', now)
+      .lte('end_time', minutesFromNow(END_REMINDER_MINUTES))
+
+    if (endingError) throw endingError
+
+    for (const res of ending || []) {
+      await notify(supabaseClient, {
+        userId: res.user_id,
+        title: `Tu reserva de ${(res.car as any)?.name || 'coche'} termina pronto`,
+        body: `Devuelve el coche antes de las ${formatTime(res.end_time)} y registra la devolución.`,
+        notificationType: 'reminders',
+        data: { type: 'reservation_ending', reservationId: res.id, url: '/?tab=cars' }
+      })
+      await supabaseClient.from('reservations').update({ end_reminder_sent_at: now }).eq('id', res.id)
+      summary.reminders++
+    }
+
+    // 2. Overdue returns
+    const { data: overdue, error: overdueError } = await supabaseClient
+      .from('reservations')
+      .select('id, car_id, user_id, end_time, user:profiles(full_name), car:cars(name, assigned_user_id)')
+      .eq('status', 'ACTIVE')
+      .not('picked_up_at', 'is', null)
+      .is('overdue_notified_at', null)
+      .lt('end_time', minutesFromNow(-OVERDUE_GRACE_MINUTES))
+
+    if (overdueError) throw overdueError
+
+    for (const res of overdue || []) {
+      const car = res.car as any
+      const userName = (res.user as any)?.full_name || 'El usuario'
+
+      await notify(supabaseClient, {
+        userId: res.user_id,
+        title: `Devolución atrasada: ${car?.name || 'coche'}`,
+        body: `Tu reserva terminó a las ${formatTime(res.end_time)}. Devuelve el coche y registra la devolución.`,
+        notificationType: 'reservations',
+        data: { type: 'reservation_overdue', reservationId: res.id, url: '/?tab=cars' }
+      })
+
+      if (car?.assigned_user_id && car.assigned_user_id !== res.user_id) {
+        await notify(supabaseClient, {
+          userId: car.assigned_user_id,
+          title: `${car.name}: devolución atrasada`,
+          body: `${userName} debía devolverlo a las ${formatTime(res.end_time)} y aún no lo ha hecho.`,
+          notificationType: 'reservations',
+          data: { type: 'reservation_overdue', reservationId: res.id, url: '/?tab=cars' }
+        })
+      }
+
+      await supabaseClient.from('reservations').update({ overdue_notified_at: now }).eq('id', res.id)
+      await logActivity(supabaseClient, res, 'OVERDUE', `Debía devolverse a las ${formatTime(res.end_time)}`)
+      summary.overdue++
+    }
+
+    // 3. No-shows: never picked up within the grace period
+    const { data: noShows, error: noShowError } = await supabaseClient
+      .from('reservations')
+      .select('id, car_id, user_id, start_time, end_time, car:cars(name)')
+      .eq('status', 'ACTIVE')
+      .is('picked_up_at', null)
+      .lt('start_time', minutesFromNow(-NO_SHOW_GRACE_MINUTES))
+
+    if (noShowError) throw noShowError
+
+    for (const res of noShows || []) {
+      // Still running: cancel to free the rest of the slot for the waitlist. Already over: close it as completed.
+      const stillRunning = new Date(res.end_time) > new Date(now)
+      const { error: updateError } = await supabaseClient
+        .from('reservations')
+        .update({ status: stillRunning ? 'CANCELLED' : 'COMPLETED' })
+        .eq('id', res.id)
+        .eq('status', 'ACTIVE')
+
+      if (updateError) {
+        console.error('Error releasing no-show:', res.id, updateError)
+        continue
+      }
+
+      await logActivity(
+        supabaseClient,
+        res,
+        'NO_SHOW',
+        stillRunning ? 'Cancelada automáticamente: no se recogió el coche' : 'Cerrada automáticamente: no se registró la recogida'
+      )
+
+      if (stillRunning) {
+        await notify(supabaseClient, {
+          userId: res.user_id,
+          title: `Reserva liberada: ${(res.car as any)?.name || 'coche'}`,
+          body: `No confirmaste la recogida del coche de las ${formatTime(res.start_time)}, así que la reserva se ha cancelado.`,
+          notificationType: 'reservations',
+          data: { type: 'reservation_no_show', reservationId: res.id, url: '/?tab=cars' }
+        })
+      }
+
+      summary.noShows++
+    }
+
+    // 4. Waitlist offers (see supabase/functions/_shared/waitlistOffers.ts)
+    summary.waitlistOffers = await processWaitlistOffers(supabaseClient)
+
+    // 5. Workshop windows (migrations/vehicle_service_log.sql)
+    const { error: workshopError } = await supabaseClient.rpc('sync_workshop_flags')
+    if (workshopError) console.error('Error syncing workshop flags:', workshopError)
+
+    return new Response(
+      JSON.stringify({ message: 'Reservation lifecycle processed', ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Error:', error)
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// How far ahead of the due date the reminder goes out
+const REMINDER_DAYS_AHEAD = 14
+
+const SERVICE_LABELS: Record<string, string> = {
+  itv: 'ITV',
+  oil: 'Cambio de aceite',
+  tyres: 'Cambio de neumáticos',
+  insurance: 'Renovación del seguro',
+  other: 'Mantenimiento',
+}
+
+// Runs daily (see migrations/vehicle_service_log.sql). Sends one reminder per due service
+// to the car's encargado and the ADMIN users, through the vehicle_inspections preference.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const limit = new Date()
+    limit.setDate(limit.getDate() + REMINDER_DAYS_AHEAD)
+
+    const { data: due, error: dueError } = await supabaseClient
+      .from('vehicle_services')
+      .select('id, car_id, type, service_date, next_due_date, car:cars(name, assigned_user_id)')
+      .not('next_due_date', 'is', null)
+      .lte('next_due_date', limit.toISOString().slice(0, 10))
+      .is('reminder_sent_at', null)
+      .order('service_date', { ascending: false })
+
+    if (dueError) throw dueError
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No services due', sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    // Only the latest record of each type counts; older ones were superseded by a newer service
+    const { data: latest, error: latestError } = await supabaseClient
+      .from('vehicle_services')
+      .select('id, car_id, type, service_date')
+      .in('car_id', [...new Set(due.map((s: any) => s.car_id))])
+      .order('service_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (latestError) throw latestError
+
+    const latestIds = new Set<string>()
+    const seen = new Set<string>()
+    for (const s of latest || []) {
+      const key = `${s.car_id}:${s.type}`
+      if (!seen.has(key)) {
+        seen.add(key)
+        latestIds.add(s.id)
+      }
+    }
+
+    const { data: admins, error: adminError } = await supabaseClient
+      .from('profiles')
+      .select('id')
+      .eq('role', 'ADMIN')
+
+    if (adminError) throw adminError
+
+    let sent = 0
+    for (const service of due.filter((s: any) => latestIds.has(s.id))) {
+      const car = service.car as any
+      const recipients = new Set<string>((admins || []).map((a: any) => a.id))
+      if (car?.assigned_user_id) recipients.add(car.assigned_user_id)
+
+      const dueDate = new Date(service.next_due_date)
+      const overdue = dueDate < new Date(new Date().toISOString().slice(0, 10))
+      const label = SERVICE_LABELS[service.type] || SERVICE_LABELS.other
+
+      const { error: notifyError } = await supabaseClient.functions.invoke('send-notification', {
+        body: {
+          userIds: [...recipients],
+          title: `${label}: ${car?.name || 'vehículo'}`,
+          body: overdue
+            ? `Vencido desde el ${dueDate.toLocaleDateString('es-ES')}`
+            : `Vence el ${dueDate.toLocaleDateString('es-ES')}`,
+          notificationType: 'vehicle_inspections',
+          data: {
+            type: 'vehicle_service',
+            serviceId: service.id,
+            url: '/?tab=cars'
+          }
+        }
+      })
+
+      if (notifyError) {
+        console.error('Error sending reminder for service:', service.id, notifyError)
+        continue
+      }
+
+      await supabaseClient
+        .from('vehicle_services')
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq('id', service.id)
+
+      sent++
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Reminders sent', sent }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Error:', error)
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
@@ -30,6 +30,9 @@ export interface User {
   dietNumber?: number;
   dietName?: string;
   dietNotes?: string;
+  allergens?: string[]; // Allergen/intolerance keys, see utils/allergens.ts
+  dietValidFrom?: string; // YYYY-MM-DD, temporary diets only
+  dietValidTo?: string;
   roomId?: string;
   bedId?: string;
   roomName?: string;
@@ -64,6 +67,9 @@ export interface Car {
   nextServiceDate?: string; // next_revision en DB
   inWorkshop: boolean; // in_workshop en DB - deshabilita reservas
   assignedUserId?: string; // Nuevo: Encargado del vehículo
+  odometerKm?: number; // odometer_km en DB - último kilometraje registrado
+  fuelLevel?: number; // fuel_level en DB - % de combustible o carga (0-100)
+  seats?: number; // seats en DB - plazas incluido el conductor
 }
 
 export interface Reservation {
@@ -78,6 +84,77 @@ export interface Reservation {
   userAvatar?: string;
   isForGuest?: boolean; // Indicates if reservation is for an external guest
   guestName?: string; // Name of the guest driver
+  guestDriverId?: string; // guest_driver_id en DB - conductor invitado del registro
+  seriesId?: string; // series_id en DB - agrupa las ocurrencias de una reserva periódica
+  recurrence?: RecurrenceRule; // Regla con la que se generó la serie
+  pickedUpAt?: string; // picked_up_at en DB - cuándo se recogió el coche
+}
+
+export interface GuestDriver {
+  id: string;
+  name: string;
+  phone?: string;
+  licenseNumber?: string;
+  licenseExpiry?: string; // YYYY-MM-DD
+  vouchedBy?: string; // Residente que responde por el invitado
+  vouchedByName?: string;
+  createdAt: string;
+}
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'custom';
+  daysOfWeek?: number[]; // 1=Monday, 7=Sunday (solo 'custom')
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // Número máximo de ocurrencias
+}
+
+// Alcance de una edición/cancelación sobre una reserva periódica
+export type SeriesScope = 'THIS' | 'FOLLOWING' | 'ALL';
+
+export interface ReservationReturn {
+  id: string;
+  reservationId: string;
+  carId: string;
+  userId: string;
+  userName?: string;
+  startOdometerKm?: number; // Kilometraje del coche antes del viaje
+  endOdometerKm: number;
+  fuelLevel: number; // % de combustible o carga al devolver (0-100)
+  cleanliness: 'clean' | 'acceptable' | 'dirty';
+  damageNotes?: string;
+  photoUrls: string[];
+  createdAt: string;
+}
+
+export type VehicleServiceType = 'itv' | 'oil' | 'tyres' | 'insurance' | 'other';
+
+export interface VehicleServiceRecord {
+  id: string;
+  carId: string;
+  type: VehicleServiceType;
+  serviceDate: string; // YYYY-MM-DD
+  nextDueDate?: string; // YYYY-MM-DD - próxima ITV, cambio de aceite, renovación...
+  cost?: number;
+  workshop?: string;
+  notes?: string;
+  invoiceUrls: string[];
+  workshopStart?: string; // ISO - el coche no se puede reservar entre workshopStart y workshopEnd
+  workshopEnd?: string; // ISO
+  createdBy?: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  userId: string;
+  carId?: string; // Sin coche = cualquier coche disponible
+  offeredCarId?: string; // Coche que se ha liberado para esta entrada
+  startTime: string; // ISO
+  endTime: string; // ISO
+  status: 'WAITING' | 'NOTIFIED' | 'BOOKED' | 'CANCELLED' | 'EXPIRED'; // EXPIRED: oferta no aceptada a tiempo
+  notifiedAt?: string;
+  createdAt: string;
 }
 
 export interface ActivityLog {
@@ -85,15 +162,31 @@ export interface ActivityLog {
   carId: string;
   userId: string;
   userName: string;
-  action: 'RESERVE' | 'CANCEL' | 'COMMENT' | 'RETURN';
+  action: 'RESERVE' | 'CANCEL' | 'COMMENT' | 'RETURN' | 'EDIT' | 'PICKUP' | 'NO_SHOW' | 'OVERDUE';
   timestamp: string;
   details?: string;
   userAvatar?: string;
+  reservationId?: string;
+}
+
+export type MealTemplateRotation = 'all' | 'odd' | 'even'; // ISO week parity
+
+// Named weekly pattern; the default one applies whenever no other set does
+export interface MealTemplateSet {
+  id: string;
+  userId: string;
+  name: string;
+  isDefault: boolean;
+  validFrom?: string; // YYYY-MM-DD
+  validTo?: string;
+  weekRotation: MealTemplateRotation;
+  createdAt: string;
 }
 
 export interface MealTemplate {
   id: string;
   userId: string;
+  templateId: string; // MealTemplateSet
   dayOfWeek: number; // 1=Monday, 7=Sunday
   mealType: 'breakfast' | 'lunch' | 'dinner';
   option: string;
@@ -111,6 +204,110 @@ export interface MealOrder {
   status: 'pending' | 'confirmed' | 'cancelled' | 'template';
 }
 
+// Shared with the edge functions, which can't import from outside supabase/functions
+export type { MealOptionLockRule, MealOption } from './supabase/functions/_shared/mealTypes.ts';
+
+// One row of the meal_orders history, written by a database trigger
+export interface MealOrderChange {
+  id: string;
+  userId: string;
+  userName?: string;
+  date: string; // YYYY-MM-DD
+  mealType: 'breakfast' | 'lunch' | 'dinner';
+  oldOption?: string;
+  newOption?: string; // Missing when the order was deleted
+  oldIsBag?: boolean;
+  newIsBag?: boolean;
+  oldBagTime?: string;
+  newBagTime?: string;
+  previousSource: 'order' | 'template' | 'absence' | 'none'; // What the resident had before
+  changedBy?: string;
+  changedByName?: string;
+  isOverride: boolean;
+  createdAt: string;
+}
+
+export type MealChangeRequestStatus = 'pending' | 'accepted' | 'declined';
+
+// Change asked for after a meal closed; the kitchen accepts or declines it
+export interface MealChangeRequest {
+  id: string;
+  userId: string;
+  userName?: string;
+  date: string; // YYYY-MM-DD
+  mealType: 'breakfast' | 'lunch' | 'dinner';
+  currentOption: string;
+  requestedOption: string;
+  isBag: boolean;
+  bagTime?: string;
+  note?: string; // Resident's explanation
+  status: MealChangeRequestStatus;
+  responseNote?: string;
+  respondedBy?: string;
+  respondedAt?: string;
+  createdAt: string;
+}
+
+export type MenuCourse = 'starter' | 'main' | 'dessert';
+
+// A dish on the kitchen's menu; residents only see it once published
+export interface MenuDish {
+  id: string;
+  date: string; // YYYY-MM-DD
+  mealType: 'breakfast' | 'lunch' | 'dinner';
+  course: MenuCourse;
+  name: string;
+  allergens: string[]; // Keys from utils/allergens.ts
+  sortOrder: number;
+  isPublished: boolean;
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  category?: string;
+  unit: string;
+  stock: number;
+  minStock: number;
+  perServing?: number; // Per diner, for the forecast-based shopping list
+  mealTypes: ('breakfast' | 'lunch' | 'dinner')[];
+  isActive: boolean;
+  updatedAt: string;
+}
+
+export interface PantryDelivery {
+  id: string;
+  itemId: string;
+  itemName?: string;
+  quantity: number;
+  supplier?: string;
+  notes?: string;
+  deliveredOn: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+// Whether a resident ate a meal they had ordered, recorded at check-in
+export interface MealAttendance {
+  id: string;
+  date: string; // YYYY-MM-DD
+  mealType: 'breakfast' | 'lunch' | 'dinner';
+  userId: string;
+  orderedOption: string;
+  served: boolean;
+  markedAt: string;
+}
+
+// Bag or tupper meal on the pickup board; no row yet means it is still to be prepared
+export interface MealPickup {
+  id: string;
+  date: string; // YYYY-MM-DD
+  mealType: 'breakfast' | 'lunch' | 'dinner';
+  userId: string;
+  status: 'prepared' | 'collected';
+  preparedAt?: string;
+  collectedAt?: string;
+}
+
 export interface MaintenanceTicket {
   id: string;
   title: string;
@@ -224,21 +421,7 @@ export interface AppGuideSection {
   updatedAt: string;
 }
 
-export interface Holiday {
-  id: string;
-  name: string;
-  date: string; // YYYY-MM-DD
-  createdAt: string;
-}
-
-export interface KitchenConfig {
-  id: string;
-  weekly_schedule: Record<string, string>; // Legacy support
-  schedule_weekdays?: string;
-  schedule_saturday?: string;
-  schedule_sunday_holiday?: string;
-  overrides?: Record<string, string>; // YYYY-MM-DD -> HH:mm
-}
+export type { Holiday, KitchenConfig } from './supabase/functions/_shared/mealTypes.ts';
 
 
 export interface UserAdminMessage {
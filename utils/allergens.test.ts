@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { countByAllergen, getActiveAllergens, getAllergen, isDietActive } from './allergens';
+
+describe('isDietActive', () => {
+    it('needs the diet switched on', () => {
+        expect(isDietActive({ hasDiet: false }, '2026-03-10')).toBe(false);
+        expect(isDietActive({ hasDiet: true }, '2026-03-10')).toBe(true);
+    });
+
+    it('counts both ends of a temporary diet', () => {
+        const diet = { hasDiet: true, dietValidFrom: '2026-03-01', dietValidTo: '2026-03-15' };
+        expect(isDietActive(diet, '2026-02-28')).toBe(false);
+        expect(isDietActive(diet, '2026-03-01')).toBe(true);
+        expect(isDietActive(diet, '2026-03-15')).toBe(true);
+        expect(isDietActive(diet, '2026-03-16')).toBe(false);
+    });
+
+    it('allows a diet open at either end', () => {
+        expect(isDietActive({ hasDiet: true, dietValidFrom: '2026-03-01' }, '2030-01-01')).toBe(true);
+        expect(isDietActive({ hasDiet: true, dietValidTo: '2026-03-15' }, '2020-01-01')).toBe(true);
+    });
+});
+
+describe('getActiveAllergens', () => {
+    it('keeps the allergens but only reports them while the diet applies', () => {
+        const user = { hasDiet: true, allergens: ['gluten'], dietValidTo: '2026-03-15' };
+        expect(getActiveAllergens(user, '2026-03-15')).toEqual(['gluten']);
+        expect(getActiveAllergens(user, '2026-03-16')).toEqual([]);
+        expect(getActiveAllergens({ hasDiet: false, allergens: ['gluten'] }, '2026-03-10')).toEqual([]);
+        expect(getActiveAllergens({ hasDiet: true }, '2026-03-10')).toEqual([]);
+    });
+});
+
+describe('getAllergen', () => {
+    it('falls back to the raw key for allergens outside the catalog', () => {
+        expect(getAllergen('egg')).toEqual({ id: 'egg', label: 'Huevo', shortLabel: 'HUE' });
+        expect(getAllergen('kiwi')).toEqual({ id: 'kiwi', label: 'kiwi', shortLabel: 'KIW' });
+    });
+});
+
+describe('countByAllergen', () => {
+    it('adds up portions in catalog order, unknown keys last', () => {
+        const counts = countByAllergen([
+            { allergens: ['fish', 'kiwi', 'gluten'], count: 1 },
+            { allergens: ['gluten'], count: 3 },
+            { allergens: [], count: 5 }
+        ]);
+        expect(counts.map(c => [c.allergen.id, c.count])).toEqual([['gluten', 4], ['fish', 1], ['kiwi', 1]]);
+    });
+});
@@ -0,0 +1,55 @@
+import { User } from '../types';
+
+export interface Allergen {
+    id: string; // Stored in profiles.allergens
+    label: string;
+    shortLabel: string;
+}
+
+// The 14 allergens EU labelling requires, in the order kitchens usually list them
+export const ALLERGENS: Allergen[] = [
+    { id: 'gluten', label: 'Gluten', shortLabel: 'GLU' },
+    { id: 'lactose', label: 'Lactosa / leche', shortLabel: 'LAC' },
+    { id: 'egg', label: 'Huevo', shortLabel: 'HUE' },
+    { id: 'nuts', label: 'Frutos de cáscara', shortLabel: 'FRU' },
+    { id: 'peanuts', label: 'Cacahuete', shortLabel: 'CAC' },
+    { id: 'soy', label: 'Soja', shortLabel: 'SOJ' },
+    { id: 'fish', label: 'Pescado', shortLabel: 'PES' },
+    { id: 'crustaceans', label: 'Crustáceos', shortLabel: 'CRU' },
+    { id: 'molluscs', label: 'Moluscos', shortLabel: 'MOL' },
+    { id: 'celery', label: 'Apio', shortLabel: 'API' },
+    { id: 'mustard', label: 'Mostaza', shortLabel: 'MOS' },
+    { id: 'sesame', label: 'Sésamo', shortLabel: 'SES' },
+    { id: 'sulphites', label: 'Sulfitos', shortLabel: 'SUL' },
+    { id: 'lupin', label: 'Altramuz', shortLabel: 'ALT' },
+];
+
+export const getAllergen = (id: string): Allergen =>
+    ALLERGENS.find(a => a.id === id) || { id, label: id, shortLabel: id.slice(0, 3).toUpperCase() };
+
+/**
+ * Whether the user's diet applies on a day (YYYY-MM-DD). Diets without dates are permanent;
+ * temporary ones only count between their start and end, both inclusive.
+ */
+export const isDietActive = (user: Pick<User, 'hasDiet' | 'dietValidFrom' | 'dietValidTo'>, date: string): boolean => {
+    if (!user.hasDiet) return false;
+    if (user.dietValidFrom && date < user.dietValidFrom) return false;
+    if (user.dietValidTo && date > user.dietValidTo) return false;
+    return true;
+};
+
+export const getActiveAllergens = (user: Pick<User, 'hasDiet' | 'dietValidFrom' | 'dietValidTo' | 'allergens'>, date: string): string[] =>
+    isDietActive(user, date) ? user.allergens || [] : [];
+
+/**
+ * How many diners avoid each allergen, in catalog order. Each entry is one diner's
+ * allergens and how many portions they stand for.
+ */
+export const countByAllergen = (diners: { allergens: string[]; count: number }[]): { allergen: Allergen; count: number }[] => {
+    const counts = new Map<string, number>();
+    diners.forEach(d => d.allergens.forEach(id => counts.set(id, (counts.get(id) || 0) + d.count)));
+
+    const known = ALLERGENS.filter(a => counts.has(a.id));
+    const unknown = [...counts.keys()].filter(id => !ALLERGENS.some(a => a.id === id)).map(getAllergen);
+    return [...known, ...unknown].map(allergen => ({ allergen, count: counts.get(allergen.id)! }));
+};
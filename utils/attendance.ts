@@ -0,0 +1,76 @@
+import { MealAttendance, MealOption, MealOrder } from '../types';
+import { MealType } from './mealForecast';
+import { getMealOption } from './mealOptions';
+
+export interface CheckInEntry {
+    userId: string;
+    userName: string;
+    option: string;
+}
+
+export interface WasteRow {
+    option: string;
+    ordered: number;
+    served: number;
+    missed: number;
+}
+
+export interface NoShowRow {
+    userId: string;
+    ordered: number;
+    missed: number;
+    lastMissed: string; // YYYY-MM-DD
+}
+
+// Meal being served at this time of day, so the tablet opens on the right one
+export const currentMealType = (now: Date): MealType => {
+    const hour = now.getHours();
+    if (hour < 11) return 'breakfast';
+    if (hour < 17) return 'lunch';
+    return 'dinner';
+};
+
+/**
+ * Residents expected in the dining room for one meal.
+ * Takeaway options (bags, tuppers: everything prepared in advance) are collected rather
+ * than served, so they are left out.
+ */
+export const buildCheckInList = (plan: (MealOrder & { userName: string })[], mealType: MealType, options: MealOption[]): CheckInEntry[] =>
+    plan
+        .filter(o => o.mealType === mealType && o.option !== 'skip' && !o.isBag && !getMealOption(options, o.option).needsPrep)
+        .map(o => ({ userId: o.userId, userName: o.userName, option: o.option }))
+        .sort((a, b) => a.userName.localeCompare(b.userName));
+
+// Ordered vs served per option, most missed first
+export const buildWasteReport = (records: MealAttendance[]): WasteRow[] => {
+    const rows = new Map<string, WasteRow>();
+
+    records.forEach(record => {
+        const row = rows.get(record.orderedOption) || { option: record.orderedOption, ordered: 0, served: 0, missed: 0 };
+        row.ordered += 1;
+        if (record.served) row.served += 1;
+        else row.missed += 1;
+        rows.set(record.orderedOption, row);
+    });
+
+    return [...rows.values()].sort((a, b) => b.missed - a.missed || b.ordered - a.ordered);
+};
+
+// Residents who ordered and did not show up at least `minMissed` times
+export const findNoShows = (records: MealAttendance[], minMissed: number = 3): NoShowRow[] => {
+    const rows = new Map<string, NoShowRow>();
+
+    records.forEach(record => {
+        const row = rows.get(record.userId) || { userId: record.userId, ordered: 0, missed: 0, lastMissed: '' };
+        row.ordered += 1;
+        if (!record.served) {
+            row.missed += 1;
+            if (record.date > row.lastMissed) row.lastMissed = record.date;
+        }
+        rows.set(record.userId, row);
+    });
+
+    return [...rows.values()]
+        .filter(row => row.missed >= minMissed)
+        .sort((a, b) => b.missed - a.missed || b.lastMissed.localeCompare(a.lastMissed));
+};
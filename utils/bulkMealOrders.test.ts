@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { KitchenConfig, MealOrder, MealTemplate, MealTemplateSet, UserAbsence } from '../types';
+import { BulkOrderInput, planBulkOrder } from './bulkMealOrders';
+import { DEFAULT_MEAL_OPTIONS, getMealOption } from './mealOptions';
+
+const options = DEFAULT_MEAL_OPTIONS;
+const [standard, tupper, bag, skip] = ['standard', 'tupper', 'bag', 'skip'].map(id => getMealOption(options, id));
+
+const config: KitchenConfig = {
+    id: 'config',
+    weekly_schedule: {},
+    schedule_weekdays: '10:00',
+    schedule_saturday: '11:00',
+    schedule_sunday_holiday: '12:00',
+    overrides: {}
+};
+
+const set: MealTemplateSet = { id: 'set', userId: 'u1', name: 'Habitual', isDefault: true, weekRotation: 'all', createdAt: '2026-01-01T00:00:00Z' };
+
+// Standard lunch and dinner every day of the week
+const templates: MealTemplate[] = [1, 2, 3, 4, 5, 6, 7].flatMap(dayOfWeek => (['lunch', 'dinner'] as const).map(mealType => ({
+    id: `t-${dayOfWeek}-${mealType}`,
+    userId: 'u1',
+    templateId: 'set',
+    dayOfWeek,
+    mealType,
+    option: 'standard',
+    isBag: false
+})));
+
+const order = (date: string, mealType: MealOrder['mealType'], option: string, bagTime?: string): MealOrder => ({
+    id: `${date}-${mealType}`,
+    userId: 'u1',
+    date,
+    mealType,
+    option,
+    isBag: option === 'bag',
+    bagTime,
+    status: 'confirmed'
+});
+
+const absence = (startDate: string, endDate: string): UserAbsence => ({
+    id: 'a1', userId: 'u1', startDate, endDate, createdAt: '', updatedAt: ''
+});
+
+// Tuesday 10 March 2026 at 11:00: today's lunch and dinner have closed, tomorrow is open
+const input = (overrides: Partial<BulkOrderInput> = {}): BulkOrderInput => ({
+    userId: 'u1',
+    startDate: '2026-03-10',
+    endDate: '2026-03-11',
+    mealTypes: ['lunch', 'dinner'],
+    option: skip,
+    orders: [],
+    templates,
+    templateSets: [set],
+    absences: [],
+    options,
+    lockContext: { config, holidays: [], locks: [], now: new Date(2026, 2, 10, 11, 0) },
+    ...overrides
+});
+
+const statusOf = (cells: ReturnType<typeof planBulkOrder>, date: string, mealType: string) =>
+    cells.find(c => c.date === date && c.mealType === mealType)?.status;
+
+describe('planBulkOrder', () => {
+    it('returns one cell per day and selected meal', () => {
+        const cells = planBulkOrder(input());
+        expect(cells.map(c => `${c.date} ${c.mealType}`)).toEqual([
+            '2026-03-10 lunch', '2026-03-10 dinner', '2026-03-11 lunch', '2026-03-11 dinner'
+        ]);
+    });
+
+    it('applies open cells and skips closed ones with the lock message', () => {
+        const cells = planBulkOrder(input());
+        expect(cells[0]).toMatchObject({ status: 'locked', currentOption: 'standard' });
+        expect(cells[0].message).toBeTruthy();
+        expect(statusOf(cells, '2026-03-11', 'lunch')).toBe('apply');
+    });
+
+    it('lets an explicit prep order be released after the cutoff', () => {
+        const cells = planBulkOrder(input({ orders: [order('2026-03-10', 'lunch', 'tupper')] }));
+        expect(cells[0]).toMatchObject({ currentOption: 'tupper', status: 'apply' });
+        expect(statusOf(cells, '2026-03-10', 'dinner')).toBe('locked');
+    });
+
+    it('marks cells that already have the option as unchanged', () => {
+        const cells = planBulkOrder(input({ option: standard }));
+        expect(statusOf(cells, '2026-03-11', 'lunch')).toBe('unchanged');
+        expect(statusOf(cells, '2026-03-10', 'lunch')).toBe('unchanged');
+    });
+
+    it('treats an absence as no meal', () => {
+        const cells = planBulkOrder(input({ absences: [absence('2026-03-11', '2026-03-11')] }));
+        expect(cells.find(c => c.date === '2026-03-11')).toMatchObject({ currentOption: 'skip', status: 'unchanged' });
+    });
+
+    it('prefers an explicit order over an absence', () => {
+        const cells = planBulkOrder(input({
+            absences: [absence('2026-03-11', '2026-03-11')],
+            orders: [order('2026-03-11', 'dinner', 'standard')]
+        }));
+        expect(statusOf(cells, '2026-03-11', 'dinner')).toBe('apply');
+    });
+
+    it('skips meals the option does not exist for', () => {
+        const cells = planBulkOrder(input({ option: tupper }));
+        expect(statusOf(cells, '2026-03-11', 'dinner')).toBe('unavailable');
+        expect(statusOf(cells, '2026-03-11', 'lunch')).toBe('apply');
+    });
+
+    it('only leaves a bag unchanged when the pickup time matches', () => {
+        const orders = [order('2026-03-11', 'lunch', 'bag', '13:00')];
+        const cells = (bagTime: string) => planBulkOrder(input({ option: bag, bagTime, mealTypes: ['lunch'], orders }));
+        expect(statusOf(cells('13:00'), '2026-03-11', 'lunch')).toBe('unchanged');
+        expect(statusOf(cells('14:00'), '2026-03-11', 'lunch')).toBe('apply');
+    });
+});
@@ -0,0 +1,81 @@
+import { MealOrder, MealTemplate, MealTemplateSet, MealOption, UserAbsence } from '../types';
+import { MealLockContext, evaluateMealLock, shiftDate } from './mealLocks';
+import { getMealOption } from './mealOptions';
+import { findTemplateForDate } from './mealTemplates';
+
+type MealType = MealOrder['mealType'];
+
+export type BulkCellStatus = 'apply' | 'unchanged' | 'locked' | 'unavailable';
+
+export interface BulkCell {
+    date: string; // YYYY-MM-DD
+    mealType: MealType;
+    currentOption: string;
+    status: BulkCellStatus;
+    message?: string; // Why the cell is skipped
+}
+
+export interface BulkOrderInput {
+    userId: string;
+    startDate: string;
+    endDate: string;
+    mealTypes: MealType[];
+    option: MealOption;
+    bagTime?: string | null;
+    orders: MealOrder[];
+    templates: MealTemplate[];
+    templateSets: MealTemplateSet[];
+    absences: UserAbsence[]; // The resident's own
+    options: MealOption[];
+    lockContext: MealLockContext;
+}
+
+// Same precedence as the order grid: explicit order, absence, template
+const currentFor = (input: BulkOrderInput, date: string, mealType: MealType) => {
+    const order = input.orders.find(o => o.date === date && o.mealType === mealType);
+    if (order) return { option: order.option, bagTime: order.bagTime };
+
+    if (input.absences.some(a => a.startDate <= date && a.endDate >= date)) return { option: 'skip' };
+
+    const template = findTemplateForDate(input.templateSets, input.templates, input.userId, date, mealType);
+    return { option: template?.option || 'skip' };
+};
+
+/**
+ * What applying one option to every selected meal in a date range would do, cell by cell.
+ * Locked cells and meals the option doesn't exist for are skipped rather than failing the batch.
+ */
+export const planBulkOrder = (input: BulkOrderInput): BulkCell[] => {
+    const cells: BulkCell[] = [];
+
+    for (let date = input.startDate; date <= input.endDate; date = shiftDate(date, 1)) {
+        for (const mealType of input.mealTypes) {
+            const current = currentFor(input, date, mealType);
+            const cell = { date, mealType, currentOption: current.option };
+
+            if (!input.option.mealTypes.includes(mealType)) {
+                cells.push({ ...cell, status: 'unavailable', message: `${input.option.label} no está disponible para esta comida` });
+                continue;
+            }
+
+            const sameBagTime = !input.option.isBag || (current.bagTime || null) === (input.bagTime || null);
+            if (getMealOption(input.options, current.option).id === input.option.id && sameBagTime) {
+                cells.push({ ...cell, status: 'unchanged' });
+                continue;
+            }
+
+            const lock = evaluateMealLock(input.lockContext, {
+                date,
+                mealType,
+                currentOption: getMealOption(input.options, current.option),
+                intendedOption: input.option
+            });
+
+            cells.push(lock.locked
+                ? { ...cell, status: 'locked', message: lock.message }
+                : { ...cell, status: 'apply' });
+        }
+    }
+
+    return cells;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Car, CarStatus, Reservation } from '../types';
+import { findAvailableCars, isServiceDueBy } from './carAvailability';
+
+const car = (id: string, name: string, overrides: Partial<Car> = {}): Car => ({
+    id, name, plate: `${id.toUpperCase()}-0000`, imageUrl: '', status: CarStatus.AVAILABLE, fuelType: 'gasoline', inWorkshop: false, seats: 5, ...overrides
+});
+
+const at = (day: number, hour: number) => new Date(2026, 2, day, hour);
+
+const reservation = (id: string, carId: string, start: Date, end: Date, status: Reservation['status'] = 'ACTIVE'): Reservation => ({
+    id, carId, userId: 'u1', userName: 'Lucía', startTime: start.toISOString(), endTime: end.toISOString(), status
+});
+
+// Tuesday 10 March, 10:00 to 12:00
+const window = { start: at(10, 10), end: at(10, 12) };
+const ids = (cars: Car[]) => cars.map(c => c.id);
+
+describe('isServiceDueBy', () => {
+    it('is due when the revision falls on or before the day the window ends', () => {
+        expect(isServiceDueBy(car('a', 'Corolla', { nextServiceDate: '2026-03-10' }), window.end)).toBe(true);
+        expect(isServiceDueBy(car('a', 'Corolla', { nextServiceDate: '2026-01-01' }), window.end)).toBe(true);
+        expect(isServiceDueBy(car('a', 'Corolla', { nextServiceDate: '2026-03-11' }), window.end)).toBe(false);
+        expect(isServiceDueBy(car('a', 'Corolla'), window.end)).toBe(false);
+    });
+});
+
+describe('findAvailableCars', () => {
+    const cars = [
+        car('a', 'Corolla'),
+        car('b', 'Clio', { fuelType: 'diesel', seats: 4 }),
+        car('c', 'Zoe', { fuelType: 'electric', seats: undefined }),
+        car('d', 'Berlingo', { inWorkshop: true, seats: 7 }),
+        car('e', 'Ibiza', { nextServiceDate: '2026-03-10' })
+    ];
+
+    it('leaves out cars in the workshop or due for service', () => {
+        expect(ids(findAvailableCars(cars, [], { window }))).toEqual(['b', 'a', 'c']);
+    });
+
+    it('leaves out cars booked during the window, but not cancelled or back-to-back bookings', () => {
+        const reservations = [
+            reservation('r1', 'a', at(10, 11), at(10, 13)),
+            reservation('r2', 'b', at(10, 9), at(10, 11), 'CANCELLED'),
+            reservation('r3', 'c', at(10, 12), at(10, 14))
+        ];
+        expect(ids(findAvailableCars(cars, reservations, { window }))).toEqual(['b', 'c']);
+    });
+
+    it('filters by fuel and seats, skipping cars with no seat count', () => {
+        expect(ids(findAvailableCars(cars, [], { window, fuelType: 'diesel' }))).toEqual(['b']);
+        expect(ids(findAvailableCars(cars, [], { window, minSeats: 5 }))).toEqual(['a']);
+    });
+
+    it('lists favorites first, then by name', () => {
+        expect(ids(findAvailableCars(cars, [], { window }, ['c']))).toEqual(['c', 'b', 'a']);
+    });
+});
@@ -0,0 +1,44 @@
+import { parseISO, startOfDay } from 'date-fns';
+import { Car, Reservation } from '../types';
+import { findConflict, Occurrence } from './recurrence';
+
+export interface CarSearchCriteria {
+    window: Occurrence;
+    fuelType?: Car['fuelType'];
+    minSeats?: number;
+}
+
+/**
+ * A car is due for service in the window if its next revision falls on or before
+ * the day the window ends (overdue cars count as due too).
+ */
+export const isServiceDueBy = (car: Car, end: Date): boolean => {
+    if (!car.nextServiceDate) return false;
+    return startOfDay(parseISO(car.nextServiceDate)) <= end;
+};
+
+/**
+ * Every car that can be booked for the whole window, favorites first.
+ * Cars without a known seat count only match when no passenger need is given.
+ */
+export const findAvailableCars = (
+    cars: Car[],
+    reservations: Reservation[],
+    criteria: CarSearchCriteria,
+    favorites: string[] = []
+): Car[] => {
+    return cars
+        .filter(car => {
+            if (car.inWorkshop) return false;
+            if (criteria.fuelType && car.fuelType !== criteria.fuelType) return false;
+            if (criteria.minSeats && (car.seats === undefined || car.seats < criteria.minSeats)) return false;
+            if (isServiceDueBy(car, criteria.window.end)) return false;
+            return !findConflict(criteria.window, reservations.filter(r => r.carId === car.id));
+        })
+        .sort((a, b) => {
+            const aFav = favorites.includes(a.id);
+            const bFav = favorites.includes(b.id);
+            if (aFav !== bFav) return aFav ? -1 : 1;
+            return a.name.localeCompare(b.name);
+        });
+};
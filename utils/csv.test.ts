@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsv, toCsv } from './csv';
+
+describe('escapeCsv', () => {
+    it('leaves plain values alone', () => {
+        expect(escapeCsv('Corolla')).toBe('Corolla');
+        expect(escapeCsv(-3)).toBe('-3');
+    });
+
+    it('quotes separators, quotes and line breaks', () => {
+        expect(escapeCsv('Gil, Bruno')).toBe('"Gil, Bruno"');
+        expect(escapeCsv('a;b')).toBe('"a;b"');
+        expect(escapeCsv('El "rojo"')).toBe('"El ""rojo"""');
+        expect(escapeCsv('uno\ndos')).toBe('"uno\ndos"');
+        expect(escapeCsv('uno\rdos')).toBe('"uno\rdos"');
+    });
+
+    it('keeps spreadsheets from running text as a formula', () => {
+        expect(escapeCsv('=HYPERLINK("http://x")')).toBe('"\'=HYPERLINK(""http://x"")"');
+        expect(escapeCsv('+34 600')).toBe('"\'+34 600"');
+        expect(escapeCsv('-1')).toBe('"\'-1"');
+        expect(escapeCsv('@SUM(A1)')).toBe('"\'@SUM(A1)"');
+    });
+});
+
+describe('toCsv', () => {
+    it('joins cells with commas and rows with line breaks', () => {
+        expect(toCsv([['Coche', 'Horas'], ['Clio, azul', 2]])).toBe('Coche,Horas\n"Clio, azul",2');
+    });
+});
@@ -0,0 +1,12 @@
+// Quotes a cell when it holds a separator, quote or line break (Excel reads both , and ;).
+// Text that spreadsheets would run as a formula gets a leading ' so it is shown as typed.
+export const escapeCsv = (value: string | number): string => {
+    let text = String(value);
+    const isFormula = typeof value === 'string' && /^[=+\-@]/.test(text);
+    if (isFormula) text = `'${text}`;
+    return isFormula || /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header and rows joined into CSV text
+export const toCsv = (rows: (string | number)[][]): string =>
+    rows.map(row => row.map(escapeCsv).join(',')).join('\n');
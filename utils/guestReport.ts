@@ -0,0 +1,43 @@
+import { MealGuest } from '../services/kitchen';
+import { MealType } from './mealForecast';
+import { toCsv } from './csv';
+
+export interface HostGuestRow {
+    hostId: string;
+    hostName: string;
+    meals: Record<MealType, number>; // Guest portions per meal type
+    total: number;
+    bookings: number; // Separate meals the host brought someone to
+}
+
+/**
+ * Guest portions per host for cost sharing, most guests first.
+ * Guests the kitchen added without a host are left out.
+ */
+export const buildGuestReport = (guests: MealGuest[], hostNames: Map<string, string>): HostGuestRow[] => {
+    const rows = new Map<string, HostGuestRow>();
+
+    guests.forEach(guest => {
+        if (!guest.hostId) return;
+        const row = rows.get(guest.hostId) || {
+            hostId: guest.hostId,
+            hostName: hostNames.get(guest.hostId) || 'Residente',
+            meals: { breakfast: 0, lunch: 0, dinner: 0 },
+            total: 0,
+            bookings: 0
+        };
+        row.meals[guest.mealType] += guest.count;
+        row.total += guest.count;
+        row.bookings += 1;
+        rows.set(guest.hostId, row);
+    });
+
+    return [...rows.values()].sort((a, b) => b.total - a.total || a.hostName.localeCompare(b.hostName));
+};
+
+export const guestReportToCsv = (rows: HostGuestRow[]): string => {
+    const header = ['Anfitrión', 'Desayunos', 'Comidas', 'Cenas', 'Total invitados', 'Comidas con invitados'];
+    const lines = rows.map(row => [row.hostName, row.meals.breakfast, row.meals.lunch, row.meals.dinner, row.total, row.bookings]);
+
+    return toCsv([header, ...lines]);
+};
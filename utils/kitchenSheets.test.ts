@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { MealOrder, User, UserRole } from '../types';
+import type { MealGuest } from '../services/kitchen';
+import { buildKitchenSheets, residentInitials } from './kitchenSheets';
+import { DEFAULT_MEAL_OPTIONS } from './mealOptions';
+
+const options = DEFAULT_MEAL_OPTIONS;
+const date = '2026-03-10';
+
+const user = (id: string, name: string, overrides: Partial<User> = {}): User => ({
+    id, email: `${id}@example.com`, name, role: UserRole.USER, status: 'APPROVED', ...overrides
+});
+
+const order = (userId: string, userName: string, option: string, overrides: Partial<MealOrder> = {}): MealOrder & { userName: string } => ({
+    id: `${userId}-lunch`,
+    userId,
+    userName,
+    date,
+    mealType: 'lunch',
+    option,
+    isBag: option === 'bag',
+    status: 'confirmed',
+    ...overrides
+});
+
+const profiles = new Map([
+    ['u1', user('u1', 'Zoe Ruiz')],
+    ['u2', user('u2', 'Bruno Gil', { hasDiet: true, dietNumber: 4, dietName: 'Sin gluten', allergens: ['gluten', 'lactose'] })],
+    ['u3', user('u3', 'Ana Sanz', { initials: 'AS', hasDiet: true, dietNumber: 2, allergens: ['lactose'], dietValidTo: '2026-03-09' })],
+    ['u4', user('u4', 'Carla Pons')],
+    ['u5', user('u5', 'Eva Mora')]
+]);
+
+const plans = {
+    [date]: [
+        order('u1', 'Zoe Ruiz', 'standard'),
+        order('u2', 'Bruno Gil', 'standard'),
+        order('u3', 'Ana Sanz', 'standard'),
+        order('u4', 'Carla Pons', 'bag', { bagTime: '14:00' }),
+        order('u5', 'Eva Mora', 'standard', { isBag: true, bagTime: '13:00' }),
+        order('u6', 'Sin Perfil', 'skip')
+    ]
+};
+
+const guests: MealGuest[] = [
+    { id: 'g1', date, mealType: 'lunch', count: 3, option: 'standard', isBag: false, hostId: 'u1', notes: 'Familia' },
+    { id: 'g2', date, mealType: 'dinner', count: 2, option: 'standard', isBag: false }
+];
+
+describe('residentInitials', () => {
+    it('prefers the initials on the profile', () => {
+        expect(residentInitials('Ana Sanz', profiles.get('u3'))).toBe('AS');
+        expect(residentInitials('maría de la luz ortega')).toBe('MDL');
+    });
+});
+
+describe('buildKitchenSheets', () => {
+    const [lunch, dinner] = buildKitchenSheets([date], ['lunch', 'dinner'], plans, guests, profiles, options);
+
+    it('groups diners by option in catalog order', () => {
+        expect(lunch.groups.map(g => [g.option, g.total])).toEqual([['standard', 6], ['bag', 2]]);
+        expect(lunch).toMatchObject({ total: 8, diets: 1 });
+        expect(dinner.groups).toEqual([{ option: 'standard', entries: [{ label: 'Invitados', guestCount: 2, notes: undefined }], total: 2 }]);
+    });
+
+    it('lists diets first and guests last', () => {
+        const standard = lunch.groups[0].entries;
+        expect(standard.map(e => e.label)).toEqual(['BG', 'AS', 'ZR', 'Invitados ZR']);
+        expect(standard[0]).toMatchObject({ dietNumber: 4, dietName: 'Sin gluten', allergens: ['gluten', 'lactose'] });
+        expect(standard[3]).toMatchObject({ guestCount: 3, notes: 'Familia' });
+    });
+
+    it('ignores diets that are no longer valid', () => {
+        const ana = lunch.groups[0].entries.find(e => e.label === 'AS');
+        expect(ana).toMatchObject({ dietNumber: undefined, allergens: [] });
+        expect(lunch.allergens.map(a => [a.allergen.id, a.count])).toEqual([['gluten', 1], ['lactose', 1]]);
+    });
+
+    it('orders bags by pickup time', () => {
+        expect(lunch.groups[1].entries.map(e => [e.label, e.bagTime])).toEqual([['EM', '13:00'], ['CP', '14:00']]);
+    });
+});
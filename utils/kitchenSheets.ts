@@ -0,0 +1,113 @@
+import { MealOption, MealOrder, User } from '../types';
+import { MealGuest } from '../services/kitchen';
+import { MealType, forecastOptionKey, forecastOptions } from './mealForecast';
+import { getMealOption } from './mealOptions';
+import { Allergen, countByAllergen, getActiveAllergens, isDietActive } from './allergens';
+
+export interface SheetEntry {
+    label: string; // Initials, as the kitchen sees residents
+    dietNumber?: number;
+    dietName?: string;
+    allergens?: string[];
+    bagTime?: string;
+    guestCount?: number;
+    notes?: string;
+}
+
+export interface SheetGroup {
+    option: string;
+    entries: SheetEntry[];
+    total: number;
+}
+
+export interface KitchenSheet {
+    date: string; // YYYY-MM-DD
+    mealType: MealType;
+    groups: SheetGroup[];
+    total: number;
+    diets: number;
+    allergens: { allergen: Allergen; count: number }[];
+}
+
+export const residentInitials = (name: string, profile?: User): string =>
+    profile?.initials || name.split(' ').map(p => p[0]).join('').substring(0, 3).toUpperCase();
+
+/**
+ * One sheet per date and meal with everyone who eats, grouped by option.
+ * Residents with a diet are listed first so the cook sees them at a glance.
+ */
+export const buildKitchenSheets = (
+    dates: string[],
+    mealTypes: MealType[],
+    plans: Record<string, (MealOrder & { userName: string })[]>,
+    guests: MealGuest[],
+    profiles: Map<string, User>,
+    options: MealOption[]
+): KitchenSheet[] => {
+    const sheets: KitchenSheet[] = [];
+
+    dates.forEach(date => {
+        mealTypes.forEach(mealType => {
+            const byOption = new Map<string, SheetEntry[]>();
+            const add = (key: string, entry: SheetEntry) => byOption.set(key, [...(byOption.get(key) || []), entry]);
+
+            (plans[date] || [])
+                .filter(order => order.mealType === mealType)
+                .forEach(order => {
+                    const key = forecastOptionKey(order.option, order.isBag, options);
+                    if (!key) return;
+                    const profile = profiles.get(order.userId);
+                    const hasDiet = !!profile && isDietActive(profile, date);
+                    add(key, {
+                        label: residentInitials(order.userName, profile),
+                        dietNumber: hasDiet ? profile?.dietNumber : undefined,
+                        dietName: hasDiet ? profile?.dietName : undefined,
+                        allergens: profile ? getActiveAllergens(profile, date) : [],
+                        bagTime: getMealOption(options, key).isBag ? order.bagTime : undefined
+                    });
+                });
+
+            guests
+                .filter(guest => guest.date === date && guest.mealType === mealType)
+                .forEach(guest => {
+                    const key = forecastOptionKey(guest.option, guest.isBag, options);
+                    if (!key) return;
+                    const host = guest.hostId ? profiles.get(guest.hostId) : undefined;
+                    add(key, {
+                        label: host ? `Invitados ${residentInitials(host.name, host)}` : 'Invitados',
+                        guestCount: guest.count,
+                        notes: guest.notes
+                    });
+                });
+
+            const groups = forecastOptions(options, mealType, [...byOption.keys()])
+                .filter(option => byOption.has(option))
+                .map(option => {
+                    const entries = byOption.get(option)!.sort((a, b) =>
+                        Number(!!b.dietNumber) - Number(!!a.dietNumber) ||
+                        Number(!!a.guestCount) - Number(!!b.guestCount) ||
+                        (a.bagTime || '').localeCompare(b.bagTime || '') ||
+                        a.label.localeCompare(b.label)
+                    );
+                    return {
+                        option,
+                        entries,
+                        total: entries.reduce((sum, entry) => sum + (entry.guestCount ?? 1), 0)
+                    };
+                });
+
+            sheets.push({
+                date,
+                mealType,
+                groups,
+                total: groups.reduce((sum, group) => sum + group.total, 0),
+                diets: groups.reduce((sum, group) => sum + group.entries.filter(entry => entry.dietNumber).length, 0),
+                allergens: countByAllergen(groups.flatMap(group =>
+                    group.entries.map(entry => ({ allergens: entry.allergens || [], count: 1 }))
+                ))
+            });
+        });
+    });
+
+    return sheets;
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { MealOrder } from '../types';
+import type { MealGuest } from '../services/kitchen';
+import type { CalendarEvent } from '../services/icalParser';
+import { computeMealForecast, forecastOptionKey, forecastOptions } from './mealForecast';
+import { DEFAULT_MEAL_OPTIONS } from './mealOptions';
+
+const options = DEFAULT_MEAL_OPTIONS;
+
+const order = (userId: string, date: string, mealType: MealOrder['mealType'], option: string, isBag = false): MealOrder & { userName: string } => ({
+    id: `${userId}-${date}-${mealType}`,
+    userId,
+    userName: userId,
+    date,
+    mealType,
+    option,
+    isBag,
+    status: 'confirmed'
+});
+
+const guest = (date: string, mealType: MealGuest['mealType'], count: number, option = 'standard', isBag = false): MealGuest => ({
+    id: `${date}-${mealType}-${count}`, date, mealType, count, option, isBag
+});
+
+describe('forecastOptions', () => {
+    it('lists the catalog options for the meal without skip, then other ordered keys', () => {
+        expect(forecastOptions(options, 'lunch', ['retired', 'standard'])).toEqual(['standard', 'early', 'late', 'tupper', 'bag', 'retired']);
+        expect(forecastOptions(options, 'dinner')).toEqual(['standard', 'late']);
+    });
+});
+
+describe('forecastOptionKey', () => {
+    it('drops meals nobody eats', () => {
+        expect(forecastOptionKey('skip', false, options)).toBeNull();
+        expect(forecastOptionKey('no', false, options)).toBeNull();
+    });
+
+    it('counts bags apart whatever option they were ordered with', () => {
+        expect(forecastOptionKey('standard', true, options)).toBe('bag');
+        expect(forecastOptionKey('bag', true, options)).toBe('bag');
+        expect(forecastOptionKey('late', false, options)).toBe('late');
+    });
+});
+
+describe('computeMealForecast', () => {
+    const plans = {
+        '2026-03-08': [
+            order('u1', '2026-03-08', 'lunch', 'standard'),
+            order('u2', '2026-03-08', 'lunch', 'tupper'),
+            order('u3', '2026-03-08', 'lunch', 'skip'),
+            order('u1', '2026-03-08', 'dinner', 'standard', true)
+        ]
+    };
+    const events = [
+        { id: 'e1', title: 'Fiesta', start: new Date(2026, 2, 8, 10), allDay: true, metadata: { familyFeast: 'B' } },
+        { id: 'e2', title: 'Fiesta', start: new Date(2026, 2, 8, 18), allDay: false, metadata: { familyFeast: 'B' } }
+    ] as CalendarEvent[];
+
+    const [sunday, monday] = computeMealForecast(
+        ['2026-03-08', '2026-03-09'],
+        plans,
+        [guest('2026-03-08', 'lunch', 3), guest('2026-03-08', 'dinner', 2, 'skip'), guest('2026-03-09', 'breakfast', 1)],
+        [{ id: 'h1', name: 'Fiesta local', date: '2026-03-09', createdAt: '' }],
+        events,
+        options
+    );
+
+    it('adds residents and guests per option', () => {
+        expect(sunday.meals.lunch).toEqual({ byOption: { standard: 4, tupper: 1 }, residents: 2, guests: 3, total: 5 });
+        expect(sunday.meals.dinner).toEqual({ byOption: { bag: 1 }, residents: 1, guests: 0, total: 1 });
+        expect(monday.meals.breakfast.total).toBe(1);
+    });
+
+    it('flags Sundays, holidays and family feasts once per day', () => {
+        expect(sunday).toMatchObject({ date: '2026-03-08', isSunday: true, familyFeasts: ['B'] });
+        expect(sunday.holiday).toBeUndefined();
+        expect(monday).toMatchObject({ isSunday: false, holiday: 'Fiesta local', familyFeasts: [] });
+    });
+});
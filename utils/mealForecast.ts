@@ -0,0 +1,86 @@
+import { format } from 'date-fns';
+import { Holiday, MealOption, MealOrder } from '../types';
+import { MealGuest } from '../services/kitchen';
+import { CalendarEvent } from '../services/icalParser';
+import { getMealOption, getOptionsForMeal } from './mealOptions';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export const FORECAST_MEALS: MealType[] = ['breakfast', 'lunch', 'dinner'];
+
+// Options the kitchen prepares for a meal in display order: the catalog's, then any other key that was ordered
+export const forecastOptions = (options: MealOption[], mealType: MealType, ordered: string[] = []): string[] => {
+    const known = getOptionsForMeal(options, mealType).map(o => o.id).filter(id => id !== 'skip');
+    return [...known, ...ordered.filter(key => !known.includes(key))];
+};
+
+export interface MealCount {
+    byOption: Record<string, number>;
+    residents: number;
+    guests: number;
+    total: number;
+}
+
+export interface DayForecast {
+    date: string; // YYYY-MM-DD
+    meals: Record<MealType, MealCount>;
+    holiday?: string;
+    familyFeasts: string[]; // Family feast letters (A-D) falling on the day
+    isSunday: boolean;
+}
+
+// Bags are counted apart whatever the option they were ordered with
+export const forecastOptionKey = (option: string, isBag: boolean, options: MealOption[]): string | null => {
+    if (option === 'skip' || option === 'no') return null;
+    if (isBag && !getMealOption(options, option).isBag) return options.find(o => o.isBag && o.isActive)?.id || 'bag';
+    return option || 'standard';
+};
+
+const emptyCount = (): MealCount => ({ byOption: {}, residents: 0, guests: 0, total: 0 });
+
+/**
+ * Headcount per day, meal and option from the effective plans (orders, templates and absences
+ * already merged) plus the registered guests. Days are returned in the order given.
+ */
+export const computeMealForecast = (
+    dates: string[],
+    plans: Record<string, (MealOrder & { userName: string })[]>,
+    guests: MealGuest[],
+    holidays: Holiday[],
+    events: CalendarEvent[],
+    options: MealOption[]
+): DayForecast[] => {
+    return dates.map(date => {
+        const meals = { breakfast: emptyCount(), lunch: emptyCount(), dinner: emptyCount() };
+
+        (plans[date] || []).forEach(order => {
+            const key = forecastOptionKey(order.option, order.isBag, options);
+            if (!key) return;
+            const count = meals[order.mealType];
+            count.byOption[key] = (count.byOption[key] || 0) + 1;
+            count.residents++;
+            count.total++;
+        });
+
+        guests.filter(g => g.date === date).forEach(guest => {
+            const key = forecastOptionKey(guest.option, guest.isBag, options);
+            if (!key) return;
+            const count = meals[guest.mealType];
+            count.byOption[key] = (count.byOption[key] || 0) + guest.count;
+            count.guests += guest.count;
+            count.total += guest.count;
+        });
+
+        const familyFeasts = events
+            .filter(ev => ev.metadata?.familyFeast && format(ev.start, 'yyyy-MM-dd') === date)
+            .map(ev => ev.metadata!.familyFeast!);
+
+        return {
+            date,
+            meals,
+            holiday: holidays.find(h => h.date === date)?.name,
+            familyFeasts: [...new Set(familyFeasts)],
+            isSunday: new Date(`${date}T12:00:00`).getDay() === 0
+        };
+    });
+};
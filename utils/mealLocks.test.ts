@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import type { KitchenConfig, MealOption } from '../types';
+import { evaluateMealLock, getDayCutoff, MealLockContext } from './mealLocks';
+
+const option = (id: string, overrides: Partial<MealOption> = {}): MealOption => ({
+    id,
+    label: id,
+    shortLabel: id,
+    color: '#000000',
+    mealTypes: ['breakfast', 'lunch', 'dinner'],
+    needsPrep: false,
+    isBag: false,
+    lockRule: 'default',
+    sortOrder: 0,
+    isActive: true,
+    isSystem: false,
+    ...overrides
+});
+
+// Mirrors the options seeded by migrations/meal_options.sql
+const standard = option('standard');
+const skip = option('skip');
+const tupper = option('tupper', { needsPrep: true });
+const bag = option('bag', { needsPrep: true, isBag: true });
+const picnic = option('picnic', { lockRule: 'day_before' });
+const lateLunch = option('late_lunch', { lockRule: 'cutoff', cutoffTime: '12:30' });
+
+const config: KitchenConfig = {
+    id: 'config',
+    weekly_schedule: {},
+    schedule_weekdays: '10:00',
+    schedule_saturday: '11:00',
+    schedule_sunday_holiday: '12:00',
+    overrides: {}
+};
+
+// Tuesday 10 March 2026, read on the local clock
+const at = (time: string, day = 10) => {
+    const [h, m] = time.split(':').map(Number);
+    return new Date(2026, 2, day, h, m);
+};
+
+const context = (now: Date, overrides: Partial<MealLockContext> = {}): MealLockContext => ({
+    config,
+    holidays: [],
+    locks: [],
+    now,
+    ...overrides
+});
+
+describe('evaluateMealLock', () => {
+    describe('past days', () => {
+        it('locks any change to a past day', () => {
+            const res = evaluateMealLock(context(at('08:00')), { date: '2026-03-09', mealType: 'lunch', currentOption: standard, intendedOption: skip });
+            expect(res).toMatchObject({ locked: true, reason: 'past' });
+        });
+
+        it('does not let a prepared option be released once its day has passed', () => {
+            const res = evaluateMealLock(context(at('08:00')), { date: '2026-03-09', mealType: 'lunch', currentOption: tupper, intendedOption: skip });
+            expect(res.reason).toBe('past');
+        });
+    });
+
+    describe('lunch and dinner', () => {
+        it('stays open before the day cutoff', () => {
+            const res = evaluateMealLock(context(at('09:59')), { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: false, reason: 'open' });
+        });
+
+        it('closes at the day cutoff', () => {
+            const res = evaluateMealLock(context(at('10:00')), { date: '2026-03-10', mealType: 'dinner', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: true, reason: 'deadline_passed' });
+        });
+
+        it('leaves future days open after today has closed', () => {
+            const res = evaluateMealLock(context(at('18:00')), { date: '2026-03-11', mealType: 'lunch', currentOption: skip, intendedOption: standard });
+            expect(res.locked).toBe(false);
+        });
+
+        it('uses the holiday schedule on holidays', () => {
+            const ctx = context(at('11:00'), { holidays: [{ id: 'h', name: 'Fiesta', date: '2026-03-10', createdAt: '' }] });
+            const res = evaluateMealLock(ctx, { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: standard });
+            expect(res.locked).toBe(false);
+        });
+    });
+
+    describe('breakfast', () => {
+        it('closes with the previous day', () => {
+            const res = evaluateMealLock(context(at('10:30')), { date: '2026-03-11', mealType: 'breakfast', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: true, reason: 'previous_day_closed' });
+        });
+
+        it('stays open while the previous day is', () => {
+            const res = evaluateMealLock(context(at('09:30')), { date: '2026-03-11', mealType: 'breakfast', currentOption: skip, intendedOption: standard });
+            expect(res.locked).toBe(false);
+        });
+
+        it('is closed on the day itself', () => {
+            const res = evaluateMealLock(context(at('07:00')), { date: '2026-03-10', mealType: 'breakfast', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: true, reason: 'previous_day_closed' });
+        });
+
+        it('closes when the kitchen locks the previous day', () => {
+            const ctx = context(at('08:00'), { locks: [{ date: '2026-03-10', isLocked: true }] });
+            const res = evaluateMealLock(ctx, { date: '2026-03-11', mealType: 'breakfast', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: true, reason: 'previous_day_closed' });
+        });
+    });
+
+    describe('bags and tuppers', () => {
+        it('lets a tupper be dropped after the deadline', () => {
+            const res = evaluateMealLock(context(at('11:00')), { date: '2026-03-10', mealType: 'lunch', currentOption: tupper, intendedOption: skip });
+            expect(res).toMatchObject({ locked: false, reason: 'prep_release' });
+        });
+
+        it('lets a breakfast bag be dropped on the day', () => {
+            const res = evaluateMealLock(context(at('07:00')), { date: '2026-03-10', mealType: 'breakfast', currentOption: bag, intendedOption: standard });
+            expect(res.reason).toBe('prep_release');
+        });
+
+        it('does not release when swapping one prepared option for another', () => {
+            const res = evaluateMealLock(context(at('11:00')), { date: '2026-03-10', mealType: 'lunch', currentOption: tupper, intendedOption: bag });
+            expect(res).toMatchObject({ locked: true, reason: 'deadline_passed' });
+        });
+
+        it('still takes new bag orders only before the deadline', () => {
+            const res = evaluateMealLock(context(at('10:15')), { date: '2026-03-10', mealType: 'lunch', currentOption: standard, intendedOption: bag });
+            expect(res.locked).toBe(true);
+        });
+    });
+
+    describe('option rules', () => {
+        it('closes day_before options with the previous day', () => {
+            const open = evaluateMealLock(context(at('09:00')), { date: '2026-03-11', mealType: 'lunch', currentOption: skip, intendedOption: picnic });
+            const closed = evaluateMealLock(context(at('10:00')), { date: '2026-03-11', mealType: 'lunch', currentOption: skip, intendedOption: picnic });
+            expect(open.locked).toBe(false);
+            expect(closed).toMatchObject({ locked: true, reason: 'previous_day_closed' });
+        });
+
+        it('closes cutoff options at their own time, past the day deadline', () => {
+            const open = evaluateMealLock(context(at('12:00')), { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: lateLunch });
+            const closed = evaluateMealLock(context(at('12:30')), { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: lateLunch });
+            expect(open).toMatchObject({ locked: false, reason: 'open' });
+            expect(closed).toMatchObject({ locked: true, reason: 'option_cutoff' });
+        });
+
+        it('keeps cutoff options closed on a locked day', () => {
+            const ctx = context(at('08:00'), { locks: [{ date: '2026-03-10', isLocked: true }] });
+            const res = evaluateMealLock(ctx, { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: lateLunch });
+            expect(res.reason).toBe('day_locked');
+        });
+    });
+
+    describe('day locks', () => {
+        it('closes a future day the kitchen has locked', () => {
+            const ctx = context(at('08:00'), { locks: [{ date: '2026-03-12', isLocked: true }] });
+            const res = evaluateMealLock(ctx, { date: '2026-03-12', mealType: 'dinner', currentOption: skip, intendedOption: standard });
+            expect(res).toMatchObject({ locked: true, reason: 'day_locked' });
+        });
+
+        it('ignores unlocked rows', () => {
+            const ctx = context(at('08:00'), { locks: [{ date: '2026-03-12', isLocked: false }] });
+            const res = evaluateMealLock(ctx, { date: '2026-03-12', mealType: 'dinner', currentOption: skip, intendedOption: standard });
+            expect(res.locked).toBe(false);
+        });
+    });
+
+    it('reads the clock in the given time zone', () => {
+        // 09:30 UTC is 10:30 in Madrid, past the weekday cutoff
+        const ctx = context(new Date('2026-03-10T09:30:00Z'), { timeZone: 'Europe/Madrid' });
+        const res = evaluateMealLock(ctx, { date: '2026-03-10', mealType: 'lunch', currentOption: skip, intendedOption: standard });
+        expect(res.reason).toBe('deadline_passed');
+    });
+});
+
+describe('getDayCutoff', () => {
+    it('prefers a per-day override', () => {
+        expect(getDayCutoff({ ...config, overrides: { '2026-03-10': '08:00' } }, [], '2026-03-10')).toBe('08:00');
+    });
+
+    it('uses the Saturday and Sunday schedules', () => {
+        expect(getDayCutoff(config, [], '2026-03-14')).toBe('11:00');
+        expect(getDayCutoff(config, [], '2026-03-15')).toBe('12:00');
+    });
+
+    it('has no cutoff without a config', () => {
+        expect(getDayCutoff(null, [], '2026-03-10')).toBeNull();
+    });
+});
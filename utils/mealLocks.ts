@@ -0,0 +1,2 @@
+// The order deadline rules live with the edge functions so check-meal-lock can bundle them
+export * from '../supabase/functions/_shared/mealLocks.ts';
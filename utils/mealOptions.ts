@@ -0,0 +1,67 @@
+import { Utensils, Sunrise, Moon, Package, ShoppingBag, X, Leaf, Snowflake, Coffee, Salad, Soup, Clock, LucideIcon } from 'lucide-react';
+import { MealOption } from '../types';
+import type { MealType } from './mealForecast';
+
+// Icons the kitchen can pick for an option (stored by key in meal_options.icon)
+export const MEAL_OPTION_ICONS: Record<string, LucideIcon> = {
+    utensils: Utensils,
+    sunrise: Sunrise,
+    moon: Moon,
+    package: Package,
+    'shopping-bag': ShoppingBag,
+    x: X,
+    leaf: Leaf,
+    snowflake: Snowflake,
+    coffee: Coffee,
+    salad: Salad,
+    soup: Soup,
+    clock: Clock,
+};
+
+// Same rows the migration seeds; used until the catalog has loaded
+export const DEFAULT_MEAL_OPTIONS: MealOption[] = [
+    { id: 'standard', label: 'Normal', shortLabel: 'SÍ', icon: 'utensils', color: '#10b981', mealTypes: ['breakfast', 'lunch', 'dinner'], needsPrep: false, isBag: false, lockRule: 'default', sortOrder: 10, isActive: true, isSystem: true },
+    { id: 'early', label: 'Pronto', shortLabel: '1T', icon: 'sunrise', color: '#facc15', mealTypes: ['breakfast', 'lunch'], needsPrep: false, isBag: false, lockRule: 'default', sortOrder: 20, isActive: true, isSystem: false },
+    { id: 'late', label: 'Tarde', shortLabel: '2T', icon: 'moon', color: '#047857', mealTypes: ['lunch', 'dinner'], needsPrep: false, isBag: false, lockRule: 'default', sortOrder: 30, isActive: true, isSystem: false },
+    { id: 'tupper', label: 'Tupper', shortLabel: 'TP', icon: 'package', color: '#92400e', mealTypes: ['lunch'], needsPrep: true, isBag: false, lockRule: 'default', sortOrder: 40, isActive: true, isSystem: false },
+    { id: 'bag', label: 'Bolsa', shortLabel: 'B', icon: 'shopping-bag', color: '#2563eb', mealTypes: ['breakfast', 'lunch'], needsPrep: true, isBag: true, lockRule: 'default', sortOrder: 50, isActive: true, isSystem: false },
+    { id: 'skip', label: 'No', shortLabel: 'NO', icon: 'x', color: '#f43f5e', mealTypes: ['breakfast', 'lunch', 'dinner'], needsPrep: false, isBag: false, lockRule: 'default', sortOrder: 100, isActive: true, isSystem: true },
+];
+
+/**
+ * Looks an option up by the key stored in orders. Unknown keys (an option deleted after
+ * it was ordered) get a neutral placeholder so old orders still render.
+ */
+export const getMealOption = (options: MealOption[], id: string): MealOption => {
+    // 'no' is the legacy spelling of 'skip' in some rows
+    const key = id === 'no' ? 'skip' : id;
+    return options.find(o => o.id === key) || {
+        id: key,
+        label: key,
+        shortLabel: key.substring(0, 2).toUpperCase(),
+        color: '#71717a',
+        mealTypes: [],
+        needsPrep: false,
+        isBag: false,
+        lockRule: 'default',
+        sortOrder: 999,
+        isActive: false,
+        isSystem: false
+    };
+};
+
+// Active options for a meal in display order, 'skip' always last
+export const getOptionsForMeal = (options: MealOption[], mealType: MealType): MealOption[] =>
+    options
+        .filter(o => o.isActive && o.mealTypes.includes(mealType))
+        .sort((a, b) => Number(a.id === 'skip') - Number(b.id === 'skip') || a.sortOrder - b.sortOrder);
+
+// Dark or light text depending on the background so any picked colour stays readable
+export const optionTextColor = (hex: string): string => {
+    const value = hex.replace('#', '');
+    if (value.length !== 6) return '#ffffff';
+    const r = parseInt(value.substring(0, 2), 16);
+    const g = parseInt(value.substring(2, 4), 16);
+    const b = parseInt(value.substring(4, 6), 16);
+    return (r * 299 + g * 587 + b * 114) / 1000 > 160 ? '#18181b' : '#ffffff';
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { MealTemplate, MealTemplateSet } from '../types';
+import { findTemplateForDate, getActiveTemplateSet, isoDayOfWeek, isoWeekNumber } from './mealTemplates';
+
+const set = (id: string, overrides: Partial<MealTemplateSet> = {}): MealTemplateSet => ({
+    id,
+    userId: 'u1',
+    name: id,
+    isDefault: false,
+    weekRotation: 'all',
+    createdAt: '2026-01-01T00:00:00Z',
+    ...overrides
+});
+
+describe('isoDayOfWeek', () => {
+    it('numbers Monday 1 to Sunday 7, like extract(isodow)', () => {
+        expect(isoDayOfWeek('2026-03-09')).toBe(1);
+        expect(isoDayOfWeek('2026-03-14')).toBe(6);
+        expect(isoDayOfWeek('2026-03-08')).toBe(7);
+    });
+});
+
+describe('isoWeekNumber', () => {
+    // Expected values from Postgres: select extract(week from date '...')
+    it.each([
+        ['2025-12-28', 52], // Sunday before the first Thursday of 2026
+        ['2025-12-29', 1],
+        ['2026-01-01', 1],
+        ['2026-03-09', 11],
+        ['2026-12-31', 53],
+        ['2027-01-03', 53], // Still the last week of 2026
+        ['2027-01-04', 1],
+        ['2021-01-03', 53]
+    ])('%s is week %i', (date, week) => {
+        expect(isoWeekNumber(date)).toBe(week);
+    });
+});
+
+describe('getActiveTemplateSet', () => {
+    const byDefault = set('default', { isDefault: true });
+    const odd = set('odd', { weekRotation: 'odd' });
+    const even = set('even', { weekRotation: 'even' });
+    const summer = set('summer', { validFrom: '2026-07-01', validTo: '2026-08-31' });
+
+    it('follows the week parity, as active_meal_template() does', () => {
+        const sets = [byDefault, odd, even];
+        expect(getActiveTemplateSet(sets, 'u1', '2026-03-09')?.id).toBe('odd'); // Week 11
+        expect(getActiveTemplateSet(sets, 'u1', '2026-03-16')?.id).toBe('even'); // Week 12
+        // Weeks 53 and 1 are both odd, so the odd set runs two weeks in a row
+        expect(getActiveTemplateSet(sets, 'u1', '2026-12-31')?.id).toBe('odd');
+        expect(getActiveTemplateSet(sets, 'u1', '2027-01-04')?.id).toBe('odd');
+    });
+
+    it('prefers named, then dated, then rotating, then newer sets', () => {
+        expect(getActiveTemplateSet([byDefault, set('named')], 'u1', '2026-03-09')?.id).toBe('named');
+        expect(getActiveTemplateSet([odd, summer], 'u1', '2026-07-06')?.id).toBe('summer');
+        expect(getActiveTemplateSet([odd, summer], 'u1', '2026-09-07')?.id).toBe('odd');
+        expect(getActiveTemplateSet([set('all'), odd], 'u1', '2026-03-09')?.id).toBe('odd');
+        expect(getActiveTemplateSet([set('old'), set('new', { createdAt: '2026-02-01T00:00:00Z' })], 'u1', '2026-03-09')?.id).toBe('new');
+    });
+
+    it('only looks at the user\'s own sets', () => {
+        expect(getActiveTemplateSet([set('other', { userId: 'u2' })], 'u1', '2026-03-09')).toBeUndefined();
+    });
+});
+
+describe('findTemplateForDate', () => {
+    it('picks the row for the weekday and meal of the active set', () => {
+        const templates: MealTemplate[] = [
+            { id: 't1', userId: 'u1', templateId: 'odd', dayOfWeek: 1, mealType: 'lunch', option: 'tupper', isBag: false },
+            { id: 't2', userId: 'u1', templateId: 'even', dayOfWeek: 1, mealType: 'lunch', option: 'standard', isBag: false }
+        ];
+        const sets = [set('odd', { weekRotation: 'odd' }), set('even', { weekRotation: 'even' })];
+        expect(findTemplateForDate(sets, templates, 'u1', '2026-03-09', 'lunch')?.option).toBe('tupper');
+        expect(findTemplateForDate(sets, templates, 'u1', '2026-03-16', 'lunch')?.option).toBe('standard');
+        expect(findTemplateForDate(sets, templates, 'u1', '2026-03-16', 'dinner')).toBeUndefined();
+    });
+});
@@ -0,0 +1,61 @@
+import { MealTemplate, MealTemplateSet } from '../types';
+
+const toUtc = (date: string) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d));
+};
+
+// 1 (Mon) - 7 (Sun), the convention meal_templates uses
+export const isoDayOfWeek = (date: string): number => toUtc(date).getUTCDay() || 7;
+
+// ISO 8601 week number, the same as Postgres' extract(week from ...)
+export const isoWeekNumber = (date: string): number => {
+    const d = toUtc(date);
+    d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7)); // Thursday of this week
+    const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+    return Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+};
+
+const appliesOn = (set: MealTemplateSet, date: string): boolean => {
+    if (set.validFrom && date < set.validFrom) return false;
+    if (set.validTo && date > set.validTo) return false;
+    if (set.weekRotation === 'all') return true;
+    return (isoWeekNumber(date) % 2 === 1) === (set.weekRotation === 'odd');
+};
+
+const specificity = (set: MealTemplateSet): number[] => [
+    set.isDefault ? 0 : 1,
+    set.validFrom || set.validTo ? 1 : 0,
+    set.weekRotation !== 'all' ? 1 : 0
+];
+
+/**
+ * The user's set in force on a date: named sets beat the default, dated sets beat undated ones,
+ * rotating sets beat every-week ones, and the newest wins a tie.
+ * Keep in sync with active_meal_template() in migrations/meal_template_sets.sql.
+ */
+export const getActiveTemplateSet = (sets: MealTemplateSet[], userId: string, date: string): MealTemplateSet | undefined =>
+    sets
+        .filter(s => s.userId === userId && appliesOn(s, date))
+        .sort((a, b) => {
+            const sa = specificity(a);
+            const sb = specificity(b);
+            for (let i = 0; i < sa.length; i++) {
+                if (sa[i] !== sb[i]) return sb[i] - sa[i];
+            }
+            return b.createdAt.localeCompare(a.createdAt);
+        })[0];
+
+export const findTemplateForDate = (
+    sets: MealTemplateSet[],
+    templates: MealTemplate[],
+    userId: string,
+    date: string,
+    mealType: string
+): MealTemplate | undefined => {
+    const active = getActiveTemplateSet(sets, userId, date);
+    if (!active) return undefined;
+
+    const dayOfWeek = isoDayOfWeek(date);
+    return templates.find(t => t.templateId === active.id && t.dayOfWeek === dayOfWeek && t.mealType === mealType);
+};
@@ -0,0 +1,60 @@
+import { MealOrder, MenuCourse, MenuDish, User } from '../types';
+import { getActiveAllergens } from './allergens';
+
+export const MENU_COURSES: { id: MenuCourse; label: string }[] = [
+    { id: 'starter', label: 'Primero' },
+    { id: 'main', label: 'Segundo' },
+    { id: 'dessert', label: 'Postre' },
+];
+
+export const courseLabel = (course: MenuCourse): string =>
+    MENU_COURSES.find(c => c.id === course)?.label || course;
+
+// Dishes of one meal in serving order
+export const dishesFor = (dishes: MenuDish[], date: string, mealType: string): MenuDish[] =>
+    dishes
+        .filter(d => d.date === date && d.mealType === mealType)
+        .sort((a, b) =>
+            MENU_COURSES.findIndex(c => c.id === a.course) - MENU_COURSES.findIndex(c => c.id === b.course) ||
+            a.sortOrder - b.sortOrder
+        );
+
+// Allergens of the dish the diner has to avoid
+export const dishConflicts = (dish: MenuDish, allergens: string[]): string[] =>
+    dish.allergens.filter(a => allergens.includes(a));
+
+export interface MenuConflict {
+    dish: MenuDish;
+    userId: string;
+    userName: string;
+    allergens: string[];
+}
+
+/**
+ * Residents who eat a meal (any option but 'skip') and whose diet, on that day,
+ * excludes an allergen in one of its dishes.
+ */
+export const findMenuConflicts = (
+    dishes: MenuDish[],
+    plans: Record<string, (MealOrder & { userName: string })[]>,
+    profiles: Map<string, User>
+): MenuConflict[] => {
+    const conflicts: MenuConflict[] = [];
+
+    dishes.forEach(dish => {
+        if (dish.allergens.length === 0) return;
+
+        (plans[dish.date] || [])
+            .filter(order => order.mealType === dish.mealType && order.option !== 'skip' && order.option !== 'no')
+            .forEach(order => {
+                const profile = profiles.get(order.userId);
+                if (!profile) return;
+                const allergens = dishConflicts(dish, getActiveAllergens(profile, dish.date));
+                if (allergens.length > 0) {
+                    conflicts.push({ dish, userId: order.userId, userName: order.userName, allergens });
+                }
+            });
+    });
+
+    return conflicts;
+};
@@ -0,0 +1,38 @@
+import { PantryItem } from '../types';
+import { DayForecast } from './mealForecast';
+
+export interface ShoppingLine {
+    item: PantryItem;
+    expectedUse: number; // Over the forecast period
+    quantity: number; // To buy
+    isLow: boolean; // Already under its minimum
+}
+
+export const isLowStock = (item: PantryItem): boolean => item.stock < item.minStock;
+
+// Rounded up to one decimal so the list never suggests buying less than needed
+const roundUp = (value: number) => Math.ceil(value * 10) / 10;
+
+/**
+ * What to buy so that, after the forecast period, every item is still at its minimum.
+ * Items with a quantity per diner use the forecast headcount of the meals they are used in.
+ */
+export const buildShoppingList = (items: PantryItem[], forecast: DayForecast[]): ShoppingLine[] =>
+    items
+        .map(item => {
+            const diners = item.perServing
+                ? forecast.reduce((sum, day) => sum + item.mealTypes.reduce((s, mealType) => s + day.meals[mealType].total, 0), 0)
+                : 0;
+            const expectedUse = roundUp(diners * (item.perServing || 0));
+            const quantity = roundUp(Math.max(0, item.minStock + expectedUse - item.stock));
+            return { item, expectedUse, quantity, isLow: isLowStock(item) };
+        })
+        .filter(line => line.quantity > 0)
+        .sort((a, b) =>
+            Number(b.isLow) - Number(a.isLow) ||
+            (a.item.category || '').localeCompare(b.item.category || '') ||
+            a.item.name.localeCompare(b.item.name)
+        );
+
+export const formatQuantity = (value: number, unit: string): string =>
+    `${Number.isInteger(value) ? value : value.toFixed(1)} ${unit}`;
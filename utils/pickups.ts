@@ -0,0 +1,48 @@
+import { MealOption, MealOrder } from '../types';
+import { FORECAST_MEALS } from './mealForecast';
+import { getMealOption } from './mealOptions';
+
+export interface PickupEntry {
+    userId: string;
+    userName: string;
+    mealType: MealOrder['mealType'];
+    option: string;
+    bagTime?: string; // HH:mm
+}
+
+export interface PickupSlot {
+    time?: string; // Missing for bags without a pickup time
+    entries: PickupEntry[];
+}
+
+/**
+ * Bags and tuppers of one day grouped by pickup time, earliest first.
+ * Takeaway options are the ones the kitchen prepares in advance (`needsPrep`); tuppers are not bags.
+ * Bags without a time go last, since they can be collected whenever.
+ */
+export const buildPickupBoard = (plan: (MealOrder & { userName: string })[], options: MealOption[]): PickupSlot[] => {
+    const slots = new Map<string, PickupEntry[]>();
+
+    plan
+        .filter(o => o.option !== 'skip' && (o.isBag || getMealOption(options, o.option).needsPrep))
+        .forEach(o => {
+            const key = o.bagTime || '';
+            slots.set(key, [...(slots.get(key) || []), {
+                userId: o.userId,
+                userName: o.userName,
+                mealType: o.mealType,
+                option: o.option,
+                bagTime: o.bagTime || undefined
+            }]);
+        });
+
+    return [...slots.entries()]
+        .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+        .map(([time, entries]) => ({
+            time: time || undefined,
+            entries: entries.sort((a, b) =>
+                FORECAST_MEALS.indexOf(a.mealType) - FORECAST_MEALS.indexOf(b.mealType) ||
+                a.userName.localeCompare(b.userName)
+            )
+        }));
+};
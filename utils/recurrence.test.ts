@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, format } from 'date-fns';
+import { expandRecurrence, isRecurrenceTruncated, MAX_OCCURRENCES } from './recurrence';
+
+// Monday 2 March 2026, 09:00 to 11:00 on the local clock
+const start = new Date(2026, 2, 2, 9, 0);
+const end = new Date(2026, 2, 2, 11, 0);
+
+describe('expandRecurrence', () => {
+    it('keeps generating weekly occurrences past a year when count asks for them', () => {
+        const occurrences = expandRecurrence(start, end, { frequency: 'weekly', count: MAX_OCCURRENCES });
+
+        expect(occurrences).toHaveLength(MAX_OCCURRENCES);
+        expect(occurrences[MAX_OCCURRENCES - 1].start).toEqual(new Date(2026, 2, 2 + 7 * (MAX_OCCURRENCES - 1), 9, 0));
+    });
+
+    it('caps counts above MAX_OCCURRENCES', () => {
+        expect(expandRecurrence(start, end, { frequency: 'daily', count: 500 })).toHaveLength(MAX_OCCURRENCES);
+    });
+
+    it('stops at until', () => {
+        const occurrences = expandRecurrence(start, end, { frequency: 'custom', daysOfWeek: [1, 3], until: '2026-03-11' });
+
+        expect(occurrences.map(o => o.start.getDate())).toEqual([2, 4, 9, 11]);
+        expect(occurrences.every(o => o.end.getHours() === 11)).toBe(true);
+    });
+
+    it('yields nothing for a custom rule without days', () => {
+        expect(expandRecurrence(start, end, { frequency: 'custom', daysOfWeek: [] })).toEqual([]);
+    });
+});
+
+describe('isRecurrenceTruncated', () => {
+    it('flags an until date with more than MAX_OCCURRENCES dates', () => {
+        expect(isRecurrenceTruncated(start, end, { frequency: 'daily', until: '2026-12-31' })).toBe(true);
+        expect(expandRecurrence(start, end, { frequency: 'daily', until: '2026-12-31' })).toHaveLength(MAX_OCCURRENCES);
+    });
+
+    it('does not flag a series that fits', () => {
+        expect(isRecurrenceTruncated(start, end, { frequency: 'weekly', until: '2026-12-31' })).toBe(false);
+        expect(isRecurrenceTruncated(start, end, { frequency: 'daily', count: MAX_OCCURRENCES })).toBe(false);
+    });
+
+    it('flags a series with exactly one date too many', () => {
+        const until = format(addDays(start, MAX_OCCURRENCES), 'yyyy-MM-dd');
+        expect(isRecurrenceTruncated(start, end, { frequency: 'daily', until })).toBe(true);
+    });
+});
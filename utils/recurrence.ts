@@ -0,0 +1,69 @@
+import { addDays, areIntervalsOverlapping, differenceInMinutes, addMinutes, endOfDay, parseISO } from 'date-fns';
+import { RecurrenceRule, Reservation } from '../types';
+
+// Hard cap so a missing until/count can never generate an unbounded series
+export const MAX_OCCURRENCES = 60;
+
+export interface Occurrence {
+    start: Date;
+    end: Date;
+}
+
+// 1=Monday ... 7=Sunday (same convention as meal templates)
+const isoDayOfWeek = (date: Date): number => {
+    const day = date.getDay();
+    return day === 0 ? 7 : day;
+};
+
+const generate = (start: Date, end: Date, rule: RecurrenceRule, limit: number): Occurrence[] => {
+    const durationMinutes = differenceInMinutes(end, start);
+    const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+
+    const matchesDay = (date: Date): boolean => {
+        if (rule.frequency === 'daily') return true;
+        if (rule.frequency === 'weekly') return isoDayOfWeek(date) === isoDayOfWeek(start);
+        return (rule.daysOfWeek || []).includes(isoDayOfWeek(date));
+    };
+
+    const occurrences: Occurrence[] = [];
+
+    // Walk day by day. Every rule matches at least once a week, so `limit` weeks always
+    // reach `limit` occurrences (a custom rule with no days yields none)
+    for (let i = 0; i < limit * 7 && occurrences.length < limit; i++) {
+        const candidate = addDays(start, i);
+        if (until && candidate > until) break;
+        if (!matchesDay(candidate)) continue;
+        occurrences.push({ start: candidate, end: addMinutes(candidate, durationMinutes) });
+    }
+
+    return occurrences;
+};
+
+/**
+ * Expand a recurrence rule into concrete occurrences, at most MAX_OCCURRENCES.
+ * Occurrences keep the time of day and duration of the given start/end. For 'custom'
+ * rules the first slot is only kept if its weekday is one of the selected days.
+ */
+export const expandRecurrence = (start: Date, end: Date, rule: RecurrenceRule): Occurrence[] =>
+    generate(start, end, rule, Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES));
+
+// Whether the rule asks for more than MAX_OCCURRENCES (e.g. an until date far ahead), so
+// expandRecurrence only returns the first ones
+export const isRecurrenceTruncated = (start: Date, end: Date, rule: RecurrenceRule): boolean =>
+    generate(start, end, rule, Math.min(rule.count || MAX_OCCURRENCES + 1, MAX_OCCURRENCES + 1)).length > MAX_OCCURRENCES;
+
+/**
+ * Find the existing reservation (if any) that clashes with an occurrence.
+ * Cancelled reservations and the ids in `ignoreIds` are skipped.
+ */
+export const findConflict = (occurrence: Occurrence, reservations: Reservation[], ignoreIds: string[] = []): Reservation | undefined => {
+    return reservations.find(res => {
+        if (res.status === 'CANCELLED') return false;
+        if (ignoreIds.includes(res.id)) return false;
+
+        return areIntervalsOverlapping(
+            occurrence,
+            { start: parseISO(res.startTime), end: parseISO(res.endTime) }
+        );
+    });
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Car, CarStatus, Reservation } from '../types';
+import { computeFleetStats, reservationsToCsv } from './vehicleAnalytics';
+
+const car = (id: string, name: string): Car => ({
+    id, name, plate: `${id.toUpperCase()}-0000`, imageUrl: '', status: CarStatus.AVAILABLE, fuelType: 'gasoline', inWorkshop: false
+});
+
+// Local wall-clock times in March 2026
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute).toISOString();
+
+const reservation = (id: string, overrides: Partial<Reservation>): Reservation => ({
+    id,
+    carId: 'a',
+    userId: 'u1',
+    userName: 'Lucía',
+    startTime: at(2, 10),
+    endTime: at(2, 12),
+    status: 'COMPLETED',
+    ...overrides
+});
+
+const cars = [car('a', 'Corolla'), car('b', 'Clio')];
+
+// Two full weeks, Monday 2 to Monday 16 March
+const range = { from: new Date(2026, 2, 2), to: new Date(2026, 2, 16) };
+
+const reservations: Reservation[] = [
+    reservation('r1', {}), // Monday 10:00-12:00
+    reservation('r2', { userId: 'u2', userName: 'Marcos', startTime: at(3, 9, 30), endTime: at(3, 10, 30), isForGuest: true, guestName: ' Ana ' }),
+    reservation('r3', { carId: 'b', startTime: at(4, 8), endTime: at(4, 9), status: 'CANCELLED' }),
+    reservation('r4', { startTime: at(15, 23), endTime: at(16, 1), status: 'ACTIVE' }), // Runs past the range
+    reservation('r5', { startTime: at(1, 10), endTime: at(1, 11) }) // Starts before the range
+];
+
+describe('computeFleetStats', () => {
+    const stats = computeFleetStats(cars, reservations, range);
+
+    it('counts the bookings that start in the range', () => {
+        expect(stats.totalBookings).toBe(4);
+        expect(stats.cancelledBookings).toBe(1);
+        expect(stats.cancellationRate).toBe(0.25);
+    });
+
+    it('leaves cancelled bookings out of the usage figures', () => {
+        expect(stats.averageMinutes).toBe(100); // (120 + 60 + 120) / 3
+        expect(stats.guestBookings).toBe(1);
+        expect(stats.guestShare).toBeCloseTo(1 / 3);
+    });
+
+    it('only counts the booked time inside the range and each week', () => {
+        const [corolla, clio] = stats.utilization;
+        expect(corolla.carId).toBe('a');
+        expect(corolla.totalHours).toBe(4);
+        expect(corolla.ratio).toBeCloseTo(4 / (14 * 24));
+        expect(corolla.weeks.map(w => w.hours)).toEqual([3, 1, 0]);
+        expect(corolla.weeks[0].ratio).toBeCloseTo(3 / (7 * 24));
+        expect(clio).toMatchObject({ carId: 'b', totalHours: 0, ratio: 0 });
+    });
+
+    it('marks every hour a booking is in progress in the heatmap', () => {
+        const marked = stats.heatmap.flatMap((hours, day) => hours.flatMap((count, hour) => count > 0 ? [`${day}:${hour}=${count}`] : []));
+        // Monday 10-11 and 00 (r4 ends Monday 01:00), Tuesday 9-10 (starts at 9:30), Sunday 23
+        expect(marked).toEqual(['0:0=1', '0:10=1', '0:11=1', '1:9=1', '1:10=1', '6:23=1']);
+    });
+
+    it('ranks residents and guests', () => {
+        expect(stats.topUsers[0]).toMatchObject({ userId: 'u1', bookings: 2, hours: 4 });
+        expect(stats.topGuests).toEqual([{ name: 'Ana', bookings: 1 }]);
+    });
+
+    it('returns zero rates for an empty range', () => {
+        const empty = computeFleetStats(cars, [], range);
+        expect(empty).toMatchObject({ totalBookings: 0, cancellationRate: 0, averageMinutes: 0, guestShare: 0 });
+    });
+});
+
+describe('reservationsToCsv', () => {
+    it('writes one row per booking in the range, in start order', () => {
+        const lines = reservationsToCsv(cars, [reservations[1], reservations[0], reservations[4]], range).split('\n');
+        expect(lines[0]).toBe('Coche,Matrícula,Usuario,Invitado,Inicio,Fin,Horas,Estado');
+        expect(lines.slice(1)).toEqual([
+            'Corolla,A-0000,Lucía,,2026-03-02 10:00,2026-03-02 12:00,2.00,COMPLETED',
+            'Corolla,A-0000,Marcos, Ana ,2026-03-03 09:30,2026-03-03 10:30,1.00,COMPLETED'
+        ]);
+    });
+});
@@ -0,0 +1,144 @@
+import { addHours, addWeeks, differenceInMinutes, eachWeekOfInterval, format, max, min, parseISO, startOfHour } from 'date-fns';
+import { Car, Reservation } from '../types';
+import { toCsv } from './csv';
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+}
+
+export interface CarUtilization {
+    carId: string;
+    carName: string;
+    weeks: { weekStart: Date; hours: number; ratio: number }[];
+    totalHours: number;
+    ratio: number; // Share of the whole range the car was booked (0-1)
+}
+
+export interface UserUsage {
+    userId: string;
+    userName: string;
+    bookings: number;
+    hours: number;
+}
+
+export interface FleetStats {
+    totalBookings: number;
+    cancelledBookings: number;
+    cancellationRate: number;
+    averageMinutes: number;
+    guestBookings: number;
+    guestShare: number;
+    utilization: CarUtilization[];
+    heatmap: number[][]; // [dayOfWeek 0=Monday..6=Sunday][hour 0..23] = bookings in progress
+    topUsers: UserUsage[];
+    topGuests: { name: string; bookings: number }[];
+}
+
+// Booked time of a reservation that falls inside [from, to)
+const overlapMinutes = (res: Reservation, from: Date, to: Date): number => {
+    const start = max([parseISO(res.startTime), from]);
+    const end = min([parseISO(res.endTime), to]);
+    return Math.max(0, differenceInMinutes(end, start));
+};
+
+const mondayIndex = (date: Date): number => (date.getDay() + 6) % 7;
+
+/**
+ * Usage figures for the reservations that start inside the range.
+ * Cancelled bookings only count towards the cancellation rate.
+ */
+export const computeFleetStats = (cars: Car[], reservations: Reservation[], range: DateRange): FleetStats => {
+    const inRange = reservations.filter(res => {
+        const start = parseISO(res.startTime);
+        return start >= range.from && start < range.to;
+    });
+    const used = inRange.filter(res => res.status !== 'CANCELLED');
+    const cancelledBookings = inRange.length - used.length;
+
+    const totalMinutes = used.reduce((sum, res) => sum + differenceInMinutes(parseISO(res.endTime), parseISO(res.startTime)), 0);
+    const guestBookings = used.filter(res => res.isForGuest).length;
+
+    // Utilization per car per week (weeks start on Monday)
+    const weekStarts = eachWeekOfInterval({ start: range.from, end: range.to }, { weekStartsOn: 1 });
+    const rangeHours = Math.max(1, differenceInMinutes(range.to, range.from) / 60);
+    const utilization: CarUtilization[] = cars.map(car => {
+        const carReservations = used.filter(res => res.carId === car.id);
+        const weeks = weekStarts.map(weekStart => {
+            const from = max([weekStart, range.from]);
+            const to = min([addWeeks(weekStart, 1), range.to]);
+            const availableHours = Math.max(1, differenceInMinutes(to, from) / 60);
+            const hours = carReservations.reduce((sum, res) => sum + overlapMinutes(res, from, to), 0) / 60;
+            return { weekStart, hours, ratio: Math.min(1, hours / availableHours) };
+        });
+        const totalHours = carReservations.reduce((sum, res) => sum + overlapMinutes(res, range.from, range.to), 0) / 60;
+        return { carId: car.id, carName: car.name, weeks, totalHours, ratio: Math.min(1, totalHours / rangeHours) };
+    }).sort((a, b) => b.ratio - a.ratio);
+
+    // Peak hours: every hour a booking is in progress counts once
+    const heatmap = Array.from({ length: 7 }, () => Array(24).fill(0));
+    used.forEach(res => {
+        const end = parseISO(res.endTime);
+        for (let slot = startOfHour(parseISO(res.startTime)); slot < end; slot = addHours(slot, 1)) {
+            heatmap[mondayIndex(slot)][slot.getHours()]++;
+        }
+    });
+
+    // Top residents (guest bookings count towards the resident who booked them)
+    const users = new Map<string, UserUsage>();
+    used.forEach(res => {
+        const entry = users.get(res.userId) || { userId: res.userId, userName: res.userName, bookings: 0, hours: 0 };
+        entry.bookings++;
+        entry.hours += differenceInMinutes(parseISO(res.endTime), parseISO(res.startTime)) / 60;
+        users.set(res.userId, entry);
+    });
+
+    const guests = new Map<string, number>();
+    used.filter(res => res.isForGuest && res.guestName).forEach(res => {
+        const name = res.guestName!.trim();
+        guests.set(name, (guests.get(name) || 0) + 1);
+    });
+
+    return {
+        totalBookings: inRange.length,
+        cancelledBookings,
+        cancellationRate: inRange.length > 0 ? cancelledBookings / inRange.length : 0,
+        averageMinutes: used.length > 0 ? totalMinutes / used.length : 0,
+        guestBookings,
+        guestShare: used.length > 0 ? guestBookings / used.length : 0,
+        utilization,
+        heatmap,
+        topUsers: [...users.values()].sort((a, b) => b.bookings - a.bookings || b.hours - a.hours).slice(0, 10),
+        topGuests: [...guests.entries()].map(([name, bookings]) => ({ name, bookings })).sort((a, b) => b.bookings - a.bookings).slice(0, 5)
+    };
+};
+
+// One row per reservation in the range, ready for spreadsheet analysis
+export const reservationsToCsv = (cars: Car[], reservations: Reservation[], range: DateRange): string => {
+    const carById = new Map(cars.map(car => [car.id, car]));
+
+    const header = ['Coche', 'Matrícula', 'Usuario', 'Invitado', 'Inicio', 'Fin', 'Horas', 'Estado'];
+    const rows = reservations
+        .filter(res => {
+            const start = parseISO(res.startTime);
+            return start >= range.from && start < range.to;
+        })
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))
+        .map(res => {
+            const car = carById.get(res.carId);
+            const start = parseISO(res.startTime);
+            const end = parseISO(res.endTime);
+            return [
+                car?.name || '',
+                car?.plate || '',
+                res.userName,
+                res.isForGuest ? res.guestName || '' : '',
+                format(start, 'yyyy-MM-dd HH:mm'),
+                format(end, 'yyyy-MM-dd HH:mm'),
+                (differenceInMinutes(end, start) / 60).toFixed(2),
+                res.status
+            ];
+        });
+
+    return toCsv([header, ...rows]);
+};